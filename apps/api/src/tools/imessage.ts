@@ -1,11 +1,105 @@
-import { formatMessage, IMessageClient } from "@macos-tools/imessage-sdk";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	type ContactRecord,
+	ContactsDatabaseClient,
+	normalizeContactAddress,
+} from "@macos-tools/contacts-sdk";
+import {
+	type ConversationSession,
+	type DayRange,
+	type EnrichedMessage,
+	EXPORT_FILE_EXTENSIONS,
+	type ExportFormat,
+	type FormatMessageOptions,
+	formatHandle,
+	formatMessage,
+	formatReaction,
+	formatSender,
+	groupMessageContexts,
+	IMessageClient,
+	type MessageCondition,
+	type ResponseTimeStats,
+} from "@macos-tools/imessage-sdk";
 import { createLogger } from "@macos-tools/logger";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod/v3";
-import { formatToolError } from "./utils";
+import { formatToolError, parseDateArgs } from "./utils";
 
 const logger = createLogger({ service: "mcp-server:imessage" });
 
+/**
+ * Directory imessage_export_chat writes to
+ */
+const EXPORT_DIRECTORY =
+	process.env.IMESSAGE_EXPORT_DIR ||
+	path.join(os.homedir(), "Documents", "iMessage Exports");
+
+/**
+ * Largest attachment imessage_get_attachment returns inline
+ */
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * How long the Contacts names shown for senders are reused before the
+ * AddressBook is read again
+ */
+const CONTACT_NAMES_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Image types MCP clients render as image content; others are returned as
+ * embedded resources
+ */
+const INLINE_IMAGE_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+];
+
+/**
+ * Structured message condition for imessage_search_messages; mirrors the
+ * SDK's MessageCondition with dates as ISO 8601 strings
+ */
+const messageConditionSchema: z.ZodType<MessageCondition> = z.lazy(() =>
+	z.union([
+		z.object({
+			type: z.literal("handle"),
+			handles: z.array(z.union([z.number(), z.string()])),
+		}),
+		z.object({ type: z.literal("chat"), chatIds: z.array(z.number()) }),
+		z.object({
+			type: z.literal("identity"),
+			identityIds: z.array(z.string()),
+		}),
+		z.object({
+			type: z.literal("text"),
+			match: z.enum(["contains", "notContains", "regex"]),
+			value: z.string(),
+			caseSensitive: z.boolean().optional(),
+		}),
+		z.object({
+			type: z.literal("attachment"),
+			mimeTypes: z.array(z.string()).optional(),
+		}),
+		z.object({ type: z.literal("fromMe") }),
+		z.object({ type: z.literal("service"), services: z.array(z.string()) }),
+		z.object({
+			type: z.literal("date"),
+			after: z.string().optional(),
+			before: z.string().optional(),
+		}),
+		z.object({ type: z.literal("edited") }),
+		z.object({ type: z.literal("unsent") }),
+		z.object({
+			type: z.enum(["and", "or"]),
+			conditions: z.array(messageConditionSchema),
+		}),
+		z.object({ type: z.literal("not"), condition: messageConditionSchema }),
+	]),
+);
+
 /**
  * Formats a chat for display
  */
@@ -19,11 +113,163 @@ function formatChat(chat: {
 	return `Chat #${chat.ROWID}: ${name} (${chat.service_name})`;
 }
 
+/**
+ * Names senders after their Contacts card, read straight from the
+ * AddressBook database. Without Full Disk Access or any AddressBook, senders
+ * stay phone numbers and emails.
+ */
+function createContactNameResolver(): NonNullable<
+	FormatMessageOptions["resolveName"]
+> {
+	let lookup: Map<string, ContactRecord> | null = null;
+	let loadedAt = 0;
+
+	const load = (): Map<string, ContactRecord> => {
+		let contacts: ContactsDatabaseClient | null = null;
+		try {
+			contacts = new ContactsDatabaseClient();
+			return contacts.getAddressLookup();
+		} catch (error) {
+			logger.info("Contacts names unavailable, showing raw handles", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return new Map();
+		} finally {
+			contacts?.close();
+		}
+	};
+
+	return (address) => {
+		if (!lookup || Date.now() - loadedAt > CONTACT_NAMES_TTL_MS) {
+			lookup = load();
+			loadedAt = Date.now();
+		}
+		return lookup.get(normalizeContactAddress(address))?.fullName;
+	};
+}
+
+/**
+ * Formats a message followed by its earlier versions and current tapbacks,
+ * one per line
+ */
+function formatMessageWithReactions(
+	msg: EnrichedMessage,
+	options: FormatMessageOptions,
+): string {
+	const edits = (msg.edits ?? [])
+		.slice(0, -1)
+		.map(
+			(edit) =>
+				`    ✎ Previously (${edit.date.toISOString()}): ${edit.text ?? ""}`,
+		);
+	const attachments = (msg.attachments ?? [])
+		.filter((attachment) => !attachment.hide_attachment)
+		.map(
+			(attachment) =>
+				`    📎 Attachment #${attachment.ROWID}: ${attachment.transfer_name ?? "unnamed"}` +
+				(attachment.mime_type ? ` (${attachment.mime_type})` : ""),
+		);
+	const reactions = (msg.reactions ?? [])
+		.filter((reaction) => !reaction.removed)
+		.map((reaction) => `    ${formatReaction(reaction, options)}`);
+	return [
+		formatMessage(msg, options),
+		...edits,
+		...attachments,
+		...reactions,
+	].join("\n");
+}
+
+/**
+ * Describes how to reach the pages around a page, for tool output
+ */
+function formatPageCursors(
+	page: { nextCursor: string | null; prevCursor: string | null },
+	older: string,
+	newer: string,
+): string {
+	const lines: string[] = [];
+	if (page.nextCursor) {
+		lines.push(`${older}: call again with cursor "${page.nextCursor}"`);
+	}
+	if (page.prevCursor) {
+		lines.push(`${newer}: call again with cursor "${page.prevCursor}"`);
+	}
+	return lines.length > 0 ? `\n\n${lines.join("\n")}` : "";
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Formats a duration in milliseconds, e.g. "4m", "2h 5m" or "3d 1h"
+ */
+function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / 60_000);
+	if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ${minutes % 60}m`;
+	return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Formats median and p90 reply delays
+ */
+function formatResponseTimes(stats: ResponseTimeStats): string {
+	if (stats.median === null || stats.p90 === null) return "no replies";
+	return `median ${formatDuration(stats.median)}, p90 ${formatDuration(stats.p90)} (${stats.count} replies)`;
+}
+
+/**
+ * Formats a range of local calendar days
+ */
+function formatDayRange(range: DayRange): string {
+	const day = (date: Date) =>
+		`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+	const span =
+		range.days === 1
+			? day(range.start)
+			: `${day(range.start)} to ${day(range.end)}`;
+	return `${span} (${range.days} day${range.days === 1 ? "" : "s"})`;
+}
+
+/**
+ * Formats a local date and time with its weekday, e.g. "Fri 2024-06-07 20:15"
+ */
+function formatLocalTime(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${WEEKDAYS[date.getDay()]} ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Formats a conversation session as a header line and its opening message
+ */
+function formatSession(
+	session: ConversationSession,
+	chatName: string,
+	options: FormatMessageOptions,
+): string {
+	const speakers = session.speakers.map(
+		(handle) => options.resolveName?.(handle.id) || formatHandle(handle.id),
+	);
+	if (session.sentCount > 0) speakers.unshift("Me");
+	return [
+		`${chatName} (chat #${session.chatId}): ${formatLocalTime(session.start)} → ${formatLocalTime(session.end)} ` +
+			`(${formatDuration(session.end.getTime() - session.start.getTime())}, ${session.messageCount} message(s))`,
+		`  Speakers: ${speakers.join(", ") || "none"}`,
+		`  Opened with: ${formatMessage(session.openingMessage, options)}`,
+		`  Messages #${session.firstMessageId} to #${session.lastMessageId}`,
+	].join("\n");
+}
+
 /**
  * Registers iMessage-related tools with the MCP server
  */
 export function registerIMessageTools(server: McpServer): void {
 	const imessageClient = new IMessageClient();
+	const formatOptions: FormatMessageOptions = {
+		resolveName: createContactNameResolver(),
+	};
 
 	// Tool 1: Search messages
 	server.registerTool(
@@ -33,12 +279,40 @@ export function registerIMessageTools(server: McpServer): void {
 			description:
 				"Search iMessage conversations by text content, contact, date range, or other filters. " +
 				"Returns matching messages with sender, timestamp, and content. " +
-				"Use this to find specific messages or conversations.",
+				"Use this to find specific messages or conversations. " +
+				"When the full-text search index has been built, results are ranked by relevance. " +
+				"Set contextLines to see the conversation around each result. " +
+				"For queries the flat filters cannot express (several contacts or chats, OR / NOT, " +
+				"regular expressions, attachment types), pass a structured `where` condition.",
 			inputSchema: {
 				searchText: z
 					.string()
 					.optional()
-					.describe("Text to search for in message content"),
+					.describe(
+						"Text to search for in message content. Every word must match, punctuation included",
+					),
+				ftsQuery: z
+					.boolean()
+					.optional()
+					.describe(
+						"Read searchText as full-text index syntax: " +
+							'"exact phrases", prefix* matching and AND / OR / NOT (default: false)',
+					),
+				searchMode: z
+					.enum(["exact", "folded", "regex"])
+					.optional()
+					.describe(
+						"How searchText matches: 'exact' (default) substring, 'folded' ignoring case " +
+							"and accents, or 'regex' for a regular expression such as 'meet at \\d+'. " +
+							"'folded' and 'regex' bypass the search index, and 'folded' cannot be combined with where",
+					),
+				searchRegex: z
+					.string()
+					.optional()
+					.describe(
+						"Regular expression the message text must also match, ignoring case " +
+							"(e.g. '\\b1Z[0-9A-Z]{16}\\b' for UPS tracking numbers)",
+					),
 				contactIdentifier: z
 					.string()
 					.optional()
@@ -71,6 +345,23 @@ export function registerIMessageTools(server: McpServer): void {
 					.number()
 					.optional()
 					.describe("Maximum number of results to return (default: 50)"),
+				contextLines: z
+					.number()
+					.optional()
+					.describe(
+						"Messages to show before and after each result, grouped by chat with results marked '→' (default: 0)",
+					),
+				where: messageConditionSchema
+					.optional()
+					.describe(
+						"Structured condition ANDed with the other filters, newest first. Types: " +
+							"handle {handles: ids or addresses}, chat {chatIds}, identity {identityIds}, " +
+							"text {match: contains|notContains|regex, value, caseSensitive?}, " +
+							"attachment {mimeTypes?: e.g. 'image/*'}, fromMe, service {services}, " +
+							"date {after?, before?}, edited, unsent, and/or {conditions}, not {condition}. " +
+							'Example: {"type":"or","conditions":[{"type":"chat","chatIds":[12]},' +
+							'{"type":"attachment","mimeTypes":["image/*"]}]}',
+					),
 			},
 		},
 		async (args) => {
@@ -97,20 +388,81 @@ export function registerIMessageTools(server: McpServer): void {
 					}
 				}
 
-				const messages = imessageClient.getMessages({
-					searchText: args.searchText as string | undefined,
+				const parsed = parseDateArgs({
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { startDate, endDate } = parsed.dates;
+
+				const filter = {
 					handleId,
 					isFromMe: args.isFromMe as boolean | undefined,
 					service: args.service as string | undefined,
-					startDate: args.startDate
-						? new Date(args.startDate as string)
-						: undefined,
-					endDate: args.endDate ? new Date(args.endDate as string) : undefined,
+					startDate,
+					endDate,
+					searchMode: args.searchMode,
+					searchRegex: args.searchRegex,
 					limit: (args.limit as number) || 50,
-				});
+				};
+
+				// Prefer the full-text index, which also covers attributedBody-only text
+				const useIndex = Boolean(
+					args.searchText &&
+						!args.where &&
+						!args.searchMode &&
+						!args.searchRegex &&
+						imessageClient.hasSearchIndex(),
+				);
+				// Query conditions match like 'exact' or 'regex'; folding is not one of them
+				if (args.where && args.searchMode === "folded") {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "searchMode 'folded' cannot be combined with where. Use 'exact' or 'regex', or drop where",
+							},
+						],
+					};
+				}
+
+				let messages: EnrichedMessage[];
+				if (args.where) {
+					const query = imessageClient
+						.query({ where: args.where as MessageCondition })
+						.limit(filter.limit);
+					if (handleId !== undefined) query.from(handleId);
+					if (filter.isFromMe !== undefined) query.fromMe(filter.isFromMe);
+					if (filter.service) query.service(filter.service);
+					if (filter.startDate || filter.endDate) {
+						query.between(filter.startDate, filter.endDate);
+					}
+					if (args.searchText) {
+						query.text(
+							args.searchMode === "regex" ? "regex" : "contains",
+							args.searchText as string,
+						);
+					}
+					if (args.searchRegex) query.text("regex", args.searchRegex);
+					messages = query.all();
+				} else if (useIndex) {
+					imessageClient.updateSearchIndex();
+					messages = imessageClient
+						.searchMessages(args.searchText as string, {
+							...filter,
+							syntax: args.ftsQuery ? "fts" : "text",
+						})
+						.map((result) => result.message);
+				} else {
+					messages = imessageClient.getMessages({
+						...filter,
+						searchText: args.searchText as string | undefined,
+					});
+				}
 
 				logger.info("imessage_search_messages results", {
 					resultCount: messages.length,
+					useIndex,
 				});
 
 				if (messages.length === 0) {
@@ -124,8 +476,46 @@ export function registerIMessageTools(server: McpServer): void {
 					};
 				}
 
+				const contextLines = (args.contextLines as number | undefined) ?? 0;
+				if (contextLines > 0) {
+					const groups = groupMessageContexts(
+						messages.flatMap((msg) => {
+							const context = imessageClient.getMessageContext(msg.ROWID, {
+								before: contextLines,
+								after: contextLines,
+							});
+							return context ? [context] : [];
+						}),
+					);
+					const sections = groups.map((group) => {
+						const chat =
+							group.chatId !== null
+								? imessageClient.getChatById(group.chatId)
+								: null;
+						const windows = group.windows.map((window) => {
+							const lines = window.messages.map(
+								(msg) =>
+									`${window.hitIds.includes(msg.ROWID) ? "→" : " "} ${formatMessage(msg, formatOptions)}`,
+							);
+							if (window.hasEarlier) lines.unshift("  …");
+							if (window.hasLater) lines.push("  …");
+							return lines.join("\n");
+						});
+						return `${chat ? formatChat(chat) : "No chat"}\n${windows.join("\n\n")}`;
+					});
+
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Found ${messages.length} message(s) in ${groups.length} chat(s):\n\n${sections.join("\n\n")}`,
+							},
+						],
+					};
+				}
+
 				const formattedMessages = messages
-					.map((msg) => formatMessage(msg))
+					.map((msg) => formatMessage(msg, formatOptions))
 					.join("\n\n");
 
 				return {
@@ -151,21 +541,28 @@ export function registerIMessageTools(server: McpServer): void {
 			description:
 				"Get a list of recent iMessage conversations, ordered by most recent activity. " +
 				"Returns chat details including participants and the last message preview. " +
-				"Use this to see what conversations are active.",
+				"Use this to see what conversations are active. " +
+				"Results are paginated: pass the returned cursor to see older conversations.",
 			inputSchema: {
 				limit: z
 					.number()
 					.optional()
 					.describe("Maximum number of chats to return (default: 20)"),
+				cursor: z
+					.string()
+					.optional()
+					.describe("Page cursor returned by a previous call"),
 			},
 		},
 		async (args) => {
 			logger.info("imessage_get_recent_chats called", args);
 
 			try {
-				const chats = imessageClient.getRecentChats(
-					(args.limit as number) || 20,
-				);
+				const page = imessageClient.getRecentChatsPage({
+					limit: (args.limit as number) || 20,
+					cursor: args.cursor as string | undefined,
+				});
+				const chats = page.items;
 
 				logger.info("imessage_get_recent_chats results", {
 					resultCount: chats.length,
@@ -182,19 +579,24 @@ export function registerIMessageTools(server: McpServer): void {
 					};
 				}
 
+				// Last 3 messages of every chat for the preview, in one batch
+				const previews = imessageClient.getLatestMessagesForChats(
+					chats.map((chat) => chat.ROWID),
+					3,
+					["handle"],
+				);
+
 				const formattedChats = chats.map((chat) => {
-					const participants = imessageClient.getParticipantsForChat(
-						chat.ROWID,
-					);
-					const participantNames = participants.map((p) => p.id).join(", ");
+					const participantNames = chat.participants
+						.map((p) => p.id)
+						.join(", ");
 
-					// Get last 3 messages for preview
-					const lastMessages = imessageClient.getMessagesForChat(chat.ROWID, 3);
+					const lastMessages = previews.get(chat.ROWID) ?? [];
 					let messagesPreview = "";
 					if (lastMessages.length > 0) {
 						messagesPreview = "\n  Recent messages:";
 						for (const msg of lastMessages.reverse()) {
-							messagesPreview += `\n    ${formatMessage(msg)}`;
+							messagesPreview += `\n    ${formatMessage(msg, formatOptions)}`;
 						}
 					}
 
@@ -205,7 +607,9 @@ export function registerIMessageTools(server: McpServer): void {
 					content: [
 						{
 							type: "text",
-							text: `Recent chats (${chats.length}):\n\n${formattedChats.join("\n\n")}`,
+							text:
+								`Recent chats (${chats.length}):\n\n${formattedChats.join("\n\n")}` +
+								formatPageCursors(page, "Older chats", "More recent chats"),
 						},
 					],
 				};
@@ -224,13 +628,19 @@ export function registerIMessageTools(server: McpServer): void {
 			description:
 				"Get the full message history for a specific chat/conversation. " +
 				"Requires a chat ID (obtained from imessage_get_recent_chats or imessage_query_database). " +
-				"Returns all messages in chronological order with sender and timestamp.",
+				"Returns all messages in chronological order with sender and timestamp. " +
+				"Tapbacks (reactions) are listed under the message they react to. " +
+				"Results are paginated: pass the returned cursor to walk further back in the history.",
 			inputSchema: {
 				chatId: z.number().describe("The chat ID (ROWID) to get history for"),
 				limit: z
 					.number()
 					.optional()
 					.describe("Maximum number of messages to return (default: 100)"),
+				cursor: z
+					.string()
+					.optional()
+					.describe("Page cursor returned by a previous call"),
 			},
 		},
 		async (args) => {
@@ -253,7 +663,12 @@ export function registerIMessageTools(server: McpServer): void {
 					};
 				}
 
-				const messages = imessageClient.getMessagesForChat(chatId, limit);
+				const page = imessageClient.getMessagesPage({
+					chatId,
+					limit,
+					cursor: args.cursor as string | undefined,
+				});
+				const messages = page.items;
 
 				logger.info("imessage_get_chat_history results", {
 					chatId,
@@ -275,7 +690,7 @@ export function registerIMessageTools(server: McpServer): void {
 				const participants = imessageClient.getParticipantsForChat(chatId);
 				const participantNames = participants.map((p) => p.id).join(", ");
 				const formattedMessages = messages
-					.map((msg) => formatMessage(msg))
+					.map((msg) => formatMessageWithReactions(msg, formatOptions))
 					.join("\n");
 
 				return {
@@ -284,7 +699,8 @@ export function registerIMessageTools(server: McpServer): void {
 							type: "text",
 							text:
 								`${chatInfo}\nParticipants: ${participantNames}\n\n` +
-								`Message history (${messages.length} messages):\n\n${formattedMessages}`,
+								`Message history (${messages.length} messages):\n\n${formattedMessages}` +
+								formatPageCursors(page, "Older messages", "Newer messages"),
 						},
 					],
 				};
@@ -337,20 +753,20 @@ export function registerIMessageTools(server: McpServer): void {
 			logger.info("imessage_get_messages_by_date called", args);
 
 			try {
-				let startDate: Date | undefined;
-				let endDate: Date | undefined;
+				const parsed = parseDateArgs({
+					date: args.date,
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { date } = parsed.dates;
+				let { startDate, endDate } = parsed.dates;
 
 				// If specific date provided, set start/end to cover that whole day
-				if (args.date) {
-					startDate = new Date(args.date as string);
-					endDate = new Date(args.date as string);
+				if (date) {
+					startDate = date;
+					endDate = new Date(date);
 					endDate.setDate(endDate.getDate() + 1); // Next day at midnight
-				} else {
-					// Use provided date range
-					startDate = args.startDate
-						? new Date(args.startDate as string)
-						: undefined;
-					endDate = args.endDate ? new Date(args.endDate as string) : undefined;
 				}
 
 				// Convert contact identifier to handle ID if provided
@@ -405,7 +821,9 @@ export function registerIMessageTools(server: McpServer): void {
 						`Conversation with ${contact} (${msgs.length} messages):`,
 					);
 					formattedOutput.push(
-						msgs.map((msg) => `  ${formatMessage(msg)}`).join("\n"),
+						msgs
+							.map((msg) => `  ${formatMessage(msg, formatOptions)}`)
+							.join("\n"),
 					);
 					formattedOutput.push("");
 				}
@@ -428,4 +846,728 @@ export function registerIMessageTools(server: McpServer): void {
 			}
 		},
 	);
+
+	// Tool 5: Export chat
+	server.registerTool(
+		"imessage_export_chat",
+		{
+			title: "imessage_export_chat",
+			description:
+				"Export a conversation to a file in the configured export directory. " +
+				"Formats: json, ndjson, csv, markdown, html (a self-contained transcript with chat bubbles) and text. " +
+				"Optionally limited to a date range, and can copy the conversation's attachments alongside the export. " +
+				"Returns the path of the written file.",
+			inputSchema: {
+				chatId: z.number().describe("The chat ID (ROWID) to export"),
+				format: z
+					.enum(["json", "ndjson", "csv", "markdown", "html", "text"])
+					.optional()
+					.describe("Export format (default: markdown)"),
+				fileName: z
+					.string()
+					.optional()
+					.describe(
+						"File name to write inside the export directory (default: chat-<chatId>-<date>.<ext>)",
+					),
+				startDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for earliest message (e.g., '2024-01-01')",
+					),
+				endDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for latest message (e.g., '2024-12-31')",
+					),
+				copyAttachments: z
+					.boolean()
+					.optional()
+					.describe(
+						"Copy attachment files into a folder next to the export (default: false)",
+					),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_export_chat called", args);
+
+			try {
+				const chatId = args.chatId as number;
+				const format = (args.format as ExportFormat | undefined) ?? "markdown";
+
+				const chat = imessageClient.getChatById(chatId);
+				if (!chat) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `No chat found with ID: ${chatId}`,
+							},
+						],
+					};
+				}
+
+				// Only the base name is used, so exports stay inside the directory
+				const fileName =
+					args.fileName !== undefined
+						? path.basename(args.fileName as string)
+						: `chat-${chatId}-${new Date().toISOString().slice(0, 10)}${EXPORT_FILE_EXTENSIONS[format]}`;
+				if (fileName === "" || fileName === "." || fileName === "..") {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Invalid file name: "${args.fileName}". Give a name such as "chat.md"`,
+							},
+						],
+					};
+				}
+
+				const parsed = parseDateArgs({
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { startDate, endDate } = parsed.dates;
+
+				const result = await imessageClient.exportMessages(
+					{ chatId, startDate, endDate },
+					{
+						format,
+						outputPath: path.join(EXPORT_DIRECTORY, fileName),
+						title: chat.display_name || chat.chat_identifier,
+						copyAttachments: args.copyAttachments as boolean | undefined,
+						resolveSenderName: (message) =>
+							message.handle?.id &&
+							formatOptions.resolveName?.(message.handle.id),
+					},
+				);
+
+				logger.info("imessage_export_chat results", result);
+
+				let text = `Exported ${result.messageCount} message(s) from ${formatChat(chat)} to ${result.outputPath}`;
+				if (result.attachmentsDir) {
+					text += `\nCopied ${result.attachmentsCopied} attachment(s) to ${result.attachmentsDir}`;
+					if (result.attachmentsMissing > 0) {
+						text += ` (${result.attachmentsMissing} no longer on disk)`;
+					}
+				}
+
+				return {
+					content: [
+						{
+							type: "text",
+							text,
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_export_chat error", error);
+				return formatToolError("Error exporting chat", error);
+			}
+		},
+	);
+
+	// Tool 6: Get attachment
+	server.registerTool(
+		"imessage_get_attachment",
+		{
+			title: "imessage_get_attachment",
+			description:
+				"Get the contents of a message attachment. " +
+				"Requires an attachment ID (listed as 'Attachment #<id>' by imessage_get_chat_history). " +
+				"Photos are returned as images; other files (videos, audio, documents) as embedded resources. " +
+				`Files over ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB are described but not returned.`,
+			inputSchema: {
+				attachmentId: z.number().describe("The attachment ID (ROWID) to fetch"),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_get_attachment called", args);
+
+			try {
+				const attachmentId = args.attachmentId as number;
+				const attachment = imessageClient.getAttachmentById(attachmentId);
+				if (!attachment) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `No attachment found with ID: ${attachmentId}`,
+							},
+						],
+					};
+				}
+
+				const resolved = imessageClient.resolveAttachment(attachment);
+				const name =
+					attachment.transfer_name ??
+					(resolved.path ? path.basename(resolved.path) : "unnamed");
+				const mimeType = resolved.mimeType ?? "application/octet-stream";
+				const description =
+					`Attachment #${attachmentId}: ${name} (${mimeType}` +
+					(resolved.size !== null ? `, ${resolved.size} bytes` : "") +
+					(resolved.isSticker ? ", sticker" : "") +
+					")";
+
+				logger.info("imessage_get_attachment resolved", {
+					attachmentId,
+					exists: resolved.exists,
+					size: resolved.size,
+					mimeType,
+				});
+
+				if (!resolved.exists || !resolved.path) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${description}\nThe file is no longer on disk${resolved.path ? `: ${resolved.path}` : ""}`,
+							},
+						],
+					};
+				}
+
+				if ((resolved.size ?? 0) > MAX_ATTACHMENT_BYTES) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `${description}\nToo large to return; the file is at ${resolved.path}`,
+							},
+						],
+					};
+				}
+
+				const data = (await fs.promises.readFile(resolved.path)).toString(
+					"base64",
+				);
+
+				if (INLINE_IMAGE_TYPES.includes(mimeType)) {
+					return {
+						content: [
+							{ type: "text", text: description },
+							{ type: "image", data, mimeType },
+						],
+					};
+				}
+
+				return {
+					content: [
+						{ type: "text", text: description },
+						{
+							type: "resource",
+							resource: {
+								uri: `file://${encodeURI(resolved.path)}`,
+								mimeType,
+								blob: data,
+							},
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_get_attachment error", error);
+				return formatToolError("Error getting attachment", error);
+			}
+		},
+	);
+
+	// Tool 7: Conversation insights
+	server.registerTool(
+		"imessage_conversation_insights",
+		{
+			title: "imessage_conversation_insights",
+			description:
+				"Analyse messaging habits for one chat or across all chats. " +
+				"Reports median and p90 response times for you and for the other side, " +
+				"message counts by hour of day and weekday (local time), the longest daily streaks and silences, " +
+				"and one-on-one contacts ranked by message volume with how often each side starts a conversation.",
+			inputSchema: {
+				chatId: z
+					.number()
+					.optional()
+					.describe("Limit the analysis to one chat ID (default: all chats)"),
+				startDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for earliest message (e.g., '2024-01-01')",
+					),
+				endDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for latest message (e.g., '2024-12-31')",
+					),
+				conversationGapHours: z
+					.number()
+					.optional()
+					.describe(
+						"Hours of silence after which a message starts a new conversation rather than replying (default: 6)",
+					),
+				limit: z
+					.number()
+					.optional()
+					.describe(
+						"Number of chats, streaks, silences and contacts to list (default: 10)",
+					),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_conversation_insights called", args);
+
+			try {
+				const chatId = args.chatId as number | undefined;
+				const limit = (args.limit as number) || 10;
+
+				const chat =
+					chatId !== undefined ? imessageClient.getChatById(chatId) : null;
+				if (chatId !== undefined && !chat) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `No chat found with ID: ${chatId}`,
+							},
+						],
+					};
+				}
+
+				const parsed = parseDateArgs({
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { startDate, endDate } = parsed.dates;
+
+				const insights = imessageClient.getConversationInsights({
+					chatId,
+					startDate,
+					endDate,
+					conversationGap:
+						args.conversationGapHours !== undefined
+							? (args.conversationGapHours as number) * 60 * 60 * 1000
+							: undefined,
+					limit,
+				});
+
+				logger.info("imessage_conversation_insights results", {
+					chatId,
+					totalMessages: insights.totalMessages,
+				});
+
+				if (insights.totalMessages === 0) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "No messages found to analyse",
+							},
+						],
+					};
+				}
+
+				const lines = [
+					`Conversation insights for ${chat ? formatChat(chat) : "all chats"}`,
+					`Messages: ${insights.totalMessages} (${insights.sentMessages} sent, ${insights.receivedMessages} received)`,
+					"",
+					"Response times:",
+					`  You: ${formatResponseTimes(insights.responseTimes.mine)}`,
+					`  Them: ${formatResponseTimes(insights.responseTimes.theirs)}`,
+				];
+
+				if (chatId === undefined) {
+					lines.push("", "Response times by chat (most active first):");
+					for (const times of insights.chatResponseTimes.slice(0, limit)) {
+						const timesChat = imessageClient.getChatById(times.chatId);
+						lines.push(
+							`  ${timesChat ? formatChat(timesChat) : `Chat #${times.chatId}`}`,
+							`    You: ${formatResponseTimes(times.mine)}`,
+							`    Them: ${formatResponseTimes(times.theirs)}`,
+						);
+					}
+				}
+
+				const busiestHours = insights.hourOfDay
+					.map((count, hour) => ({ hour, count }))
+					.filter(({ count }) => count > 0)
+					.sort((a, b) => b.count - a.count)
+					.slice(0, 5)
+					.map(
+						({ hour, count }) =>
+							`${String(hour).padStart(2, "0")}:00 (${count})`,
+					);
+				lines.push(
+					"",
+					`Busiest hours: ${busiestHours.join(", ")}`,
+					`By weekday: ${insights.weekday.map((count, day) => `${WEEKDAYS[day]} ${count}`).join(", ")}`,
+				);
+
+				lines.push("", "Longest streaks of daily messages:");
+				for (const streak of insights.streaks) {
+					lines.push(`  ${formatDayRange(streak)}`);
+				}
+				if (insights.silences.length > 0) {
+					lines.push("", "Longest silences:");
+					for (const silence of insights.silences) {
+						lines.push(`  ${formatDayRange(silence)}`);
+					}
+				}
+
+				if (insights.contacts.length > 0) {
+					lines.push("", "One-on-one contacts by volume:");
+					for (const contact of insights.contacts) {
+						const conversations =
+							contact.initiatedByMe + contact.initiatedByThem;
+						const share =
+							contact.myInitiationShare !== null
+								? `, you started ${Math.round(contact.myInitiationShare * 100)}% of ${conversations} conversation(s)`
+								: "";
+						lines.push(
+							`  ${formatSender(contact.handle.id, formatOptions.resolveName)}: ${contact.total} messages (${contact.sent} sent, ${contact.received} received)${share}`,
+						);
+					}
+				}
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: lines.join("\n"),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_conversation_insights error", error);
+				return formatToolError("Error computing conversation insights", error);
+			}
+		},
+	);
+
+	// Tool 8: Find related messages
+	server.registerTool(
+		"imessage_find_related",
+		{
+			title: "imessage_find_related",
+			description:
+				"Find the messages and conversations most relevant to a topic, best first rather than newest first. " +
+				"Give a free-text query (e.g. 'apartment lease') to rank messages by BM25 term relevance, " +
+				"or a message ID to find messages similar to it ('more like this'). " +
+				"Runs locally over all message text, without the full-text search index. " +
+				"Use this when searching by date buries the best match.",
+			inputSchema: {
+				query: z
+					.string()
+					.optional()
+					.describe("What to look for, in plain words"),
+				messageId: z
+					.number()
+					.optional()
+					.describe(
+						"Message ID to find similar messages to, instead of a query",
+					),
+				contactIdentifier: z
+					.string()
+					.optional()
+					.describe(
+						"Only messages from or to this phone number or email, across all of the person's handles",
+					),
+				chatId: z.number().optional().describe("Only messages in this chat ID"),
+				startDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for earliest message (e.g., '2024-01-01')",
+					),
+				endDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for latest message (e.g., '2024-12-31')",
+					),
+				limit: z
+					.number()
+					.optional()
+					.describe("Maximum number of messages to return (default: 20)"),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_find_related called", args);
+
+			try {
+				const query = args.query as string | undefined;
+				const messageId = args.messageId as number | undefined;
+				// Exactly one of the two picks the ranking
+				if (Boolean(query) === (messageId !== undefined)) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Provide either a query or a messageId",
+							},
+						],
+					};
+				}
+
+				let identityId: string | undefined;
+				if (args.contactIdentifier) {
+					const identity = imessageClient.getIdentity(
+						args.contactIdentifier as string,
+					);
+					if (!identity) {
+						return {
+							content: [
+								{
+									type: "text",
+									text: `No contact found with identifier: ${args.contactIdentifier}`,
+								},
+							],
+						};
+					}
+					identityId = identity.id;
+				}
+
+				const parsed = parseDateArgs({
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { startDate, endDate } = parsed.dates;
+
+				const options = {
+					chatId: args.chatId as number | undefined,
+					identityId,
+					startDate,
+					endDate,
+					limit: (args.limit as number) || 20,
+				};
+				const results =
+					messageId !== undefined
+						? imessageClient.findRelated(messageId, options)
+						: imessageClient.searchByRelevance(query as string, options);
+
+				logger.info("imessage_find_related results", {
+					resultCount: results.messages.length,
+					conversationCount: results.conversations.length,
+				});
+
+				if (results.messages.length === 0) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "No related messages found.",
+							},
+						],
+					};
+				}
+
+				const lines = ["Most relevant conversations:"];
+				for (const conversation of results.conversations) {
+					lines.push(
+						`  ${formatChat(conversation.chat)}: ${conversation.messageIds.length} matching message(s), score ${conversation.score.toFixed(2)}`,
+					);
+				}
+				lines.push("", `Top ${results.messages.length} message(s):`);
+				for (const { message, score } of results.messages) {
+					lines.push(
+						"",
+						`#${message.ROWID} (score ${score.toFixed(2)}) ${formatMessage(message, formatOptions)}`,
+					);
+				}
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: lines.join("\n"),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_find_related error", error);
+				return formatToolError("Error finding related messages", error);
+			}
+		},
+	);
+
+	// Tool 9: List conversation sessions
+	server.registerTool(
+		"imessage_list_sessions",
+		{
+			title: "imessage_list_sessions",
+			description:
+				"List conversation sessions, most recent first. A chat is split into sessions wherever nobody wrote for a while, " +
+				"so each session is one sitting such as 'the conversation on Friday night'. " +
+				"Each shows its chat, local start and end time, message count, who spoke and the opening message. " +
+				"Pass a session's chat ID and first and last message IDs to imessage_get_session to read it.",
+			inputSchema: {
+				chatId: z
+					.number()
+					.optional()
+					.describe("Only sessions in this chat ID (default: all chats)"),
+				startDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for earliest message (e.g., '2024-01-01')",
+					),
+				endDate: z
+					.string()
+					.optional()
+					.describe(
+						"ISO 8601 date string for latest message (e.g., '2024-12-31')",
+					),
+				gapMinutes: z
+					.number()
+					.optional()
+					.describe(
+						"Minutes of silence after which a message starts a new session (default: 360)",
+					),
+				limit: z
+					.number()
+					.optional()
+					.describe("Maximum number of sessions to return (default: 20)"),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_list_sessions called", args);
+
+			try {
+				const chatId = args.chatId as number | undefined;
+				if (chatId !== undefined && !imessageClient.getChatById(chatId)) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: `No chat found with ID: ${chatId}`,
+							},
+						],
+					};
+				}
+
+				const parsed = parseDateArgs({
+					startDate: args.startDate,
+					endDate: args.endDate,
+				});
+				if ("error" in parsed) return parsed.error;
+				const { startDate, endDate } = parsed.dates;
+
+				const sessions = imessageClient.getSessions({
+					chatId,
+					startDate,
+					endDate,
+					conversationGap:
+						args.gapMinutes !== undefined
+							? (args.gapMinutes as number) * 60 * 1000
+							: undefined,
+					limit: (args.limit as number) || 20,
+				});
+
+				logger.info("imessage_list_sessions results", {
+					sessionCount: sessions.length,
+				});
+
+				if (sessions.length === 0) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "No conversation sessions found.",
+							},
+						],
+					};
+				}
+
+				const chatNames = new Map<number, string>();
+				const chatName = (id: number) => {
+					let name = chatNames.get(id);
+					if (name === undefined) {
+						const chat = imessageClient.getChatById(id);
+						name = chat?.display_name || chat?.chat_identifier || "Unknown";
+						chatNames.set(id, name);
+					}
+					return name;
+				};
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Found ${sessions.length} session(s):\n\n${sessions
+								.map((session) =>
+									formatSession(
+										session,
+										chatName(session.chatId),
+										formatOptions,
+									),
+								)
+								.join("\n\n")}`,
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_list_sessions error", error);
+				return formatToolError("Error listing sessions", error);
+			}
+		},
+	);
+
+	// Tool 10: Get a conversation session
+	server.registerTool(
+		"imessage_get_session",
+		{
+			title: "imessage_get_session",
+			description:
+				"Get every message of one conversation session, oldest first, as listed by imessage_list_sessions.",
+			inputSchema: {
+				chatId: z.number().describe("The chat ID of the session"),
+				firstMessageId: z
+					.number()
+					.describe("ID of the session's first message"),
+				lastMessageId: z.number().describe("ID of the session's last message"),
+			},
+		},
+		async (args) => {
+			logger.info("imessage_get_session called", args);
+
+			try {
+				const messages = imessageClient.getSessionMessages({
+					chatId: args.chatId as number,
+					firstMessageId: args.firstMessageId as number,
+					lastMessageId: args.lastMessageId as number,
+				});
+
+				logger.info("imessage_get_session results", {
+					messageCount: messages.length,
+				});
+
+				if (messages.length === 0) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "No messages found for this session.",
+							},
+						],
+					};
+				}
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: `${messages.length} message(s):\n\n${messages
+								.map((msg) => formatMessageWithReactions(msg, formatOptions))
+								.join("\n")}`,
+						},
+					],
+				};
+			} catch (error) {
+				logger.error("imessage_get_session error", error);
+				return formatToolError("Error getting session", error);
+			}
+		},
+	);
 }
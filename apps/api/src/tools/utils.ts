@@ -31,3 +31,33 @@ export function formatToolError(prefix: string, error: unknown): ErrorContent {
 		],
 	};
 }
+
+/**
+ * Parses optional ISO 8601 date arguments
+ * @param args Date arguments by name, e.g. { startDate: args.startDate }
+ * @returns The parsed dates, or an error response naming the first invalid
+ * argument
+ */
+export function parseDateArgs<TName extends string>(
+	args: Record<TName, string | undefined>,
+): { dates: Record<TName, Date | undefined> } | { error: ErrorContent } {
+	const dates = {} as Record<TName, Date | undefined>;
+	for (const name of Object.keys(args) as TName[]) {
+		const value = args[name];
+		const date = value ? new Date(value) : undefined;
+		if (date && Number.isNaN(date.getTime())) {
+			return {
+				error: {
+					content: [
+						{
+							type: "text",
+							text: `Invalid ${name}: "${value}". Use an ISO 8601 date such as '2024-01-01'`,
+						},
+					],
+				},
+			};
+		}
+		dates[name] = date;
+	}
+	return { dates };
+}
@@ -4,7 +4,11 @@
  * Run with: tsx test-chat.ts
  */
 
-import { IMessageClient } from "@macos-tools/imessage-sdk";
+import {
+	appleTimeToDate,
+	IMessageClient,
+	toChatKind,
+} from "@macos-tools/imessage-sdk";
 
 const client = new IMessageClient();
 
@@ -23,9 +27,7 @@ console.log(`  ID: ${chat.ROWID}`);
 console.log(`  Identifier: ${chat.chat_identifier}`);
 console.log(`  Display Name: ${chat.display_name || "(none)"}`);
 console.log(`  Service: ${chat.service_name}`);
-console.log(
-	`  Style: ${chat.style} ${chat.style === 43 ? "(group)" : "(individual)"}`,
-);
+console.log(`  Style: ${chat.style} (${toChatKind(chat)})`);
 
 // Get participants
 const participants = client.getParticipantsForChat(2620);
@@ -40,7 +42,7 @@ console.log(`\n💬 Last ${messages.length} Messages:\n`);
 
 for (const msg of messages.reverse()) {
 	const sender = msg.is_from_me ? "You" : msg.handle?.id || "Unknown";
-	const date = new Date(msg.date / 1000000 + 978307200000);
+	const date = appleTimeToDate(msg.date);
 
 	console.log("-".repeat(80));
 	console.log(`From: ${sender}`);
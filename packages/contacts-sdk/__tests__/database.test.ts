@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	ContactsDatabaseClient,
+	normalizeContactAddress,
+	parseContactBirthday,
+	parseContactLabel,
+} from "../src/database";
+import { ContactsDbFixture } from "../src/fixtures";
+
+describe("parseContactLabel", () => {
+	it("should unwrap built-in labels and keep custom ones", () => {
+		expect(parseContactLabel("_$!<Mobile>!$_")).toBe("mobile");
+		expect(parseContactLabel("_$!<HomeFAX>!$_")).toBe("homefax");
+		expect(parseContactLabel("Boat")).toBe("Boat");
+		expect(parseContactLabel(null)).toBeNull();
+	});
+});
+
+describe("parseContactBirthday", () => {
+	it("should read dates stored at midnight or noon GMT", () => {
+		// 1990-05-17 00:00 and 12:00 GMT
+		expect(parseContactBirthday(-335404800)).toEqual({
+			year: 1990,
+			month: 5,
+			day: 17,
+		});
+		expect(parseContactBirthday(-335361600)).toEqual({
+			year: 1990,
+			month: 5,
+			day: 17,
+		});
+		expect(parseContactBirthday(null)).toBeNull();
+	});
+});
+
+describe("normalizeContactAddress", () => {
+	it("should compare emails by case and phones in E.164 form", () => {
+		expect(normalizeContactAddress(" John@Example.COM")).toBe(
+			"john@example.com",
+		);
+		expect(normalizeContactAddress("+1 (555) 123-4567")).toBe("+15551234567");
+		expect(normalizeContactAddress("555.123.4567")).toBe("+15551234567");
+		expect(normalizeContactAddress("020 7946 0018", "GB")).toBe(
+			"+442079460018",
+		);
+		expect(normalizeContactAddress("12345")).toBe("12345");
+	});
+});
+
+describe("ContactsDatabaseClient", () => {
+	let icloud: ContactsDbFixture;
+	let exchange: ContactsDbFixture;
+	let client: ContactsDatabaseClient;
+
+	beforeEach(() => {
+		icloud = new ContactsDbFixture()
+			.addContact({
+				id: "JOHN:ABPerson",
+				firstName: "John",
+				middleName: "Q",
+				lastName: "Doe",
+				nickname: "Johnny",
+				organization: "Acme",
+				department: "R&D",
+				jobTitle: "Engineer",
+				birthday: { year: 1990, month: 5, day: 17 },
+				phones: [
+					{ number: "(555) 123-4567", label: "_$!<Home>!$_" },
+					{
+						number: "+1 555 987 6543",
+						label: "_$!<Mobile>!$_",
+						isPrimary: true,
+					},
+				],
+				emails: [
+					{ address: "John.Doe@Example.com", label: "_$!<Work>!$_" },
+					{ address: "johnny@example.net", label: "Gaming" },
+				],
+			})
+			.addContact({
+				organization: "Pizza Place",
+				phones: [{ number: "+15550001111", label: "_$!<Main>!$_" }],
+			})
+			.addGroup("Family");
+
+		exchange = new ContactsDbFixture().addContact({
+			firstName: "Alice",
+			birthday: { month: 12, day: 24 },
+			emails: [{ address: "alice@corp.example" }],
+			// Shared with John; John sorts after Alice and loses the lookup
+			phones: [{ number: "555-123-4567" }],
+		});
+
+		client = new ContactsDatabaseClient({
+			databasePaths: [icloud.path, exchange.path],
+		});
+	});
+
+	afterEach(() => {
+		client.close();
+		icloud.cleanup();
+		exchange.cleanup();
+	});
+
+	it("should read full records from every source, skipping groups", () => {
+		const contacts = client.getAllContacts();
+
+		expect(contacts.map((contact) => contact.fullName)).toEqual([
+			"Alice",
+			"John Q Doe",
+			"Pizza Place",
+		]);
+		expect(contacts[0]?.source).toBe(exchange.path);
+		expect(client.getContactById("JOHN:ABPerson")).toEqual({
+			id: "JOHN:ABPerson",
+			firstName: "John",
+			lastName: "Doe",
+			middleName: "Q",
+			nickname: "Johnny",
+			organization: "Acme",
+			department: "R&D",
+			jobTitle: "Engineer",
+			fullName: "John Q Doe",
+			phones: [
+				{ number: "+1 555 987 6543", label: "mobile" },
+				{ number: "(555) 123-4567", label: "home" },
+			],
+			emails: [
+				{ address: "John.Doe@Example.com", label: "work" },
+				{ address: "johnny@example.net", label: "Gaming" },
+			],
+			birthday: { year: 1990, month: 5, day: 17 },
+			source: icloud.path,
+		});
+	});
+
+	it("should read birthdays without a year", () => {
+		expect(client.searchByName("alice")[0]?.birthday).toEqual({
+			year: null,
+			month: 12,
+			day: 24,
+		});
+	});
+
+	it("should search names, nicknames and organizations", () => {
+		const names = (query: string) =>
+			client.searchByName(query).map((contact) => contact.fullName);
+
+		expect(names("DOE")).toEqual(["John Q Doe"]);
+		expect(names("johnny")).toEqual(["John Q Doe"]);
+		expect(names("pizza")).toEqual(["Pizza Place"]);
+		expect(names(" ")).toEqual([]);
+	});
+
+	it("should map every phone and email to its contact", () => {
+		const lookup = client.getAddressLookup();
+
+		expect(lookup.get("+15559876543")?.firstName).toBe("John");
+		expect(lookup.get("john.doe@example.com")?.firstName).toBe("John");
+		expect(lookup.get("+15551234567")?.firstName).toBe("Alice");
+		expect(lookup.get("+15550001111")?.organization).toBe("Pizza Place");
+		expect(lookup.size).toBe(6);
+	});
+
+	it("should look up addresses with a custom normalizer", () => {
+		const lastTenDigits = (address: string) =>
+			address.includes("@")
+				? address.toLowerCase()
+				: address.replace(/\D/g, "").slice(-10);
+
+		expect(
+			client.findByAddress("+1 (555) 000-1111", lastTenDigits)?.fullName,
+		).toBe("Pizza Place");
+		expect(client.findByAddress("JOHNNY@example.net")?.fullName).toBe(
+			"John Q Doe",
+		);
+		expect(client.findByAddress("+15550000000")).toBeNull();
+	});
+
+	it("should throw for a missing database", () => {
+		expect(
+			() =>
+				new ContactsDatabaseClient({
+					databasePaths: ["/nonexistent/AddressBook-v22.abcddb"],
+				}),
+		).toThrow("Failed to open Contacts database");
+		expect(() => new ContactsDatabaseClient({ databasePaths: [] })).toThrow(
+			"No Contacts database found",
+		);
+	});
+});
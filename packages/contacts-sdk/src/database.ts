@@ -0,0 +1,442 @@
+/**
+ * Direct read-only access to the Contacts.app database
+ *
+ * Contacts.app keeps one Core Data store per account (iCloud, Exchange, On My
+ * Mac, ...) under ~/Library/Application Support/AddressBook/Sources. Reading
+ * them with SQLite is much faster than asking Contacts.app through
+ * AppleScript, needs Full Disk Access instead of Automation permission, and
+ * works on a copy of the files anywhere.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	DEFAULT_REGION,
+	normalizePhoneNumber,
+} from "@macos-tools/imessage-sdk";
+import Database from "better-sqlite3";
+
+/**
+ * Seconds between the Unix epoch and Core Data's reference date (2001-01-01)
+ */
+const CORE_DATA_EPOCH_OFFSET = 978307200;
+
+/**
+ * Year Contacts.app stores for birthdays entered without one
+ */
+const NO_YEAR = 1604;
+
+/**
+ * Core Data entity names of the record kinds read as contacts
+ */
+const CONTACT_ENTITIES = ["ABCDContact"];
+
+/**
+ * Configuration for ContactsDatabaseClient
+ */
+export interface ContactsDatabaseConfig {
+	/**
+	 * AddressBook-v22.abcddb files to read.
+	 * Default: every source under ~/Library/Application Support/AddressBook/Sources
+	 */
+	databasePaths?: string[];
+}
+
+/**
+ * A phone number and its label, e.g. "mobile"
+ */
+export interface ContactPhone {
+	number: string;
+	label: string | null;
+}
+
+/**
+ * An email address and its label, e.g. "work"
+ */
+export interface ContactEmail {
+	address: string;
+	label: string | null;
+}
+
+/**
+ * Birthday as entered in Contacts.app; the year is optional there
+ */
+export interface ContactBirthday {
+	year: number | null;
+	month: number;
+	day: number;
+}
+
+/**
+ * A person or company card from the AddressBook database
+ */
+export interface ContactRecord {
+	/**
+	 * Core Data unique ID, e.g. "2F6C...:ABPerson"
+	 */
+	id: string;
+	firstName: string | null;
+	lastName: string | null;
+	middleName: string | null;
+	nickname: string | null;
+	organization: string | null;
+	department: string | null;
+	jobTitle: string | null;
+	/**
+	 * Display name: the person's name, else nickname, organization, or first
+	 * phone or email
+	 */
+	fullName: string;
+	phones: ContactPhone[];
+	emails: ContactEmail[];
+	birthday: ContactBirthday | null;
+	/**
+	 * Database file the record was read from
+	 */
+	source: string;
+}
+
+/**
+ * Maps a phone number or email to the key used in an address lookup
+ */
+export type AddressNormalizer = (address: string) => string;
+
+interface RecordRow {
+	Z_PK: number;
+	ZUNIQUEID: string;
+	ZFIRSTNAME: string | null;
+	ZLASTNAME: string | null;
+	ZMIDDLENAME: string | null;
+	ZNICKNAME: string | null;
+	ZORGANIZATION: string | null;
+	ZDEPARTMENT: string | null;
+	ZJOBTITLE: string | null;
+	ZBIRTHDAY: number | null;
+}
+
+interface PhoneRow {
+	ZOWNER: number;
+	ZFULLNUMBER: string | null;
+	ZLABEL: string | null;
+}
+
+interface EmailRow {
+	ZOWNER: number;
+	ZADDRESS: string | null;
+	ZLABEL: string | null;
+}
+
+/**
+ * Default address normalizer: emails trimmed and lowercased, phone numbers
+ * in E.164 form, the form iMessage stores them in, so national numbers match
+ * international ones. Numbers that do not parse keep only their digits and a
+ * leading "+".
+ * @param defaultRegion Region of numbers entered without a country code
+ */
+export function normalizeContactAddress(
+	address: string,
+	defaultRegion: string = DEFAULT_REGION,
+): string {
+	const value = address.trim();
+	if (value.includes("@")) {
+		return value.replace(/^mailto:/i, "").toLowerCase();
+	}
+	const e164 = normalizePhoneNumber(value, defaultRegion);
+	if (e164) return e164;
+	const digits = value.replace(/\D/g, "");
+	return value.startsWith("+") ? `+${digits}` : digits;
+}
+
+/**
+ * Converts a Contacts.app label such as "_$!<Mobile>!$_" to "mobile".
+ * Custom labels are returned as entered.
+ */
+export function parseContactLabel(label: string | null): string | null {
+	if (!label) return null;
+	const match = label.match(/^_\$!<(.+)>!\$_$/);
+	return match?.[1] ? match[1].toLowerCase() : label;
+}
+
+/**
+ * Converts a ZBIRTHDAY value (seconds since 2001, at midnight or noon GMT) to
+ * calendar fields
+ */
+export function parseContactBirthday(
+	value: number | null,
+): ContactBirthday | null {
+	if (value === null) return null;
+	const date = new Date((value + CORE_DATA_EPOCH_OFFSET) * 1000);
+	if (Number.isNaN(date.getTime())) return null;
+	const year = date.getUTCFullYear();
+	return {
+		year: year === NO_YEAR ? null : year,
+		month: date.getUTCMonth() + 1,
+		day: date.getUTCDate(),
+	};
+}
+
+/**
+ * Finds the AddressBook databases of every account source
+ */
+export function getDefaultContactsDatabasePaths(): string[] {
+	const sourcesDir = path.join(
+		os.homedir(),
+		"Library",
+		"Application Support",
+		"AddressBook",
+		"Sources",
+	);
+	if (!fs.existsSync(sourcesDir)) return [];
+
+	return fs
+		.readdirSync(sourcesDir)
+		.map((source) => path.join(sourcesDir, source, "AddressBook-v22.abcddb"))
+		.filter((databasePath) => fs.existsSync(databasePath))
+		.sort();
+}
+
+/**
+ * Reads contacts straight from the AddressBook SQLite databases
+ *
+ * @example
+ * ```typescript
+ * const contacts = new ContactsDatabaseClient();
+ * const lookup = contacts.getAddressLookup();
+ * console.log(lookup.get("+15551234567")?.fullName);
+ * contacts.close();
+ * ```
+ */
+export class ContactsDatabaseClient {
+	private readonly databases: { path: string; db: Database.Database }[] = [];
+	private records: ContactRecord[] | null = null;
+
+	constructor(config: ContactsDatabaseConfig = {}) {
+		const databasePaths =
+			config.databasePaths ?? getDefaultContactsDatabasePaths();
+
+		if (databasePaths.length === 0) {
+			throw new Error(
+				"No Contacts database found in ~/Library/Application Support/AddressBook/Sources\n" +
+					"Make sure:\n" +
+					"1. You're running on macOS\n" +
+					"2. Contacts.app has at least one account\n" +
+					"3. You have granted Full Disk Access to your terminal/app in System Preferences > Security & Privacy > Privacy > Full Disk Access",
+			);
+		}
+
+		for (const databasePath of databasePaths) {
+			try {
+				this.databases.push({
+					path: databasePath,
+					db: new Database(databasePath, {
+						readonly: true,
+						fileMustExist: true,
+					}),
+				});
+			} catch (error) {
+				this.close();
+				throw new Error(
+					`Failed to open Contacts database at ${databasePath}: ${error instanceof Error ? error.message : String(error)}\n` +
+						"You may need to grant Full Disk Access permission.",
+				);
+			}
+		}
+	}
+
+	/**
+	 * Get every contact across all sources, sorted by name. Records are read
+	 * once and cached; call refresh() to pick up changes.
+	 */
+	getAllContacts(): ContactRecord[] {
+		if (!this.records) {
+			this.records = this.databases
+				.flatMap(({ path: source, db }) => readContacts(db, source))
+				.sort((a, b) => a.fullName.localeCompare(b.fullName));
+		}
+		return this.records;
+	}
+
+	/**
+	 * Get a contact by its unique ID
+	 */
+	getContactById(id: string): ContactRecord | null {
+		return this.getAllContacts().find((contact) => contact.id === id) ?? null;
+	}
+
+	/**
+	 * Search contacts whose name, nickname or organization contains a query,
+	 * ignoring case
+	 */
+	searchByName(query: string): ContactRecord[] {
+		const needle = query.trim().toLowerCase();
+		if (!needle) return [];
+
+		return this.getAllContacts().filter((contact) =>
+			[
+				contact.fullName,
+				contact.firstName,
+				contact.lastName,
+				contact.nickname,
+				contact.organization,
+			].some((value) => value?.toLowerCase().includes(needle)),
+		);
+	}
+
+	/**
+	 * Build a map from every normalized phone number and email to its contact.
+	 * When several contacts share an address, the first by name wins.
+	 * @param normalize Key function applied to the contacts' addresses; look
+	 * up handles with the same function
+	 */
+	getAddressLookup(
+		normalize: AddressNormalizer = normalizeContactAddress,
+	): Map<string, ContactRecord> {
+		const lookup = new Map<string, ContactRecord>();
+		for (const contact of this.getAllContacts()) {
+			const addresses = [
+				...contact.phones.map((phone) => phone.number),
+				...contact.emails.map((email) => email.address),
+			];
+			for (const address of addresses) {
+				const key = normalize(address);
+				if (key && !lookup.has(key)) lookup.set(key, contact);
+			}
+		}
+		return lookup;
+	}
+
+	/**
+	 * Find the contact with a phone number or email
+	 */
+	findByAddress(
+		address: string,
+		normalize: AddressNormalizer = normalizeContactAddress,
+	): ContactRecord | null {
+		const key = normalize(address);
+		return (
+			this.getAllContacts().find((contact) =>
+				[
+					...contact.phones.map((phone) => phone.number),
+					...contact.emails.map((email) => email.address),
+				].some((candidate) => normalize(candidate) === key),
+			) ?? null
+		);
+	}
+
+	/**
+	 * Drop cached records so the next call reads the databases again
+	 */
+	refresh(): void {
+		this.records = null;
+	}
+
+	/**
+	 * Close all database connections
+	 */
+	close(): void {
+		for (const { db } of this.databases) {
+			if (db.open) db.close();
+		}
+	}
+}
+
+/**
+ * Reads the person and company cards of one source, skipping groups and
+ * other record entities
+ */
+function readContacts(db: Database.Database, source: string): ContactRecord[] {
+	// Groups share ZABCDRECORD with contacts; without the entity table, tell
+	// them apart by their group name
+	const hasEntities = hasTable(db, "Z_PRIMARYKEY");
+	const entityCondition = hasEntities
+		? `AND Z_ENT IN (SELECT Z_ENT FROM Z_PRIMARYKEY WHERE Z_NAME IN (${CONTACT_ENTITIES.map(() => "?").join(", ")}))`
+		: "AND ZNAME IS NULL";
+	const entityParams = hasEntities ? CONTACT_ENTITIES : [];
+
+	const rows = db
+		.prepare(
+			`SELECT Z_PK, ZUNIQUEID, ZFIRSTNAME, ZLASTNAME, ZMIDDLENAME, ZNICKNAME,
+              ZORGANIZATION, ZDEPARTMENT, ZJOBTITLE, ZBIRTHDAY
+       FROM ZABCDRECORD
+       WHERE ZUNIQUEID IS NOT NULL ${entityCondition}`,
+		)
+		.all(...entityParams) as RecordRow[];
+
+	const phones = groupByOwner(
+		db
+			.prepare(
+				`SELECT ZOWNER, ZFULLNUMBER, ZLABEL
+         FROM ZABCDPHONENUMBER
+         WHERE ZOWNER IS NOT NULL AND ZFULLNUMBER IS NOT NULL
+         ORDER BY ZOWNER, COALESCE(ZISPRIMARY, 0) DESC, ZORDERINGINDEX, Z_PK`,
+			)
+			.all() as PhoneRow[],
+	);
+	const emails = groupByOwner(
+		db
+			.prepare(
+				`SELECT ZOWNER, ZADDRESS, ZLABEL
+         FROM ZABCDEMAILADDRESS
+         WHERE ZOWNER IS NOT NULL AND ZADDRESS IS NOT NULL
+         ORDER BY ZOWNER, COALESCE(ZISPRIMARY, 0) DESC, ZORDERINGINDEX, Z_PK`,
+			)
+			.all() as EmailRow[],
+	);
+
+	return rows.map((row) => {
+		const contactPhones = (phones.get(row.Z_PK) ?? []).map((phone) => ({
+			number: phone.ZFULLNUMBER as string,
+			label: parseContactLabel(phone.ZLABEL),
+		}));
+		const contactEmails = (emails.get(row.Z_PK) ?? []).map((email) => ({
+			address: email.ZADDRESS as string,
+			label: parseContactLabel(email.ZLABEL),
+		}));
+		const name = [row.ZFIRSTNAME, row.ZMIDDLENAME, row.ZLASTNAME]
+			.filter(Boolean)
+			.join(" ");
+
+		return {
+			id: row.ZUNIQUEID,
+			firstName: row.ZFIRSTNAME,
+			lastName: row.ZLASTNAME,
+			middleName: row.ZMIDDLENAME,
+			nickname: row.ZNICKNAME,
+			organization: row.ZORGANIZATION,
+			department: row.ZDEPARTMENT,
+			jobTitle: row.ZJOBTITLE,
+			fullName:
+				name ||
+				row.ZNICKNAME ||
+				row.ZORGANIZATION ||
+				contactPhones[0]?.number ||
+				contactEmails[0]?.address ||
+				"",
+			phones: contactPhones,
+			emails: contactEmails,
+			birthday: parseContactBirthday(row.ZBIRTHDAY),
+			source,
+		};
+	});
+}
+
+function groupByOwner<T extends { ZOWNER: number }>(
+	rows: T[],
+): Map<number, T[]> {
+	const groups = new Map<number, T[]>();
+	for (const row of rows) {
+		const group = groups.get(row.ZOWNER);
+		if (group) group.push(row);
+		else groups.set(row.ZOWNER, [row]);
+	}
+	return groups;
+}
+
+function hasTable(db: Database.Database, name: string): boolean {
+	return (
+		db
+			.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+			.get(name) !== undefined
+	);
+}
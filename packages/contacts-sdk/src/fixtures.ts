@@ -0,0 +1,284 @@
+/**
+ * Synthetic AddressBook database fixtures
+ *
+ * Builds a real SQLite database with the Z-prefixed Core Data tables of an
+ * AddressBook-v22.abcddb source so ContactsDatabaseClient can run anywhere,
+ * including Linux CI where no Contacts database exists.
+ *
+ * @example
+ * ```typescript
+ * const fixture = new ContactsDbFixture().addContact({
+ *   firstName: "John",
+ *   lastName: "Doe",
+ *   phones: [{ number: "(555) 123-4567", label: "_$!<Mobile>!$_" }],
+ * });
+ *
+ * const client = new ContactsDatabaseClient({ databasePaths: [fixture.path] });
+ * ```
+ */
+
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Database from "better-sqlite3";
+
+/**
+ * Schema of a modern AddressBook-v22.abcddb, limited to the tables and
+ * columns the SDK reads
+ */
+const ADDRESS_BOOK_SCHEMA = `
+CREATE TABLE Z_PRIMARYKEY (
+  Z_ENT INTEGER PRIMARY KEY,
+  Z_NAME VARCHAR,
+  Z_SUPER INTEGER,
+  Z_MAX INTEGER
+);
+
+CREATE TABLE ZABCDRECORD (
+  Z_PK INTEGER PRIMARY KEY,
+  Z_ENT INTEGER,
+  Z_OPT INTEGER,
+  ZUNIQUEID VARCHAR,
+  ZFIRSTNAME VARCHAR,
+  ZLASTNAME VARCHAR,
+  ZMIDDLENAME VARCHAR,
+  ZNICKNAME VARCHAR,
+  ZORGANIZATION VARCHAR,
+  ZDEPARTMENT VARCHAR,
+  ZJOBTITLE VARCHAR,
+  ZBIRTHDAY TIMESTAMP,
+  ZNAME VARCHAR,
+  ZCREATIONDATE TIMESTAMP,
+  ZMODIFICATIONDATE TIMESTAMP
+);
+
+CREATE TABLE ZABCDPHONENUMBER (
+  Z_PK INTEGER PRIMARY KEY,
+  Z_ENT INTEGER,
+  Z_OPT INTEGER,
+  ZOWNER INTEGER,
+  ZISPRIMARY INTEGER,
+  ZORDERINGINDEX INTEGER,
+  ZFULLNUMBER VARCHAR,
+  ZLABEL VARCHAR,
+  ZUNIQUEID VARCHAR
+);
+
+CREATE TABLE ZABCDEMAILADDRESS (
+  Z_PK INTEGER PRIMARY KEY,
+  Z_ENT INTEGER,
+  Z_OPT INTEGER,
+  ZOWNER INTEGER,
+  ZISPRIMARY INTEGER,
+  ZORDERINGINDEX INTEGER,
+  ZADDRESS VARCHAR,
+  ZADDRESSNORMALIZED VARCHAR,
+  ZLABEL VARCHAR,
+  ZUNIQUEID VARCHAR
+);
+
+CREATE INDEX ZABCDPHONENUMBER_ZOWNER_INDEX ON ZABCDPHONENUMBER (ZOWNER);
+CREATE INDEX ZABCDEMAILADDRESS_ZOWNER_INDEX ON ZABCDEMAILADDRESS (ZOWNER);
+`;
+
+/**
+ * Core Data entity numbers for the record kinds, as in Z_PRIMARYKEY
+ */
+const ENTITIES = {
+	ABCDRecord: 19,
+	ABCDContact: 22,
+	ABCDGroup: 23,
+} as const;
+
+/**
+ * Seconds between the Unix epoch and Core Data's reference date (2001-01-01)
+ */
+const CORE_DATA_EPOCH_OFFSET = 978307200;
+
+/**
+ * Options for creating a fixture database
+ */
+export interface ContactsDbFixtureOptions {
+	/**
+	 * Where to create the database file.
+	 * Default: AddressBook-v22.abcddb inside a fresh temporary directory
+	 */
+	path?: string;
+}
+
+/**
+ * Phone number or email row to insert. Labels are stored as given, so use
+ * Contacts.app's form for built-in ones, e.g. "_$!<Mobile>!$_".
+ */
+export interface FixtureContactPhone {
+	number: string;
+	label?: string | null;
+	isPrimary?: boolean;
+}
+
+export interface FixtureContactEmail {
+	address: string;
+	label?: string | null;
+	isPrimary?: boolean;
+}
+
+/**
+ * Contact row to insert
+ */
+export interface FixtureContact {
+	id?: string;
+	firstName?: string | null;
+	lastName?: string | null;
+	middleName?: string | null;
+	nickname?: string | null;
+	organization?: string | null;
+	department?: string | null;
+	jobTitle?: string | null;
+	/**
+	 * Omit the year for a birthday entered without one
+	 */
+	birthday?: { year?: number; month: number; day: number } | null;
+	phones?: FixtureContactPhone[];
+	emails?: FixtureContactEmail[];
+}
+
+/**
+ * A real AddressBook-shaped SQLite database populated through a fluent builder
+ */
+export class ContactsDbFixture {
+	readonly path: string;
+	private db: Database.Database;
+	private readonly tempDir: string | null;
+
+	constructor(options: ContactsDbFixtureOptions = {}) {
+		if (options.path) {
+			this.tempDir = null;
+			this.path = options.path;
+		} else {
+			this.tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "contacts-sdk-"));
+			this.path = path.join(this.tempDir, "AddressBook-v22.abcddb");
+		}
+
+		this.db = new Database(this.path);
+		// Core Data keeps its stores in WAL mode
+		this.db.pragma("journal_mode = WAL");
+		this.db.exec(ADDRESS_BOOK_SCHEMA);
+
+		const insertEntity = this.db.prepare(
+			"INSERT INTO Z_PRIMARYKEY (Z_ENT, Z_NAME, Z_SUPER, Z_MAX) VALUES (?, ?, ?, 0)",
+		);
+		insertEntity.run(ENTITIES.ABCDRecord, "ABCDRecord", 0);
+		insertEntity.run(ENTITIES.ABCDContact, "ABCDContact", ENTITIES.ABCDRecord);
+		insertEntity.run(ENTITIES.ABCDGroup, "ABCDGroup", ENTITIES.ABCDRecord);
+	}
+
+	/**
+	 * Add a person or company card with its phone numbers and emails
+	 */
+	addContact(contact: FixtureContact): this {
+		const owner = this.insert("ZABCDRECORD", {
+			Z_ENT: ENTITIES.ABCDContact,
+			Z_OPT: 1,
+			ZUNIQUEID: contact.id ?? `${randomUUID().toUpperCase()}:ABPerson`,
+			ZFIRSTNAME: contact.firstName ?? null,
+			ZLASTNAME: contact.lastName ?? null,
+			ZMIDDLENAME: contact.middleName ?? null,
+			ZNICKNAME: contact.nickname ?? null,
+			ZORGANIZATION: contact.organization ?? null,
+			ZDEPARTMENT: contact.department ?? null,
+			ZJOBTITLE: contact.jobTitle ?? null,
+			ZBIRTHDAY: contact.birthday ? birthdayTime(contact.birthday) : null,
+		});
+
+		(contact.phones ?? []).forEach((phone, index) => {
+			this.insert("ZABCDPHONENUMBER", {
+				Z_ENT: 0,
+				Z_OPT: 1,
+				ZOWNER: owner,
+				ZISPRIMARY: phone.isPrimary ? 1 : 0,
+				ZORDERINGINDEX: index,
+				ZFULLNUMBER: phone.number,
+				ZLABEL: phone.label ?? null,
+				ZUNIQUEID: `${randomUUID().toUpperCase()}:ABPhoneNumber`,
+			});
+		});
+		(contact.emails ?? []).forEach((email, index) => {
+			this.insert("ZABCDEMAILADDRESS", {
+				Z_ENT: 0,
+				Z_OPT: 1,
+				ZOWNER: owner,
+				ZISPRIMARY: email.isPrimary ? 1 : 0,
+				ZORDERINGINDEX: index,
+				ZADDRESS: email.address,
+				ZADDRESSNORMALIZED: email.address.toLowerCase(),
+				ZLABEL: email.label ?? null,
+				ZUNIQUEID: `${randomUUID().toUpperCase()}:ABEmailAddress`,
+			});
+		});
+		return this;
+	}
+
+	/**
+	 * Add a contact group, which shares ZABCDRECORD with contacts
+	 */
+	addGroup(name: string): this {
+		this.insert("ZABCDRECORD", {
+			Z_ENT: ENTITIES.ABCDGroup,
+			Z_OPT: 1,
+			ZUNIQUEID: `${randomUUID().toUpperCase()}:ABGroup`,
+			ZNAME: name,
+		});
+		return this;
+	}
+
+	/**
+	 * Close the fixture's own connection, leaving the file in place
+	 */
+	close(): void {
+		if (this.db.open) {
+			this.db.close();
+		}
+	}
+
+	/**
+	 * Close the connection and delete the temporary directory, if one was created
+	 */
+	cleanup(): void {
+		this.close();
+		if (this.tempDir) {
+			fs.rmSync(this.tempDir, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Insert a row from a column map, returning its Z_PK
+	 */
+	private insert(table: string, values: Record<string, unknown>): number {
+		const columns = Object.keys(values);
+		const result = this.db
+			.prepare(
+				`INSERT INTO ${table} (${columns.join(", ")})
+         VALUES (${columns.map(() => "?").join(", ")})`,
+			)
+			.run(...Object.values(values));
+		return Number(result.lastInsertRowid);
+	}
+}
+
+/**
+ * Stores a birthday the way Contacts.app does: midnight GMT in seconds since
+ * 2001, in the year 1604 when no year was entered
+ */
+function birthdayTime(birthday: {
+	year?: number;
+	month: number;
+	day: number;
+}): number {
+	const time = Date.UTC(
+		birthday.year ?? 1604,
+		birthday.month - 1,
+		birthday.day,
+	);
+	return time / 1000 - CORE_DATA_EPOCH_OFFSET;
+}
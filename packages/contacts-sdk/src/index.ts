@@ -1,7 +1,8 @@
 /**
  * @macos-tools/contacts-sdk
  *
- * A TypeScript SDK for querying macOS Contacts data via AppleScript
+ * A TypeScript SDK for querying macOS Contacts data via AppleScript or
+ * directly from the AddressBook database
  */
 
 export {
@@ -10,3 +11,16 @@ export {
 	type SendMessageOptions,
 	type SendMessageResult,
 } from "./client";
+export {
+	type AddressNormalizer,
+	type ContactBirthday,
+	type ContactEmail,
+	type ContactPhone,
+	type ContactRecord,
+	ContactsDatabaseClient,
+	type ContactsDatabaseConfig,
+	getDefaultContactsDatabasePaths,
+	normalizeContactAddress,
+	parseContactBirthday,
+	parseContactLabel,
+} from "./database";
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { percentile } from "../src/analytics";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * A local time in March 2024, so hours and weekdays do not depend on the
+ * timezone the tests run in (the 4th is a Monday)
+ */
+const at = (day: number, hour: number, minute = 0) =>
+	new Date(2024, 2, day, hour, minute);
+
+describe("percentile", () => {
+	it("should interpolate between ranks", () => {
+		expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+		expect(percentile([4, 5, 10], 0.9)).toBe(9);
+		expect(percentile([7], 0.9)).toBe(7);
+		expect(percentile([], 0.5)).toBeNull();
+	});
+});
+
+describe("IMessageClient conversation insights", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	const ALICE = "+15550000001";
+	const BOB = "+15550000002";
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ALICE })
+			.addHandle({ id: BOB })
+			.addChat({ chatIdentifier: ALICE, participants: [ALICE] })
+			.addChat({ chatIdentifier: BOB, participants: [BOB] })
+			.addChat({ chatIdentifier: "chat100", participants: [ALICE, BOB] });
+
+		const fromAlice = (date: Date, guid?: string) =>
+			fixture.addMessage({ guid, chat: ALICE, handle: ALICE, text: "a", date });
+		const toAlice = (date: Date) =>
+			fixture.addMessage({ chat: ALICE, isFromMe: true, text: "b", date });
+
+		// Alice starts, replies both ways
+		fromAlice(at(4, 9, 0));
+		toAlice(at(4, 9, 10));
+		fromAlice(at(4, 9, 40));
+		// I start the next day; a double text is not a reply
+		toAlice(at(5, 20, 0));
+		toAlice(at(5, 20, 2));
+		fromAlice(at(5, 20, 5));
+		// And again after two quiet days
+		toAlice(at(8, 9, 0));
+		fromAlice(at(8, 9, 20), "last");
+		// Tapbacks are not messages
+		fixture.addReaction({
+			message: "last",
+			type: "loved",
+			isFromMe: true,
+			chat: ALICE,
+		});
+
+		fixture
+			.addMessage({ chat: BOB, handle: BOB, text: "c", date: at(5, 12, 0) })
+			.addMessage({ chat: BOB, isFromMe: true, text: "d", date: at(5, 12, 4) })
+			// Someone else answering in a group is not a reply from me
+			.addMessage({
+				chat: "chat100",
+				handle: ALICE,
+				text: "e",
+				date: at(4, 13, 0),
+			})
+			.addMessage({
+				chat: "chat100",
+				handle: BOB,
+				text: "f",
+				date: at(4, 13, 1),
+			})
+			.addMessage({
+				chat: "chat100",
+				isFromMe: true,
+				text: "g",
+				date: at(4, 13, 6),
+			});
+
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should compute median and p90 response times in each direction", () => {
+		const insights = client.getConversationInsights();
+
+		expect(insights.totalMessages).toBe(13);
+		expect(insights.responseTimes).toEqual({
+			mine: { count: 3, median: 5 * MINUTE, p90: 9 * MINUTE },
+			theirs: { count: 3, median: 20 * MINUTE, p90: 28 * MINUTE },
+		});
+
+		const [alice] = insights.chatResponseTimes;
+		expect(alice).toEqual({
+			chatId: fixture.chatRowId(ALICE),
+			mine: { count: 1, median: 10 * MINUTE, p90: 10 * MINUTE },
+			theirs: { count: 3, median: 20 * MINUTE, p90: 28 * MINUTE },
+		});
+	});
+
+	it("should count messages by local hour and weekday", () => {
+		const { hourOfDay, weekday } = client.getConversationInsights();
+
+		expect(hourOfDay[9]).toBe(5);
+		expect(hourOfDay[12]).toBe(2);
+		expect(hourOfDay[13]).toBe(3);
+		expect(hourOfDay[20]).toBe(3);
+		expect(weekday).toEqual([0, 6, 5, 0, 0, 2, 0]);
+	});
+
+	it("should report streaks and silences", () => {
+		const { streaks, silences } = client.getConversationInsights();
+
+		expect(streaks).toEqual([
+			{ start: at(4, 0), end: at(5, 0), days: 2 },
+			{ start: at(8, 0), end: at(8, 0), days: 1 },
+		]);
+		expect(silences).toEqual([{ start: at(6, 0), end: at(7, 0), days: 2 }]);
+	});
+
+	it("should rank one-on-one contacts by volume and initiative", () => {
+		const { contacts } = client.getConversationInsights();
+
+		expect(
+			contacts.map((contact) => ({
+				id: contact.handle.id,
+				sent: contact.sent,
+				received: contact.received,
+				total: contact.total,
+				initiatedByMe: contact.initiatedByMe,
+				initiatedByThem: contact.initiatedByThem,
+				myInitiationShare: contact.myInitiationShare,
+			})),
+		).toEqual([
+			{
+				id: ALICE,
+				sent: 4,
+				received: 4,
+				total: 8,
+				initiatedByMe: 2,
+				initiatedByThem: 1,
+				myInitiationShare: 2 / 3,
+			},
+			{
+				id: BOB,
+				sent: 1,
+				received: 1,
+				total: 2,
+				initiatedByMe: 0,
+				initiatedByThem: 1,
+				myInitiationShare: 0,
+			},
+		]);
+	});
+
+	it("should split conversations at the configured gap", () => {
+		const insights = client.getConversationInsights({
+			chatId: fixture.chatRowId(ALICE),
+			conversationGap: 15 * MINUTE,
+		});
+
+		expect(insights.totalMessages).toBe(8);
+		expect(insights.chatResponseTimes).toHaveLength(1);
+		expect(insights.responseTimes.mine).toEqual({
+			count: 1,
+			median: 10 * MINUTE,
+			p90: 10 * MINUTE,
+		});
+		expect(insights.responseTimes.theirs.count).toBe(1);
+		expect(insights.contacts[0]).toMatchObject({
+			initiatedByMe: 2,
+			initiatedByThem: 3,
+		});
+	});
+
+	it("should limit the analysis to a date range", () => {
+		const insights = client.getConversationInsights({
+			startDate: at(5, 0),
+			endDate: at(6, 0),
+		});
+
+		expect(insights.totalMessages).toBe(5);
+		expect(insights.streaks).toEqual([
+			{ start: at(5, 0), end: at(5, 0), days: 1 },
+		]);
+		expect(insights.silences).toEqual([]);
+	});
+});
@@ -0,0 +1,198 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolveAttachmentPath, sniffMimeType } from "../src/attachments";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import type { Attachment } from "../src/types";
+
+const PNG_HEADER = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d,
+]);
+
+describe("resolveAttachmentPath", () => {
+	it("should expand the home directory", () => {
+		expect(
+			resolveAttachmentPath("~/Library/Messages/Attachments/a/b.jpg"),
+		).toBe(path.join(os.homedir(), "Library/Messages/Attachments/a/b.jpg"));
+	});
+
+	it("should resolve against a configured attachments root", () => {
+		expect(
+			resolveAttachmentPath(
+				"~/Library/Messages/Attachments/ab/11/GUID/b.jpg",
+				"/backup/Attachments",
+			),
+		).toBe(path.join("/backup/Attachments", "ab/11/GUID/b.jpg"));
+	});
+
+	it("should leave other paths alone", () => {
+		expect(
+			resolveAttachmentPath("/var/folders/x/y.caf", "/backup/Attachments"),
+		).toBe("/var/folders/x/y.caf");
+		expect(
+			resolveAttachmentPath(
+				"~/Library/Messages/StickerCache/s.heic",
+				"/backup/Attachments",
+			),
+		).toBe(path.join(os.homedir(), "Library/Messages/StickerCache/s.heic"));
+	});
+});
+
+describe("sniffMimeType", () => {
+	it("should recognize common attachment formats", () => {
+		const ftyp = (brand: string) =>
+			Buffer.concat([
+				Buffer.from([0, 0, 0, 0x18]),
+				Buffer.from(`ftyp${brand}`, "latin1"),
+			]);
+
+		expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+			"image/jpeg",
+		);
+		expect(sniffMimeType(PNG_HEADER)).toBe("image/png");
+		expect(sniffMimeType(Buffer.from("GIF89a..."))).toBe("image/gif");
+		expect(sniffMimeType(Buffer.from("RIFF\0\0\0\0WEBPVP8 "))).toBe(
+			"image/webp",
+		);
+		expect(sniffMimeType(ftyp("heic"))).toBe("image/heic");
+		expect(sniffMimeType(ftyp("qt  "))).toBe("video/quicktime");
+		expect(sniffMimeType(ftyp("isom"))).toBe("video/mp4");
+		expect(sniffMimeType(ftyp("M4A "))).toBe("audio/mp4");
+		expect(sniffMimeType(Buffer.from("caff\0\x01"))).toBe("audio/x-caf");
+		expect(sniffMimeType(Buffer.from("%PDF-1.7"))).toBe("application/pdf");
+	});
+
+	it("should return null for unknown or empty data", () => {
+		expect(sniffMimeType(Buffer.from("hello world"))).toBeNull();
+		expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+	});
+});
+
+describe("IMessageClient attachment access", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let root: string;
+
+	const attachment = (guid: string): Attachment => {
+		const [found] = client
+			.getAttachmentsForMessage(fixture.messageRowId("photo"))
+			.filter((a) => a.guid === guid);
+		if (!found) throw new Error(`No attachment ${guid}`);
+		return found;
+	};
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "imessage-attachments-"));
+		fs.mkdirSync(path.join(root, "ab/11/A1"), { recursive: true });
+		fs.writeFileSync(path.join(root, "ab/11/A1/IMG_0001.png"), PNG_HEADER);
+
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addMessage({ guid: "photo", handle: "+15551234567", text: "￼" })
+			.addAttachment({
+				message: "photo",
+				guid: "png",
+				filename: "~/Library/Messages/Attachments/ab/11/A1/IMG_0001.png",
+				// Wrong on purpose: the sniffed type wins
+				mimeType: "image/jpeg",
+			})
+			.addAttachment({
+				message: "photo",
+				guid: "gone",
+				filename: "~/Library/Messages/Attachments/cd/22/B2/clip.mov",
+				mimeType: "video/quicktime",
+			})
+			.addAttachment({
+				message: "photo",
+				guid: "sticker",
+				filename: null,
+				isSticker: true,
+			});
+		client = new IMessageClient({
+			databasePath: fixture.path,
+			attachmentsRoot: root,
+		});
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it("should resolve files under the attachments root", () => {
+		const resolved = client.resolveAttachment(attachment("png"));
+
+		expect(resolved).toMatchObject({
+			path: path.join(root, "ab/11/A1/IMG_0001.png"),
+			exists: true,
+			size: PNG_HEADER.length,
+			mimeType: "image/png",
+			isSticker: false,
+		});
+	});
+
+	it("should report missing files with the stored MIME type", () => {
+		expect(client.resolveAttachment(attachment("gone"))).toMatchObject({
+			path: path.join(root, "cd/22/B2/clip.mov"),
+			exists: false,
+			size: null,
+			mimeType: "video/quicktime",
+		});
+		expect(client.resolveAttachment(attachment("sticker"))).toMatchObject({
+			path: null,
+			exists: false,
+			isSticker: true,
+		});
+	});
+
+	it("should report files whose path cannot be checked as missing", () => {
+		fixture.addAttachment({
+			message: "photo",
+			guid: "under-file",
+			// A parent that is a file fails stat with ENOTDIR
+			filename: "~/Library/Messages/Attachments/ab/11/A1/IMG_0001.png/x.png",
+			mimeType: "image/png",
+		});
+
+		expect(client.resolveAttachment(attachment("under-file"))).toMatchObject({
+			exists: false,
+			size: null,
+			mimeType: "image/png",
+		});
+	});
+
+	it("should look attachments up by ID", () => {
+		const png = attachment("png");
+
+		expect(client.getAttachmentById(png.ROWID)?.guid).toBe("png");
+		expect(client.getAttachmentById(9999)).toBeNull();
+	});
+
+	it("should stream and copy attachment files", async () => {
+		const chunks: Buffer[] = [];
+		for await (const chunk of client.createAttachmentReadStream(
+			attachment("png"),
+		)) {
+			chunks.push(chunk as Buffer);
+		}
+		expect(Buffer.concat(chunks)).toEqual(PNG_HEADER);
+
+		const copy = await client.copyAttachment(
+			attachment("png"),
+			path.join(root, "copies/nested/photo.png"),
+		);
+		expect(fs.readFileSync(copy)).toEqual(PNG_HEADER);
+	});
+
+	it("should throw when copying or streaming a missing file", async () => {
+		expect(() => client.createAttachmentReadStream(attachment("gone"))).toThrow(
+			"Attachment file not found",
+		);
+		await expect(
+			client.copyAttachment(attachment("gone"), path.join(root, "x.mov")),
+		).rejects.toThrow("Attachment file not found");
+	});
+});
@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { describeBalloon, parseBalloon } from "../src/balloons";
+import { IMessageClient } from "../src/client";
+import {
+	ArchivedObject,
+	archivedUrl,
+	ChatDbFixture,
+	encodeBinaryPlist,
+	encodeKeyedArchive,
+} from "../src/fixtures";
+import { decodeKeyedArchive, unarchive } from "../src/keyed-archive";
+import { PlistUid } from "../src/plist";
+import { formatMessage } from "../src/utils";
+
+const APP_PLUGIN = "com.apple.messages.MSMessageExtensionBalloonPlugin";
+
+describe("decodeKeyedArchive", () => {
+	it("should resolve dictionaries, arrays, strings and dates", () => {
+		const archive = encodeKeyedArchive({
+			title: "Hello",
+			count: 3,
+			tags: ["a", "b", null],
+			sent: new Date(Date.UTC(2024, 2, 4)),
+			data: Buffer.from([1, 2]),
+		});
+
+		expect(decodeKeyedArchive(archive)).toEqual({
+			title: "Hello",
+			count: 3,
+			tags: ["a", "b", null],
+			sent: new Date(Date.UTC(2024, 2, 4)),
+			data: Buffer.from([1, 2]),
+		});
+	});
+
+	it("should decode other classes into their fields", () => {
+		const archive = encodeKeyedArchive(
+			new ArchivedObject(["LPLinkMetadata", "NSObject"], {
+				URL: archivedUrl("https://example.com/a"),
+				version: 1,
+			}),
+		);
+
+		expect(decodeKeyedArchive(archive)).toEqual({
+			$class: "LPLinkMetadata",
+			URL: "https://example.com/a",
+			version: 1,
+		});
+	});
+
+	it("should resolve relative URLs, UUIDs and mutable strings", () => {
+		const cls = (name: string) => ({
+			$classname: name,
+			$classes: [name, "NSObject"],
+		});
+		const decoded = unarchive({
+			$archiver: "NSKeyedArchiver",
+			$top: { root: new PlistUid(1) },
+			$objects: [
+				"$null",
+				{
+					"NS.keys": [new PlistUid(2), new PlistUid(3), new PlistUid(4)],
+					"NS.objects": [new PlistUid(5), new PlistUid(8), new PlistUid(10)],
+					$class: new PlistUid(12),
+				},
+				"url",
+				"id",
+				"name",
+				{
+					"NS.base": new PlistUid(6),
+					"NS.relative": new PlistUid(7),
+					$class: new PlistUid(13),
+				},
+				"https://example.com/docs/",
+				"page?q=1",
+				{ "NS.uuidbytes": new PlistUid(9), $class: new PlistUid(14) },
+				Buffer.from("00112233445566778899aabbccddeeff", "hex"),
+				{ "NS.string": new PlistUid(11), $class: new PlistUid(15) },
+				"Ada",
+				cls("NSMutableDictionary"),
+				cls("NSURL"),
+				cls("NSUUID"),
+				{
+					$classname: "NSMutableString",
+					$classes: ["NSMutableString", "NSString", "NSObject"],
+				},
+			],
+		});
+
+		expect(decoded).toEqual({
+			url: "https://example.com/docs/page?q=1",
+			id: "00112233-4455-6677-8899-AABBCCDDEEFF",
+			name: "Ada",
+		});
+	});
+
+	it("should cut reference cycles", () => {
+		const decoded = unarchive({
+			$top: { root: new PlistUid(1) },
+			$objects: [
+				"$null",
+				{ parent: new PlistUid(1), $class: new PlistUid(2) },
+				{ $classname: "Node", $classes: ["Node", "NSObject"] },
+			],
+		});
+
+		expect(decoded).toEqual({ $class: "Node", parent: null });
+	});
+
+	it("should return null for anything that is not a keyed archive", () => {
+		expect(decodeKeyedArchive(null)).toBeNull();
+		expect(decodeKeyedArchive(Buffer.from("not a plist"))).toBeNull();
+		expect(decodeKeyedArchive(encodeBinaryPlist({ a: 1 }))).toBeNull();
+		expect(
+			decodeKeyedArchive(
+				encodeBinaryPlist({ $top: { root: new PlistUid(9) }, $objects: [] }),
+			),
+		).toBeNull();
+	});
+});
+
+describe("parseBalloon", () => {
+	it("should classify built-in and app extension balloons", () => {
+		expect(parseBalloon(null, null)).toBeNull();
+		expect(parseBalloon("com.apple.DigitalTouchBalloonProvider", null)).toEqual(
+			{
+				kind: "digitalTouch",
+				bundleId: "com.apple.DigitalTouchBalloonProvider",
+			},
+		);
+		expect(parseBalloon("com.example.Unknown", null)?.kind).toBe("unknown");
+		expect(
+			parseBalloon(
+				`${APP_PLUGIN}:0000000000:com.apple.PassbookUIService.PeerPaymentMessagesExtension`,
+				null,
+			),
+		).toMatchObject({
+			kind: "applePay",
+			appId: "com.apple.PassbookUIService.PeerPaymentMessagesExtension",
+			caption: null,
+		});
+	});
+
+	it("should describe balloons on one line", () => {
+		expect(
+			describeBalloon({
+				kind: "link",
+				bundleId: "com.apple.messages.URLBalloonProvider",
+				preview: {
+					url: "https://example.com",
+					title: "Example",
+					summary: null,
+					siteName: null,
+				},
+			}),
+		).toBe("[Link] Example (https://example.com)");
+		expect(
+			describeBalloon({
+				kind: "poll",
+				bundleId: `${APP_PLUGIN}:0000000000:com.apple.messages.Polls`,
+				appId: "com.apple.messages.Polls",
+				appName: null,
+				caption: "Lunch?",
+				subcaption: "3 options",
+				url: null,
+			}),
+		).toBe("[Poll] Lunch? – 3 options");
+		expect(
+			describeBalloon({
+				kind: "handwriting",
+				bundleId: "com.apple.Handwriting.HandwritingProvider",
+			}),
+		).toBe("[Handwritten message]");
+	});
+});
+
+describe("IMessageClient balloons", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	const ALICE = "+15550000001";
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ALICE })
+			.addChat({ chatIdentifier: ALICE, participants: [ALICE] })
+			.addMessage({
+				guid: "link",
+				chat: ALICE,
+				handle: ALICE,
+				text: "\uFFFC",
+				linkPreview: {
+					url: "https://example.com/article",
+					title: "An Article",
+					summary: "What it is about",
+					siteName: "Example",
+				},
+			})
+			.addMessage({
+				guid: "game",
+				chat: ALICE,
+				isFromMe: true,
+				text: "\uFFFC",
+				app: {
+					appId: "com.gamerdelights.gamepigeon.ext",
+					teamId: "6Z9J5NE2W5",
+					appName: "GamePigeon",
+					caption: "Let's play 8 Ball!",
+					url: "data:?game=8ball",
+				},
+			})
+			.addMessage({
+				guid: "touch",
+				chat: ALICE,
+				handle: ALICE,
+				balloonBundleId: "com.apple.DigitalTouchBalloonProvider",
+			})
+			.addMessage({ guid: "plain", chat: ALICE, handle: ALICE, text: "hi" });
+
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const byGuid = () =>
+		new Map(client.getMessages().map((message) => [message.guid, message]));
+
+	it("should decode link previews", () => {
+		expect(byGuid().get("link")?.balloon).toEqual({
+			kind: "link",
+			bundleId: "com.apple.messages.URLBalloonProvider",
+			preview: {
+				url: "https://example.com/article",
+				title: "An Article",
+				summary: "What it is about",
+				siteName: "Example",
+			},
+		});
+	});
+
+	it("should decode app balloons and classify the rest", () => {
+		const messages = byGuid();
+
+		expect(messages.get("game")?.balloon).toEqual({
+			kind: "app",
+			bundleId: `${APP_PLUGIN}:6Z9J5NE2W5:com.gamerdelights.gamepigeon.ext`,
+			appId: "com.gamerdelights.gamepigeon.ext",
+			appName: "GamePigeon",
+			caption: "Let's play 8 Ball!",
+			subcaption: null,
+			url: "data:?game=8ball",
+		});
+		expect(messages.get("touch")?.balloon?.kind).toBe("digitalTouch");
+		expect(messages.get("plain")?.balloon).toBeUndefined();
+	});
+
+	it("should format balloons instead of the placeholder", () => {
+		const messages = byGuid();
+		const text = (guid: string) =>
+			formatMessage(
+				messages.get(guid) as NonNullable<ReturnType<typeof messages.get>>,
+			).replace(/^\[[^\]]+\] [^:]+: /, "");
+
+		expect(text("link")).toBe(
+			"[Link] An Article (https://example.com/article)",
+		);
+		expect(text("game")).toBe("[GamePigeon] Let's play 8 Ball!");
+		expect(text("touch")).toBe("[Digital Touch]");
+		expect(text("plain")).toBe("hi");
+	});
+});
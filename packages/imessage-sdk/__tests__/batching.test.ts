@@ -0,0 +1,135 @@
+import Database from "better-sqlite3";
+import {
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+
+describe("IMessageClient batched loading", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let statementProto: { all: unknown; get: unknown };
+	let executed: ReturnType<typeof vi.fn>;
+
+	beforeAll(() => {
+		const memory = new Database(":memory:");
+		statementProto = Object.getPrototypeOf(memory.prepare("SELECT 1"));
+		memory.close();
+	});
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addHandle({ id: "friend@example.com" });
+
+		for (let chat = 0; chat < 4; chat++) {
+			const id = `chat${chat}`;
+			fixture.addChat({
+				chatIdentifier: id,
+				participants: ["+15551234567", "friend@example.com"],
+			});
+			for (let i = 0; i < 5; i++) {
+				const guid = `${id}-${i}`;
+				fixture
+					.addMessage({ guid, chat: id, handle: "+15551234567", text: guid })
+					.addAttachment({ message: guid, filename: `~/${guid}.jpg` });
+			}
+		}
+		client = new IMessageClient({ databasePath: fixture.path });
+
+		executed = vi.fn();
+		for (const method of ["all", "get"] as const) {
+			const original = statementProto[method] as (
+				...args: unknown[]
+			) => unknown;
+			vi.spyOn(statementProto as never, method).mockImplementation(function (
+				this: unknown,
+				...args: unknown[]
+			) {
+				executed();
+				return original.apply(this, args);
+			});
+		}
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		client.close();
+		fixture.cleanup();
+	});
+
+	const queriesFor = (run: () => void) => {
+		executed.mockClear();
+		run();
+		return executed.mock.calls.length;
+	};
+
+	it("should run the same number of queries for any page size", () => {
+		const include = ["attachments", "handle", "chat", "participants"] as const;
+		const few = queriesFor(() =>
+			client.getMessages({ limit: 2, include: [...include] }),
+		);
+		const many = queriesFor(() =>
+			client.getMessages({ limit: 20, include: [...include] }),
+		);
+
+		expect(few).toBeGreaterThan(0);
+		expect(many).toBe(few);
+	});
+
+	it("should load recent chats with a fixed number of queries", () => {
+		const one = queriesFor(() => client.getRecentChats(1));
+		const all = queriesFor(() => client.getRecentChats(4));
+
+		expect(all).toBe(one);
+	});
+
+	it("should only load the requested relations", () => {
+		const [bare] = client.getMessages({ limit: 1, include: [] });
+		const [full] = client.getMessages({
+			limit: 1,
+			include: ["attachments", "handle", "chat", "participants"],
+		});
+
+		expect(bare?.handle).toBeUndefined();
+		expect(bare?.attachments).toBeUndefined();
+		expect(bare?.chat).toBeUndefined();
+		expect(full?.handle?.id).toBe("+15551234567");
+		expect(full?.attachments?.map((a) => a.filename)).toEqual([
+			"~/chat3-4.jpg",
+		]);
+		expect(full?.chat?.chat_identifier).toBe("chat3");
+		expect(full?.participants?.map((p) => p.id)).toEqual([
+			"+15551234567",
+			"friend@example.com",
+		]);
+	});
+
+	it("should keep attachments and handle loaded by default", () => {
+		const [message] = client.getMessages({ limit: 1 });
+
+		expect(message?.handle?.id).toBe("+15551234567");
+		expect(message?.attachments).toHaveLength(1);
+		expect(message?.chat).toBeUndefined();
+	});
+
+	it("should load the latest messages of several chats at once", () => {
+		const latest = client.getLatestMessagesForChats([1, 3], 2);
+
+		expect(latest.get(1)?.map((m) => m.guid)).toEqual(["chat0-4", "chat0-3"]);
+		expect(latest.get(3)?.map((m) => m.guid)).toEqual(["chat2-4", "chat2-3"]);
+	});
+
+	it("should attach participants and last message to recent chats", () => {
+		const [chat] = client.getRecentChats(1);
+
+		expect(chat?.lastMessage?.guid).toBe("chat3-4");
+		expect(chat?.participants).toHaveLength(2);
+	});
+});
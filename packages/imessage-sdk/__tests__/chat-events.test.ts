@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+
+describe("IMessageClient group chat events", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let chatId: number;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15550000001" })
+			.addHandle({ id: "+15550000002" })
+			.addHandle({ id: "+15550000003" })
+			.addChat({
+				chatIdentifier: "chat100",
+				participants: ["+15550000001", "+15550000002"],
+			})
+			.addMessage({
+				guid: "hello",
+				chat: "chat100",
+				handle: "+15550000001",
+				text: "hi all",
+				date: new Date("2024-03-01T10:00:00Z"),
+			})
+			.addGroupEvent({
+				chat: "chat100",
+				type: "participantAdded",
+				actor: "+15550000001",
+				target: "+15550000003",
+				date: new Date("2024-03-02T10:00:00Z"),
+			})
+			.addGroupEvent({
+				chat: "chat100",
+				type: "renamed",
+				isFromMe: true,
+				name: "Ski Trip",
+				date: new Date("2024-03-03T10:00:00Z"),
+			})
+			.addGroupEvent({
+				chat: "chat100",
+				type: "groupPhotoChanged",
+				actor: "+15550000003",
+				date: new Date("2024-03-04T10:00:00Z"),
+			})
+			.addGroupEvent({
+				chat: "chat100",
+				type: "participantRemoved",
+				actor: "+15550000002",
+				date: new Date("2024-03-05T10:00:00Z"),
+			})
+			.addGroupEvent({
+				chat: "chat100",
+				type: "participantRemoved",
+				isFromMe: true,
+				target: "+15550000003",
+				date: new Date("2024-03-06T10:00:00Z"),
+			})
+			.addMessage({
+				guid: "bye",
+				chat: "chat100",
+				isFromMe: true,
+				text: "just us now",
+				date: new Date("2024-03-07T10:00:00Z"),
+			});
+
+		client = new IMessageClient({ databasePath: fixture.path });
+		chatId = fixture.chatRowId("chat100");
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should return typed events with actor and target, oldest first", () => {
+		const events = client.getChatEvents(chatId);
+
+		expect(
+			events.map((event) => ({
+				type: event.type,
+				actor: event.actor?.id ?? null,
+				target: event.target?.id ?? null,
+				isFromMe: event.isFromMe,
+			})),
+		).toEqual([
+			{
+				type: "participantAdded",
+				actor: "+15550000001",
+				target: "+15550000003",
+				isFromMe: false,
+			},
+			{ type: "renamed", actor: null, target: null, isFromMe: true },
+			{
+				type: "groupPhotoChanged",
+				actor: "+15550000003",
+				target: null,
+				isFromMe: false,
+			},
+			// Leaving the conversation removes yourself
+			{
+				type: "participantRemoved",
+				actor: "+15550000002",
+				target: "+15550000002",
+				isFromMe: false,
+			},
+			{
+				type: "participantRemoved",
+				actor: null,
+				target: "+15550000003",
+				isFromMe: true,
+			},
+		]);
+		expect(events[1]).toMatchObject({
+			name: "Ski Trip",
+			date: new Date("2024-03-03T10:00:00Z"),
+		});
+		expect(events[2]?.photoRemoved).toBe(false);
+	});
+
+	it("should filter events by date", () => {
+		const events = client.getChatEvents(chatId, {
+			startDate: new Date("2024-03-03T00:00:00Z"),
+			endDate: new Date("2024-03-04T23:59:59Z"),
+		});
+
+		expect(events.map((event) => event.type)).toEqual([
+			"renamed",
+			"groupPhotoChanged",
+		]);
+	});
+
+	it("should reconstruct participant history", () => {
+		const history = client
+			.getParticipantHistory(chatId)
+			.map((span) => ({
+				id: span.handle.id,
+				joinedAt: span.joinedAt?.toISOString() ?? null,
+				leftAt: span.leftAt?.toISOString() ?? null,
+			}))
+			.sort((a, b) => a.id.localeCompare(b.id));
+
+		expect(history).toEqual([
+			{ id: "+15550000001", joinedAt: null, leftAt: null },
+			{
+				id: "+15550000002",
+				joinedAt: null,
+				leftAt: "2024-03-05T10:00:00.000Z",
+			},
+			{
+				id: "+15550000003",
+				joinedAt: "2024-03-02T10:00:00.000Z",
+				leftAt: "2024-03-06T10:00:00.000Z",
+			},
+		]);
+	});
+
+	it("should list who was in the chat at a point in time", () => {
+		const idsAt = (date: string) =>
+			client
+				.getParticipantsAt(chatId, new Date(date))
+				.map((handle) => handle.id)
+				.sort();
+
+		expect(idsAt("2024-03-01T12:00:00Z")).toEqual([
+			"+15550000001",
+			"+15550000002",
+		]);
+		expect(idsAt("2024-03-04T12:00:00Z")).toEqual([
+			"+15550000001",
+			"+15550000002",
+			"+15550000003",
+		]);
+		expect(idsAt("2024-03-07T12:00:00Z")).toEqual(["+15550000001"]);
+	});
+
+	it("should hide group events from message listings", () => {
+		expect(client.getMessages({ chatId }).map((m) => m.guid)).toEqual([
+			"bye",
+			"hello",
+		]);
+		expect(client.getMessagesPage({ chatId }).items).toHaveLength(2);
+		expect(
+			client
+				.getLatestMessagesForChats([chatId], 5)
+				.get(chatId)
+				?.map((m) => m.guid),
+		).toEqual(["bye", "hello"]);
+	});
+
+	it("should not show a group event as a chat's last message", () => {
+		fixture.addGroupEvent({
+			chat: "chat100",
+			type: "renamed",
+			actor: "+15550000001",
+			name: "Ski Trip 2",
+		});
+
+		const [recent] = client.getRecentChats(1);
+		expect(recent?.display_name).toBe("Ski Trip 2");
+		expect(recent?.lastMessage?.guid).toBe("bye");
+	});
+});
@@ -19,6 +19,7 @@ vi.mock("better-sqlite3", () => {
 // Mock utils
 vi.mock("../src/utils", () => ({
 	getDefaultDatabasePath: vi.fn(() => "/mock/path/to/chat.db"),
+	getDefaultSearchIndexPath: vi.fn(() => "/mock/path/to/search.db"),
 	validateDatabasePath: vi.fn(() => true),
 	appleTimeToDate: vi.fn((timestamp: number) => {
 		const APPLE_EPOCH = 978307200;
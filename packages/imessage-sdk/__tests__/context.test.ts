@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { groupMessageContexts } from "../src/context";
+import { ChatDbFixture } from "../src/fixtures";
+
+const ADA = "+15550000001";
+const GRACE = "grace@example.com";
+
+describe("IMessageClient.getMessageContext", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ADA })
+			.addHandle({ id: GRACE })
+			.addChat({ chatIdentifier: ADA, participants: [ADA] })
+			.addChat({ chatIdentifier: GRACE, participants: [GRACE] });
+		const start = Date.UTC(2024, 5, 1, 12);
+		for (let i = 0; i < 10; i++) {
+			fixture.addMessage({
+				guid: `ada-${i}`,
+				chat: ADA,
+				handle: ADA,
+				isFromMe: i % 2 === 1,
+				text: `Ada message ${i}`,
+				date: new Date(start + i * 60_000),
+			});
+			// Interleaved messages of another chat stay out of Ada's context
+			fixture.addMessage({
+				guid: `grace-${i}`,
+				chat: GRACE,
+				handle: GRACE,
+				text: `Grace message ${i}`,
+				date: new Date(start + i * 60_000 + 30_000),
+			});
+		}
+		fixture
+			.addReaction({ message: "ada-4", handle: ADA, type: "liked" })
+			.addMessage({
+				guid: "same-date",
+				chat: ADA,
+				handle: ADA,
+				text: "Sent in the same instant as message 5",
+				date: new Date(start + 5 * 60_000),
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const idOf = (guid: string) =>
+		client.getMessages({ limit: 100 }).find((message) => message.guid === guid)
+			?.ROWID as number;
+	const guids = (messages: { guid: string }[]) =>
+		messages.map((message) => message.guid);
+
+	it("should return the messages around a hit in its chat, oldest first", () => {
+		const context = client.getMessageContext(idOf("ada-4"), {
+			before: 2,
+			after: 2,
+		});
+
+		expect(context?.chatId).toBe(
+			client.getChats().find((chat) => chat.chat_identifier === ADA)?.ROWID,
+		);
+		expect(guids(context?.messages ?? [])).toEqual([
+			"ada-2",
+			"ada-3",
+			"ada-4",
+			"ada-5",
+			"same-date",
+		]);
+		expect(context?.hitIndex).toBe(2);
+		expect(context?.messages[2]?.reactions).toHaveLength(1);
+		expect(context?.hasEarlier).toBe(true);
+		expect(context?.hasLater).toBe(true);
+	});
+
+	it("should stop at the edges of the chat", () => {
+		const first = client.getMessageContext(idOf("ada-1"), {
+			before: 5,
+			after: 0,
+		});
+		expect(guids(first?.messages ?? [])).toEqual(["ada-0", "ada-1"]);
+		expect(first?.hitIndex).toBe(1);
+		expect(first?.hasEarlier).toBe(false);
+		expect(first?.hasLater).toBe(true);
+
+		const last = client.getMessageContext(idOf("ada-9"));
+		expect(last?.messages).toHaveLength(6);
+		expect(last?.hitIndex).toBe(5);
+		expect(last?.hasLater).toBe(false);
+	});
+
+	it("should return null for unknown messages", () => {
+		expect(client.getMessageContext(99999)).toBeNull();
+	});
+
+	it("should merge overlapping windows and group them by chat", () => {
+		const contexts = ["ada-2", "grace-0", "ada-4", "ada-9"].map(
+			(guid) =>
+				client.getMessageContext(idOf(guid), {
+					before: 1,
+					after: 1,
+				}) as NonNullable<ReturnType<IMessageClient["getMessageContext"]>>,
+		);
+		const groups = groupMessageContexts(contexts);
+
+		expect(groups).toHaveLength(2);
+		expect(groups[0]?.windows.map((window) => guids(window.messages))).toEqual([
+			["ada-1", "ada-2", "ada-3", "ada-4", "ada-5"],
+			["ada-8", "ada-9"],
+		]);
+		expect(groups[0]?.windows[0]?.hitIds).toEqual([
+			idOf("ada-2"),
+			idOf("ada-4"),
+		]);
+		expect(groups[0]?.windows[0]?.hasEarlier).toBe(true);
+		expect(groups[0]?.windows[1]?.hasLater).toBe(false);
+		expect(guids(groups[1]?.windows[0]?.messages ?? [])).toEqual([
+			"grace-0",
+			"grace-1",
+		]);
+	});
+});
@@ -0,0 +1,205 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { periodStart } from "../src/delivery";
+import { ChatDbFixture } from "../src/fixtures";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * A local time in March 2024 (the 4th and 11th are Mondays)
+ */
+const at = (day: number, hour: number, minute = 0, second = 0) =>
+	new Date(2024, 2, day, hour, minute, second);
+
+describe("periodStart", () => {
+	it("should start days, Monday weeks and months at local midnight", () => {
+		const date = at(14, 15, 30);
+
+		expect(periodStart(date, "day")).toEqual(at(14, 0));
+		expect(periodStart(date, "week")).toEqual(at(11, 0));
+		expect(periodStart(at(10, 23), "week")).toEqual(at(4, 0));
+		expect(periodStart(date, "month")).toEqual(at(1, 0));
+	});
+});
+
+describe("IMessageClient delivery reporting", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	const ALICE = "+15550000001";
+	const BOB = "+15550000002";
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ALICE })
+			.addHandle({ id: BOB })
+			.addChat({ chatIdentifier: ALICE, participants: [ALICE] })
+			.addChat({ chatIdentifier: BOB, participants: [BOB] })
+			.addChat({ chatIdentifier: "chat100", participants: [ALICE, BOB] });
+
+		const send = (
+			chat: string,
+			date: Date,
+			options: {
+				guid?: string;
+				delivered?: number;
+				read?: number;
+				isDelivered?: boolean;
+				error?: number;
+			} = {},
+		) =>
+			fixture.addMessage({
+				guid: options.guid,
+				chat,
+				handle: chat === "chat100" ? undefined : chat,
+				isFromMe: true,
+				text: "sent",
+				date,
+				isDelivered: options.isDelivered,
+				error: options.error,
+				dateDelivered:
+					options.delivered !== undefined
+						? new Date(date.getTime() + options.delivered)
+						: undefined,
+				dateRead:
+					options.read !== undefined
+						? new Date(date.getTime() + options.read)
+						: undefined,
+			});
+
+		send(ALICE, at(4, 9), { delivered: 2 * SECOND, read: 5 * MINUTE });
+		send(ALICE, at(4, 10), { delivered: 4 * SECOND });
+		send(ALICE, at(12, 10), { delivered: 10 * SECOND, read: 60 * MINUTE });
+		send(ALICE, at(12, 11), { guid: "failed", isDelivered: false, error: 22 });
+		send(BOB, at(5, 9), { guid: "stuck", isDelivered: false });
+		send(BOB, at(5, 9, 1), { delivered: 1 * SECOND });
+		send("chat100", at(4, 13), { delivered: 3 * SECOND });
+		// Received messages are not part of the report
+		fixture.addMessage({
+			chat: BOB,
+			handle: BOB,
+			text: "hi",
+			date: at(5, 9, 2),
+		});
+
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should summarize delivery and read latency of sent messages", () => {
+		const report = client.getDeliveryReport();
+
+		expect(report).toMatchObject({
+			sent: 7,
+			delivered: 5,
+			read: 2,
+			failed: 1,
+			undelivered: 1,
+			deliveryLatency: { count: 5, median: 3 * SECOND, p90: 7.6 * SECOND },
+			readLatency: { count: 2, median: 32.5 * MINUTE, p90: 54.5 * MINUTE },
+		});
+	});
+
+	it("should break the report down by contact", () => {
+		const { byContact } = client.getDeliveryReport();
+
+		expect(
+			byContact.map((contact) => ({
+				id: contact.handle.id,
+				sent: contact.sent,
+				delivered: contact.delivered,
+				failed: contact.failed,
+				undelivered: contact.undelivered,
+				medianRead: contact.readLatency.median,
+			})),
+		).toEqual([
+			{
+				id: ALICE,
+				sent: 4,
+				delivered: 3,
+				failed: 1,
+				undelivered: 0,
+				medianRead: 32.5 * MINUTE,
+			},
+			{
+				id: BOB,
+				sent: 2,
+				delivered: 1,
+				failed: 0,
+				undelivered: 1,
+				medianRead: null,
+			},
+		]);
+	});
+
+	it("should count a message linked to several chats once", () => {
+		const db = new Database(fixture.path);
+		db.prepare(
+			"INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, 0)",
+		).run(fixture.chatRowId("chat100"), fixture.messageRowId("stuck"));
+		db.close();
+
+		const report = client.getDeliveryReport();
+
+		expect(report.sent).toBe(7);
+		expect(report.undelivered).toBe(1);
+		expect(
+			report.byContact.find((contact) => contact.handle.id === BOB)?.sent,
+		).toBe(2);
+	});
+
+	it("should break the report down over time", () => {
+		const { overTime } = client.getDeliveryReport({ interval: "week" });
+
+		expect(
+			overTime.map((period) => ({
+				start: period.start,
+				sent: period.sent,
+				read: period.read,
+			})),
+		).toEqual([
+			{ start: at(4, 0), sent: 5, read: 1 },
+			{ start: at(11, 0), sent: 2, read: 1 },
+		]);
+	});
+
+	it("should filter the report by chat and date", () => {
+		expect(
+			client.getDeliveryReport({ chatId: fixture.chatRowId(BOB) }).sent,
+		).toBe(2);
+		expect(client.getDeliveryReport({ startDate: at(11, 0) }).sent).toBe(2);
+	});
+
+	it("should list failed and undelivered messages, newest first", () => {
+		const undelivered = client.getUndeliveredMessages();
+
+		expect(
+			undelivered.map(({ message, status, error }) => ({
+				guid: message.guid,
+				status,
+				error,
+			})),
+		).toEqual([
+			{ guid: "failed", status: "failed", error: 22 },
+			{ guid: "stuck", status: "undelivered", error: 0 },
+		]);
+		expect(undelivered[0]?.message.handle?.id).toBe(ALICE);
+	});
+
+	it("should filter undelivered messages by status and chat", () => {
+		const guids = (
+			filter: Parameters<typeof client.getUndeliveredMessages>[0],
+		) =>
+			client.getUndeliveredMessages(filter).map(({ message }) => message.guid);
+
+		expect(guids({ status: "failed" })).toEqual(["failed"]);
+		expect(guids({ status: "undelivered" })).toEqual(["stuck"]);
+		expect(guids({ chatId: fixture.chatRowId(BOB) })).toEqual(["stuck"]);
+	});
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { parseMessageSummaryInfo } from "../src/edits";
+import { ChatDbFixture, encodeBinaryPlist } from "../src/fixtures";
+import { formatMessage } from "../src/utils";
+
+describe("parseMessageSummaryInfo", () => {
+	it("should return null for missing or invalid blobs", () => {
+		expect(parseMessageSummaryInfo(null)).toBeNull();
+		expect(parseMessageSummaryInfo(Buffer.from("junk"))).toBeNull();
+	});
+
+	it("should ignore summaries without edits", () => {
+		expect(
+			parseMessageSummaryInfo(encodeBinaryPlist({ amc: 1, ust: true })),
+		).toEqual({ edits: [], retractedParts: [] });
+	});
+});
+
+describe("IMessageClient edits", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addMessage({
+				guid: "plain",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "See you soon",
+				date: new Date("2024-01-01T12:00:00Z"),
+			})
+			.addMessage({
+				guid: "edited",
+				chat: "+15551234567",
+				isFromMe: true,
+				text: "Meet at 7",
+				date: new Date("2024-01-01T12:01:00Z"),
+				edits: [
+					{ text: "Meet at 6", date: new Date("2024-01-01T12:01:00Z") },
+					{ text: "Meet at 7", date: new Date("2024-01-01T12:03:00Z") },
+				],
+			})
+			.addMessage({
+				guid: "unsent",
+				chat: "+15551234567",
+				isFromMe: true,
+				text: null,
+				date: new Date("2024-01-01T12:02:00Z"),
+				dateRetracted: new Date("2024-01-01T12:04:00Z"),
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should decode the edit history", () => {
+		const message = client.getMessageById(fixture.messageRowId("edited"));
+
+		expect(message?.edits).toEqual([
+			{
+				text: "Meet at 6",
+				date: new Date("2024-01-01T12:01:00Z"),
+				partIndex: 0,
+			},
+			{
+				text: "Meet at 7",
+				date: new Date("2024-01-01T12:03:00Z"),
+				partIndex: 0,
+			},
+		]);
+		expect(message?.unsent).toBe(false);
+	});
+
+	it("should flag unsent messages", () => {
+		const [unsent, edited, plain] = client.getMessagesForChat(1);
+
+		expect(unsent?.unsent).toBe(true);
+		expect(edited?.unsent).toBe(false);
+		expect(plain?.edits).toBeUndefined();
+	});
+
+	it("should filter edited and unsent messages", () => {
+		const guids = (filter: Parameters<IMessageClient["getMessages"]>[0]) =>
+			client.getMessages(filter).map((m) => m.guid);
+
+		expect(guids({ isEdited: true })).toEqual(["edited"]);
+		expect(guids({ isEdited: false })).toEqual(["unsent", "plain"]);
+		expect(guids({ isRetracted: true })).toEqual(["unsent"]);
+		expect(guids({ isRetracted: false })).toEqual(["edited", "plain"]);
+	});
+
+	it("should mark edits and unsends when formatting", () => {
+		const [unsent, edited] = client.getMessagesForChat(1);
+		if (!unsent || !edited) throw new Error("messages not found");
+
+		expect(formatMessage(edited)).toMatch(/Me: Meet at 7 \(edited\)$/);
+		expect(formatMessage(unsent)).toMatch(/Me: \(unsent\)$/);
+	});
+});
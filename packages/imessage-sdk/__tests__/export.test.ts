@@ -0,0 +1,256 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import type { ExportedMessage } from "../src/types";
+
+describe("IMessageClient.exportMessages", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let outputDir: string;
+	let photoPath: string;
+
+	beforeEach(() => {
+		outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "imessage-export-"));
+		photoPath = path.join(outputDir, "source", "IMG_0001.jpeg");
+		fs.mkdirSync(path.dirname(photoPath));
+		fs.writeFileSync(photoPath, "jpeg bytes");
+
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "chat100",
+				displayName: "Weekend Plans",
+				participants: ["+15551234567"],
+			})
+			.addChat({ chatIdentifier: "+15550000000" })
+			.addMessage({
+				guid: "m1",
+				chat: "chat100",
+				handle: "+15551234567",
+				text: 'Dinner at <b>8</b>, "sharp"',
+				date: new Date("2024-01-15T18:00:00Z"),
+			})
+			.addMessage({
+				guid: "m2",
+				chat: "chat100",
+				isFromMe: true,
+				text: "See you there\nbringing dessert",
+			})
+			.addAttachment({
+				message: "m2",
+				filename: photoPath,
+				mimeType: "image/jpeg",
+				totalBytes: 10,
+			})
+			.addAttachment({
+				message: "m2",
+				filename: "~/Library/Messages/Attachments/gone/deleted.mov",
+				mimeType: "video/quicktime",
+			})
+			.addReaction({
+				message: "m2",
+				type: "loved",
+				handle: "+15551234567",
+				chat: "chat100",
+			})
+			.addMessage({
+				guid: "other",
+				chat: "+15550000000",
+				handle: "+15551234567",
+				text: "different chat",
+			});
+
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+		fs.rmSync(outputDir, { recursive: true, force: true });
+	});
+
+	const chatId = () => fixture.chatRowId("chat100");
+	const read = (file: string) => fs.readFileSync(file, "utf8");
+
+	it("should export a chat as a JSON array, oldest first", async () => {
+		const outputPath = path.join(outputDir, "nested", "chat.json");
+		const result = await client.exportMessages(chatId(), {
+			format: "json",
+			outputPath,
+		});
+
+		const messages = JSON.parse(read(outputPath)) as ExportedMessage[];
+		expect(result).toMatchObject({ messageCount: 2, attachmentsDir: null });
+		expect(messages.map((message) => message.guid)).toEqual(["m1", "m2"]);
+		expect(messages[0]).toMatchObject({
+			date: "2024-01-15T18:00:00.000Z",
+			sender: "+15551234567",
+			isFromMe: false,
+		});
+		expect(messages[1]?.reactions).toEqual([
+			{ type: "loved", emoji: null, sender: "+15551234567" },
+		]);
+		expect(messages[1]?.attachments.map((a) => a.name)).toEqual([
+			"IMG_0001.jpeg",
+			"deleted.mov",
+		]);
+	});
+
+	it("should write valid JSON for an empty export", async () => {
+		const outputPath = path.join(outputDir, "empty.json");
+		await client.exportMessages(
+			{ searchText: "no such text" },
+			{ format: "json", outputPath },
+		);
+
+		expect(JSON.parse(read(outputPath))).toEqual([]);
+	});
+
+	it("should export a message filter as NDJSON", async () => {
+		const outputPath = path.join(outputDir, "mine.ndjson");
+		await client.exportMessages(
+			{ isFromMe: false },
+			{ format: "ndjson", outputPath },
+		);
+
+		const lines = read(outputPath).trimEnd().split("\n");
+		expect(lines.map((line) => JSON.parse(line).guid)).toEqual(["m1", "other"]);
+	});
+
+	it("should quote CSV fields that need it", async () => {
+		const outputPath = path.join(outputDir, "chat.csv");
+		await client.exportMessages(chatId(), { format: "csv", outputPath });
+
+		const csv = read(outputPath);
+		expect(csv.split("\r\n")[0]).toBe(
+			"id,guid,date,sender,is_from_me,text,service,reply_to_guid,edited,unsent,attachments,reactions",
+		);
+		expect(csv).toContain('"Dinner at <b>8</b>, ""sharp"""');
+		expect(csv).toContain('"See you there\nbringing dessert"');
+	});
+
+	it("should use the sender name resolver", async () => {
+		const outputPath = path.join(outputDir, "chat.txt");
+		await client.exportMessages(chatId(), {
+			format: "text",
+			outputPath,
+			resolveSenderName: (message) =>
+				message.handle?.id === "+15551234567" ? "Alex" : null,
+		});
+
+		const text = read(outputPath);
+		expect(text).toMatch(/^Weekend Plans\n=+\n/);
+		expect(text).toContain('Alex: Dinner at <b>8</b>, "sharp"');
+		expect(text).toContain("Me: See you there");
+	});
+
+	it("should render Markdown grouped by day", async () => {
+		const outputPath = path.join(outputDir, "chat.md");
+		await client.exportMessages(chatId(), {
+			format: "markdown",
+			outputPath,
+			title: "Plans",
+		});
+
+		const markdown = read(outputPath);
+		expect(markdown).toMatch(/^# Plans\n\n## 2024-01-15\n/);
+		expect(markdown).toContain("> See you there\n> bringing dessert");
+		expect(markdown).toContain("📎 IMG_0001.jpeg");
+	});
+
+	it("should group days and show times in the export's time zone", async () => {
+		const render = async (
+			format: "markdown" | "html" | "text",
+			timeZone: string,
+		) => {
+			const outputPath = path.join(outputDir, `chat.${format}`);
+			await client.exportMessages(chatId(), { format, outputPath, timeZone });
+			return read(outputPath);
+		};
+
+		// 18:00 UTC on the 15th is already the 16th in Tokyo
+		expect(await render("markdown", "Asia/Tokyo")).toMatch(
+			/^# Weekend Plans\n\n## 2024-01-16\n\n\*\*\+15551234567\*\* · 03:00:00\n/,
+		);
+		expect(await render("markdown", "America/Los_Angeles")).toMatch(
+			/^# Weekend Plans\n\n## 2024-01-15\n\n\*\*\+15551234567\*\* · 10:00:00\n/,
+		);
+		const html = await render("html", "Asia/Tokyo");
+		expect(html).toContain('<div class="day">2024-01-16</div>');
+		expect(html).toContain('<div class="meta">03:00</div>');
+		expect(await render("text", "Asia/Tokyo")).toContain(
+			"[2024-01-16 03:00:00] +15551234567: Dinner at",
+		);
+	});
+
+	it("should reject an unknown time zone", async () => {
+		await expect(
+			client.exportMessages(chatId(), {
+				format: "markdown",
+				outputPath: path.join(outputDir, "chat.md"),
+				timeZone: "Mars/Olympus_Mons",
+			}),
+		).rejects.toThrow(RangeError);
+	});
+
+	it("should render an escaped, self-contained HTML transcript", async () => {
+		const outputPath = path.join(outputDir, "chat.html");
+		await client.exportMessages(chatId(), { format: "html", outputPath });
+
+		const html = read(outputPath);
+		expect(html).toContain("<title>Weekend Plans</title>");
+		expect(html).toContain("<style>");
+		expect(html).not.toMatch(/<link|<script/);
+		expect(html).toContain("Dinner at &lt;b&gt;8&lt;/b&gt;, &quot;sharp&quot;");
+		expect(html).toContain('<div class="message me">');
+		expect(html).toContain('<div class="message them">');
+		expect(html.trimEnd()).toMatch(/<\/html>$/);
+	});
+
+	it("should copy attachments and link them relatively", async () => {
+		const outputPath = path.join(outputDir, "chat.html");
+		const result = await client.exportMessages(chatId(), {
+			format: "html",
+			outputPath,
+			copyAttachments: true,
+		});
+
+		expect(result.attachmentsDir).toBe(
+			path.join(outputDir, "chat_attachments"),
+		);
+		expect(result.attachmentsCopied).toBe(1);
+		expect(result.attachmentsMissing).toBe(1);
+
+		const copied = fs.readdirSync(result.attachmentsDir as string);
+		expect(copied).toHaveLength(1);
+		expect(copied[0]).toMatch(/^\d+-IMG_0001\.jpeg$/);
+		expect(read(outputPath)).toContain(
+			`<img src="chat_attachments/${copied[0]}"`,
+		);
+	});
+
+	it("should reject unknown chats", async () => {
+		await expect(
+			client.exportMessages(9999, {
+				format: "json",
+				outputPath: path.join(outputDir, "missing.json"),
+			}),
+		).rejects.toThrow("Chat not found: 9999");
+	});
+
+	it("should stop when the signal is aborted", async () => {
+		const controller = new AbortController();
+		controller.abort(new Error("cancelled"));
+
+		await expect(
+			client.exportMessages(chatId(), {
+				format: "ndjson",
+				outputPath: path.join(outputDir, "aborted.ndjson"),
+				signal: controller.signal,
+			}),
+		).rejects.toThrow("cancelled");
+	});
+});
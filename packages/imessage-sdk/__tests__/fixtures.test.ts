@@ -0,0 +1,171 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture, encodeAttributedBody } from "../src/fixtures";
+import { parseAttributedBody } from "../src/utils";
+
+/**
+ * Runs the client's real SQL against a synthetic chat.db
+ */
+describe("ChatDbFixture", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addHandle({ id: "friend@example.com" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addChat({
+				chatIdentifier: "chat123456",
+				displayName: "Weekend Plans",
+				participants: ["+15551234567", "friend@example.com"],
+			})
+			.addMessage({
+				guid: "msg-1",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Hey, are you around?",
+				date: new Date("2024-03-01T10:00:00Z"),
+			})
+			.addMessage({
+				guid: "msg-2",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				isFromMe: true,
+				attributedBody: "Yes, what's up?",
+				date: new Date("2024-03-01T10:05:00Z"),
+			})
+			.addMessage({
+				guid: "msg-3",
+				chat: "chat123456",
+				handle: "friend@example.com",
+				text: "Photo from the trip",
+				date: new Date("2024-03-02T09:00:00Z"),
+			})
+			.addAttachment({
+				message: "msg-3",
+				filename: "~/Library/Messages/Attachments/ab/12/IMG_0001.HEIC",
+				mimeType: "image/heic",
+				totalBytes: 2048,
+			});
+
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should create every table the client queries", () => {
+		const db = new Database(fixture.path, { readonly: true });
+		const tables = (
+			db
+				.prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+				.all() as { name: string }[]
+		).map((t) => t.name);
+		db.close();
+
+		expect(tables).toEqual(
+			expect.arrayContaining([
+				"message",
+				"handle",
+				"chat",
+				"chat_message_join",
+				"chat_handle_join",
+				"attachment",
+				"message_attachment_join",
+			]),
+		);
+	});
+
+	it("should resolve references to ROWIDs", () => {
+		expect(fixture.handleRowId("friend@example.com")).toBe(2);
+		expect(fixture.chatRowId("chat123456")).toBe(2);
+		expect(fixture.chatRowId("iMessage;-;+15551234567")).toBe(1);
+		expect(fixture.messageRowId("msg-3")).toBe(3);
+		expect(() => fixture.messageRowId("missing")).toThrow(
+			"Fixture message not found",
+		);
+	});
+
+	describe("getMessages", () => {
+		it("should return messages newest first with handles", () => {
+			const messages = client.getMessages();
+
+			expect(messages.map((m) => m.guid)).toEqual(["msg-3", "msg-2", "msg-1"]);
+			expect(messages[2]?.handle?.id).toBe("+15551234567");
+		});
+
+		it("should decode text stored only in attributedBody", () => {
+			const [message] = client.getMessages({ chatId: 1, isFromMe: true });
+
+			expect(message?.text).toBe("Yes, what's up?");
+		});
+
+		it("should filter by chat, text and date", () => {
+			expect(client.getMessages({ chatId: 2 })).toHaveLength(1);
+			expect(client.getMessages({ searchText: "around" })).toHaveLength(1);
+			expect(
+				client.getMessages({ startDate: new Date("2024-03-02T00:00:00Z") }),
+			).toHaveLength(1);
+		});
+
+		it("should load attachments", () => {
+			const [message] = client.getMessages({ chatId: 2 });
+
+			expect(message?.attachments).toHaveLength(1);
+			expect(message?.attachments?.[0]?.mime_type).toBe("image/heic");
+			expect(message?.attachments?.[0]?.transfer_name).toBe("IMG_0001.HEIC");
+		});
+	});
+
+	describe("getRecentChats", () => {
+		it("should order chats by last message with participants", () => {
+			const chats = client.getRecentChats(10);
+
+			expect(chats.map((c) => c.chat_identifier)).toEqual([
+				"chat123456",
+				"+15551234567",
+			]);
+			expect(chats[0]?.participants).toHaveLength(2);
+			expect(chats[1]?.lastMessage?.guid).toBe("msg-2");
+		});
+	});
+
+	describe("getConversationStats", () => {
+		it("should count messages for a chat", () => {
+			const stats = client.getConversationStats(1);
+
+			expect(stats.totalMessages).toBe(2);
+			expect(stats.sentMessages).toBe(1);
+			expect(stats.receivedMessages).toBe(1);
+			expect(stats.firstMessageDate?.toISOString()).toBe(
+				"2024-03-01T10:00:00.000Z",
+			);
+			expect(stats.lastMessageDate?.toISOString()).toBe(
+				"2024-03-01T10:05:00.000Z",
+			);
+		});
+	});
+
+	it("should expose rows added after the client was opened", () => {
+		fixture.addMessage({ chat: "chat123456", text: "Late arrival" });
+
+		expect(client.getMessagesForChat(2)).toHaveLength(2);
+	});
+});
+
+describe("encodeAttributedBody", () => {
+	it("should produce a typedstream NSAttributedString", () => {
+		const blob = encodeAttributedBody("Hello world!");
+
+		expect(blob.subarray(0, 13).toString("latin1")).toBe("\x04\x0bstreamtyped");
+		expect(blob.includes("NSAttributedString")).toBe(true);
+		expect(parseAttributedBody(blob)).toBe("Hello world!");
+	});
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { canonicalizeEmail, normalizePhoneNumber } from "../src/identity";
+
+describe("normalizePhoneNumber", () => {
+	it("should normalize national numbers for the default region", () => {
+		expect(normalizePhoneNumber("(555) 123-4567")).toBe("+15551234567");
+		expect(normalizePhoneNumber("1-555-123-4567")).toBe("+15551234567");
+		expect(normalizePhoneNumber("07911 123456", "GB")).toBe("+447911123456");
+		// Italian numbers keep the leading 0
+		expect(normalizePhoneNumber("06 1234 5678", "IT")).toBe("+390612345678");
+	});
+
+	it("should keep international numbers in any region", () => {
+		expect(normalizePhoneNumber("+44 7911 123456")).toBe("+447911123456");
+		expect(normalizePhoneNumber("0044 7911 123456", "DE")).toBe(
+			"+447911123456",
+		);
+		expect(normalizePhoneNumber("011 44 7911 123456")).toBe("+447911123456");
+		expect(normalizePhoneNumber("tel:+15551234567", "GB")).toBe("+15551234567");
+	});
+
+	it("should reject short codes and non-numbers", () => {
+		expect(normalizePhoneNumber("12345")).toBeNull();
+		expect(normalizePhoneNumber("555-1234")).toBeNull();
+		expect(normalizePhoneNumber("someone@example.com")).toBeNull();
+		expect(normalizePhoneNumber("urn:biz:1234")).toBeNull();
+	});
+
+	it("should throw for an unsupported region", () => {
+		expect(() => normalizePhoneNumber("5551234567", "XX")).toThrow(
+			"Unsupported region: XX",
+		);
+	});
+});
+
+describe("canonicalizeEmail", () => {
+	it("should trim and lowercase addresses", () => {
+		expect(canonicalizeEmail(" John.Doe@Example.COM ")).toBe(
+			"john.doe@example.com",
+		);
+		expect(canonicalizeEmail("mailto:a@b.co")).toBe("a@b.co");
+	});
+
+	it("should drop dots and tags from Gmail mailboxes", () => {
+		expect(canonicalizeEmail("J.O.H.N+news@googlemail.com")).toBe(
+			"john@gmail.com",
+		);
+	});
+
+	it("should reject non-emails", () => {
+		expect(canonicalizeEmail("not an email")).toBeNull();
+		expect(canonicalizeEmail("@example.com")).toBeNull();
+	});
+});
+
+describe("IMessageClient identities", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	const JOHN = "+15551234567";
+	const BOB = "+15559876543";
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: JOHN, personCentricId: "person-john" })
+			.addHandle({ id: JOHN, service: "SMS" })
+			.addHandle({ id: "John@Example.com", personCentricId: "person-john" })
+			.addHandle({ id: BOB })
+			.addHandle({ id: "john.doe@work.example" })
+			.addChat({ chatIdentifier: JOHN, participants: [1] })
+			.addChat({ chatIdentifier: JOHN, serviceName: "SMS", participants: [2] })
+			.addChat({ chatIdentifier: "John@Example.com", participants: [3] })
+			.addChat({ chatIdentifier: BOB, participants: [4] })
+			.addChat({ chatIdentifier: "chat100", participants: [1, 4] })
+			.addMessage({ guid: "imessage-in", chat: JOHN, handle: 1, text: "a" })
+			.addMessage({ guid: "imessage-out", chat: JOHN, isFromMe: true })
+			.addMessage({
+				guid: "sms-in",
+				chat: `SMS;-;${JOHN}`,
+				handle: 2,
+				service: "SMS",
+			})
+			.addMessage({
+				guid: "email-out",
+				chat: "John@Example.com",
+				isFromMe: true,
+			})
+			.addMessage({ guid: "bob-in", chat: BOB, handle: 4 })
+			.addMessage({ guid: "group-john", chat: "chat100", handle: 1 })
+			.addMessage({ guid: "group-bob", chat: "chat100", handle: 4 })
+			.addMessage({ guid: "group-me", chat: "chat100", isFromMe: true });
+
+		client = new IMessageClient({
+			databasePath: fixture.path,
+			identityGroups: [["(555) 123-4567", "John.Doe@work.example"]],
+		});
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should group handles by address, person and configured groups", () => {
+		const identities = client.getIdentities();
+
+		expect(
+			identities.map((identity) => ({
+				id: identity.id,
+				addresses: identity.addresses,
+				handles: identity.handles.map((handle) => handle.ROWID),
+			})),
+		).toEqual([
+			{
+				id: JOHN,
+				addresses: [JOHN, "john.doe@work.example", "john@example.com"],
+				handles: [1, 2, 3, 5],
+			},
+			{ id: BOB, addresses: [BOB], handles: [4] },
+		]);
+	});
+
+	it("should find an identity by any address format", () => {
+		expect(client.getIdentity("(555) 123-4567")?.id).toBe(JOHN);
+		expect(client.getIdentity("JOHN@example.com")?.id).toBe(JOHN);
+		expect(client.getIdentity("+15550000000")).toBeNull();
+	});
+
+	it("should get a person's messages across handles and services", () => {
+		const guids = client
+			.getMessages({ identityId: JOHN })
+			.map((message) => message.guid)
+			.sort();
+
+		expect(guids).toEqual([
+			"email-out",
+			"group-john",
+			"imessage-in",
+			"imessage-out",
+			"sms-in",
+		]);
+		expect(client.getMessages({ identityId: "+15550000000" })).toEqual([]);
+	});
+
+	it("should compute conversation stats per person", () => {
+		expect(client.getConversationStats({ identityId: JOHN })).toMatchObject({
+			totalMessages: 5,
+			sentMessages: 2,
+			receivedMessages: 3,
+		});
+		expect(
+			client.getConversationStats({
+				identityId: JOHN,
+				chatId: fixture.chatRowId("chat100"),
+			}).totalMessages,
+		).toBe(1);
+		expect(client.getConversationStats({ identityId: BOB }).totalMessages).toBe(
+			2,
+		);
+	});
+});
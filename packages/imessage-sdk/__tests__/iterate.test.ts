@@ -0,0 +1,152 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import type { EnrichedMessage } from "../src/types";
+
+describe("IMessageClient.iterateMessages", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addChat({ chatIdentifier: "chat100" });
+
+		for (let i = 0; i < 25; i++) {
+			fixture.addMessage({
+				guid: `m${i}`,
+				chat: i % 5 === 0 ? "chat100" : "+15551234567",
+				handle: "+15551234567",
+				text: `message ${i}`,
+			});
+		}
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const collect = async (iterable: AsyncIterable<EnrichedMessage>) => {
+		const guids: string[] = [];
+		for await (const message of iterable) guids.push(message.guid);
+		return guids;
+	};
+
+	it("should yield every message oldest first across batches", async () => {
+		const guids = await collect(client.iterateMessages({}, { batchSize: 10 }));
+
+		expect(guids).toEqual(Array.from({ length: 25 }, (_, i) => `m${i}`));
+	});
+
+	it("should support newest first and filters", async () => {
+		const guids = await collect(
+			client.iterateMessages({ chatId: 2 }, { batchSize: 2, order: "desc" }),
+		);
+
+		expect(guids).toEqual(["m20", "m15", "m10", "m5", "m0"]);
+	});
+
+	it("should not repeat or skip rows when messages arrive mid-iteration", async () => {
+		const guids: string[] = [];
+		for await (const message of client.iterateMessages({}, { batchSize: 10 })) {
+			guids.push(message.guid);
+			if (message.guid === "m3") {
+				// Older than everything, so it would shift an OFFSET-based walk
+				fixture.addMessage({
+					guid: "backfilled",
+					chat: "+15551234567",
+					text: "old",
+					date: new Date("2000-01-01T00:00:00Z"),
+				});
+				fixture.addMessage({
+					guid: "newest",
+					chat: "+15551234567",
+					text: "new",
+					date: new Date("2030-01-01T00:00:00Z"),
+				});
+			}
+		}
+
+		expect(guids).toHaveLength(26);
+		expect(new Set(guids).size).toBe(26);
+		expect(guids.at(-1)).toBe("newest");
+	});
+
+	it("should stop when the signal is aborted", async () => {
+		const controller = new AbortController();
+		const guids: string[] = [];
+
+		await expect(async () => {
+			for await (const message of client.iterateMessages(
+				{},
+				{ batchSize: 10, signal: controller.signal },
+			)) {
+				guids.push(message.guid);
+				if (guids.length === 12) controller.abort();
+			}
+		}).rejects.toThrow("aborted");
+		expect(guids).toHaveLength(12);
+	});
+
+	it("should put messages without a date first, and last newest first", async () => {
+		const db = new Database(fixture.path);
+		db.prepare(
+			"UPDATE message SET date = NULL WHERE guid IN ('m4', 'm12')",
+		).run();
+		db.close();
+
+		const ascending = await collect(
+			client.iterateMessages({}, { batchSize: 3 }),
+		);
+		const descending = await collect(
+			client.iterateMessages({}, { batchSize: 3, order: "desc" }),
+		);
+
+		expect(ascending.slice(0, 3)).toEqual(["m4", "m12", "m0"]);
+		expect(ascending).toHaveLength(25);
+		expect(descending).toEqual([...ascending].reverse());
+	});
+
+	it("should walk the date index instead of sorting every batch", async () => {
+		const prepare = vi.spyOn(Database.prototype, "prepare");
+		await collect(client.iterateMessages({}, { batchSize: 10 }));
+		await collect(client.iterateMessages({}, { batchSize: 10, order: "desc" }));
+		const queries = prepare.mock.calls
+			.map(([sql]) => sql)
+			.filter((sql) => sql.includes("ORDER BY m.date"));
+		prepare.mockRestore();
+
+		const db = new Database(fixture.path, { readonly: true });
+		const plans = queries.map((sql) =>
+			(
+				db
+					.prepare(`EXPLAIN QUERY PLAN ${sql}`)
+					.all(...Array.from(sql.match(/\?/g) ?? [], () => null)) as {
+					detail: string;
+				}[]
+			)
+				.map((row) => row.detail)
+				.join("\n"),
+		);
+		db.close();
+
+		expect(plans.length).toBeGreaterThan(1);
+		for (const plan of plans) {
+			expect(plan).toContain("message_idx_date");
+			expect(plan).not.toContain("TEMP B-TREE");
+		}
+	});
+
+	it("should end immediately for an empty result", async () => {
+		expect(await collect(client.iterateMessages({ handleId: 999 }))).toEqual(
+			[],
+		);
+	});
+});
@@ -0,0 +1,201 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { decodePageCursor, encodePageCursor } from "../src/pagination";
+
+describe("page cursors", () => {
+	it("should round-trip and keep full date precision", () => {
+		const cursor = {
+			kind: "messages" as const,
+			direction: "after" as const,
+			date: "725846400123456789",
+			rowId: 42,
+		};
+
+		expect(decodePageCursor(encodePageCursor(cursor), "messages")).toEqual(
+			cursor,
+		);
+	});
+
+	it("should reject malformed cursors and cursors for other listings", () => {
+		const chatsCursor = encodePageCursor({
+			kind: "chats",
+			direction: "after",
+			date: "0",
+			rowId: 1,
+		});
+
+		expect(() => decodePageCursor("garbage", "messages")).toThrow(
+			"Invalid messages page cursor",
+		);
+		expect(() => decodePageCursor(chatsCursor, "messages")).toThrow(
+			"Invalid messages page cursor",
+		);
+	});
+});
+
+describe("IMessageClient paging", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addChat({ chatIdentifier: "chat100", displayName: "Team" })
+			.addChat({ chatIdentifier: "chat200", displayName: "Family" });
+
+		for (const guid of ["m1", "m2", "m3", "m4", "m5"]) {
+			fixture.addMessage({
+				guid,
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: guid,
+			});
+		}
+		fixture.addMessage({ guid: "team", chat: "chat100", text: "Standup?" });
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const guids = (items: { guid: string }[]) => items.map((m) => m.guid);
+
+	it("should walk messages newest first and back", () => {
+		const filter = { chatId: 1, limit: 2 };
+		const first = client.getMessagesPage(filter);
+		const second = client.getMessagesPage({
+			...filter,
+			cursor: first.nextCursor ?? undefined,
+		});
+		const third = client.getMessagesPage({
+			...filter,
+			cursor: second.nextCursor ?? undefined,
+		});
+
+		expect(guids(first.items)).toEqual(["m5", "m4"]);
+		expect(first.prevCursor).toBeNull();
+		expect(guids(second.items)).toEqual(["m3", "m2"]);
+		expect(guids(third.items)).toEqual(["m1"]);
+		expect(third.nextCursor).toBeNull();
+
+		const back = client.getMessagesPage({
+			...filter,
+			cursor: second.prevCursor ?? undefined,
+		});
+		expect(guids(back.items)).toEqual(["m5", "m4"]);
+		expect(back.prevCursor).toBeNull();
+		expect(back.nextCursor).not.toBeNull();
+	});
+
+	it("should not skip or repeat rows when messages arrive between pages", () => {
+		const first = client.getMessagesPage({ chatId: 1, limit: 2 });
+		fixture.addMessage({
+			guid: "m6",
+			chat: "+15551234567",
+			handle: "+15551234567",
+			text: "m6",
+		});
+
+		const second = client.getMessagesPage({
+			chatId: 1,
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+
+		expect(guids(second.items)).toEqual(["m3", "m2"]);
+	});
+
+	it("should break ties between messages with the same date by ROWID", () => {
+		const date = new Date("2030-01-01T00:00:00Z");
+		fixture
+			.addMessage({ guid: "tie-a", chat: "+15551234567", text: "a", date })
+			.addMessage({ guid: "tie-b", chat: "+15551234567", text: "b", date });
+
+		const first = client.getMessagesPage({ chatId: 1, limit: 1 });
+		const second = client.getMessagesPage({
+			chatId: 1,
+			limit: 1,
+			cursor: first.nextCursor ?? undefined,
+		});
+
+		expect(guids([...first.items, ...second.items])).toEqual([
+			"tie-b",
+			"tie-a",
+		]);
+	});
+
+	it("should page through messages without a date after the dated ones", () => {
+		const db = new Database(fixture.path);
+		db.prepare(
+			"UPDATE message SET date = NULL WHERE guid IN ('m2', 'm4')",
+		).run();
+		db.close();
+
+		const filter = { chatId: 1, limit: 2 };
+		const pages = [client.getMessagesPage(filter)];
+		while (pages.at(-1)?.nextCursor) {
+			pages.push(
+				client.getMessagesPage({
+					...filter,
+					cursor: pages.at(-1)?.nextCursor ?? undefined,
+				}),
+			);
+		}
+
+		expect(pages.map((page) => guids(page.items))).toEqual([
+			["m5", "m3"],
+			["m1", "m4"],
+			["m2"],
+		]);
+
+		const back = client.getMessagesPage({
+			...filter,
+			cursor: pages[2]?.prevCursor ?? undefined,
+		});
+		expect(guids(back.items)).toEqual(["m1", "m4"]);
+	});
+
+	it("should page chats and recent chats", () => {
+		const chats = client.getChatsPage({ limit: 2 });
+		const rest = client.getChatsPage({
+			limit: 2,
+			cursor: chats.nextCursor ?? undefined,
+		});
+
+		expect(chats.items.map((c) => c.chat_identifier)).toEqual([
+			"chat200",
+			"chat100",
+		]);
+		expect(rest.items.map((c) => c.chat_identifier)).toEqual(["+15551234567"]);
+		expect(rest.nextCursor).toBeNull();
+
+		const recent = client.getRecentChatsPage({ limit: 1 });
+		const older = client.getRecentChatsPage({
+			limit: 1,
+			cursor: recent.nextCursor ?? undefined,
+		});
+
+		expect(recent.items[0]?.chat_identifier).toBe("chat100");
+		expect(recent.items[0]?.lastMessage?.text).toBe("Standup?");
+		expect(older.items[0]?.participants.map((p) => p.id)).toEqual([
+			"+15551234567",
+		]);
+		expect(older.nextCursor).toBeNull();
+	});
+
+	it("should reject a cursor from another listing", () => {
+		const { nextCursor } = client.getChatsPage({ limit: 1 });
+
+		expect(() =>
+			client.getMessagesPage({ cursor: nextCursor ?? undefined }),
+		).toThrow("Invalid messages page cursor");
+	});
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { encodeBinaryPlist } from "../src/fixtures";
+import { PlistUid, parseBinaryPlist, tryParseBinaryPlist } from "../src/plist";
+
+describe("parseBinaryPlist", () => {
+	it("should round-trip nested values", () => {
+		const value = {
+			ascii: "hello",
+			unicode: "Café 👋",
+			integer: 42,
+			negative: -7,
+			real: 1.5,
+			flags: [true, false, null],
+			data: Buffer.from([1, 2, 3]),
+			date: new Date("2024-01-01T00:00:00Z"),
+			uid: new PlistUid(3),
+			nested: { list: [1, "two", { three: 3 }] },
+		};
+
+		expect(parseBinaryPlist(encodeBinaryPlist(value))).toEqual(value);
+	});
+
+	it("should read lengths stored in a following integer", () => {
+		const long = "x".repeat(300);
+		const list = Array.from({ length: 20 }, (_, i) => i);
+
+		expect(parseBinaryPlist(encodeBinaryPlist({ long, list }))).toEqual({
+			long,
+			list,
+		});
+	});
+
+	it("should reject buffers that are not binary plists", () => {
+		expect(() => parseBinaryPlist(Buffer.from("not a plist"))).toThrow(
+			"Not a binary property list",
+		);
+		expect(tryParseBinaryPlist(Buffer.from("not a plist"))).toBeNull();
+		expect(tryParseBinaryPlist(null)).toBeNull();
+	});
+
+	it("should reject truncated plists", () => {
+		const plist = encodeBinaryPlist({ key: "value" });
+		const truncated = Buffer.concat([
+			plist.subarray(0, 10),
+			plist.subarray(plist.length - 40),
+		]);
+
+		expect(tryParseBinaryPlist(truncated)).toBeNull();
+	});
+});
@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { hasAttachment, inChats, not, or, textMatches } from "../src/query";
+import { compileRegExp } from "../src/sql-functions";
+
+const ALICE = "+15550000001";
+const BOB = "bob@example.com";
+const CAROL = "+15550000003";
+const GROUP = "chat123";
+
+describe("compileRegExp", () => {
+	it("should turn leading inline flags into JavaScript flags", () => {
+		const regex = compileRegExp("(?i)^hello");
+		expect(regex.flags).toBe("i");
+		expect(regex.test("HELLO there")).toBe(true);
+		expect(compileRegExp("^hello").test("HELLO")).toBe(false);
+	});
+});
+
+describe("IMessageClient.query", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ALICE })
+			.addHandle({ id: BOB })
+			.addHandle({ id: CAROL })
+			.addChat({ chatIdentifier: ALICE, participants: [ALICE] })
+			.addChat({ chatIdentifier: BOB, participants: [BOB] })
+			.addChat({
+				chatIdentifier: GROUP,
+				displayName: "Everyone",
+				participants: [ALICE, BOB, CAROL],
+			})
+			.addMessage({
+				guid: "a1",
+				chat: ALICE,
+				handle: ALICE,
+				text: "Dinner tonight?",
+				date: new Date("2024-03-01T18:00:00Z"),
+			})
+			.addMessage({
+				guid: "a2",
+				chat: ALICE,
+				isFromMe: true,
+				text: "Sure, 100% in",
+				date: new Date("2024-03-01T18:05:00Z"),
+			})
+			.addMessage({
+				guid: "b1",
+				chat: BOB,
+				handle: BOB,
+				text: "Photo from the trip",
+				date: new Date("2024-03-02T09:00:00Z"),
+			})
+			.addMessage({
+				guid: "b2",
+				chat: BOB,
+				handle: BOB,
+				text: "Unsubscribe from dinner club",
+				date: new Date("2024-03-03T09:00:00Z"),
+			})
+			.addMessage({
+				guid: "g1",
+				chat: GROUP,
+				handle: CAROL,
+				text: "dinnerware sale",
+				date: new Date("2024-03-04T09:00:00Z"),
+			})
+			.addReaction({ message: "a1", handle: ALICE, type: "loved" })
+			.addAttachment({
+				message: "b1",
+				filename: "~/Library/Messages/Attachments/trip.heic",
+				mimeType: "image/heic",
+			})
+			.addAttachment({
+				message: "g1",
+				filename: "~/Library/Messages/Attachments/flyer.pdf",
+				mimeType: "application/pdf",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const guids = (messages: { guid: string }[]) =>
+		messages.map((message) => message.guid);
+	const chatId = (identifier: string) =>
+		client.getChats().find((chat) => chat.chat_identifier === identifier)
+			?.ROWID as number;
+
+	it("should return messages newest first, without reactions", () => {
+		expect(guids(client.query().all())).toEqual(["g1", "b2", "b1", "a2", "a1"]);
+		expect(client.query().withReactions().count()).toBe(6);
+	});
+
+	it("should match several handles by id or address", () => {
+		const bob = client.getHandleByIdentifier(BOB);
+		expect(
+			guids(
+				client
+					.query()
+					.from([ALICE, bob?.ROWID as number])
+					.all(),
+			),
+		).toEqual(["b2", "b1", "a1"]);
+	});
+
+	it("should match several chats", () => {
+		expect(
+			guids(
+				client
+					.query()
+					.inChats([chatId(ALICE), chatId(GROUP)])
+					.orderBy("date", "asc")
+					.all(),
+			),
+		).toEqual(["a1", "a2", "g1"]);
+	});
+
+	it("should combine conditions with or and not", () => {
+		const messages = client
+			.query()
+			.where(or(hasAttachment("image/*"), inChats(chatId(ALICE))))
+			.where(not({ type: "fromMe" }))
+			.all();
+		expect(guids(messages)).toEqual(["b1", "a1"]);
+	});
+
+	it("should match text by substring, exclusion and regex", () => {
+		expect(guids(client.query().text("contains", "DINNER").all())).toEqual([
+			"g1",
+			"b2",
+			"a1",
+		]);
+		expect(guids(client.query().text("contains", "100%").all())).toEqual([
+			"a2",
+		]);
+		expect(
+			guids(
+				client
+					.query()
+					.text("contains", "dinner")
+					.text("notContains", "unsubscribe")
+					.all(),
+			),
+		).toEqual(["g1", "a1"]);
+		expect(guids(client.query().text("regex", "\\bdinner\\b").all())).toEqual([
+			"b2",
+			"a1",
+		]);
+		expect(
+			guids(
+				client.query().text("regex", "^dinner", { caseSensitive: true }).all(),
+			),
+		).toEqual(["g1"]);
+	});
+
+	it("should match text that only exists in attributedBody", () => {
+		fixture.addMessage({
+			guid: "rich",
+			chat: BOB,
+			handle: BOB,
+			attributedBody: "please unsubscribe me",
+			date: new Date("2024-03-05T09:00:00Z"),
+		});
+
+		expect(guids(client.query().text("contains", "unsubscribe").all())).toEqual(
+			["rich", "b2"],
+		);
+		expect(
+			guids(
+				client
+					.query()
+					.inChats(chatId(BOB))
+					.text("notContains", "unsubscribe")
+					.all(),
+			),
+		).toEqual(["b1"]);
+		expect(
+			guids(
+				client
+					.query()
+					.text("contains", "Please", { caseSensitive: true })
+					.all(),
+			),
+		).toEqual([]);
+	});
+
+	it("should filter attachments by MIME type", () => {
+		expect(guids(client.query().hasAttachment().all())).toEqual(["g1", "b1"]);
+		expect(guids(client.query().hasAttachment("image/*").all())).toEqual([
+			"b1",
+		]);
+	});
+
+	it("should filter by date and page results", () => {
+		const query = client
+			.query()
+			.between("2024-03-01T18:01:00Z", new Date("2024-03-03T12:00:00Z"))
+			.orderBy("date", "asc");
+		expect(guids(query.all())).toEqual(["a2", "b1", "b2"]);
+		expect(guids(query.limit(1).offset(1).all())).toEqual(["b1"]);
+		expect(query.count()).toBe(3);
+		expect(query.first()?.guid).toBe("b1");
+	});
+
+	it("should order by ROWID", () => {
+		expect(guids(client.query().orderBy("id", "asc").limit(2).all())).toEqual([
+			"a1",
+			"a2",
+		]);
+	});
+
+	it("should run a spec and expose its SQL", () => {
+		const query = client.query({
+			where: textMatches("contains", "trip"),
+			limit: 5,
+		});
+		expect(query.toSpec()).toEqual({
+			where: { type: "text", match: "contains", value: "trip" },
+			limit: 5,
+		});
+		expect(query.toSQL().params).toEqual(["%trip%", 5, 0]);
+		expect(guids(query.all())).toEqual(["b1"]);
+	});
+
+	it("should reject invalid regular expressions and dates", () => {
+		expect(() => client.query().text("regex", "(unclosed").all()).toThrow(
+			/Invalid regular expression/,
+		);
+		expect(() => client.query().between("not a date").all()).toThrow(
+			/Invalid date/,
+		);
+		expect(() =>
+			client.query({ where: { type: "bogus" } as never }).all(),
+		).toThrow(/Unknown message condition type/);
+	});
+});
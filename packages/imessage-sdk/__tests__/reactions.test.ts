@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import {
+	buildReactions,
+	formatReaction,
+	parseAssociatedMessageGuid,
+	reactionTargetKeys,
+} from "../src/reactions";
+import { dateToAppleTime } from "../src/utils";
+
+describe("parseAssociatedMessageGuid", () => {
+	it("should parse part and balloon references", () => {
+		expect(parseAssociatedMessageGuid("p:2/ABC-123")).toEqual({
+			guid: "ABC-123",
+			partIndex: 2,
+		});
+		expect(parseAssociatedMessageGuid("bp:ABC-123")).toEqual({
+			guid: "ABC-123",
+			partIndex: 0,
+		});
+		expect(parseAssociatedMessageGuid(null)).toBeNull();
+	});
+});
+
+describe("reactionTargetKeys", () => {
+	it("should list every reference to a message", () => {
+		expect(reactionTargetKeys("ABC", 2)).toEqual([
+			"ABC",
+			"bp:ABC",
+			"p:0/ABC",
+			"p:1/ABC",
+		]);
+		expect(reactionTargetKeys("ABC", 0)).toHaveLength(3);
+	});
+});
+
+describe("buildReactions", () => {
+	const row = (type: number, minute: number, handleId = 1) => ({
+		guid: `reaction-${type}-${minute}`,
+		associated_message_guid: "p:0/TARGET",
+		associated_message_type: type,
+		handle_id: handleId,
+		handle_identifier: `+1555000000${handleId}`,
+		is_from_me: 0,
+		date: dateToAppleTime(new Date(Date.UTC(2024, 0, 1, 0, minute))),
+	});
+
+	it("should mark removed tapbacks instead of dropping them", () => {
+		const reactions = buildReactions([row(3000, 5), row(2000, 1)]).get(
+			"TARGET",
+		);
+
+		expect(reactions).toHaveLength(1);
+		expect(reactions?.[0]).toMatchObject({
+			type: "loved",
+			sender: "+15550000001",
+			removed: true,
+		});
+		expect(reactions?.[0]?.removedDate?.toISOString()).toBe(
+			"2024-01-01T00:05:00.000Z",
+		);
+	});
+
+	it("should only remove the same sender's tapback", () => {
+		const reactions = buildReactions([
+			row(2001, 1, 1),
+			row(2001, 2, 2),
+			row(3001, 3, 2),
+		]).get("TARGET");
+
+		expect(reactions?.map((r) => [r.handleId, r.removed])).toEqual([
+			[1, false],
+			[2, true],
+		]);
+	});
+
+	it("should format reactions for display", () => {
+		const [reaction] = buildReactions([row(2003, 1)]).get("TARGET") ?? [];
+
+		expect(reaction && formatReaction(reaction)).toBe(
+			"😂 Laughed by +15550000001",
+		);
+		expect(
+			reaction && formatReaction(reaction, { resolveName: () => "Ada" }),
+		).toBe("😂 Laughed by Ada");
+	});
+});
+
+describe("IMessageClient reactions", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addMessage({
+				guid: "dinner",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Dinner at 8?",
+			})
+			.addReaction({
+				message: "dinner",
+				type: "loved",
+				isFromMe: true,
+				chat: "+15551234567",
+			})
+			.addReaction({
+				message: "dinner",
+				type: "emoji",
+				emoji: "🍝",
+				handle: "+15551234567",
+				chat: "+15551234567",
+			})
+			.addReaction({
+				message: "dinner",
+				type: "loved",
+				remove: true,
+				isFromMe: true,
+				chat: "+15551234567",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should hide tapback rows from listings by default", () => {
+		const messages = client.getMessagesForChat(1);
+
+		expect(messages.map((m) => m.guid)).toEqual(["dinner"]);
+		expect(client.getMessages({ includeReactions: true })).toHaveLength(4);
+	});
+
+	it("should attach reactions to the message they target", () => {
+		const [message] = client.getMessagesForChat(1);
+
+		expect(message?.reactions).toHaveLength(2);
+		expect(message?.reactions?.[0]).toMatchObject({
+			type: "loved",
+			isFromMe: true,
+			removed: true,
+		});
+		expect(message?.reactions?.[1]).toMatchObject({
+			type: "emoji",
+			emoji: "🍝",
+			sender: "+15551234567",
+			removed: false,
+		});
+	});
+
+	it("should attach reactions to attachment parts", () => {
+		fixture
+			.addMessage({
+				guid: "photos",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "\uFFFC\uFFFC",
+			})
+			.addAttachment({ message: "photos", filename: "~/a.heic" })
+			.addAttachment({ message: "photos", filename: "~/b.heic" })
+			.addReaction({
+				message: "photos",
+				type: "laughed",
+				partIndex: 2,
+				isFromMe: true,
+				chat: "+15551234567",
+			});
+
+		for (const include of [undefined, ["handle" as const]]) {
+			const message = client
+				.getMessages({ include })
+				.find((m) => m.guid === "photos");
+			expect(message?.reactions).toMatchObject([
+				{ type: "laughed", partIndex: 2 },
+			]);
+		}
+	});
+
+	it("should attach reactions to single messages", () => {
+		const message = client.getMessageById(fixture.messageRowId("dinner"));
+
+		expect(message?.reactions).toHaveLength(2);
+	});
+
+	it("should skip tapbacks when picking a chat's last message", () => {
+		const [chat] = client.getRecentChats();
+
+		expect(chat?.lastMessage?.guid).toBe("dinner");
+	});
+});
@@ -0,0 +1,189 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { RelevanceIndex, tokenize } from "../src/relevance";
+
+const SAM = "+15550000001";
+const ALEX = "alex@example.com";
+const GROUP = "chat900";
+
+describe("tokenize", () => {
+	it("should fold words and drop stop words", () => {
+		expect(tokenize("The Café's lease is up in 2 weeks!")).toEqual([
+			"cafe",
+			"lease",
+			"2",
+			"weeks",
+		]);
+	});
+});
+
+describe("RelevanceIndex", () => {
+	const index = new RelevanceIndex();
+	index.add({ id: 1, chatId: 1, text: "The apartment lease renewal is due" });
+	index.add({ id: 2, chatId: 1, text: "lease lease lease" });
+	index.add({ id: 3, chatId: 2, text: "Dinner at the new apartment?" });
+	index.add({ id: 4, chatId: 2, text: "Pizza for dinner tonight" });
+	index.add({ id: 5, chatId: 3, text: "ok" });
+
+	it("should skip messages without terms", () => {
+		expect(index.size).toBe(4);
+		expect(index.has(5)).toBe(false);
+	});
+
+	it("should rank by BM25, favouring messages matching more terms", () => {
+		const hits = index.search("apartment lease");
+		expect(hits.map((hit) => hit.id)).toEqual([1, 2, 3]);
+		expect(index.search("nothing matches")).toEqual([]);
+	});
+
+	it("should find similar messages, excluding the source", () => {
+		const hits = index.similar(4);
+		expect(hits.map((hit) => hit.id)).toEqual([3]);
+		expect(hits[0]?.score).toBeGreaterThan(0);
+		expect(hits[0]?.score).toBeLessThanOrEqual(1);
+		expect(index.similar("pizza dinner")[0]?.id).toBe(4);
+		expect(index.similar(99)).toEqual([]);
+	});
+
+	it("should rank conversations by their best messages", () => {
+		expect(RelevanceIndex.rankConversations(index.search("lease"))).toEqual([
+			{ chatId: 1, score: expect.any(Number), messageIds: [2, 1] },
+		]);
+	});
+
+	it("should replace and remove messages", () => {
+		const copy = new RelevanceIndex();
+		copy.add({ id: 1, chatId: null, text: "old words" });
+		copy.add({ id: 1, chatId: null, text: "new words" });
+		expect(copy.search("old")).toEqual([]);
+		copy.remove(1);
+		expect(copy.size).toBe(0);
+		expect(copy.search("new")).toEqual([]);
+	});
+});
+
+describe("IMessageClient relevance", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: SAM })
+			.addHandle({ id: ALEX })
+			.addChat({ chatIdentifier: SAM, participants: [SAM] })
+			.addChat({
+				chatIdentifier: GROUP,
+				displayName: "Flat",
+				participants: [SAM, ALEX],
+			})
+			.addMessage({
+				guid: "lease",
+				chat: SAM,
+				handle: SAM,
+				text: "The landlord sent the apartment lease, can you sign it?",
+			})
+			.addMessage({
+				guid: "body",
+				chat: SAM,
+				handle: SAM,
+				text: null,
+				attributedBody: "Lease starts in June",
+			})
+			.addMessage({
+				guid: "mine",
+				chat: SAM,
+				isFromMe: true,
+				text: "Signed the lease",
+			})
+			.addMessage({
+				guid: "group",
+				chat: GROUP,
+				handle: ALEX,
+				text: "Who is cleaning the apartment this week?",
+			})
+			.addMessage({
+				guid: "other",
+				chat: GROUP,
+				handle: ALEX,
+				text: "Pizza tonight",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const guids = (results: { messages: { message: { guid: string } }[] }) =>
+		results.messages.map((result) => result.message.guid);
+
+	it("should rank messages and conversations for a query", () => {
+		const results = client.searchByRelevance("apartment lease");
+
+		expect(guids(results)[0]).toBe("lease");
+		expect(new Set(guids(results))).toEqual(
+			new Set(["lease", "body", "mine", "group"]),
+		);
+		expect(
+			results.conversations.map((conversation) => conversation.chat.ROWID),
+		).toHaveLength(2);
+		expect(results.conversations[0]?.chat.chat_identifier).toBe(SAM);
+		expect(results.conversations[0]?.messageIds).toHaveLength(3);
+		expect(results.conversations[1]?.chat.participants).toHaveLength(2);
+	});
+
+	it("should apply filters and limits", () => {
+		const handle = client.getHandleByIdentifier(SAM);
+		expect(
+			guids(
+				client.searchByRelevance("lease", {
+					handleId: handle?.ROWID,
+					limit: 1,
+				}),
+			),
+		).toHaveLength(1);
+		expect(
+			guids(client.searchByRelevance("lease", { isFromMe: true })),
+		).toEqual(["mine"]);
+		expect(
+			client.searchByRelevance("lease", { conversationLimit: 0 }).conversations,
+		).toEqual([]);
+	});
+
+	it("should find messages related to a message", () => {
+		const lease = client.getMessages({ searchText: "landlord" })[0];
+		const results = client.findRelated(lease?.ROWID as number);
+
+		expect(new Set(guids(results))).toEqual(new Set(["body", "mine", "group"]));
+		expect(guids(client.findRelated("pizza night"))).toEqual(["other"]);
+	});
+
+	it("should index a message in several chats once", () => {
+		const db = new Database(fixture.path);
+		db.prepare(
+			"INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, 0)",
+		).run(fixture.chatRowId(GROUP), fixture.messageRowId("mine"));
+		db.close();
+
+		const results = client.searchByRelevance("signed");
+
+		expect(guids(results)).toEqual(["mine"]);
+		expect(
+			results.conversations.map((conversation) => conversation.chat.ROWID),
+		).toEqual([fixture.chatRowId(SAM)]);
+	});
+
+	it("should index messages added after the first search", () => {
+		expect(guids(client.searchByRelevance("deposit"))).toEqual([]);
+		fixture.addMessage({
+			guid: "deposit",
+			chat: SAM,
+			handle: SAM,
+			text: "Deposit is two months rent",
+		});
+		expect(guids(client.searchByRelevance("deposit"))).toEqual(["deposit"]);
+	});
+});
@@ -0,0 +1,159 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { CURRENT_CAPABILITIES, isSecondsTimestamp } from "../src/schema";
+import { appleTimeToDate, dateToAppleTime } from "../src/utils";
+
+describe("timestamp units", () => {
+	const date = new Date("2016-05-01T12:00:00Z");
+
+	it("should convert dates to seconds or nanoseconds", () => {
+		expect(dateToAppleTime(date, "seconds")).toBe(483796800);
+		expect(dateToAppleTime(date)).toBe(483796800 * 1_000_000_000);
+	});
+
+	it("should read either unit back", () => {
+		expect(appleTimeToDate(483796800)).toEqual(date);
+		expect(appleTimeToDate(483796800 * 1_000_000_000)).toEqual(date);
+		expect(isSecondsTimestamp(483796800)).toBe(true);
+		expect(isSecondsTimestamp(483796800 * 1_000_000_000)).toBe(false);
+		expect(isSecondsTimestamp(0)).toBe(false);
+	});
+});
+
+describe("IMessageClient schema capabilities", () => {
+	it("should detect a current schema", () => {
+		const fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addMessage({ handle: "+15551234567", text: "hi" });
+		const client = new IMessageClient({ databasePath: fixture.path });
+
+		expect(client.capabilities).toEqual(CURRENT_CAPABILITIES);
+
+		client.close();
+		fixture.cleanup();
+	});
+
+	describe("on a legacy database", () => {
+		let fixture: ChatDbFixture;
+		let client: IMessageClient;
+		let indexDir: string;
+
+		beforeEach(() => {
+			indexDir = fs.mkdtempSync(path.join(os.tmpdir(), "imessage-index-"));
+			fixture = new ChatDbFixture({ legacy: true })
+				.addHandle({ id: "+15551234567" })
+				.addChat({
+					chatIdentifier: "+15551234567",
+					participants: ["+15551234567"],
+				})
+				.addMessage({
+					guid: "first",
+					chat: "+15551234567",
+					handle: "+15551234567",
+					text: "Dinner on Friday?",
+					date: new Date("2016-05-01T12:00:00Z"),
+				})
+				.addMessage({
+					guid: "second",
+					chat: "+15551234567",
+					isFromMe: true,
+					text: "Sounds good",
+					date: new Date("2016-05-02T12:00:00Z"),
+					dateRead: new Date("2016-05-02T12:05:00Z"),
+				});
+			client = new IMessageClient({
+				databasePath: fixture.path,
+				searchIndexPath: path.join(indexDir, "search.db"),
+			});
+		});
+
+		afterEach(() => {
+			client.close();
+			fixture.cleanup();
+			fs.rmSync(indexDir, { recursive: true, force: true });
+		});
+
+		it("should detect missing columns and seconds timestamps", () => {
+			expect(client.capabilities).toEqual({
+				hasReactions: false,
+				hasThreads: false,
+				hasEdits: false,
+				timestampUnit: "seconds",
+			});
+		});
+
+		it("should read messages with correct dates and no reactions", () => {
+			const messages = client.getMessages({});
+
+			expect(
+				messages.map((m) => ({
+					guid: m.guid,
+					date: appleTimeToDate(m.date).toISOString(),
+					edits: m.edits,
+					reactions: m.reactions,
+				})),
+			).toEqual([
+				{
+					guid: "second",
+					date: "2016-05-02T12:00:00.000Z",
+					edits: undefined,
+					reactions: [],
+				},
+				{
+					guid: "first",
+					date: "2016-05-01T12:00:00.000Z",
+					edits: undefined,
+					reactions: [],
+				},
+			]);
+		});
+
+		it("should filter by date in seconds", () => {
+			const messages = client.getMessages({
+				startDate: new Date("2016-05-02T00:00:00Z"),
+				endDate: new Date("2016-05-03T00:00:00Z"),
+			});
+
+			expect(messages.map((m) => m.guid)).toEqual(["second"]);
+		});
+
+		it("should treat edit filters as never edited", () => {
+			expect(client.getMessages({ isEdited: true })).toEqual([]);
+			expect(client.getMessages({ isRetracted: false })).toHaveLength(2);
+		});
+
+		it("should treat every message as its own thread", () => {
+			const thread = client.getThread("first");
+
+			expect(thread?.root.guid).toBe("first");
+			expect(thread?.replies).toEqual([]);
+		});
+
+		it("should report new messages since a cursor", () => {
+			const cursor = client.getChangesCursor();
+			fixture.addMessage({
+				guid: "third",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "See you then",
+				date: new Date("2016-05-03T12:00:00Z"),
+			});
+
+			const { changes } = client.getChangesSince(cursor);
+			expect(changes.map((c) => [c.type, c.message.guid])).toEqual([
+				["new", "third"],
+			]);
+		});
+
+		it("should build a search index", () => {
+			expect(client.updateSearchIndex().indexed).toBe(2);
+			expect(
+				client.searchMessages("dinner").map((r) => r.message.guid),
+			).toEqual(["first"]);
+		});
+	});
+});
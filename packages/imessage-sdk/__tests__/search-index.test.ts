@@ -0,0 +1,174 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+
+describe("IMessageClient search index", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let indexDir: string;
+
+	beforeEach(() => {
+		indexDir = fs.mkdtempSync(path.join(os.tmpdir(), "imessage-index-"));
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addHandle({ id: "friend@example.com" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addChat({
+				chatIdentifier: "friend@example.com",
+				participants: ["friend@example.com"],
+			})
+			.addMessage({
+				guid: "pizza",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Pizza tonight at the new place?",
+			})
+			.addMessage({
+				guid: "rich",
+				chat: "+15551234567",
+				isFromMe: true,
+				attributedBody:
+					"The new place has great pizza and pizza-sized calzones",
+			})
+			.addReaction({
+				message: "pizza",
+				type: "loved",
+				isFromMe: true,
+				chat: "+15551234567",
+			})
+			.addMessage({
+				guid: "crêpes",
+				chat: "friend@example.com",
+				handle: "friend@example.com",
+				text: "Crêpes for brunch instead",
+			});
+		client = new IMessageClient({
+			databasePath: fixture.path,
+			searchIndexPath: path.join(indexDir, "nested", "search.db"),
+		});
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+		fs.rmSync(indexDir, { recursive: true, force: true });
+	});
+
+	it("should require the index to be built", () => {
+		expect(client.hasSearchIndex()).toBe(false);
+		expect(() => client.searchMessages("pizza")).toThrow("No search index");
+	});
+
+	it("should index decoded text and skip tapbacks", () => {
+		expect(client.updateSearchIndex()).toEqual({
+			indexed: 3,
+			total: 3,
+			lastRowId: fixture.messageRowId("crêpes"),
+		});
+		expect(client.hasSearchIndex()).toBe(true);
+
+		const guids = client.searchMessages("pizza").map((r) => r.message.guid);
+		expect(guids).toEqual(["rich", "pizza"]);
+	});
+
+	it("should support phrase, prefix and boolean queries", () => {
+		client.updateSearchIndex();
+		const search = (query: string) =>
+			client
+				.searchMessages(query, { syntax: "fts" })
+				.map((r) => r.message.guid);
+
+		expect(search('"new place has"')).toEqual(["rich"]);
+		expect(search("calz*")).toEqual(["rich"]);
+		expect(search("pizza NOT calzones")).toEqual(["pizza"]);
+		expect(search("brunch OR tonight").sort()).toEqual(["crêpes", "pizza"]);
+		expect(search("crepes")).toEqual(["crêpes"]);
+	});
+
+	it("should highlight matches in snippets", () => {
+		client.updateSearchIndex();
+
+		const [result] = client.searchMessages("brunch", {
+			highlight: ["<b>", "</b>"],
+		});
+
+		expect(result?.snippet).toBe("Crêpes for <b>brunch</b> instead");
+		expect(result?.score).toBeGreaterThan(0);
+		expect(result?.message.handle?.id).toBe("friend@example.com");
+	});
+
+	it("should apply message filters", () => {
+		client.updateSearchIndex();
+
+		expect(
+			client
+				.searchMessages("pizza", { isFromMe: false })
+				.map((r) => r.message.guid),
+		).toEqual(["pizza"]);
+		expect(
+			client.searchMessages("pizza OR brunch", { chatId: 2, syntax: "fts" }),
+		).toHaveLength(1);
+	});
+
+	it("should only index new messages on update", () => {
+		client.updateSearchIndex();
+		fixture.addMessage({
+			guid: "later",
+			chat: "+15551234567",
+			handle: "+15551234567",
+			text: "Actually, tacos",
+		});
+
+		const update = client.updateSearchIndex();
+
+		expect(update.indexed).toBe(1);
+		expect(update.total).toBe(4);
+		expect(client.searchMessages("tacos")[0]?.message.guid).toBe("later");
+		expect(client.updateSearchIndex({ rebuild: true }).indexed).toBe(4);
+	});
+
+	it("should match plain text containing punctuation", () => {
+		fixture
+			.addMessage({
+				guid: "punctuation",
+				chat: "friend@example.com",
+				handle: "friend@example.com",
+				text: "I don't check e-mail, write to sam@x.com",
+			})
+			.addMessage({
+				guid: "operators",
+				chat: "friend@example.com",
+				isFromMe: true,
+				text: "Pizza OR calzones NOT both",
+			});
+		client.updateSearchIndex();
+		const search = (query: string) =>
+			client.searchMessages(query).map((r) => r.message.guid);
+
+		expect(search("don't")).toEqual(["punctuation"]);
+		expect(search("e-mail")).toEqual(["punctuation"]);
+		expect(search("sam@x.com")).toEqual(["punctuation"]);
+		expect(search('"check')).toEqual(["punctuation"]);
+		// Operators are words like any other
+		expect(search("calzones NOT")).toEqual(["operators"]);
+	});
+
+	it("should fall back to a text search for malformed FTS queries", () => {
+		client.updateSearchIndex();
+
+		const [result, ...rest] = client.searchMessages("pizza-sized", {
+			syntax: "fts",
+		});
+
+		expect(rest).toEqual([]);
+		expect(result?.message.guid).toBe("rich");
+		expect(result?.score).toBe(0);
+		expect(client.searchMessages("pizza AND (", { syntax: "fts" })).toEqual([]);
+	});
+});
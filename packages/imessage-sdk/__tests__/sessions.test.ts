@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { segmentSessions } from "../src/sessions";
+
+const ADA = "+15550000001";
+const GRACE = "grace@example.com";
+const GROUP = "chat123456789";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("segmentSessions", () => {
+	const start = Date.UTC(2024, 5, 1, 12);
+	const row = (
+		chatId: number,
+		messageId: number,
+		hours: number,
+		handleId = 0,
+	) => ({
+		chatId,
+		messageId,
+		date: new Date(start + hours * HOUR),
+		isFromMe: handleId === 0,
+		handleId,
+	});
+
+	it("should split at gaps and chat boundaries", () => {
+		const sessions = segmentSessions(
+			[
+				row(1, 1, 0, 7),
+				row(1, 2, 1),
+				row(1, 3, 1.5, 8),
+				row(1, 4, 1.6, 7),
+				row(1, 5, 9, 7),
+				row(2, 6, 9.5),
+			],
+			6 * HOUR,
+		);
+
+		expect(sessions).toEqual([
+			{
+				chatId: 1,
+				start: new Date(start),
+				end: new Date(start + 1.6 * HOUR),
+				firstMessageId: 1,
+				lastMessageId: 4,
+				messageCount: 4,
+				sentCount: 1,
+				speakerIds: [7, 8],
+			},
+			expect.objectContaining({
+				chatId: 1,
+				firstMessageId: 5,
+				lastMessageId: 5,
+				messageCount: 1,
+			}),
+			expect.objectContaining({
+				chatId: 2,
+				messageCount: 1,
+				sentCount: 1,
+				speakerIds: [],
+			}),
+		]);
+	});
+
+	it("should honour the gap", () => {
+		const rows = [row(1, 1, 0), row(1, 2, 0.5), row(1, 3, 1)];
+
+		expect(segmentSessions(rows, 20 * 60 * 1000)).toHaveLength(3);
+		expect(segmentSessions(rows)).toHaveLength(1);
+		expect(segmentSessions([])).toEqual([]);
+	});
+});
+
+describe("IMessageClient sessions", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	// Friday 2024-06-07, evening, and the Sunday after
+	const friday = Date.UTC(2024, 5, 7, 20);
+	const sunday = Date.UTC(2024, 5, 9, 10);
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ADA })
+			.addHandle({ id: GRACE })
+			.addChat({ chatIdentifier: ADA, participants: [ADA] })
+			.addChat({
+				chatIdentifier: GROUP,
+				displayName: "Weekend",
+				participants: [ADA, GRACE],
+			})
+			.addMessage({
+				guid: "fri-1",
+				chat: GROUP,
+				handle: GRACE,
+				text: "Anyone up for dinner?",
+				date: new Date(friday),
+			})
+			.addMessage({
+				guid: "fri-2",
+				chat: GROUP,
+				isFromMe: true,
+				text: "Sure, where?",
+				date: new Date(friday + 10 * 60_000),
+			})
+			.addMessage({
+				guid: "fri-3",
+				chat: GROUP,
+				handle: ADA,
+				text: "The noodle place",
+				date: new Date(friday + 20 * 60_000),
+			})
+			.addReaction({ message: "fri-3", handle: GRACE, type: "liked" })
+			.addMessage({
+				guid: "sun-1",
+				chat: GROUP,
+				handle: ADA,
+				text: "Thanks for last night",
+				date: new Date(sunday),
+			})
+			.addMessage({
+				guid: "ada-1",
+				chat: ADA,
+				handle: ADA,
+				text: "Did you get home ok?",
+				date: new Date(friday + 4 * HOUR),
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should list sessions across chats, most recent first", () => {
+		const sessions = client.getSessions();
+
+		expect(sessions.map((session) => session.openingMessage.guid)).toEqual([
+			"sun-1",
+			"ada-1",
+			"fri-1",
+		]);
+
+		const dinner = sessions[2];
+		expect(dinner).toMatchObject({
+			start: new Date(friday),
+			end: new Date(friday + 20 * 60_000),
+			messageCount: 3,
+			sentCount: 1,
+		});
+		expect(dinner?.speakers.map((handle) => handle.id)).toEqual([GRACE, ADA]);
+		expect(dinner?.openingMessage.text).toBe("Anyone up for dinner?");
+	});
+
+	it("should filter by chat and date range, and limit", () => {
+		const group = client
+			.getChats()
+			.find((chat) => chat.chat_identifier === GROUP);
+		const fridayNight = client.getSessions({
+			chatId: group?.ROWID,
+			startDate: new Date(friday - HOUR),
+			endDate: new Date(friday + 6 * HOUR),
+		});
+
+		expect(fridayNight.map((session) => session.openingMessage.guid)).toEqual([
+			"fri-1",
+		]);
+		expect(client.getSessions({ limit: 1 })).toHaveLength(1);
+		// A two-day gap merges everything in the group
+		expect(
+			client.getSessions({
+				chatId: group?.ROWID,
+				conversationGap: 48 * HOUR,
+			})[0]?.messageCount,
+		).toBe(4);
+	});
+
+	it("should load exactly a session's messages", () => {
+		const dinner = client
+			.getSessions()
+			.find((session) => session.openingMessage.guid === "fri-1");
+
+		const messages = client.getSessionMessages(
+			dinner as NonNullable<typeof dinner>,
+		);
+
+		expect(messages.map((message) => message.guid)).toEqual([
+			"fri-1",
+			"fri-2",
+			"fri-3",
+		]);
+	});
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { foldText, regExpPattern } from "../src/sql-functions";
+
+const ALICE = "+15550000001";
+
+describe("foldText", () => {
+	it("should drop case and accents", () => {
+		expect(foldText("Café CRÈME Ångström")).toBe("cafe creme angstrom");
+		expect(foldText("ｆｕｌｌ width")).toBe("full width");
+	});
+});
+
+describe("regExpPattern", () => {
+	it("should keep supported flags as an inline group", () => {
+		expect(regExpPattern(/a.b/is)).toBe("(?is)a.b");
+		expect(regExpPattern(/x/g)).toBe("x");
+	});
+});
+
+describe("IMessageClient text search modes", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ALICE })
+			.addChat({ chatIdentifier: ALICE, participants: [ALICE] })
+			.addMessage({
+				guid: "cafe",
+				chat: ALICE,
+				handle: ALICE,
+				text: "Meet at the Café at 7?",
+			})
+			.addMessage({
+				guid: "body",
+				chat: ALICE,
+				isFromMe: true,
+				text: null,
+				attributedBody: "CAFE it is, meet at 715",
+			})
+			.addMessage({
+				guid: "tracking",
+				chat: ALICE,
+				handle: ALICE,
+				text: "Tracking: 1Z999AA10123456784",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const guids = (filter: Parameters<IMessageClient["getMessages"]>[0]) =>
+		client
+			.getMessages(filter)
+			.map((message) => message.guid)
+			.sort();
+
+	it("should keep LIKE matching on the text column by default", () => {
+		expect(guids({ searchText: "café" })).toEqual(["cafe"]);
+		expect(guids({ searchText: "cafe" })).toEqual([]);
+	});
+
+	it("should fold case and accents, including attributedBody text", () => {
+		expect(guids({ searchText: "cafe", searchMode: "folded" })).toEqual([
+			"body",
+			"cafe",
+		]);
+		expect(guids({ searchText: "CAFÉ IT", searchMode: "folded" })).toEqual([
+			"body",
+		]);
+	});
+
+	it("should match regular expressions", () => {
+		expect(guids({ searchText: "meet at \\d+", searchMode: "regex" })).toEqual([
+			"body",
+		]);
+		expect(guids({ searchRegex: "\\b1Z[0-9A-Z]{16}\\b" })).toEqual([
+			"tracking",
+		]);
+		expect(guids({ searchRegex: /^meet/ })).toEqual([]);
+		expect(guids({ searchRegex: /^meet/i })).toEqual(["cafe"]);
+		expect(
+			guids({ searchText: "café", searchMode: "folded", searchRegex: "7\\?" }),
+		).toEqual(["cafe"]);
+	});
+
+	it("should apply search modes to pages", () => {
+		const page = client.getMessagesPage({
+			searchText: "CAFE",
+			searchMode: "folded",
+			limit: 1,
+		});
+		expect(page.items.map((message) => message.guid)).toEqual(["body"]);
+		expect(page.nextCursor).not.toBeNull();
+	});
+
+	it("should reject invalid regular expressions", () => {
+		expect(() => client.getMessages({ searchRegex: "(" })).toThrow(
+			/Invalid regular expression/,
+		);
+	});
+});
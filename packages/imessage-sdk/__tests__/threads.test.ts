@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { formatMessage, parseThreadOriginatorPart } from "../src/utils";
+
+describe("parseThreadOriginatorPart", () => {
+	it("should read the part index", () => {
+		expect(parseThreadOriginatorPart("2:0:14")).toBe(2);
+		expect(parseThreadOriginatorPart(null)).toBe(0);
+		expect(parseThreadOriginatorPart("garbage")).toBe(0);
+	});
+});
+
+describe("IMessageClient threads", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addMessage({
+				guid: "root",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Who is bringing snacks on Saturday?",
+			})
+			.addMessage({
+				guid: "unrelated",
+				chat: "+15551234567",
+				isFromMe: true,
+				text: "Also, did you see the game?",
+			})
+			.addMessage({
+				guid: "reply-1",
+				chat: "+15551234567",
+				isFromMe: true,
+				text: "I can bring chips",
+				replyTo: "root",
+			})
+			.addReaction({
+				message: "reply-1",
+				type: "liked",
+				handle: "+15551234567",
+				chat: "+15551234567",
+			})
+			.addMessage({
+				guid: "reply-2",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Perfect",
+				replyTo: "root",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	it("should expose the replied-to message on replies", () => {
+		const messages = client.getMessagesForChat(1);
+		const reply = messages.find((m) => m.guid === "reply-1");
+
+		expect(reply?.thread_originator_guid).toBe("root");
+		expect(reply?.replyTo).toEqual({
+			guid: "root",
+			partIndex: 0,
+			messageId: fixture.messageRowId("root"),
+			text: "Who is bringing snacks on Saturday?",
+			isFromMe: false,
+			sender: "+15551234567",
+		});
+		expect(messages.find((m) => m.guid === "root")?.replyTo).toBeUndefined();
+	});
+
+	it("should return the root and its replies in order", () => {
+		const thread = client.getThread("root");
+
+		expect(thread?.root.guid).toBe("root");
+		expect(thread?.replies.map((m) => m.guid)).toEqual(["reply-1", "reply-2"]);
+		expect(thread?.replies[0]?.reactions).toHaveLength(1);
+	});
+
+	it("should find the thread from any reply", () => {
+		expect(client.getThread("reply-2")?.root.guid).toBe("root");
+	});
+
+	it("should return null for unknown messages", () => {
+		expect(client.getThread("missing")).toBeNull();
+	});
+
+	it("should render reply context when formatting", () => {
+		const reply = client.getMessageById(fixture.messageRowId("reply-2"));
+		if (!reply) throw new Error("reply not found");
+
+		expect(formatMessage(reply)).toMatch(
+			/\+15551234567: Perfect \(↳ replying to \+15551234567: “Who is bringing snacks on Saturday\?”\)$/,
+		);
+		expect(formatMessage(reply, { showReplyContext: false })).toMatch(
+			/: Perfect$/,
+		);
+		expect(
+			formatMessage(reply, {
+				resolveName: (address) =>
+					address === "+15551234567" ? "Ada" : undefined,
+			}),
+		).toMatch(/Ada: Perfect \(↳ replying to Ada: “Who/);
+	});
+});
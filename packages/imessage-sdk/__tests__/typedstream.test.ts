@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture, encodeAttributedBody } from "../src/fixtures";
+import {
+	decodeAttributedBody,
+	decodeTypedStream,
+	inheritsFrom,
+	type TypedObject,
+	toPlainValue,
+} from "../src/typedstream";
+import { parseAttributedBody } from "../src/utils";
+
+// "Hello world!" as archived by Messages.app
+const HELLO_WORLD = Buffer.from(
+	"040b73747265616d747970656481e803840140848484124e534174747269627574656453" +
+		"7472696e67008484084e534f626a656374008592848484084e53537472696e67019484" +
+		"012b0c48656c6c6f20776f726c64218684026949010c928484840c4e5344696374696f" +
+		"6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269" +
+		"627574654e616d658692848484084e534e756d626572008484074e5356616c75650094" +
+		"84012a8401719d00868686",
+	"hex",
+);
+
+describe("decodeTypedStream", () => {
+	it("should decode the object graph with class chains", () => {
+		const [root] = decodeTypedStream(HELLO_WORLD) as TypedObject[];
+
+		expect(root?.class.name).toBe("NSAttributedString");
+		expect(root?.class.superclass?.name).toBe("NSObject");
+		expect(toPlainValue(root?.values[0] ?? null)).toBe("Hello world!");
+	});
+
+	it("should resolve shared class references", () => {
+		const [root] = decodeTypedStream(HELLO_WORLD) as TypedObject[];
+		const dictionary = root?.values[3] as TypedObject;
+
+		expect(inheritsFrom(dictionary.class, "NSDictionary")).toBe(true);
+		expect(toPlainValue(dictionary)).toEqual(
+			new Map([["__kIMMessagePartAttributeName", 0]]),
+		);
+	});
+
+	it("should reject data without a typedstream header", () => {
+		expect(() => decodeTypedStream(Buffer.from("not a stream"))).toThrow();
+	});
+
+	it("should reject truncated streams", () => {
+		expect(() => decodeTypedStream(HELLO_WORLD.subarray(0, 60))).toThrow(
+			"Unexpected end of typedstream",
+		);
+	});
+});
+
+describe("decodeAttributedBody", () => {
+	it("should return null for empty or invalid input", () => {
+		expect(decodeAttributedBody(null)).toBeNull();
+		expect(decodeAttributedBody(Buffer.alloc(0))).toBeNull();
+		expect(decodeAttributedBody(Buffer.from("random data"))).toBeNull();
+	});
+
+	it("should decode a message archived by Messages.app", () => {
+		expect(decodeAttributedBody(HELLO_WORLD)).toEqual({
+			text: "Hello world!",
+			runs: [{ start: 0, length: 12, text: "Hello world!", partIndex: 0 }],
+		});
+	});
+
+	it("should decode multibyte text with UTF-16 run offsets", () => {
+		const result = decodeAttributedBody(
+			encodeAttributedBody([
+				{ text: "Café 👋 " },
+				{ text: "très", bold: true },
+			]),
+		);
+
+		expect(result?.text).toBe("Café 👋 très");
+		expect(result?.runs[1]).toMatchObject({
+			start: 8,
+			length: 4,
+			text: "très",
+			bold: true,
+		});
+	});
+
+	it("should decode long messages with multi-byte length prefixes", () => {
+		const long = "All work and no play. ".repeat(2000);
+
+		expect(decodeAttributedBody(encodeAttributedBody(long))?.text).toBe(long);
+		expect(parseAttributedBody(encodeAttributedBody(long))).toBe(long.trim());
+	});
+
+	it("should decode mentions, links, formatting and attachments", () => {
+		const result = decodeAttributedBody(
+			encodeAttributedBody([
+				{ text: "Hey " },
+				{ text: "Sam", mention: "+15551234567" },
+				{ text: ", see " },
+				{ text: "example.com", link: "https://example.com/" },
+				{ text: " " },
+				{ text: "now", italic: true },
+				{ text: "￼", partIndex: 1, attachmentGuid: "at_0_ABC" },
+			]),
+		);
+
+		expect(result?.text).toBe("Hey Sam, see example.com now￼");
+		expect(result?.runs).toHaveLength(7);
+		expect(result?.runs[1]).toMatchObject({
+			text: "Sam",
+			mention: "+15551234567",
+		});
+		expect(result?.runs[3]).toMatchObject({
+			text: "example.com",
+			link: "https://example.com/",
+		});
+		expect(result?.runs[5]).toMatchObject({ text: "now", italic: true });
+		expect(result?.runs[6]).toMatchObject({
+			partIndex: 1,
+			attachment: { guid: "at_0_ABC" },
+		});
+	});
+
+	it("should reuse dictionaries for runs with the same attributes", () => {
+		const result = decodeAttributedBody(
+			encodeAttributedBody([
+				{ text: "a", bold: true },
+				{ text: "b" },
+				{ text: "c", bold: true },
+			]),
+		);
+
+		expect(result?.runs.map((run) => run.bold ?? false)).toEqual([
+			true,
+			false,
+			true,
+		]);
+	});
+});
+
+describe("IMessageClient richText", () => {
+	it("should expose decoded attribute runs on enriched messages", () => {
+		const fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addMessage({
+				handle: "+15551234567",
+				attributedBody: [
+					{ text: "Ping " },
+					{ text: "Alex", mention: "alex@example.com" },
+				],
+			})
+			.addMessage({ handle: "+15551234567", text: "Plain text" });
+		const client = new IMessageClient({ databasePath: fixture.path });
+
+		try {
+			const [plain, rich] = client.getMessages();
+
+			expect(rich?.text).toBe("Ping Alex");
+			expect(rich?.richText?.runs[1]?.mention).toBe("alex@example.com");
+			expect(plain?.richText).toBeUndefined();
+		} finally {
+			client.close();
+			fixture.cleanup();
+		}
+	});
+});
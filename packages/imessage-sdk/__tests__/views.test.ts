@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import { IMessageViewClient } from "../src/view-client";
+import { toChatKind, toService } from "../src/views";
+
+const ADA = "+15550000001";
+const GRACE = "grace@example.com";
+const ALAN = "+15550000003";
+const CHARLES = "+15550000004";
+
+describe("view mappers", () => {
+	it("should map chat styles, falling back to the identifier", () => {
+		expect(toChatKind({ style: 43, chat_identifier: ADA })).toBe("group");
+		expect(toChatKind({ style: 45, chat_identifier: "chat1" })).toBe("direct");
+		expect(toChatKind({ style: 0, chat_identifier: "chat1" })).toBe("group");
+	});
+
+	it("should map services", () => {
+		expect(toService("iMessage")).toBe("iMessage");
+		expect(toService("RCS")).toBe("RCS");
+		expect(toService("iMessageLite")).toBe("other");
+	});
+});
+
+describe("IMessageViewClient", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageViewClient;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: ADA })
+			.addHandle({ id: GRACE })
+			.addHandle({ id: ALAN, service: "SMS" })
+			.addHandle({ id: CHARLES })
+			.addChat({ chatIdentifier: ADA, participants: [ADA] })
+			.addChat({
+				chatIdentifier: "chat100",
+				participants: [ADA, GRACE, ALAN, CHARLES],
+				isArchived: true,
+			})
+			.addChat({
+				chatIdentifier: "chat200",
+				displayName: "Book club",
+				participants: [ADA, GRACE],
+			})
+			.addMessage({
+				guid: "hello",
+				chat: ADA,
+				handle: ADA,
+				text: "Hello",
+				date: new Date("2024-05-01T10:00:00Z"),
+				dateRead: new Date("2024-05-01T10:05:00Z"),
+				isRead: true,
+			})
+			.addMessage({
+				guid: "photo",
+				chat: "chat100",
+				isFromMe: true,
+				text: "\uFFFC",
+				date: new Date("2024-05-02T10:00:00Z"),
+				dateDelivered: new Date("2024-05-02T10:00:01Z"),
+				isDelivered: true,
+			})
+			.addAttachment({
+				message: "photo",
+				filename: "~/Library/Messages/Attachments/a/IMG_1.heic",
+				mimeType: "image/heic",
+				totalBytes: 2048,
+			})
+			.addMessage({
+				guid: "voice",
+				chat: "chat200",
+				handle: GRACE,
+				isAudioMessage: true,
+				text: "\uFFFC",
+				date: new Date("2024-05-03T10:00:00Z"),
+			})
+			.addMessage({
+				guid: "edited",
+				chat: ADA,
+				isFromMe: true,
+				text: "See you at 7",
+				date: new Date("2024-05-04T10:00:00Z"),
+				edits: [
+					{ text: "See you at 6", date: new Date("2024-05-04T10:00:00Z") },
+					{ text: "See you at 7", date: new Date("2024-05-04T10:02:00Z") },
+				],
+			});
+		client = new IMessageViewClient({
+			databasePath: fixture.path,
+			resolveName: (handle) => (handle.id === ADA ? "Ada Lovelace" : null),
+		});
+	});
+
+	afterEach(() => {
+		client.close();
+		fixture.cleanup();
+	});
+
+	const byGuid = () =>
+		new Map(client.getMessages().map((message) => [message.guid, message]));
+
+	it("should map messages to views with dates, booleans and kinds", () => {
+		const messages = byGuid();
+
+		expect(messages.get("hello")).toMatchObject({
+			kind: "text",
+			text: "Hello",
+			isFromMe: false,
+			isRead: true,
+			service: "iMessage",
+			sentAt: new Date("2024-05-01T10:00:00Z"),
+			readAt: new Date("2024-05-01T10:05:00Z"),
+			deliveredAt: null,
+			editedAt: null,
+			error: null,
+			sender: {
+				address: ADA,
+				displayName: "Ada Lovelace",
+				identityId: ADA,
+			},
+		});
+		expect(messages.get("hello")?.raw.is_read).toBe(1);
+		expect(messages.get("photo")).toMatchObject({
+			kind: "attachment",
+			sender: null,
+			isDelivered: true,
+			attachments: [{ name: "IMG_1.heic", mimeType: "image/heic", size: 2048 }],
+		});
+		expect(messages.get("voice")?.kind).toBe("audio");
+		expect(messages.get("voice")?.sender?.displayName).toBe(GRACE);
+		expect(messages.get("edited")?.editedAt).toEqual(
+			new Date("2024-05-04T10:02:00Z"),
+		);
+	});
+
+	it("should fill chat IDs by default", () => {
+		const chat = client
+			.getChats()
+			.find((candidate) => candidate.identifier === ADA);
+		expect(byGuid().get("hello")?.chatId).toBe(chat?.id);
+		expect(client.getMessages({ include: [] })[0]?.chatId).toBeNull();
+	});
+
+	it("should map chats with kinds and display names", () => {
+		const chats = new Map(
+			client.getChats().map((chat) => [chat.identifier, chat]),
+		);
+
+		expect(chats.get(ADA)).toMatchObject({
+			kind: "direct",
+			name: null,
+			displayName: "Ada Lovelace",
+			isArchived: false,
+		});
+		expect(chats.get("chat100")).toMatchObject({
+			kind: "group",
+			displayName: "Ada Lovelace, grace@example.com, +1 (555) 000-0003 +1 more",
+			isArchived: true,
+		});
+		expect(chats.get("chat100")?.participants).toHaveLength(4);
+		expect(chats.get("chat100")?.participants[2]?.service).toBe("SMS");
+		expect(chats.get("chat200")?.displayName).toBe("Book club");
+	});
+
+	it("should order recent chats with their last message date", () => {
+		const recent = client.getRecentChats(2);
+
+		expect(recent.map((chat) => chat.identifier)).toEqual([ADA, "chat200"]);
+		expect(recent[0]?.lastMessageAt).toEqual(new Date("2024-05-04T10:00:00Z"));
+		expect(
+			client.getChatById(recent[1]?.id as number)?.participants,
+		).toHaveLength(2);
+	});
+
+	it("should run query specs and wrap an existing client", () => {
+		const raw = new IMessageClient({ databasePath: fixture.path });
+		const views = new IMessageViewClient({ client: raw });
+		const spec = raw.query().hasAttachment("image/*").toSpec();
+
+		expect(views.queryMessages(spec).map((message) => message.guid)).toEqual([
+			"photo",
+		]);
+		views.close();
+		expect(raw.getHandles()).toHaveLength(4);
+		raw.close();
+	});
+});
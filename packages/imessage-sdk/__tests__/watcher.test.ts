@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { IMessageClient } from "../src/client";
+import { ChatDbFixture } from "../src/fixtures";
+import type { MessageChange } from "../src/types";
+import { MessageWatcher } from "../src/watcher";
+
+describe("IMessageClient change feed", () => {
+	let fixture: ChatDbFixture;
+	let client: IMessageClient;
+	let watcher: MessageWatcher | undefined;
+
+	beforeEach(() => {
+		fixture = new ChatDbFixture()
+			.addHandle({ id: "+15551234567" })
+			.addChat({
+				chatIdentifier: "+15551234567",
+				participants: ["+15551234567"],
+			})
+			.addMessage({
+				guid: "first",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Running late",
+				isRead: false,
+			})
+			.addMessage({
+				guid: "reply",
+				chat: "+15551234567",
+				isFromMe: true,
+				text: "No worries",
+			});
+		client = new IMessageClient({ databasePath: fixture.path });
+	});
+
+	afterEach(() => {
+		watcher?.close();
+		watcher = undefined;
+		client.close();
+		fixture.cleanup();
+	});
+
+	const summarize = (changes: MessageChange[]) =>
+		changes.map((change) => [change.type, change.message.guid]);
+
+	it("should report new, edited and read messages since a cursor", () => {
+		const cursor = client.getChangesCursor();
+		fixture
+			.addMessage({
+				guid: "new",
+				chat: "+15551234567",
+				handle: "+15551234567",
+				text: "Here now",
+			})
+			.addReaction({
+				message: "reply",
+				type: "liked",
+				handle: "+15551234567",
+				chat: "+15551234567",
+			})
+			.editMessage("reply", "No worries at all")
+			.markRead("first");
+
+		const { changes, cursor: next } = client.getChangesSince(cursor);
+
+		expect(summarize(changes)).toEqual([
+			["read", "first"],
+			["edited", "reply"],
+			["new", "new"],
+		]);
+		expect(changes[1]?.message.text).toBe("No worries at all");
+		expect(client.getChangesSince(next).changes).toEqual([]);
+	});
+
+	it("should reject malformed cursors", () => {
+		expect(() => client.getChangesSince("nope")).toThrow(
+			"Invalid watch cursor",
+		);
+		expect(() => client.watch({ cursor: "1:2" })).toThrow(
+			"Invalid watch cursor",
+		);
+	});
+
+	it("should stream changes written by another connection", async () => {
+		watcher = client.watch({ debounceMs: 10 });
+		const iterator = watcher[Symbol.asyncIterator]();
+
+		fixture.addMessage({
+			guid: "live",
+			chat: "+15551234567",
+			handle: "+15551234567",
+			text: "Live update",
+		});
+		const first = await iterator.next();
+
+		fixture.editMessage("live", "Live update!");
+		const second = await iterator.next();
+
+		expect(first.value).toMatchObject({
+			type: "new",
+			message: { guid: "live", text: "Live update" },
+		});
+		expect(second.value).toMatchObject({
+			type: "edited",
+			message: { guid: "live", text: "Live update!" },
+		});
+	});
+
+	it("should emit change events", async () => {
+		watcher = client.watch({ debounceMs: 10 });
+		const changed = new Promise<MessageChange>((resolve) => {
+			watcher?.once("change", resolve);
+		});
+
+		fixture.markRead("first");
+
+		expect(summarize([await changed])).toEqual([["read", "first"]]);
+	});
+
+	it("should resume from a persisted cursor", async () => {
+		watcher = client.watch({ debounceMs: 10 });
+		const cursor = watcher.cursor;
+		watcher.close();
+
+		fixture.addMessage({
+			guid: "missed",
+			chat: "+15551234567",
+			handle: "+15551234567",
+			text: "Sent while offline",
+		});
+
+		watcher = client.watch({ cursor, debounceMs: 10 });
+		const { value } = await watcher[Symbol.asyncIterator]().next();
+
+		expect(value?.message.guid).toBe("missed");
+	});
+
+	it("should retry checks that find the database locked", async () => {
+		let calls = 0;
+		watcher = new MessageWatcher(
+			fixture.path,
+			client.getChangesCursor(),
+			(cursor) => {
+				calls++;
+				if (calls === 1) {
+					throw Object.assign(new Error("database is locked"), {
+						code: "SQLITE_BUSY",
+					});
+				}
+				return client.getChangesSince(cursor);
+			},
+			{ debounceMs: 10 },
+		);
+		const errors: Error[] = [];
+		watcher.on("error", (error) => errors.push(error));
+		const changed = new Promise<MessageChange>((resolve) => {
+			watcher?.once("change", resolve);
+		});
+
+		fixture.markRead("first");
+
+		expect(summarize([await changed])).toEqual([["read", "first"]]);
+		expect(calls).toBeGreaterThanOrEqual(2);
+		expect(errors).toEqual([]);
+	});
+
+	it("should reject iterations, and not throw without error listeners", async () => {
+		const failing = () => {
+			throw new Error("disk I/O error");
+		};
+		watcher = new MessageWatcher(
+			fixture.path,
+			client.getChangesCursor(),
+			failing,
+		);
+		watcher.on("change", () => {});
+
+		expect(watcher.check()).toEqual([]);
+
+		const next = watcher[Symbol.asyncIterator]().next();
+		watcher.check();
+
+		await expect(next).rejects.toThrow("disk I/O error");
+	});
+
+	it("should deliver an error to one iteration and carry on", async () => {
+		let calls = 0;
+		watcher = new MessageWatcher(
+			fixture.path,
+			client.getChangesCursor(),
+			(cursor) => {
+				calls++;
+				if (calls === 1) throw new Error("disk I/O error");
+				return client.getChangesSince(cursor);
+			},
+		);
+		const iterator = watcher[Symbol.asyncIterator]();
+
+		watcher.check();
+		await expect(iterator.next()).rejects.toThrow("disk I/O error");
+
+		fixture.markRead("first");
+		watcher.check();
+		const { value } = await iterator.next();
+
+		expect(value?.message.guid).toBe("first");
+	});
+
+	it("should close after repeated failed checks", async () => {
+		watcher = new MessageWatcher(
+			fixture.path,
+			client.getChangesCursor(),
+			() => {
+				throw new Error("disk I/O error");
+			},
+		);
+		const iterator = watcher[Symbol.asyncIterator]();
+
+		for (let i = 0; i < 4; i++) watcher.check();
+		expect(watcher.isClosed).toBe(false);
+		watcher.check();
+
+		expect(watcher.isClosed).toBe(true);
+		expect(watcher.error?.message).toBe("disk I/O error");
+		// The last error is still delivered before iteration ends
+		await expect(iterator.next()).rejects.toThrow("disk I/O error");
+		expect(await iterator.next()).toEqual({ value: undefined, done: true });
+	});
+
+	it("should finish iteration when aborted", async () => {
+		const controller = new AbortController();
+		watcher = client.watch({ signal: controller.signal });
+		const next = watcher[Symbol.asyncIterator]().next();
+
+		controller.abort();
+
+		expect(await next).toEqual({ value: undefined, done: true });
+		expect(watcher.isClosed).toBe(true);
+	});
+});
@@ -0,0 +1,243 @@
+/**
+ * Conversation analytics
+ *
+ * Works over a chat-ordered stream of lightweight message rows, so a whole
+ * chat.db can be analysed without loading full messages. A message counts as
+ * a reply when it comes from the other side within the conversation gap of
+ * the previous message in the same chat; after a longer silence it starts a
+ * new conversation, credited to its sender. Hours and calendar days use the
+ * local timezone.
+ */
+
+import type {
+	ChatResponseTimes,
+	ContactActivity,
+	ConversationInsights,
+	DayRange,
+	Handle,
+	InsightsOptions,
+	ResponseTimeStats,
+} from "./types";
+
+/**
+ * Default silence after which a message starts a new conversation
+ */
+export const DEFAULT_CONVERSATION_GAP = 6 * 60 * 60 * 1000;
+
+/**
+ * Default number of streaks, silences and contacts returned
+ */
+const DEFAULT_INSIGHTS_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A message as analysed: which chat, when and from which side
+ */
+export interface InsightRow {
+	chatId: number;
+	date: Date;
+	isFromMe: boolean;
+}
+
+interface ChatState {
+	messages: number;
+	last: InsightRow | null;
+	mine: number[];
+	theirs: number[];
+}
+
+/**
+ * Computes response times, activity patterns and contact rankings
+ * @param rows Messages ordered by chat, then date
+ * @param directChats Contact of each one-on-one chat, by chat ID
+ */
+export function computeConversationInsights(
+	rows: Iterable<InsightRow>,
+	directChats: Map<number, Handle>,
+	options: Pick<InsightsOptions, "conversationGap" | "limit"> = {},
+): ConversationInsights {
+	const gap = options.conversationGap ?? DEFAULT_CONVERSATION_GAP;
+	const limit = options.limit ?? DEFAULT_INSIGHTS_LIMIT;
+
+	const chats = new Map<number, ChatState>();
+	const contacts = new Map<number, ContactActivity>();
+	const activeDays = new Set<number>();
+	const hourOfDay = new Array<number>(24).fill(0);
+	const weekday = new Array<number>(7).fill(0);
+	let sent = 0;
+	let received = 0;
+
+	for (const row of rows) {
+		if (row.isFromMe) sent++;
+		else received++;
+		hourOfDay[row.date.getHours()]++;
+		weekday[row.date.getDay()]++;
+		activeDays.add(localDayNumber(row.date));
+
+		let chat = chats.get(row.chatId);
+		if (!chat) {
+			chat = { messages: 0, last: null, mine: [], theirs: [] };
+			chats.set(row.chatId, chat);
+		}
+		chat.messages++;
+
+		const delay = chat.last ? row.date.getTime() - chat.last.date.getTime() : 0;
+		const startsConversation = !chat.last || delay > gap;
+		if (!startsConversation && chat.last?.isFromMe !== row.isFromMe) {
+			(row.isFromMe ? chat.mine : chat.theirs).push(delay);
+		}
+		chat.last = row;
+
+		const handle = directChats.get(row.chatId);
+		if (handle) {
+			const contact = contactActivity(contacts, handle, row.chatId);
+			if (row.isFromMe) contact.sent++;
+			else contact.received++;
+			contact.total++;
+			if (startsConversation) {
+				if (row.isFromMe) contact.initiatedByMe++;
+				else contact.initiatedByThem++;
+			}
+		}
+	}
+
+	const chatResponseTimes: ChatResponseTimes[] = [...chats.entries()]
+		.sort(([, a], [, b]) => b.messages - a.messages)
+		.map(([chatId, chat]) => ({
+			chatId,
+			mine: durationStats(chat.mine),
+			theirs: durationStats(chat.theirs),
+		}));
+	const allChats = [...chats.values()];
+
+	for (const contact of contacts.values()) {
+		const conversations = contact.initiatedByMe + contact.initiatedByThem;
+		contact.myInitiationShare =
+			conversations > 0 ? contact.initiatedByMe / conversations : null;
+	}
+
+	const { streaks, silences } = dayRanges(activeDays);
+
+	return {
+		totalMessages: sent + received,
+		sentMessages: sent,
+		receivedMessages: received,
+		responseTimes: {
+			mine: durationStats(allChats.flatMap((chat) => chat.mine)),
+			theirs: durationStats(allChats.flatMap((chat) => chat.theirs)),
+		},
+		chatResponseTimes,
+		hourOfDay,
+		weekday,
+		streaks: longestFirst(streaks).slice(0, limit),
+		silences: longestFirst(silences).slice(0, limit),
+		contacts: [...contacts.values()]
+			.sort((a, b) => b.total - a.total)
+			.slice(0, limit),
+	};
+}
+
+/**
+ * Value at a fraction (0-1) of a sorted list, interpolating between ranks
+ * @returns null for an empty list
+ */
+export function percentile(sorted: number[], fraction: number): number | null {
+	if (sorted.length === 0) return null;
+	const rank = (sorted.length - 1) * fraction;
+	const lower = sorted[Math.floor(rank)] as number;
+	const upper = sorted[Math.ceil(rank)] as number;
+	return lower + (upper - lower) * (rank - Math.floor(rank));
+}
+
+/**
+ * Count, median and p90 of a list of durations
+ */
+export function durationStats(delays: number[]): ResponseTimeStats {
+	const sorted = [...delays].sort((a, b) => a - b);
+	return {
+		count: sorted.length,
+		median: percentile(sorted, 0.5),
+		p90: percentile(sorted, 0.9),
+	};
+}
+
+function contactActivity(
+	contacts: Map<number, ContactActivity>,
+	handle: Handle,
+	chatId: number,
+): ContactActivity {
+	let contact = contacts.get(handle.ROWID);
+	if (!contact) {
+		contact = {
+			handle,
+			chatIds: [],
+			sent: 0,
+			received: 0,
+			total: 0,
+			initiatedByMe: 0,
+			initiatedByThem: 0,
+			myInitiationShare: null,
+		};
+		contacts.set(handle.ROWID, contact);
+	}
+	if (!contact.chatIds.includes(chatId)) contact.chatIds.push(chatId);
+	return contact;
+}
+
+/**
+ * Runs of active and silent days between the first and last active day
+ */
+function dayRanges(activeDays: Set<number>): {
+	streaks: DayRange[];
+	silences: DayRange[];
+} {
+	const days = [...activeDays].sort((a, b) => a - b);
+	const streaks: DayRange[] = [];
+	const silences: DayRange[] = [];
+
+	let start = days[0];
+	for (let i = 0; i < days.length; i++) {
+		const day = days[i] as number;
+		const next = days[i + 1];
+		if (next === day + 1) continue;
+
+		streaks.push(toDayRange(start as number, day));
+		if (next !== undefined) {
+			silences.push(toDayRange(day + 1, next - 1));
+			start = next;
+		}
+	}
+
+	return { streaks, silences };
+}
+
+/**
+ * Sorts ranges by length, keeping equal lengths in date order
+ */
+function longestFirst(ranges: DayRange[]): DayRange[] {
+	return [...ranges].sort((a, b) => b.days - a.days);
+}
+
+/**
+ * Days since the Unix epoch of a date's local calendar day
+ */
+function localDayNumber(date: Date): number {
+	return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+}
+
+/**
+ * Local midnight of a day number
+ */
+function fromLocalDayNumber(day: number): Date {
+	const utc = new Date(day * DAY_MS);
+	return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+function toDayRange(first: number, last: number): DayRange {
+	return {
+		start: fromLocalDayNumber(first),
+		end: fromLocalDayNumber(last),
+		days: last - first + 1,
+	};
+}
@@ -0,0 +1,187 @@
+/**
+ * Attachment file access
+ *
+ * attachment.filename is stored with a tilde, e.g.
+ * "~/Library/Messages/Attachments/ab/11/<guid>/IMG_0001.heic", and
+ * attachment.mime_type is often missing or wrong for stickers and audio
+ * messages. These helpers expand the path (optionally against another
+ * attachments root, so copies of the directory and test fixtures resolve
+ * too), check the file, and sniff its type from the first bytes.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Attachment, ResolvedAttachment } from "./types";
+
+/**
+ * Where Messages.app keeps attachments, as written in attachment.filename
+ */
+export const ATTACHMENTS_PATH_PREFIX = "~/Library/Messages/Attachments";
+
+/**
+ * Bytes read from the start of a file to sniff its type
+ */
+const SNIFF_LENGTH = 32;
+
+/**
+ * ISO base media ("ftyp") brands by MIME type
+ */
+const FTYP_BRANDS: [string[], string][] = [
+	[["heic", "heix", "hevc", "hevx", "heim", "heis"], "image/heic"],
+	[["mif1", "msf1"], "image/heif"],
+	[["avif", "avis"], "image/avif"],
+	[["qt  "], "video/quicktime"],
+	[["M4A ", "M4B "], "audio/mp4"],
+	[["M4V "], "video/x-m4v"],
+	[["3gp4", "3gp5", "3gp6", "3g2a"], "video/3gpp"],
+];
+
+/**
+ * Expands an attachment.filename to an absolute path
+ * @param attachmentsRoot Directory standing in for
+ * ~/Library/Messages/Attachments
+ */
+export function resolveAttachmentPath(
+	filename: string,
+	attachmentsRoot?: string,
+): string {
+	if (
+		attachmentsRoot &&
+		(filename === ATTACHMENTS_PATH_PREFIX ||
+			filename.startsWith(`${ATTACHMENTS_PATH_PREFIX}/`))
+	) {
+		return path.join(
+			attachmentsRoot,
+			filename.slice(ATTACHMENTS_PATH_PREFIX.length),
+		);
+	}
+	if (filename === "~" || filename.startsWith("~/")) {
+		return path.join(os.homedir(), filename.slice(1));
+	}
+	return path.resolve(filename);
+}
+
+/**
+ * Locates an attachment's file and reads its size and type
+ * @param attachmentsRoot Directory standing in for
+ * ~/Library/Messages/Attachments
+ */
+export function resolveAttachment(
+	attachment: Attachment,
+	attachmentsRoot?: string,
+): ResolvedAttachment {
+	const filePath = attachment.filename
+		? resolveAttachmentPath(attachment.filename, attachmentsRoot)
+		: null;
+	let stats: fs.Stats | undefined;
+	if (filePath) {
+		try {
+			stats = fs.statSync(filePath, { throwIfNoEntry: false });
+		} catch {
+			// EACCES, ENOTDIR and the like: report the file as missing
+		}
+	}
+	const exists = stats?.isFile() ?? false;
+
+	let mimeType: string | null = null;
+	if (exists && filePath) {
+		mimeType = sniffMimeType(readFileHeader(filePath));
+	}
+
+	return {
+		attachment,
+		path: filePath,
+		exists,
+		size: exists ? (stats?.size ?? null) : null,
+		mimeType: mimeType ?? attachment.mime_type ?? null,
+		isSticker: attachment.is_sticker === 1,
+	};
+}
+
+/**
+ * Identifies a file type from its leading bytes
+ * @returns null when the signature is not recognized
+ */
+export function sniffMimeType(header: Buffer): string | null {
+	const ascii = (start: number, end: number) =>
+		header.toString("latin1", start, end);
+	const startsWith = (...bytes: number[]) =>
+		bytes.every((byte, i) => header[i] === byte);
+
+	if (startsWith(0xff, 0xd8, 0xff)) return "image/jpeg";
+	if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) {
+		return "image/png";
+	}
+	if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+	if (ascii(0, 4) === "RIFF") {
+		if (ascii(8, 12) === "WEBP") return "image/webp";
+		if (ascii(8, 12) === "WAVE") return "audio/wav";
+	}
+	if (ascii(4, 8) === "ftyp") {
+		const brand = ascii(8, 12);
+		const match = FTYP_BRANDS.find(([brands]) => brands.includes(brand));
+		return match ? match[1] : "video/mp4";
+	}
+	if (ascii(0, 4) === "caff") return "audio/x-caf";
+	if (ascii(0, 5) === "#!AMR") return "audio/amr";
+	if (ascii(0, 3) === "ID3" || startsWith(0xff, 0xfb)) return "audio/mpeg";
+	if (ascii(0, 5) === "%PDF-") return "application/pdf";
+	if (
+		startsWith(0x49, 0x49, 0x2a, 0x00) ||
+		startsWith(0x4d, 0x4d, 0x00, 0x2a)
+	) {
+		return "image/tiff";
+	}
+	if (startsWith(0x50, 0x4b, 0x03, 0x04)) return "application/zip";
+	return null;
+}
+
+/**
+ * Copies an attachment's file, creating the destination's directory
+ * @throws Error if the file is not on disk
+ */
+export async function copyAttachmentFile(
+	resolved: ResolvedAttachment,
+	destination: string,
+): Promise<string> {
+	const source = requireFile(resolved);
+	const target = path.resolve(destination);
+	await fs.promises.mkdir(path.dirname(target), { recursive: true });
+	await fs.promises.copyFile(source, target);
+	return target;
+}
+
+/**
+ * Opens a read stream over an attachment's file
+ * @throws Error if the file is not on disk
+ */
+export function createAttachmentReadStream(
+	resolved: ResolvedAttachment,
+	options: { start?: number; end?: number } = {},
+): fs.ReadStream {
+	return fs.createReadStream(requireFile(resolved), options);
+}
+
+function requireFile(resolved: ResolvedAttachment): string {
+	if (!resolved.path || !resolved.exists) {
+		throw new Error(
+			`Attachment file not found: ${resolved.path ?? resolved.attachment.guid}`,
+		);
+	}
+	return resolved.path;
+}
+
+function readFileHeader(filePath: string): Buffer {
+	const header = Buffer.alloc(SNIFF_LENGTH);
+	let fd: number | null = null;
+	try {
+		fd = fs.openSync(filePath, "r");
+		const bytesRead = fs.readSync(fd, header, 0, SNIFF_LENGTH, 0);
+		return header.subarray(0, bytesRead);
+	} catch {
+		return Buffer.alloc(0);
+	} finally {
+		if (fd !== null) fs.closeSync(fd);
+	}
+}
@@ -0,0 +1,156 @@
+/**
+ * Rich balloon helpers
+ *
+ * Messages that render as something other than a text bubble name the plugin
+ * that draws them in balloon_bundle_id and keep its data in payload_data, a
+ * keyed archive. Link previews come from the URL balloon provider, whose
+ * payload holds an LPLinkMetadata under "richLinkMetadata". iMessage app
+ * extensions, including Apple Pay and polls, share one plugin ID suffixed
+ * with the extension's team and bundle ID
+ * ("com.apple.messages.MSMessageExtensionBalloonPlugin:TEAMID:bundle.id"),
+ * and archive an MSMessage layout: app name ("an"), URL, caption and
+ * subcaption ("userInfo") and a lock-screen summary ("ldtext"). The message
+ * text of a balloon is usually just the U+FFFC object placeholder.
+ */
+
+import { decodeKeyedArchive } from "./keyed-archive";
+import { isPlistDictionary, type PlistValue } from "./plist";
+import type { LinkPreview, MessageBalloon } from "./types";
+
+export const URL_BALLOON_BUNDLE_ID = "com.apple.messages.URLBalloonProvider";
+
+export const APP_EXTENSION_BALLOON_PREFIX =
+	"com.apple.messages.MSMessageExtensionBalloonPlugin:";
+
+/**
+ * Built-in balloon plugins without a decoded payload
+ */
+const PLUGIN_KINDS: Record<string, "digitalTouch" | "handwriting"> = {
+	"com.apple.DigitalTouchBalloonProvider": "digitalTouch",
+	"com.apple.Handwriting.HandwritingProvider": "handwriting",
+};
+
+/**
+ * Apple's own iMessage app extensions
+ */
+const APP_KINDS: Record<string, "applePay" | "poll"> = {
+	"com.apple.PassbookUIService.PeerPaymentMessagesExtension": "applePay",
+	"com.apple.messages.Polls": "poll",
+};
+
+/**
+ * Object replacement character Messages.app puts in a balloon's text
+ */
+const OBJECT_REPLACEMENT = /\uFFFC/g;
+
+/**
+ * Classifies a balloon and decodes its payload
+ * @returns null for messages without a balloon_bundle_id
+ */
+export function parseBalloon(
+	bundleId: string | null | undefined,
+	payload: Buffer | null | undefined,
+): MessageBalloon | null {
+	if (!bundleId) return null;
+
+	if (bundleId === URL_BALLOON_BUNDLE_ID) {
+		return { kind: "link", bundleId, preview: parseLinkPreview(payload) };
+	}
+
+	if (bundleId.startsWith(APP_EXTENSION_BALLOON_PREFIX)) {
+		const appId = bundleId
+			.slice(APP_EXTENSION_BALLOON_PREFIX.length)
+			.replace(/^[^:]*:/, "");
+		const root = decodeKeyedArchive(payload);
+		const layout = isPlistDictionary(root) ? root : {};
+		const userInfo = isPlistDictionary(layout.userInfo) ? layout.userInfo : {};
+
+		return {
+			kind: APP_KINDS[appId] ?? "app",
+			bundleId,
+			appId,
+			appName: stringValue(layout.an),
+			caption: stringValue(userInfo.caption) ?? stringValue(layout.ldtext),
+			subcaption: stringValue(userInfo.subcaption),
+			url: stringValue(layout.URL),
+		};
+	}
+
+	return { kind: PLUGIN_KINDS[bundleId] ?? "unknown", bundleId };
+}
+
+/**
+ * Decodes the link metadata of a URL balloon payload
+ * @returns null when the payload is missing or has no URL
+ */
+export function parseLinkPreview(
+	payload: Buffer | null | undefined,
+): LinkPreview | null {
+	const root = decodeKeyedArchive(payload);
+	if (!isPlistDictionary(root)) return null;
+
+	const metadata = isPlistDictionary(root.richLinkMetadata)
+		? root.richLinkMetadata
+		: root;
+	const url = stringValue(metadata.URL) ?? stringValue(metadata.originalURL);
+	if (!url) return null;
+
+	return {
+		url,
+		title: stringValue(metadata.title),
+		summary: stringValue(metadata.summary),
+		siteName: stringValue(metadata.siteName),
+	};
+}
+
+/**
+ * One-line description of a balloon, e.g. "[Link] Title (https://…)"
+ */
+export function describeBalloon(balloon: MessageBalloon): string {
+	switch (balloon.kind) {
+		case "link": {
+			const preview = balloon.preview;
+			if (!preview) return "[Link]";
+			return preview.title
+				? `[Link] ${preview.title} (${preview.url})`
+				: `[Link] ${preview.url}`;
+		}
+		case "applePay":
+		case "poll":
+		case "app": {
+			const label =
+				balloon.kind === "applePay"
+					? "Apple Pay"
+					: balloon.kind === "poll"
+						? "Poll"
+						: (balloon.appName ?? balloon.appId);
+			const details = [balloon.caption, balloon.subcaption]
+				.filter(Boolean)
+				.join(" – ");
+			return details ? `[${label}] ${details}` : `[${label}]`;
+		}
+		case "digitalTouch":
+			return "[Digital Touch]";
+		case "handwriting":
+			return "[Handwritten message]";
+		case "unknown":
+			return `[${balloon.bundleId}]`;
+	}
+}
+
+/**
+ * Text to show for a message: its own text, or a description of its balloon
+ * when the text is empty or only object placeholders
+ */
+export function balloonDisplayText(
+	text: string | null | undefined,
+	balloon: MessageBalloon | null | undefined,
+): string | null {
+	if (!balloon) return text ?? null;
+	const visible = (text ?? "").replace(OBJECT_REPLACEMENT, "").trim();
+	return visible ? (text as string) : describeBalloon(balloon);
+}
+
+function stringValue(value: PlistValue | undefined): string | null {
+	return typeof value === "string" && value.length > 0 ? value : null;
+}
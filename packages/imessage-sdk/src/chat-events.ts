@@ -0,0 +1,199 @@
+/**
+ * Group chat event helpers
+ *
+ * Membership changes, renames and group photo changes are stored as message
+ * rows with no text. item_type says which kind of event a row is and
+ * group_action_type refines it:
+ *
+ * - item_type 1: group_action_type 0 added, 1 removed other_handle
+ * - item_type 2: the conversation was renamed to group_title
+ * - item_type 3: group_action_type 0 the sender left, 1 changed and 2
+ *   removed the group photo
+ *
+ * handle_id is the participant who made the change (0 when it was you) and
+ * other_handle the participant added or removed.
+ */
+
+import type {
+	ChatEvent,
+	ChatEventType,
+	Handle,
+	ParticipantSpan,
+} from "./types";
+import { appleTimeToDate } from "./utils";
+
+/**
+ * item_type values of group event rows
+ */
+export const GROUP_EVENT_ITEM_TYPES = [1, 2, 3] as const;
+
+/**
+ * Group event row joined with its actor and target handles
+ */
+export interface ChatEventRow {
+	ROWID: number;
+	guid: string;
+	chat_id: number;
+	date: number;
+	is_from_me: number;
+	item_type: number;
+	group_action_type: number;
+	group_title: string | null;
+	actor_rowid: number | null;
+	actor_id: string | null;
+	actor_service: string | null;
+	actor_country: string | null;
+	target_rowid: number | null;
+	target_id: string | null;
+	target_service: string | null;
+	target_country: string | null;
+}
+
+/**
+ * SQL condition matching rows that are not group events, for a message alias
+ */
+export function notGroupEventCondition(alias: string): string {
+	return `COALESCE(${alias}.item_type, 0) NOT IN (${GROUP_EVENT_ITEM_TYPES.join(", ")})`;
+}
+
+/**
+ * Turns a group event row into a typed event
+ * @returns null for item_type / group_action_type pairs that are not group
+ * events
+ */
+export function toChatEvent(row: ChatEventRow): ChatEvent | null {
+	const type = eventType(row.item_type, row.group_action_type);
+	if (!type) return null;
+
+	const actor = toHandle(
+		row.actor_rowid,
+		row.actor_id,
+		row.actor_service,
+		row.actor_country,
+	);
+	// Someone leaving removes themselves
+	const left = row.item_type === 3 && row.group_action_type === 0;
+	const target = left
+		? actor
+		: toHandle(
+				row.target_rowid,
+				row.target_id,
+				row.target_service,
+				row.target_country,
+			);
+
+	const event: ChatEvent = {
+		type,
+		messageId: row.ROWID,
+		guid: row.guid,
+		chatId: row.chat_id,
+		date: appleTimeToDate(row.date),
+		isFromMe: row.is_from_me === 1,
+		actor,
+		target:
+			type === "participantAdded" || type === "participantRemoved"
+				? target
+				: null,
+	};
+
+	if (type === "renamed") event.name = row.group_title;
+	if (type === "groupPhotoChanged") {
+		event.photoRemoved = row.group_action_type === 2;
+	}
+	return event;
+}
+
+/**
+ * Reconstructs membership spans from a chat's events, oldest first, and its
+ * current participants. Someone removed without a recorded join was a
+ * member from the start; current members without any events were too.
+ */
+export function buildParticipantHistory(
+	events: ChatEvent[],
+	currentParticipants: Handle[],
+): ParticipantSpan[] {
+	const spans: ParticipantSpan[] = [];
+	const open = new Map<number, ParticipantSpan>();
+	const seen = new Set<number>();
+
+	for (const event of events) {
+		const handle = event.target;
+		if (!handle) continue;
+		seen.add(handle.ROWID);
+
+		const span = open.get(handle.ROWID);
+		if (event.type === "participantAdded" && !span) {
+			const joined: ParticipantSpan = {
+				handle,
+				joinedAt: event.date,
+				leftAt: null,
+			};
+			spans.push(joined);
+			open.set(handle.ROWID, joined);
+		} else if (event.type === "participantRemoved") {
+			if (span) {
+				span.leftAt = event.date;
+				open.delete(handle.ROWID);
+			} else if (!spans.some((s) => s.handle.ROWID === handle.ROWID)) {
+				spans.push({ handle, joinedAt: null, leftAt: event.date });
+			}
+		}
+	}
+
+	for (const handle of currentParticipants) {
+		if (!seen.has(handle.ROWID)) {
+			spans.push({ handle, joinedAt: null, leftAt: null });
+		}
+	}
+
+	return spans;
+}
+
+/**
+ * Whether a membership span covers a point in time
+ */
+export function spanIncludes(span: ParticipantSpan, date: Date): boolean {
+	const time = date.getTime();
+	return (
+		(span.joinedAt === null || span.joinedAt.getTime() <= time) &&
+		(span.leftAt === null || span.leftAt.getTime() > time)
+	);
+}
+
+function eventType(
+	itemType: number,
+	groupActionType: number,
+): ChatEventType | null {
+	switch (itemType) {
+		case 1:
+			if (groupActionType === 0) return "participantAdded";
+			if (groupActionType === 1) return "participantRemoved";
+			return null;
+		case 2:
+			return "renamed";
+		case 3:
+			if (groupActionType === 0) return "participantRemoved";
+			if (groupActionType === 1 || groupActionType === 2) {
+				return "groupPhotoChanged";
+			}
+			return null;
+		default:
+			return null;
+	}
+}
+
+function toHandle(
+	rowId: number | null,
+	id: string | null,
+	service: string | null,
+	country: string | null,
+): Handle | null {
+	if (!rowId || !id) return null;
+	return {
+		ROWID: rowId,
+		id,
+		country,
+		service: service ?? "",
+		uncanonicalized_id: null,
+	};
+}
@@ -1,22 +1,149 @@
+import type * as fs from "node:fs";
 import Database from "better-sqlite3";
+import { computeConversationInsights, type InsightRow } from "./analytics";
+import {
+	copyAttachmentFile,
+	createAttachmentReadStream,
+	resolveAttachment,
+} from "./attachments";
+import { parseBalloon } from "./balloons";
+import {
+	buildParticipantHistory,
+	type ChatEventRow,
+	notGroupEventCondition,
+	spanIncludes,
+	toChatEvent,
+} from "./chat-events";
+import {
+	computeDeliveryReport,
+	type DeliveryRow,
+	deliveryStatus,
+	undeliveredCondition,
+} from "./delivery";
+import {
+	editedCondition,
+	parseMessageSummaryInfo,
+	retractedCondition,
+} from "./edits";
+import { writeExport } from "./export";
+import { buildIdentities, DEFAULT_REGION, normalizeAddress } from "./identity";
+import {
+	buildPage,
+	decodePageCursor,
+	fetchKeyset,
+	type KeysetRow,
+	keysetClause,
+	type PageCursor,
+} from "./pagination";
+import {
+	type ConditionContext,
+	compileCondition,
+	MessageQuery,
+	type SqlFragment,
+} from "./query";
+import {
+	buildReactions,
+	notReactionCondition,
+	type ReactionRow,
+	reactionTargetKeys,
+} from "./reactions";
+import { type RelevanceHit, RelevanceIndex } from "./relevance";
+import { detectCapabilities } from "./schema";
+import {
+	isFtsQueryError,
+	SEARCH_INDEX_SCHEMA_NAME,
+	searchIndexExists,
+	toFtsQuery,
+	updateSearchIndex,
+} from "./search-index";
+import {
+	DEFAULT_SESSION_LIMIT,
+	type SessionRow,
+	segmentSessions,
+} from "./sessions";
+import {
+	compileRegExp,
+	foldText,
+	regExpPattern,
+	registerSqlFunctions,
+} from "./sql-functions";
+import { decodeAttributedBody } from "./typedstream";
 import type {
 	Attachment,
 	Chat,
+	ChatEvent,
 	ChatFilter,
+	ChatPageFilter,
+	ConversationInsights,
+	ConversationSession,
 	ConversationStats,
+	ConversationStatsScope,
+	DatabaseCapabilities,
+	DeliveryReport,
+	DeliveryReportOptions,
 	EnrichedMessage,
+	ExportOptions,
+	ExportResult,
 	Handle,
+	Identity,
 	IMessageConfig,
+	InsightsOptions,
+	IterateOptions,
 	Message,
+	MessageChange,
+	MessageChanges,
+	MessageContext,
+	MessageContextOptions,
 	MessageFilter,
+	MessageInclude,
+	MessagePageFilter,
+	MessageQuerySpec,
+	MessageThread,
+	Page,
+	PageOptions,
+	ParticipantSpan,
+	RecentChat,
+	RelatedOptions,
+	RelatedResults,
+	ResolvedAttachment,
+	SearchIndexUpdate,
+	SearchMode,
+	SearchOptions,
+	SearchResult,
+	SessionOptions,
+	UndeliveredFilter,
+	UndeliveredMessage,
+	WatchOptions,
 } from "./types";
 import {
 	appleTimeToDate,
 	dateToAppleTime,
 	getDefaultDatabasePath,
+	getDefaultSearchIndexPath,
 	parseAttributedBody,
+	parseThreadOriginatorPart,
 	validateDatabasePath,
 } from "./utils";
+import {
+	decodeWatchCursor,
+	encodeWatchCursor,
+	MessageWatcher,
+} from "./watcher";
+
+/**
+ * Items per page when a paged listing is not given a limit
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Relations loaded for messages when a filter does not list its own
+ */
+const DEFAULT_INCLUDE: readonly MessageInclude[] = ["attachments", "handle"];
+
+/**
+ * Prepared statements kept per client
+ */
+const STATEMENT_CACHE_SIZE = 200;
 
 /**
  * Main client for interacting with iMessage database
@@ -24,9 +151,28 @@ import {
 export class IMessageClient {
 	private db: Database.Database;
 	private readonly databasePath: string;
+	private readonly statements = new Map<string, Database.Statement>();
+	private readonly searchIndexPath: string;
+	private searchIndexAttached = false;
+	private sqlFunctionsRegistered = false;
+	private relevanceIndex = new RelevanceIndex();
+	private relevanceIndexedRowId = 0;
+	private readonly attachmentsRoot: string | undefined;
+	private readonly defaultRegion: string;
+	private readonly identityGroups: string[][];
+	/**
+	 * Optional columns and date unit of the opened database, read when it is
+	 * opened. Queries leave out what the database does not have.
+	 */
+	readonly capabilities: DatabaseCapabilities;
 
 	constructor(config: IMessageConfig = {}) {
 		this.databasePath = config.databasePath || getDefaultDatabasePath();
+		this.searchIndexPath =
+			config.searchIndexPath || getDefaultSearchIndexPath();
+		this.attachmentsRoot = config.attachmentsRoot;
+		this.defaultRegion = config.defaultRegion ?? DEFAULT_REGION;
+		this.identityGroups = config.identityGroups ?? [];
 
 		if (!validateDatabasePath(this.databasePath)) {
 			throw new Error(
@@ -49,12 +195,15 @@ export class IMessageClient {
 					"You may need to grant Full Disk Access permission.",
 			);
 		}
+
+		this.capabilities = detectCapabilities(this.db);
 	}
 
 	/**
 	 * Get all messages with optional filtering
 	 */
 	getMessages(filter: MessageFilter = {}): EnrichedMessage[] {
+		const conditions = this.messageConditions(filter);
 		let query = `
       SELECT
         m.*,
@@ -63,64 +212,159 @@ export class IMessageClient {
         h.country as handle_country
       FROM message m
       LEFT JOIN handle h ON m.handle_id = h.ROWID
-      WHERE 1=1
+      WHERE 1=1${conditions.sql}
     `;
 
-		const params: unknown[] = [];
+		const params: unknown[] = [...conditions.params];
 
-		if (filter.chatId !== undefined) {
-			query += ` AND m.ROWID IN (
-        SELECT message_id FROM chat_message_join WHERE chat_id = ?
-      )`;
-			params.push(filter.chatId);
-		}
+		query += " ORDER BY m.date DESC";
 
-		if (filter.handleId !== undefined) {
-			query += " AND m.handle_id = ?";
-			params.push(filter.handleId);
+		if (filter.limit) {
+			query += " LIMIT ?";
+			params.push(filter.limit);
 		}
 
-		if (filter.isFromMe !== undefined) {
-			query += " AND m.is_from_me = ?";
-			params.push(filter.isFromMe ? 1 : 0);
+		if (filter.offset) {
+			query += " OFFSET ?";
+			params.push(filter.offset);
 		}
 
-		if (filter.service) {
-			query += " AND m.service = ?";
-			params.push(filter.service);
-		}
+		const stmt = this.prepare(query);
+		const rows = stmt.all(...params) as unknown[];
 
-		if (filter.searchText) {
-			query += " AND m.text LIKE ?";
-			params.push(`%${filter.searchText}%`);
-		}
+		return this.toEnrichedMessages(rows, filter.include);
+	}
 
-		if (filter.startDate) {
-			query += " AND m.date >= ?";
-			params.push(dateToAppleTime(filter.startDate));
-		}
+	/**
+	 * Start a composable message query, optionally from a structured spec
+	 * @example
+	 * client.query().from(handleIds).text("notContains", "unsubscribe")
+	 *   .hasAttachment("image/*").orderBy("date", "asc").all();
+	 */
+	query(spec: MessageQuerySpec = {}): MessageQuery {
+		return new MessageQuery(
+			{
+				toSQL: (query) => this.compileMessageQuery(query, false),
+				all: (query) => {
+					const { sql, params } = this.compileMessageQuery(query, false);
+					const rows = this.prepare(sql).all(...params) as unknown[];
+					return this.toEnrichedMessages(rows, query.include);
+				},
+				count: (query) => {
+					const { sql, params } = this.compileMessageQuery(query, true);
+					const row = this.prepare(sql).get(...params) as { count: number };
+					return row.count;
+				},
+			},
+			spec,
+		);
+	}
 
-		if (filter.endDate) {
-			query += " AND m.date <= ?";
-			params.push(dateToAppleTime(filter.endDate));
-		}
+	/**
+	 * Get a page of messages, newest first. Pass `nextCursor` or `prevCursor`
+	 * from a previous page as `cursor` to move through the results.
+	 * @throws Error if the cursor is malformed or from another listing
+	 */
+	getMessagesPage(filter: MessagePageFilter = {}): Page<EnrichedMessage> {
+		const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+		const cursor = filter.cursor
+			? decodePageCursor(filter.cursor, "messages")
+			: null;
+		const rows = this.fetchMessagesAfter(filter, cursor, limit + 1);
 
-		query += " ORDER BY m.date DESC";
+		return buildPage(rows, limit, cursor, "messages", (page) =>
+			this.toEnrichedMessages(page, filter.include),
+		);
+	}
 
-		if (filter.limit) {
-			query += " LIMIT ?";
-			params.push(filter.limit);
+	/**
+	 * Stream every message matching a filter in batches, oldest first unless
+	 * `order: "desc"`. Only one batch is held in memory at a time, and the
+	 * order is stable even while new messages arrive.
+	 * @throws The signal's reason when `signal` is aborted
+	 * @example
+	 * for await (const message of client.iterateMessages({ chatId: 42 })) {
+	 *   console.log(message.text);
+	 * }
+	 */
+	async *iterateMessages(
+		filter: Omit<MessageFilter, "limit" | "offset"> = {},
+		options: IterateOptions = {},
+	): AsyncGenerator<EnrichedMessage, void, undefined> {
+		const batchSize = options.batchSize ?? 500;
+		// "before" walks up from below the oldest key, "after" down from the
+		// newest
+		let cursor: PageCursor | null =
+			options.order === "desc"
+				? null
+				: { kind: "messages", direction: "before", date: null, rowId: 0 };
+
+		for (;;) {
+			options.signal?.throwIfAborted();
+
+			const rows = this.fetchMessagesAfter(filter, cursor, batchSize);
+			const last = rows[rows.length - 1];
+			if (!last) return;
+
+			for (const message of this.toEnrichedMessages(rows, filter.include)) {
+				options.signal?.throwIfAborted();
+				yield message;
+			}
+
+			if (rows.length < batchSize) return;
+			cursor = {
+				kind: "messages",
+				direction: options.order === "desc" ? "after" : "before",
+				date: last.page_date,
+				rowId: last.ROWID,
+			};
+
+			// Let timers and abort handlers run between batches
+			await new Promise((resolve) => setImmediate(resolve));
 		}
+	}
 
-		if (filter.offset) {
-			query += " OFFSET ?";
-			params.push(filter.offset);
+	/**
+	 * Export a chat, or every message matching a filter, to a file, oldest
+	 * message first
+	 * @param source Chat ID or message filter
+	 * @throws Error if the chat does not exist
+	 * @example
+	 * await client.exportMessages(42, {
+	 *   format: "html",
+	 *   outputPath: "./exports/chat-42.html",
+	 *   copyAttachments: true,
+	 * });
+	 */
+	async exportMessages(
+		source: number | Omit<MessageFilter, "limit" | "offset">,
+		options: ExportOptions,
+	): Promise<ExportResult> {
+		let filter: Omit<MessageFilter, "limit" | "offset">;
+		let title: string | null = null;
+
+		if (typeof source === "number") {
+			const chat = this.getChatById(source);
+			if (!chat) {
+				throw new Error(`Chat not found: ${source}`);
+			}
+			filter = { chatId: source };
+			title = chat.display_name || chat.chat_identifier;
+		} else {
+			filter = source;
 		}
 
-		const stmt = this.db.prepare(query);
-		const rows = stmt.all(...params) as unknown[];
+		// Sender names and attachment links need both relations
+		const include = [
+			...new Set([...(filter.include ?? DEFAULT_INCLUDE), ...DEFAULT_INCLUDE]),
+		];
 
-		return rows.map((row) => this.enrichMessage(row));
+		return writeExport(
+			this.iterateMessages({ ...filter, include }, { signal: options.signal }),
+			options,
+			title,
+			(attachment) => this.resolveAttachment(attachment),
+		);
 	}
 
 	/**
@@ -138,36 +382,366 @@ export class IMessageClient {
       WHERE m.ROWID = ?
     `;
 
-		const stmt = this.db.prepare(query);
+		const stmt = this.prepare(query);
 		const row = stmt.get(messageId) as unknown;
 
-		return row ? this.enrichMessage(row) : null;
+		return row ? (this.toEnrichedMessages([row])[0] ?? null) : null;
 	}
 
 	/**
-	 * Get all chats with optional filtering
+	 * Get a message with the messages around it in the same chat, oldest
+	 * first, e.g. to show a search hit in context
+	 * @returns null if the message does not exist
 	 */
-	getChats(filter: ChatFilter = {}): Chat[] {
-		let query = "SELECT * FROM chat WHERE 1=1";
-		const params: unknown[] = [];
+	getMessageContext(
+		messageId: number,
+		options: MessageContextOptions = {},
+	): MessageContext | null {
+		const hit = this.prepare(`
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country,
+        CAST(m.date AS TEXT) as page_date,
+        (SELECT MIN(chat_id) FROM chat_message_join WHERE message_id = m.ROWID) as context_chat_id
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.ROWID = ?
+    `).get(messageId) as
+			| (KeysetRow & { context_chat_id: number | null })
+			| undefined;
+		if (!hit) return null;
 
-		if (filter.chatIdentifier) {
-			query += " AND chat_identifier = ?";
-			params.push(filter.chatIdentifier);
+		const chatId = hit.context_chat_id;
+		const anchor = {
+			kind: "messages" as const,
+			date: hit.page_date,
+			rowId: hit.ROWID,
+		};
+		const neighbours = (direction: PageCursor["direction"], limit: number) =>
+			chatId === null
+				? { rows: [], hasMore: false }
+				: this.fetchChatNeighbours(chatId, { ...anchor, direction }, limit);
+		// "after" a cursor walks to older messages, "before" to newer ones
+		const earlier = neighbours("after", options.before ?? 5);
+		const later = neighbours("before", options.after ?? 5);
+
+		const rows = [...earlier.rows.reverse(), hit, ...later.rows];
+		return {
+			chatId,
+			messages: this.toEnrichedMessages(rows, options.include),
+			hitIndex: earlier.rows.length,
+			hasEarlier: earlier.hasMore,
+			hasLater: later.hasMore,
+		};
+	}
+
+	/**
+	 * Whether the sidecar search index has been built
+	 */
+	hasSearchIndex(): boolean {
+		return searchIndexExists(this.searchIndexPath);
+	}
+
+	/**
+	 * Create or incrementally update the sidecar search index with messages
+	 * added since the last update
+	 */
+	updateSearchIndex(options: { rebuild?: boolean } = {}): SearchIndexUpdate {
+		return updateSearchIndex(
+			this.db,
+			this.searchIndexPath,
+			options.rebuild ?? false,
+		);
+	}
+
+	/**
+	 * Full-text search over the sidecar index. By default the query is plain
+	 * text matching every word; `syntax: "fts"` enables FTS5 query syntax:
+	 * "exact phrases", prefix*, AND / OR / NOT and NEAR(a b, 5). A query FTS5
+	 * rejects falls back to a folded text search, with score 0 and the message
+	 * text as snippet.
+	 * @throws Error if the index has not been built
+	 */
+	searchMessages(query: string, options: SearchOptions = {}): SearchResult[] {
+		if (!this.hasSearchIndex()) {
+			throw new Error(
+				`No search index at: ${this.searchIndexPath}\n` +
+					"Build it with updateSearchIndex() first",
+			);
 		}
 
-		if (filter.displayName) {
-			query += " AND display_name LIKE ?";
-			params.push(`%${filter.displayName}%`);
+		if (!this.searchIndexAttached) {
+			this.prepare(`ATTACH DATABASE ? AS ${SEARCH_INDEX_SCHEMA_NAME}`).run(
+				this.searchIndexPath,
+			);
+			this.searchIndexAttached = true;
 		}
 
-		if (filter.isGroup !== undefined) {
-			if (filter.isGroup) {
-				query += " AND chat_identifier LIKE 'chat%'";
-			} else {
-				query += " AND chat_identifier NOT LIKE 'chat%'";
-			}
+		const [open, close] = options.highlight ?? ["**", "**"];
+		let sql = `
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country,
+        -bm25(f.message_fts) as search_score,
+        snippet(f.message_fts, 0, ?, ?, '…', ?) as search_snippet
+      FROM ${SEARCH_INDEX_SCHEMA_NAME}.message_fts f
+      JOIN message m ON m.ROWID = f.rowid
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE f.message_fts MATCH ?
+    `;
+		const params: unknown[] = [
+			open,
+			close,
+			options.snippetTokens ?? 16,
+			options.syntax === "fts" ? query : toFtsQuery(query),
+		];
+
+		if (options.chatId !== undefined) {
+			sql += ` AND m.ROWID IN (
+        SELECT message_id FROM chat_message_join WHERE chat_id = ?
+      )`;
+			params.push(options.chatId);
+		}
+
+		if (options.handleId !== undefined) {
+			sql += " AND m.handle_id = ?";
+			params.push(options.handleId);
+		}
+
+		if (options.isFromMe !== undefined) {
+			sql += " AND m.is_from_me = ?";
+			params.push(options.isFromMe ? 1 : 0);
+		}
+
+		if (options.service) {
+			sql += " AND m.service = ?";
+			params.push(options.service);
+		}
+
+		if (options.startDate) {
+			sql += " AND m.date >= ?";
+			params.push(this.toAppleTime(options.startDate));
+		}
+
+		if (options.endDate) {
+			sql += " AND m.date <= ?";
+			params.push(this.toAppleTime(options.endDate));
+		}
+
+		sql +=
+			options.orderBy === "date"
+				? " ORDER BY m.date DESC"
+				: " ORDER BY search_score DESC, m.date DESC";
+
+		sql += " LIMIT ? OFFSET ?";
+		params.push(options.limit ?? 50, options.offset ?? 0);
+
+		let rows: { search_score: number; search_snippet: string }[];
+		try {
+			rows = this.prepare(sql).all(...params) as typeof rows;
+		} catch (error) {
+			if (!isFtsQueryError(error)) throw error;
+			// A query FTS5 cannot parse is still worth looking for as text
+			return this.getMessages({
+				chatId: options.chatId,
+				handleId: options.handleId,
+				isFromMe: options.isFromMe,
+				service: options.service,
+				startDate: options.startDate,
+				endDate: options.endDate,
+				limit: options.limit ?? 50,
+				offset: options.offset,
+				include: options.include,
+				searchText: query,
+				searchMode: "folded",
+			}).map((message) => ({
+				message,
+				score: 0,
+				snippet: message.text ?? "",
+			}));
 		}
+		const messages = this.toEnrichedMessages(rows, options.include);
+
+		return rows.map((row, i) => ({
+			message: messages[i] as EnrichedMessage,
+			score: row.search_score,
+			snippet: row.search_snippet,
+		}));
+	}
+
+	/**
+	 * Ranks messages and conversations against a free-text query with BM25
+	 * over a local, in-memory term index. Unlike searchMessages it needs no
+	 * sidecar index and ranks partial matches, e.g. "apartment lease" finds
+	 * messages mentioning only the lease.
+	 */
+	searchByRelevance(
+		query: string,
+		options: RelatedOptions = {},
+	): RelatedResults {
+		this.updateRelevanceIndex();
+		return this.toRelatedResults(this.relevanceIndex.search(query), options);
+	}
+
+	/**
+	 * "More like this": messages and conversations most similar to a message
+	 * (by ROWID, excluded from the results) or to free text, by cosine
+	 * similarity of TF-IDF vectors
+	 */
+	findRelated(
+		source: number | string,
+		options: RelatedOptions = {},
+	): RelatedResults {
+		this.updateRelevanceIndex();
+		return this.toRelatedResults(this.relevanceIndex.similar(source), options);
+	}
+
+	/**
+	 * Watch chat.db for new, edited and read messages. The watcher is an
+	 * EventEmitter of "change" events and an async iterator of changes.
+	 * @example
+	 * for await (const change of client.watch({ cursor: savedCursor })) {
+	 *   console.log(change.type, change.message.text);
+	 * }
+	 */
+	watch(options: WatchOptions = {}): MessageWatcher {
+		const cursor = options.cursor ?? this.getChangesCursor();
+		decodeWatchCursor(cursor);
+
+		return new MessageWatcher(
+			this.databasePath,
+			cursor,
+			(since) => this.getChangesSince(since),
+			options,
+		);
+	}
+
+	/**
+	 * Cursor for the current state of the database, to pass to
+	 * getChangesSince or watch later
+	 */
+	getChangesCursor(): string {
+		const row = this.prepare(`
+      SELECT
+        CAST(COALESCE(MAX(ROWID), 0) AS TEXT) as row_id,
+        CAST(${this.editedDateSql("MAX")} AS TEXT) as edited_date,
+        CAST(COALESCE(MAX(date_read), 0) AS TEXT) as read_date
+      FROM message
+    `).get() as { row_id: string; edited_date: string; read_date: string };
+
+		return encodeWatchCursor({
+			rowId: BigInt(row.row_id),
+			editedDate: BigInt(row.edited_date),
+			readDate: BigInt(row.read_date),
+		});
+	}
+
+	/**
+	 * Messages added, edited, unsent or read since a cursor, oldest first
+	 * @throws Error if the cursor is malformed
+	 */
+	getChangesSince(cursor: string): MessageChanges {
+		const state = decodeWatchCursor(cursor);
+		const editedDate = this.editedDateSql("", "m.");
+		const query = `
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country,
+        m.ROWID > @rowId as change_new,
+        ${editedDate} > @editedDate as change_edited,
+        COALESCE(m.date_read, 0) > @readDate as change_read
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE (m.ROWID > @rowId
+          OR ${editedDate} > @editedDate
+          OR COALESCE(m.date_read, 0) > @readDate)
+        AND ${this.notReactionSql("m")}
+        AND ${notGroupEventCondition("m")}
+      ORDER BY m.ROWID ASC
+    `;
+
+		// One read transaction, so the cursor matches the rows returned
+		const { rows, next } = this.db.transaction(() => ({
+			rows: this.prepare(query).all(state) as {
+				change_new: number;
+				change_edited: number;
+				change_read: number;
+			}[],
+			next: this.getChangesCursor(),
+		}))();
+
+		const messages = this.toEnrichedMessages(rows);
+		const changes: MessageChange[] = [];
+
+		rows.forEach((row, i) => {
+			const message = messages[i] as EnrichedMessage;
+			if (row.change_new) {
+				changes.push({ type: "new", message });
+				return;
+			}
+			if (row.change_edited) changes.push({ type: "edited", message });
+			if (row.change_read) changes.push({ type: "read", message });
+		});
+
+		return { changes, cursor: next };
+	}
+
+	/**
+	 * Get an inline-reply thread: its root message and the replies to it,
+	 * oldest first. Accepts the GUID of the root or of any reply.
+	 */
+	getThread(messageGuid: string): MessageThread | null {
+		// Without thread columns every message is a thread of its own
+		const { hasThreads } = this.capabilities;
+		const start = this.prepare(
+			`SELECT guid, ${hasThreads ? "thread_originator_guid" : "NULL"} as thread_originator_guid
+       FROM message WHERE guid = ?`,
+		).get(messageGuid) as
+			| { guid: string; thread_originator_guid: string | null }
+			| undefined;
+
+		if (!start) return null;
+
+		const rootGuid = start.thread_originator_guid || start.guid;
+		const replies = hasThreads ? "m.thread_originator_guid = @rootGuid" : "0";
+		const query = `
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE (m.guid = @rootGuid OR ${replies})
+        AND ${this.notReactionSql("m")}
+      ORDER BY m.date ASC, m.ROWID ASC
+    `;
+		const messages = this.toEnrichedMessages(
+			this.prepare(query).all({ rootGuid }) as unknown[],
+		);
+
+		const root = messages.find((message) => message.guid === rootGuid);
+		if (!root) return null;
+
+		return {
+			root,
+			replies: messages.filter((message) => message !== root),
+		};
+	}
+
+	/**
+	 * Get all chats with optional filtering
+	 */
+	getChats(filter: ChatFilter = {}): Chat[] {
+		const conditions = this.chatConditions(filter);
+		let query = `SELECT * FROM chat WHERE 1=1${conditions.sql}`;
+		const params: unknown[] = [...conditions.params];
 
 		query += " ORDER BY ROWID DESC";
 
@@ -181,16 +755,49 @@ export class IMessageClient {
 			params.push(filter.offset);
 		}
 
-		const stmt = this.db.prepare(query);
+		const stmt = this.prepare(query);
 		return stmt.all(...params) as Chat[];
 	}
 
+	/**
+	 * Get a page of chats, newest first
+	 * @throws Error if the cursor is malformed or from another listing
+	 */
+	getChatsPage(filter: ChatPageFilter = {}): Page<Chat> {
+		const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+		const cursor = filter.cursor
+			? decodePageCursor(filter.cursor, "chats")
+			: null;
+		const conditions = this.chatConditions(filter);
+		// Chats have no date of their own, so they page as undated rows, by
+		// ROWID alone
+		const keyset = keysetClause(cursor, "NULL", "ROWID");
+
+		const rows = fetchKeyset(
+			keyset,
+			limit + 1,
+			(segment, count) =>
+				this.prepare(`
+          SELECT *, NULL as page_date
+          FROM chat
+          WHERE 1=1${conditions.sql}${segment.condition}
+          ${keyset.orderBy}
+          LIMIT ?
+        `).all(...conditions.params, ...segment.params, count) as (Chat &
+					KeysetRow)[],
+		);
+
+		return buildPage(rows, limit, cursor, "chats", (page) =>
+			page.map(({ page_date: _, ...chat }) => chat),
+		);
+	}
+
 	/**
 	 * Get a chat by ID with its participants
 	 */
 	getChatById(chatId: number): (Chat & { participants: Handle[] }) | null {
 		const chatQuery = "SELECT * FROM chat WHERE ROWID = ?";
-		const chat = this.db.prepare(chatQuery).get(chatId) as Chat | undefined;
+		const chat = this.prepare(chatQuery).get(chatId) as Chat | undefined;
 
 		if (!chat) return null;
 
@@ -200,9 +807,9 @@ export class IMessageClient {
       INNER JOIN chat_handle_join chj ON h.ROWID = chj.handle_id
       WHERE chj.chat_id = ?
     `;
-		const participants = this.db
-			.prepare(participantsQuery)
-			.all(chatId) as Handle[];
+		const participants = this.prepare(participantsQuery).all(
+			chatId,
+		) as Handle[];
 
 		return { ...chat, participants };
 	}
@@ -214,12 +821,46 @@ export class IMessageClient {
 		return this.getMessages({ chatId, limit });
 	}
 
+	/**
+	 * Get the newest messages of several chats at once, newest first
+	 */
+	getLatestMessagesForChats(
+		chatIds: number[],
+		count: number,
+		include?: MessageInclude[],
+	): Map<number, EnrichedMessage[]> {
+		const messageIds = this.latestMessageIds(chatIds, count);
+		const rows = this.loadRows<{ ROWID: number }>(
+			`
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.ROWID IN (SELECT value FROM json_each(?))
+    `,
+			[...messageIds.values()].flat(),
+		);
+		const messages = new Map(
+			this.toEnrichedMessages(rows, include).map((m) => [m.ROWID, m]),
+		);
+
+		return new Map(
+			[...messageIds].map(([chatId, ids]) => [
+				chatId,
+				ids.flatMap((id) => messages.get(id) ?? []),
+			]),
+		);
+	}
+
 	/**
 	 * Get all handles (contacts)
 	 */
 	getHandles(): Handle[] {
 		const query = "SELECT * FROM handle ORDER BY ROWID";
-		return this.db.prepare(query).all() as Handle[];
+		return this.prepare(query).all() as Handle[];
 	}
 
 	/**
@@ -227,7 +868,7 @@ export class IMessageClient {
 	 */
 	getHandleById(handleId: number): Handle | null {
 		const query = "SELECT * FROM handle WHERE ROWID = ?";
-		return (this.db.prepare(query).get(handleId) as Handle) || null;
+		return (this.prepare(query).get(handleId) as Handle) || null;
 	}
 
 	/**
@@ -240,7 +881,32 @@ export class IMessageClient {
       ORDER BY ROWID
     `;
 		const pattern = `%${searchTerm}%`;
-		return this.db.prepare(query).all(pattern, pattern) as Handle[];
+		return this.prepare(query).all(pattern, pattern) as Handle[];
+	}
+
+	/**
+	 * Group handles into people: the same normalized phone number or email on
+	 * any service, handles macOS links with a person_centric_id, and the
+	 * configured identityGroups
+	 */
+	getIdentities(): Identity[] {
+		return buildIdentities(this.getHandles(), {
+			defaultRegion: this.defaultRegion,
+			addressGroups: this.identityGroups,
+		});
+	}
+
+	/**
+	 * Find the person with an identity ID or any of their addresses, in any
+	 * format, e.g. "(555) 123-4567"
+	 */
+	getIdentity(idOrAddress: string): Identity | null {
+		const address = normalizeAddress(idOrAddress, this.defaultRegion);
+		return (
+			this.getIdentities().find((identity) =>
+				identity.addresses.includes(address),
+			) ?? null
+		);
 	}
 
 	/**
@@ -252,9 +918,7 @@ export class IMessageClient {
       WHERE id = ? OR uncanonicalized_id = ?
       LIMIT 1
     `;
-		return (
-			(this.db.prepare(query).get(identifier, identifier) as Handle) || null
-		);
+		return (this.prepare(query).get(identifier, identifier) as Handle) || null;
 	}
 
 	/**
@@ -268,21 +932,13 @@ export class IMessageClient {
       WHERE chj.handle_id = ?
       ORDER BY c.ROWID DESC
     `;
-		const chats = this.db.prepare(query).all(handleId) as Chat[];
-
-		return chats.map((chat) => {
-			const participantsQuery = `
-        SELECT h.*
-        FROM handle h
-        INNER JOIN chat_handle_join chj ON h.ROWID = chj.handle_id
-        WHERE chj.chat_id = ?
-      `;
-			const participants = this.db
-				.prepare(participantsQuery)
-				.all(chat.ROWID) as Handle[];
+		const chats = this.prepare(query).all(handleId) as Chat[];
+		const participants = this.loadParticipants(chats.map((c) => c.ROWID));
 
-			return { ...chat, participants };
-		});
+		return chats.map((chat) => ({
+			...chat,
+			participants: participants.get(chat.ROWID) ?? [],
+		}));
 	}
 
 	/**
@@ -301,10 +957,7 @@ export class IMessageClient {
       FROM message
       WHERE handle_id = ?
     `;
-		const result = this.db.prepare(query).get(handleId) as Record<
-			string,
-			number
-		>;
+		const result = this.prepare(query).get(handleId) as Record<string, number>;
 
 		return {
 			total: result.total || 0,
@@ -324,11 +977,90 @@ export class IMessageClient {
       WHERE chj.chat_id = ?
       ORDER BY h.ROWID
     `;
-		return this.db.prepare(query).all(chatId) as Handle[];
+		return this.prepare(query).all(chatId) as Handle[];
 	}
 
 	/**
-	 * Get attachments for a message
+	 * Get the participants of several chats with one query, by chat ID
+	 */
+	getParticipantsForChats(chatIds: number[]): Map<number, Handle[]> {
+		return this.loadParticipants(chatIds);
+	}
+
+	/**
+	 * Get the membership changes, renames and group photo changes of a chat,
+	 * oldest first
+	 */
+	getChatEvents(
+		chatId: number,
+		options: { startDate?: Date; endDate?: Date } = {},
+	): ChatEvent[] {
+		let query = `
+      SELECT
+        m.ROWID,
+        m.guid,
+        cmj.chat_id,
+        m.date,
+        m.is_from_me,
+        m.item_type,
+        m.group_action_type,
+        m.group_title,
+        a.ROWID as actor_rowid,
+        a.id as actor_id,
+        a.service as actor_service,
+        a.country as actor_country,
+        t.ROWID as target_rowid,
+        t.id as target_id,
+        t.service as target_service,
+        t.country as target_country
+      FROM chat_message_join cmj
+      INNER JOIN message m ON m.ROWID = cmj.message_id
+      LEFT JOIN handle a ON a.ROWID = m.handle_id AND m.is_from_me = 0
+      LEFT JOIN handle t ON t.ROWID = m.other_handle
+      WHERE cmj.chat_id = ? AND NOT ${notGroupEventCondition("m")}
+    `;
+		const params: unknown[] = [chatId];
+
+		if (options.startDate) {
+			query += " AND m.date >= ?";
+			params.push(this.toAppleTime(options.startDate));
+		}
+
+		if (options.endDate) {
+			query += " AND m.date <= ?";
+			params.push(this.toAppleTime(options.endDate));
+		}
+
+		query += " ORDER BY m.date ASC, m.ROWID ASC";
+
+		const rows = this.prepare(query).all(...params) as ChatEventRow[];
+		return rows
+			.map((row) => toChatEvent(row))
+			.filter((event): event is ChatEvent => event !== null);
+	}
+
+	/**
+	 * Reconstruct who was in a chat and when, from its membership events and
+	 * current participants
+	 */
+	getParticipantHistory(chatId: number): ParticipantSpan[] {
+		return buildParticipantHistory(
+			this.getChatEvents(chatId),
+			this.getParticipantsForChat(chatId),
+		);
+	}
+
+	/**
+	 * Get the participants of a chat at a point in time
+	 */
+	getParticipantsAt(chatId: number, date: Date): Handle[] {
+		return this.getParticipantHistory(chatId)
+			.filter((span) => spanIncludes(span, date))
+			.map((span) => span.handle);
+	}
+
+	/**
+	 * Get attachments for a message
 	 */
 	getAttachmentsForMessage(messageId: number): Attachment[] {
 		const query = `
@@ -337,13 +1069,59 @@ export class IMessageClient {
       INNER JOIN message_attachment_join maj ON a.ROWID = maj.attachment_id
       WHERE maj.message_id = ?
     `;
-		return this.db.prepare(query).all(messageId) as Attachment[];
+		return this.prepare(query).all(messageId) as Attachment[];
+	}
+
+	/**
+	 * Get a single attachment by ID
+	 */
+	getAttachmentById(attachmentId: number): Attachment | null {
+		const row = this.prepare("SELECT * FROM attachment WHERE ROWID = ?").get(
+			attachmentId,
+		) as Attachment | undefined;
+		return row ?? null;
+	}
+
+	/**
+	 * Locate an attachment's file: its absolute path, whether it still exists,
+	 * its size and a MIME type sniffed from its contents
+	 */
+	resolveAttachment(attachment: Attachment): ResolvedAttachment {
+		return resolveAttachment(attachment, this.attachmentsRoot);
+	}
+
+	/**
+	 * Open a read stream over an attachment's file
+	 * @throws Error if the file is not on disk
+	 */
+	createAttachmentReadStream(
+		attachment: Attachment,
+		options: { start?: number; end?: number } = {},
+	): fs.ReadStream {
+		return createAttachmentReadStream(
+			this.resolveAttachment(attachment),
+			options,
+		);
+	}
+
+	/**
+	 * Copy an attachment's file to a destination path, creating missing
+	 * directories
+	 * @returns Absolute path of the copy
+	 * @throws Error if the file is not on disk
+	 */
+	copyAttachment(attachment: Attachment, destination: string): Promise<string> {
+		return copyAttachmentFile(this.resolveAttachment(attachment), destination);
 	}
 
 	/**
 	 * Get conversation statistics
 	 */
-	getConversationStats(chatId?: number): ConversationStats {
+	getConversationStats(
+		scope?: number | ConversationStatsScope,
+	): ConversationStats {
+		const { chatId, identityId } =
+			typeof scope === "number" ? { chatId: scope } : (scope ?? {});
 		let query = `
       SELECT
         COUNT(*) as total,
@@ -351,20 +1129,26 @@ export class IMessageClient {
         SUM(CASE WHEN is_from_me = 0 THEN 1 ELSE 0 END) as received,
         MIN(date) as first_date,
         MAX(date) as last_date
-      FROM message
+      FROM message m
+      WHERE 1=1
     `;
 
 		const params: unknown[] = [];
 		if (chatId !== undefined) {
 			query += `
-        WHERE ROWID IN (
+        AND ROWID IN (
           SELECT message_id FROM chat_message_join WHERE chat_id = ?
         )
       `;
 			params.push(chatId);
 		}
+		if (identityId !== undefined) {
+			const identity = this.identityCondition(identityId, "m");
+			query += ` AND ${identity.sql}`;
+			params.push(...identity.params);
+		}
 
-		const stmt = this.db.prepare(query);
+		const stmt = this.prepare(query);
 		const result = stmt.get(...params) as Record<string, unknown>;
 
 		return {
@@ -382,12 +1166,260 @@ export class IMessageClient {
 		};
 	}
 
+	/**
+	 * Response times, hour-of-day and weekday activity, streaks, silences and
+	 * the most active one-on-one contacts, for one chat or all of them
+	 */
+	getConversationInsights(options: InsightsOptions = {}): ConversationInsights {
+		const directChats = this.loadDirectChats();
+		const conditions = this.messageConditions({
+			chatId: options.chatId,
+			startDate: options.startDate,
+			endDate: options.endDate,
+		});
+		const rows = this.prepare(`
+      SELECT cmj.chat_id, m.date, m.is_from_me
+      FROM message m
+      INNER JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+      WHERE 1=1${conditions.sql}
+      ORDER BY cmj.chat_id, m.date, m.ROWID
+    `).iterate(...conditions.params) as IterableIterator<{
+			chat_id: number;
+			date: number;
+			is_from_me: number;
+		}>;
+
+		return computeConversationInsights(
+			(function* (): Generator<InsightRow> {
+				for (const row of rows) {
+					yield {
+						chatId: row.chat_id,
+						date: appleTimeToDate(row.date),
+						isFromMe: row.is_from_me === 1,
+					};
+				}
+			})(),
+			directChats,
+			options,
+		);
+	}
+
+	/**
+	 * Splits chats into sessions at silences of at least the conversation
+	 * gap, e.g. to find "the conversation on Friday night"
+	 * @returns sessions, most recent first
+	 */
+	getSessions(options: SessionOptions = {}): ConversationSession[] {
+		const conditions = this.messageConditions({
+			chatId: options.chatId,
+			startDate: options.startDate,
+			endDate: options.endDate,
+		});
+		const rows = this.prepare(`
+      SELECT cmj.chat_id, m.ROWID, m.date, m.is_from_me, m.handle_id
+      FROM message m
+      INNER JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+      WHERE 1=1${conditions.sql}
+      ORDER BY cmj.chat_id, m.date, m.ROWID
+    `).iterate(...conditions.params) as IterableIterator<{
+			chat_id: number;
+			ROWID: number;
+			date: number;
+			is_from_me: number;
+			handle_id: number;
+		}>;
+
+		const spans = segmentSessions(
+			(function* (): Generator<SessionRow> {
+				for (const row of rows) {
+					yield {
+						chatId: row.chat_id,
+						messageId: row.ROWID,
+						date: appleTimeToDate(row.date),
+						isFromMe: row.is_from_me === 1,
+						handleId: row.handle_id,
+					};
+				}
+			})(),
+			options.conversationGap,
+		)
+			.sort(
+				(a, b) =>
+					b.end.getTime() - a.end.getTime() ||
+					b.lastMessageId - a.lastMessageId,
+			)
+			.slice(0, options.limit ?? DEFAULT_SESSION_LIMIT);
+
+		const handles = new Map(
+			this.getHandles().map((handle) => [handle.ROWID, handle]),
+		);
+		const openingRows = this.loadRows<{ ROWID: number }>(
+			`
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.ROWID IN (SELECT value FROM json_each(?))
+    `,
+			spans.map((span) => span.firstMessageId),
+		);
+		const openings = new Map(
+			this.toEnrichedMessages(openingRows, options.include).map((message) => [
+				message.ROWID,
+				message,
+			]),
+		);
+
+		return spans.flatMap(({ speakerIds, ...span }) => {
+			const openingMessage = openings.get(span.firstMessageId);
+			if (!openingMessage) return [];
+			return [
+				{
+					...span,
+					speakers: speakerIds.flatMap((id) => {
+						const handle = handles.get(id);
+						return handle ? [handle] : [];
+					}),
+					openingMessage,
+				},
+			];
+		});
+	}
+
+	/**
+	 * Messages of a session, oldest first: everything in its chat from its
+	 * first through its last message
+	 */
+	getSessionMessages(
+		session: Pick<
+			ConversationSession,
+			"chatId" | "firstMessageId" | "lastMessageId"
+		>,
+		include?: MessageInclude[],
+	): EnrichedMessage[] {
+		const rows = this.prepare(`
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      INNER JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE cmj.chat_id = ?
+        AND ${this.notReactionSql("m")}
+        AND ${notGroupEventCondition("m")}
+        AND (COALESCE(m.date, 0), m.ROWID) >= (
+          SELECT COALESCE(date, 0), ROWID FROM message WHERE ROWID = ?
+        )
+        AND (COALESCE(m.date, 0), m.ROWID) <= (
+          SELECT COALESCE(date, 0), ROWID FROM message WHERE ROWID = ?
+        )
+      ORDER BY m.date, m.ROWID
+    `).all(
+			session.chatId,
+			session.firstMessageId,
+			session.lastMessageId,
+		) as unknown[];
+		return this.toEnrichedMessages(rows, include);
+	}
+
+	/**
+	 * Delivery latency and time-to-read of sent messages, overall, per
+	 * one-on-one contact and per day, week or month
+	 */
+	getDeliveryReport(options: DeliveryReportOptions = {}): DeliveryReport {
+		const directChats = this.loadDirectChats();
+		const conditions = this.messageConditions({
+			chatId: options.chatId,
+			handleId: options.handleId,
+			startDate: options.startDate,
+			endDate: options.endDate,
+			isFromMe: true,
+		});
+		const rows = this.prepare(`
+      SELECT
+        (SELECT MIN(chat_id) FROM chat_message_join WHERE message_id = m.ROWID) as chat_id,
+        m.date,
+        m.date_delivered,
+        m.date_read,
+        m.is_delivered,
+        m.error
+      FROM message m
+      WHERE 1=1${conditions.sql}
+      ORDER BY m.date, m.ROWID
+    `).iterate(...conditions.params) as IterableIterator<{
+			chat_id: number | null;
+			date: number;
+			date_delivered: number | null;
+			date_read: number | null;
+			is_delivered: number | null;
+			error: number | null;
+		}>;
+
+		return computeDeliveryReport(
+			(function* (): Generator<DeliveryRow> {
+				for (const row of rows) {
+					yield {
+						chatId: row.chat_id,
+						date: appleTimeToDate(row.date),
+						dateDelivered: row.date_delivered
+							? appleTimeToDate(row.date_delivered)
+							: null,
+						dateRead: row.date_read ? appleTimeToDate(row.date_read) : null,
+						isDelivered: row.is_delivered === 1,
+						error: row.error ?? 0,
+					};
+				}
+			})(),
+			directChats,
+			options,
+		);
+	}
+
+	/**
+	 * Sent messages that failed with an error or never delivered, newest
+	 * first
+	 */
+	getUndeliveredMessages(filter: UndeliveredFilter = {}): UndeliveredMessage[] {
+		const conditions = this.messageConditions({
+			chatId: filter.chatId,
+			handleId: filter.handleId,
+			startDate: filter.startDate,
+			endDate: filter.endDate,
+			isFromMe: true,
+		});
+		const query = `
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE ${undeliveredCondition("m", filter.status)}${conditions.sql}
+      ORDER BY m.date DESC, m.ROWID DESC
+      LIMIT ?
+    `;
+		const rows = this.prepare(query).all(
+			...conditions.params,
+			filter.limit ?? 100,
+		) as Message[];
+
+		return this.toEnrichedMessages(rows).map((message) => ({
+			message,
+			status: deliveryStatus(message) ?? "undelivered",
+			error: message.error,
+		}));
+	}
+
 	/**
 	 * Get recent chats ordered by last message date
 	 */
-	getRecentChats(
-		limit = 20,
-	): (Chat & { lastMessage?: Message; participants: Handle[] })[] {
+	getRecentChats(limit = 20): RecentChat[] {
 		const query = `
       SELECT
         c.*,
@@ -399,62 +1431,818 @@ export class IMessageClient {
       LIMIT ?
     `;
 
-		const chats = this.db.prepare(query).all(limit) as (Chat & {
+		const chats = this.prepare(query).all(limit) as (Chat & {
 			last_message_date: number;
 		})[];
 
-		return chats.map((chat) => {
-			// Get participants
-			const participantsQuery = `
-        SELECT h.*
-        FROM handle h
-        INNER JOIN chat_handle_join chj ON h.ROWID = chj.handle_id
-        WHERE chj.chat_id = ?
-      `;
-			const participants = this.db
-				.prepare(participantsQuery)
-				.all(chat.ROWID) as Handle[];
+		return this.withRecentChatDetails(chats);
+	}
+
+	/**
+	 * Get a page of chats ordered by last message date, most recent first
+	 * @throws Error if the cursor is malformed or from another listing
+	 */
+	getRecentChatsPage(options: PageOptions = {}): Page<RecentChat> {
+		const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+		const cursor = options.cursor
+			? decodePageCursor(options.cursor, "recent-chats")
+			: null;
+		const keyset = keysetClause(cursor, "last_message_date", "ROWID");
+
+		const rows = fetchKeyset(
+			keyset,
+			limit + 1,
+			(segment, count) =>
+				this.prepare(`
+          SELECT *, CAST(last_message_date AS TEXT) as page_date
+          FROM (
+            SELECT
+              c.*,
+              MAX(cmj.message_date) as last_message_date
+            FROM chat c
+            INNER JOIN chat_message_join cmj ON c.ROWID = cmj.chat_id
+            GROUP BY c.ROWID
+          )
+          WHERE 1=1${segment.condition}
+          ${keyset.orderBy}
+          LIMIT ?
+        `).all(...segment.params, count) as (Chat &
+					KeysetRow & { last_message_date: number })[],
+		);
+
+		return buildPage(rows, limit, cursor, "recent-chats", (page) =>
+			this.withRecentChatDetails(page.map(({ page_date: _, ...chat }) => chat)),
+		);
+	}
+
+	/**
+	 * Close the database connection
+	 */
+	close(): void {
+		this.db.close();
+	}
+
+	/**
+	 * Adds messages above the relevance index's high-water mark. Like the
+	 * search index, later edits to indexed messages are not picked up.
+	 */
+	private updateRelevanceIndex(): void {
+		const rows = this.prepare(`
+      SELECT
+        m.ROWID,
+        m.text,
+        m.attributedBody,
+        (SELECT MIN(chat_id) FROM chat_message_join WHERE message_id = m.ROWID) as chat_id
+      FROM message m
+      WHERE m.ROWID > ?
+        AND ${this.notReactionSql("m")}
+        AND ${notGroupEventCondition("m")}
+      ORDER BY m.ROWID
+    `).iterate(this.relevanceIndexedRowId) as IterableIterator<{
+			ROWID: number;
+			text: string | null;
+			attributedBody: Buffer | null;
+			chat_id: number | null;
+		}>;
+
+		for (const row of rows) {
+			const text = row.text || parseAttributedBody(row.attributedBody);
+			if (text) {
+				this.relevanceIndex.add({ id: row.ROWID, chatId: row.chat_id, text });
+			}
+			this.relevanceIndexedRowId = row.ROWID;
+		}
+	}
+
+	/**
+	 * Applies filters to ranked hits and loads the top messages and
+	 * conversations
+	 */
+	private toRelatedResults(
+		hits: RelevanceHit[],
+		options: RelatedOptions,
+	): RelatedResults {
+		const conditions = this.messageConditions(options);
+		const allowed = new Set(
+			(
+				this.prepare(`
+          SELECT m.ROWID FROM message m
+          WHERE m.ROWID IN (SELECT value FROM json_each(?))${conditions.sql}
+        `).all(
+					JSON.stringify(hits.map((hit) => hit.id)),
+					...conditions.params,
+				) as { ROWID: number }[]
+			).map((row) => row.ROWID),
+		);
+		const matches = hits.filter((hit) => allowed.has(hit.id));
+
+		const top = matches.slice(0, options.limit ?? 20);
+		const rows = this.loadRows<{ ROWID: number }>(
+			`
+      SELECT
+        m.*,
+        h.id as handle_identifier,
+        h.service as handle_service,
+        h.country as handle_country
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.ROWID IN (SELECT value FROM json_each(?))
+    `,
+			top.map((hit) => hit.id),
+		);
+		const byId = new Map(
+			this.toEnrichedMessages(rows, options.include).map((message) => [
+				message.ROWID,
+				message,
+			]),
+		);
+
+		const conversations = RelevanceIndex.rankConversations(matches)
+			.slice(0, options.conversationLimit ?? 5)
+			.flatMap((conversation) => {
+				const chat = this.getChatById(conversation.chatId);
+				return chat
+					? [
+							{
+								chat,
+								score: conversation.score,
+								messageIds: conversation.messageIds,
+							},
+						]
+					: [];
+			});
+
+		return {
+			messages: top.flatMap((hit) => {
+				const message = byId.get(hit.id);
+				return message ? [{ message, score: hit.score }] : [];
+			}),
+			conversations,
+		};
+	}
+
+	/**
+	 * Up to `limit` messages of a chat past a keyset cursor, nearest first,
+	 * and whether there are more
+	 */
+	private fetchChatNeighbours(
+		chatId: number,
+		cursor: PageCursor,
+		limit: number,
+	): { rows: KeysetRow[]; hasMore: boolean } {
+		const count = Math.max(limit, 0);
+		const keyset = keysetClause(cursor, "m.date", "m.ROWID");
+		const rows = fetchKeyset(
+			keyset,
+			count + 1,
+			(segment, limit) =>
+				this.prepare(`
+          SELECT
+            m.*,
+            h.id as handle_identifier,
+            h.service as handle_service,
+            h.country as handle_country
+          FROM message m
+          INNER JOIN chat_message_join cmj ON cmj.message_id = m.ROWID
+          LEFT JOIN handle h ON m.handle_id = h.ROWID
+          WHERE cmj.chat_id = ?
+            AND ${this.notReactionSql("m")}
+            AND ${notGroupEventCondition("m")}${segment.condition}
+          ${keyset.orderBy}
+          LIMIT ?
+        `).all(chatId, ...segment.params, limit) as KeysetRow[],
+		);
+		return { rows: rows.slice(0, count), hasMore: rows.length > count };
+	}
+
+	/**
+	 * Messages matching a filter past a keyset cursor, in cursor order
+	 */
+	private fetchMessagesAfter(
+		filter: MessageFilter,
+		cursor: PageCursor | null,
+		limit: number,
+	): KeysetRow[] {
+		const conditions = this.messageConditions(filter);
+		const keyset = keysetClause(cursor, "m.date", "m.ROWID");
+
+		return fetchKeyset(
+			keyset,
+			limit,
+			(segment, count) =>
+				this.prepare(`
+          SELECT
+            m.*,
+            h.id as handle_identifier,
+            h.service as handle_service,
+            h.country as handle_country,
+            CAST(m.date AS TEXT) as page_date
+          FROM message m
+          LEFT JOIN handle h ON m.handle_id = h.ROWID
+          WHERE 1=1${conditions.sql}${segment.condition}
+          ${keyset.orderBy}
+          LIMIT ?
+        `).all(...conditions.params, ...segment.params, count) as KeysetRow[],
+		);
+	}
+
+	/**
+	 * SQL conditions (each starting with AND) for a message filter
+	 */
+	private messageConditions(filter: MessageFilter): {
+		sql: string;
+		params: unknown[];
+	} {
+		let sql = "";
+		const params: unknown[] = [];
+
+		if (filter.chatId !== undefined) {
+			sql += ` AND m.ROWID IN (
+        SELECT message_id FROM chat_message_join WHERE chat_id = ?
+      )`;
+			params.push(filter.chatId);
+		}
+
+		if (filter.handleId !== undefined) {
+			sql += " AND m.handle_id = ?";
+			params.push(filter.handleId);
+		}
+
+		if (filter.identityId !== undefined) {
+			const identity = this.identityCondition(filter.identityId, "m");
+			sql += ` AND ${identity.sql}`;
+			params.push(...identity.params);
+		}
+
+		if (filter.isFromMe !== undefined) {
+			sql += " AND m.is_from_me = ?";
+			params.push(filter.isFromMe ? 1 : 0);
+		}
+
+		if (filter.service) {
+			sql += " AND m.service = ?";
+			params.push(filter.service);
+		}
 
-			// Get last message
-			const lastMessageQuery = `
-        SELECT m.*
+		if (filter.searchText) {
+			const search = this.searchTextCondition(
+				filter.searchText,
+				filter.searchMode ?? "exact",
+			);
+			sql += ` AND ${search.sql}`;
+			params.push(...search.params);
+		}
+
+		if (filter.searchRegex !== undefined) {
+			const search = this.searchTextCondition(filter.searchRegex, "regex");
+			sql += ` AND ${search.sql}`;
+			params.push(...search.params);
+		}
+
+		if (filter.startDate) {
+			sql += " AND m.date >= ?";
+			params.push(this.toAppleTime(filter.startDate));
+		}
+
+		if (filter.endDate) {
+			sql += " AND m.date <= ?";
+			params.push(this.toAppleTime(filter.endDate));
+		}
+
+		if (!filter.includeReactions) {
+			sql += ` AND ${this.notReactionSql("m")}`;
+		}
+
+		// Group events have no text; getChatEvents returns them
+		sql += ` AND ${notGroupEventCondition("m")}`;
+
+		// Nothing was ever edited or unsent in a database without the columns
+		if (filter.isEdited !== undefined) {
+			const edited = this.capabilities.hasEdits ? editedCondition("m") : "0";
+			sql += ` AND ${filter.isEdited ? "" : "NOT "}${edited}`;
+		}
+
+		if (filter.isRetracted !== undefined) {
+			const retracted = this.capabilities.hasEdits
+				? retractedCondition("m")
+				: "0";
+			sql += ` AND ${filter.isRetracted ? "" : "NOT "}${retracted}`;
+		}
+
+		return { sql, params };
+	}
+
+	/**
+	 * SQL condition for a text search. "exact" is a LIKE over the text column;
+	 * the other modes also search decoded attributedBody text.
+	 * @throws Error if a regex search is not a valid regular expression
+	 */
+	private searchTextCondition(
+		search: string | RegExp,
+		mode: SearchMode,
+	): { sql: string; params: unknown[] } {
+		if (mode === "exact") {
+			return { sql: "m.text LIKE ?", params: [`%${String(search)}%`] };
+		}
+
+		this.enableSqlFunctions();
+		const text = "message_text(m.text, m.attributedBody)";
+		if (mode === "folded") {
+			return {
+				sql: `instr(fold_text(${text}), ?) > 0`,
+				params: [foldText(String(search))],
+			};
+		}
+
+		// String patterns ignore case, like the other modes; a RegExp keeps
+		// its own flags
+		const pattern =
+			search instanceof RegExp ? regExpPattern(search) : `(?i)${search}`;
+		try {
+			compileRegExp(pattern);
+		} catch (error) {
+			throw new Error(
+				`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		return { sql: `${text} REGEXP ?`, params: [pattern] };
+	}
+
+	/**
+	 * Compiles a message query to a SELECT of enriched-message rows, or of
+	 * the match count without ordering and paging
+	 */
+	private compileMessageQuery(
+		spec: MessageQuerySpec,
+		countOnly: boolean,
+	): SqlFragment {
+		const context: ConditionContext = {
+			capabilities: this.capabilities,
+			appleTime: (date) => this.toAppleTime(date),
+			identityCondition: (identityId, alias) =>
+				this.identityCondition(identityId, alias),
+			enableSqlFunctions: () => this.enableSqlFunctions(),
+		};
+		const where = spec.where
+			? compileCondition(spec.where, context, "m")
+			: { sql: "1", params: [] };
+
+		let sql = countOnly
+			? "SELECT COUNT(*) as count FROM message m"
+			: `SELECT
+          m.*,
+          h.id as handle_identifier,
+          h.service as handle_service,
+          h.country as handle_country
         FROM message m
-        INNER JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
-        WHERE cmj.chat_id = ?
-        ORDER BY m.date DESC
-        LIMIT 1
-      `;
-			const lastMessage = this.db.prepare(lastMessageQuery).get(chat.ROWID) as
-				| Message
-				| undefined;
+        LEFT JOIN handle h ON m.handle_id = h.ROWID`;
+		sql += `
+      WHERE ${where.sql}
+        AND ${notGroupEventCondition("m")}`;
+		if (!spec.includeReactions) {
+			sql += ` AND ${this.notReactionSql("m")}`;
+		}
+		if (countOnly) return { sql, params: where.params };
+
+		const params = [...where.params];
+		const direction = spec.orderBy?.direction === "asc" ? "ASC" : "DESC";
+		sql +=
+			spec.orderBy?.field === "id"
+				? ` ORDER BY m.ROWID ${direction}`
+				: ` ORDER BY m.date ${direction}, m.ROWID ${direction}`;
+		if (spec.limit !== undefined || spec.offset !== undefined) {
+			// SQLite needs a LIMIT before an OFFSET; -1 means no limit
+			sql += " LIMIT ? OFFSET ?";
+			params.push(spec.limit ?? -1, spec.offset ?? 0);
+		}
+		return { sql, params };
+	}
+
+	/**
+	 * Registers REGEXP, message_text and fold_text on first use
+	 */
+	private enableSqlFunctions(): void {
+		if (this.sqlFunctionsRegistered) return;
+		registerSqlFunctions(this.db);
+		this.sqlFunctionsRegistered = true;
+	}
 
-			const { ...chatData } = chat;
+	/**
+	 * SQL condition matching a person's messages, for a message alias: those
+	 * from any of their handles and those in one-on-one chats with them.
+	 * Matches nothing for an unknown identity.
+	 */
+	private identityCondition(
+		identityId: string,
+		alias: string,
+	): { sql: string; params: unknown[] } {
+		const identity = this.getIdentity(identityId);
+		if (!identity) return { sql: "0", params: [] };
+
+		const handleIds = JSON.stringify(
+			identity.handles.map((handle) => handle.ROWID),
+		);
+		return {
+			sql: `(${alias}.handle_id IN (SELECT value FROM json_each(?))
+        OR ${alias}.ROWID IN (
+          SELECT cmj.message_id
+          FROM chat_message_join cmj
+          INNER JOIN chat c ON c.ROWID = cmj.chat_id
+          INNER JOIN chat_handle_join chj ON chj.chat_id = c.ROWID
+          WHERE c.chat_identifier NOT LIKE 'chat%'
+            AND chj.handle_id IN (SELECT value FROM json_each(?))
+        ))`,
+			params: [handleIds, handleIds],
+		};
+	}
+
+	/**
+	 * SQL conditions (each starting with AND) for a chat filter
+	 */
+	private chatConditions(filter: ChatFilter): {
+		sql: string;
+		params: unknown[];
+	} {
+		let sql = "";
+		const params: unknown[] = [];
+
+		if (filter.chatIdentifier) {
+			sql += " AND chat_identifier = ?";
+			params.push(filter.chatIdentifier);
+		}
+
+		if (filter.displayName) {
+			sql += " AND display_name LIKE ?";
+			params.push(`%${filter.displayName}%`);
+		}
+
+		if (filter.isGroup !== undefined) {
+			if (filter.isGroup) {
+				sql += " AND chat_identifier LIKE 'chat%'";
+			} else {
+				sql += " AND chat_identifier NOT LIKE 'chat%'";
+			}
+		}
+
+		return { sql, params };
+	}
+
+	/**
+	 * The contact of each one-on-one chat, by chat ID
+	 */
+	private loadDirectChats(): Map<number, Handle> {
+		const rows = this.prepare(`
+      SELECT chj.chat_id, h.*
+      FROM chat c
+      INNER JOIN chat_handle_join chj ON chj.chat_id = c.ROWID
+      INNER JOIN handle h ON h.ROWID = chj.handle_id
+      WHERE c.chat_identifier NOT LIKE 'chat%'
+    `).all() as (Handle & { chat_id: number })[];
+
+		const directChats = new Map<number, Handle>();
+		for (const { chat_id, ...handle } of rows) {
+			directChats.set(chat_id, handle);
+		}
+		return directChats;
+	}
+
+	/**
+	 * Adds participants and the last message to recent chat rows
+	 */
+	private withRecentChatDetails(
+		chats: (Chat & { last_message_date: number })[],
+	): RecentChat[] {
+		const chatIds = chats.map((chat) => chat.ROWID);
+		const participants = this.loadParticipants(chatIds);
+		const lastMessageIds = this.latestMessageIds(chatIds, 1);
+		const lastMessages = this.loadRows<Message>(
+			"SELECT * FROM message WHERE ROWID IN (SELECT value FROM json_each(?))",
+			[...lastMessageIds.values()].flat(),
+		);
+		const messagesById = new Map(lastMessages.map((m) => [m.ROWID, m]));
+
+		return chats.map((chat) => {
+			const [lastMessageId] = lastMessageIds.get(chat.ROWID) ?? [];
 			return {
-				...chatData,
-				lastMessage,
-				participants,
+				...chat,
+				lastMessage:
+					lastMessageId !== undefined
+						? messagesById.get(lastMessageId)
+						: undefined,
+				participants: participants.get(chat.ROWID) ?? [],
 			};
 		});
 	}
 
 	/**
-	 * Close the database connection
+	 * ROWIDs of the newest messages (tapbacks and group events excluded) in
+	 * each chat, newest
+	 * first, from one statement that walks each chat's date index
 	 */
-	close(): void {
-		this.db.close();
+	private latestMessageIds(
+		chatIds: number[],
+		count: number,
+	): Map<number, number[]> {
+		if (chatIds.length === 0) return new Map();
+
+		const query = `
+      SELECT
+        c.value as chat_id,
+        (
+          SELECT json_group_array(id) FROM (
+            SELECT m.ROWID as id
+            FROM chat_message_join cmj
+            INNER JOIN message m ON m.ROWID = cmj.message_id
+            WHERE cmj.chat_id = c.value
+              AND ${this.notReactionSql("m")}
+              AND ${notGroupEventCondition("m")}
+            ORDER BY cmj.message_date DESC, m.ROWID DESC
+            LIMIT ?
+          )
+        ) as message_ids
+      FROM json_each(?) c
+    `;
+		const rows = this.prepare(query).all(count, JSON.stringify(chatIds)) as {
+			chat_id: number;
+			message_ids: string;
+		}[];
+
+		return new Map(
+			rows.map((row) => [row.chat_id, JSON.parse(row.message_ids) as number[]]),
+		);
+	}
+
+	/**
+	 * Participants of each chat with a single query
+	 */
+	private loadParticipants(chatIds: number[]): Map<number, Handle[]> {
+		const rows = this.loadRows<Handle & { owner_chat_id: number }>(
+			`
+      SELECT chj.chat_id as owner_chat_id, h.*
+      FROM chat_handle_join chj
+      INNER JOIN handle h ON h.ROWID = chj.handle_id
+      WHERE chj.chat_id IN (SELECT value FROM json_each(?))
+      ORDER BY h.ROWID
+    `,
+			chatIds,
+		);
+		return groupBy(rows, "owner_chat_id");
+	}
+
+	/**
+	 * Runs a query whose single parameter is a JSON array of values, the way
+	 * batched loaders pass ROWID lists to `IN (SELECT value FROM json_each(?))`
+	 * so one cached statement serves any number of ids
+	 */
+	private loadRows<T>(query: string, values: unknown[]): T[] {
+		if (values.length === 0) return [];
+		return this.prepare(query).all(JSON.stringify(values)) as T[];
+	}
+
+	/**
+	 * Converts a date to the database's timestamp unit
+	 */
+	private toAppleTime(date: Date): number {
+		return dateToAppleTime(date, this.capabilities.timestampUnit);
+	}
+
+	/**
+	 * Condition excluding tapback rows, for a message alias
+	 */
+	private notReactionSql(alias: string): string {
+		return this.capabilities.hasReactions ? notReactionCondition(alias) : "1";
+	}
+
+	/**
+	 * Latest of date_edited and date_retracted, or 0 without those columns
+	 * @param aggregate "MAX" to take the latest over all rows
+	 */
+	private editedDateSql(aggregate: "" | "MAX", prefix = ""): string {
+		if (!this.capabilities.hasEdits) return "0";
+		return `MAX(COALESCE(${aggregate}(${prefix}date_edited), 0), COALESCE(${aggregate}(${prefix}date_retracted), 0))`;
+	}
+
+	/**
+	 * Prepares a statement once per client and reuses it afterwards
+	 */
+	private prepare(sql: string): Database.Statement {
+		let statement = this.statements.get(sql);
+		if (!statement) {
+			statement = this.db.prepare(sql);
+			// Filters produce many query shapes; evict the oldest past the cap
+			if (this.statements.size >= STATEMENT_CACHE_SIZE) {
+				const oldest = this.statements.keys().next().value;
+				if (oldest !== undefined) this.statements.delete(oldest);
+			}
+			this.statements.set(sql, statement);
+		}
+		return statement;
+	}
+
+	/**
+	 * Enriches raw message rows and loads the requested relations, plus
+	 * reactions and reply context, with one query per relation
+	 */
+	private toEnrichedMessages(
+		rows: unknown[],
+		include: readonly MessageInclude[] = DEFAULT_INCLUDE,
+	): EnrichedMessage[] {
+		const messages = rows.map((row) =>
+			this.enrichMessage(row, include.includes("handle")),
+		);
+
+		if (include.includes("attachments")) {
+			this.attachAttachments(messages);
+		}
+		if (include.includes("chat") || include.includes("participants")) {
+			this.attachChats(messages, include.includes("participants"));
+		}
+		this.attachReactions(messages);
+		this.attachReplyTo(messages);
+		return messages;
+	}
+
+	/**
+	 * Loads the attachments of a page of messages with a single query
+	 */
+	private attachAttachments(messages: EnrichedMessage[]): void {
+		const rows = this.loadRows<Attachment & { owner_message_id: number }>(
+			`
+      SELECT maj.message_id as owner_message_id, a.*
+      FROM message_attachment_join maj
+      INNER JOIN attachment a ON a.ROWID = maj.attachment_id
+      WHERE maj.message_id IN (SELECT value FROM json_each(?))
+      ORDER BY a.ROWID
+    `,
+			messages.map((message) => message.ROWID),
+		);
+		const attachments = groupBy(rows, "owner_message_id");
+
+		for (const message of messages) {
+			message.attachments = attachments.get(message.ROWID) ?? [];
+		}
+	}
+
+	/**
+	 * Loads the chat, and optionally its participants, of a page of messages
+	 */
+	private attachChats(
+		messages: EnrichedMessage[],
+		withParticipants: boolean,
+	): void {
+		const rows = this.loadRows<Chat & { owner_message_id: number }>(
+			`
+      SELECT cmj.message_id as owner_message_id, c.*
+      FROM chat_message_join cmj
+      INNER JOIN chat c ON c.ROWID = cmj.chat_id
+      WHERE cmj.message_id IN (SELECT value FROM json_each(?))
+    `,
+			messages.map((message) => message.ROWID),
+		);
+		const chats = new Map(
+			rows.map(({ owner_message_id, ...chat }) => [owner_message_id, chat]),
+		);
+		const participants = withParticipants
+			? this.loadParticipants([...new Set(rows.map((row) => row.ROWID))])
+			: null;
+
+		for (const message of messages) {
+			const chat = chats.get(message.ROWID);
+			if (chat) message.chat = chat;
+			if (participants) {
+				message.participants = chat ? (participants.get(chat.ROWID) ?? []) : [];
+			}
+		}
+	}
+
+	/**
+	 * Loads the messages that inline replies respond to with a single query
+	 */
+	private attachReplyTo(messages: EnrichedMessage[]): void {
+		const replies = messages.filter(
+			(message) => message.thread_originator_guid,
+		);
+		if (replies.length === 0) return;
+
+		const guids = [
+			...new Set(replies.map((message) => message.thread_originator_guid)),
+		];
+		const query = `
+      SELECT
+        m.ROWID,
+        m.guid,
+        m.text,
+        m.attributedBody,
+        m.is_from_me,
+        h.id as handle_identifier
+      FROM message m
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.guid IN (SELECT value FROM json_each(?))
+    `;
+		const originators = new Map(
+			(
+				this.loadRows(query, guids) as {
+					ROWID: number;
+					guid: string;
+					text: string | null;
+					attributedBody: Buffer | null;
+					is_from_me: number;
+					handle_identifier: string | null;
+				}[]
+			).map((row) => [row.guid, row]),
+		);
+
+		for (const message of replies) {
+			const guid = message.thread_originator_guid as string;
+			const originator = originators.get(guid);
+			message.replyTo = {
+				guid,
+				partIndex: parseThreadOriginatorPart(message.thread_originator_part),
+				messageId: originator?.ROWID ?? null,
+				text: originator
+					? originator.text || parseAttributedBody(originator.attributedBody)
+					: null,
+				isFromMe: originator?.is_from_me === 1,
+				sender: originator?.is_from_me
+					? null
+					: (originator?.handle_identifier ?? null),
+			};
+		}
+	}
+
+	/**
+	 * Loads the tapbacks on a page of messages with a single query
+	 */
+	private attachReactions(messages: EnrichedMessage[]): void {
+		if (messages.length === 0) return;
+		if (!this.capabilities.hasReactions) {
+			for (const message of messages) message.reactions = [];
+			return;
+		}
+
+		// Comparing associated_message_guid itself, rather than the GUID cut
+		// out of it, lets SQLite use its index instead of scanning every row
+		const attachmentCounts = this.countAttachments(
+			messages.filter((message) => !message.attachments),
+		);
+		const keys = messages.flatMap((message) => {
+			const attachments =
+				message.attachments?.length ?? attachmentCounts.get(message.ROWID) ?? 0;
+			const runParts = (message.richText?.runs ?? []).map(
+				(run) => (run.partIndex ?? 0) + 1,
+			);
+			return reactionTargetKeys(
+				message.guid,
+				Math.max(attachments + 1, ...runParts),
+			);
+		});
+		const query = `
+      SELECT
+        r.*,
+        h.id as handle_identifier
+      FROM message r
+      LEFT JOIN handle h ON r.handle_id = h.ROWID
+      WHERE r.associated_message_guid IN (SELECT value FROM json_each(?))
+        AND r.associated_message_type BETWEEN 2000 AND 3999
+    `;
+		const rows = this.loadRows<ReactionRow>(query, keys);
+		const reactions = buildReactions(rows);
+
+		for (const message of messages) {
+			message.reactions = reactions.get(message.guid) ?? [];
+		}
+	}
+
+	/**
+	 * Number of attachments of each message, by ROWID, omitting messages
+	 * without any
+	 */
+	private countAttachments(messages: EnrichedMessage[]): Map<number, number> {
+		const rows = this.loadRows<{ message_id: number; count: number }>(
+			`
+      SELECT message_id, COUNT(*) as count
+      FROM message_attachment_join
+      WHERE message_id IN (SELECT value FROM json_each(?))
+      GROUP BY message_id
+    `,
+			messages.map((message) => message.ROWID),
+		);
+		return new Map(rows.map((row) => [row.message_id, row.count]));
 	}
 
 	/**
 	 * Helper method to enrich a message with parsed data
 	 */
-	private enrichMessage(row: unknown): EnrichedMessage {
+	private enrichMessage(row: unknown, withHandle: boolean): EnrichedMessage {
 		const r = row as Record<string, unknown>;
+		const richText = decodeAttributedBody(r.attributedBody as Buffer | null);
 
 		const message: EnrichedMessage = {
 			ROWID: r.ROWID as number,
 			guid: r.guid as string,
 			text:
 				(r.text as string | null) ||
+				richText?.text ||
 				parseAttributedBody(r.attributedBody as Buffer | null),
 			handle_id: r.handle_id as number,
 			subject: r.subject as string | null,
@@ -468,13 +2256,23 @@ export class IMessageClient {
 			is_sent: r.is_sent as number,
 			is_delivered: r.is_delivered as number,
 			is_finished: r.is_finished as number,
+			error: (r.error as number) ?? 0,
 			is_audio_message: r.is_audio_message as number,
 			cache_roomnames: r.cache_roomnames as string | null,
 			attributedBody: r.attributedBody as Buffer | null,
+			associated_message_guid: (r.associated_message_guid as string) ?? null,
+			associated_message_type: (r.associated_message_type as number) ?? 0,
+			thread_originator_guid: (r.thread_originator_guid as string) ?? null,
+			thread_originator_part: (r.thread_originator_part as string) ?? null,
+			date_edited: (r.date_edited as number) ?? 0,
+			date_retracted: (r.date_retracted as number) ?? 0,
+			message_summary_info: (r.message_summary_info as Buffer) ?? null,
+			balloon_bundle_id: (r.balloon_bundle_id as string) ?? null,
+			payload_data: (r.payload_data as Buffer) ?? null,
 		};
 
 		// Add handle info if available
-		if (r.handle_identifier) {
+		if (withHandle && r.handle_identifier) {
 			message.handle = {
 				ROWID: r.handle_id as number,
 				id: r.handle_identifier as string,
@@ -484,9 +2282,42 @@ export class IMessageClient {
 			};
 		}
 
-		// Get attachments
-		message.attachments = this.getAttachmentsForMessage(message.ROWID);
+		if (richText) {
+			message.richText = richText;
+		}
+
+		const summary = parseMessageSummaryInfo(message.message_summary_info);
+		if (summary && summary.edits.length > 0) {
+			message.edits = summary.edits;
+		}
+		message.unsent =
+			message.date_retracted > 0 || (summary?.retractedParts.length ?? 0) > 0;
+
+		const balloon = parseBalloon(
+			message.balloon_bundle_id,
+			message.payload_data,
+		);
+		if (balloon) {
+			message.balloon = balloon;
+		}
 
 		return message;
 	}
 }
+
+/**
+ * Groups rows by a numeric key column, keeping row order
+ */
+function groupBy<T, K extends keyof T>(
+	rows: T[],
+	key: K,
+): Map<number, Omit<T, K>[]> {
+	const groups = new Map<number, Omit<T, K>[]>();
+	for (const row of rows) {
+		const { [key]: id, ...rest } = row;
+		const group = groups.get(id as number) ?? [];
+		group.push(rest);
+		groups.set(id as number, group);
+	}
+	return groups;
+}
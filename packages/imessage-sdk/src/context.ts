@@ -0,0 +1,92 @@
+/**
+ * Grouping of message context windows
+ *
+ * Search hits close together in one chat have overlapping context windows.
+ * groupMessageContexts merges those and groups the windows by chat, so each
+ * message is shown once.
+ */
+
+import type {
+	ChatContext,
+	ContextWindow,
+	EnrichedMessage,
+	MessageContext,
+} from "./types";
+
+/**
+ * Groups contexts by chat, in order of each chat's first context, merging
+ * windows that share a message. Windows within a chat are oldest first.
+ */
+export function groupMessageContexts(
+	contexts: MessageContext[],
+): ChatContext[] {
+	const chats = new Map<number | null, ContextWindow[]>();
+
+	for (const context of contexts) {
+		const hit = context.messages[context.hitIndex];
+		if (!hit) continue;
+
+		const windows = chats.get(context.chatId) ?? [];
+		chats.set(context.chatId, windows);
+		let merged: ContextWindow = {
+			messages: context.messages,
+			hitIds: [hit.ROWID],
+			hasEarlier: context.hasEarlier,
+			hasLater: context.hasLater,
+		};
+
+		// Messages without a chat have nothing to overlap with
+		if (context.chatId !== null) {
+			const ids = new Set(context.messages.map((message) => message.ROWID));
+			for (let i = windows.length - 1; i >= 0; i--) {
+				const window = windows[i] as ContextWindow;
+				if (window.messages.some((message) => ids.has(message.ROWID))) {
+					merged = mergeWindows(window, merged);
+					for (const message of merged.messages) ids.add(message.ROWID);
+					windows.splice(i, 1);
+				}
+			}
+		}
+		windows.push(merged);
+	}
+
+	return [...chats.entries()].map(([chatId, windows]) => ({
+		chatId,
+		windows: windows.sort((a, b) =>
+			compareMessages(a.messages[0], b.messages[0]),
+		),
+	}));
+}
+
+function mergeWindows(a: ContextWindow, b: ContextWindow): ContextWindow {
+	const messages = new Map<number, EnrichedMessage>();
+	for (const message of [...a.messages, ...b.messages]) {
+		messages.set(message.ROWID, message);
+	}
+	const sorted = [...messages.values()].sort(compareMessages);
+	const first = sorted[0]?.ROWID;
+	const last = sorted[sorted.length - 1]?.ROWID;
+	// A window's flags only hold if its edge is the merged window's edge
+	const startsAt = (window: ContextWindow) =>
+		window.messages[0]?.ROWID === first;
+	const endsAt = (window: ContextWindow) =>
+		window.messages[window.messages.length - 1]?.ROWID === last;
+
+	return {
+		messages: sorted,
+		hitIds: [...new Set([...a.hitIds, ...b.hitIds])],
+		hasEarlier: [a, b].some((window) => startsAt(window) && window.hasEarlier),
+		hasLater: [a, b].some((window) => endsAt(window) && window.hasLater),
+	};
+}
+
+/**
+ * Chat order: by date, then ROWID
+ */
+function compareMessages(
+	a: EnrichedMessage | undefined,
+	b: EnrichedMessage | undefined,
+): number {
+	if (!a || !b) return 0;
+	return a.date - b.date || a.ROWID - b.ROWID;
+}
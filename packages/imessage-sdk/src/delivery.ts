@@ -0,0 +1,197 @@
+/**
+ * Delivery and read-receipt helpers
+ *
+ * A sent message records when it was delivered (date_delivered,
+ * is_delivered) and, when the recipient has read receipts on, when it was
+ * read (date_read). A failed send leaves a non-zero code in the error column;
+ * a message that was sent but never reached the recipient just stays
+ * undelivered.
+ */
+
+import { durationStats } from "./analytics";
+import type {
+	ContactDeliverySummary,
+	DeliveryPeriod,
+	DeliveryReport,
+	DeliveryReportOptions,
+	DeliveryStatus,
+	DeliverySummary,
+	Handle,
+	ReportInterval,
+} from "./types";
+
+/**
+ * Default number of contacts in a delivery report
+ */
+const DEFAULT_REPORT_LIMIT = 10;
+
+/**
+ * A sent message's delivery outcome as analysed
+ */
+export interface DeliveryRow {
+	chatId: number | null;
+	date: Date;
+	dateDelivered: Date | null;
+	dateRead: Date | null;
+	isDelivered: boolean;
+	error: number;
+}
+
+interface SummaryBuilder {
+	sent: number;
+	delivered: number;
+	read: number;
+	failed: number;
+	undelivered: number;
+	deliveryDelays: number[];
+	readDelays: number[];
+}
+
+/**
+ * SQL condition matching sent messages that failed or never delivered, for a
+ * message alias
+ */
+export function undeliveredCondition(
+	alias: string,
+	status?: DeliveryStatus,
+): string {
+	const failed = `COALESCE(${alias}.error, 0) != 0`;
+	const undelivered = `(COALESCE(${alias}.error, 0) = 0 AND COALESCE(${alias}.is_delivered, 0) = 0)`;
+	if (status === "failed") return failed;
+	if (status === "undelivered") return undelivered;
+	return `(${failed} OR ${undelivered})`;
+}
+
+/**
+ * Why a sent message did not arrive
+ * @returns null for delivered messages
+ */
+export function deliveryStatus(row: {
+	error: number | null;
+	is_delivered: number | null;
+}): DeliveryStatus | null {
+	if (row.error) return "failed";
+	if (!row.is_delivered) return "undelivered";
+	return null;
+}
+
+/**
+ * Summarizes delivery and read latency overall, per one-on-one contact and
+ * per period
+ * @param directChats Contact of each one-on-one chat, by chat ID
+ */
+export function computeDeliveryReport(
+	rows: Iterable<DeliveryRow>,
+	directChats: Map<number, Handle>,
+	options: Pick<DeliveryReportOptions, "interval" | "limit"> = {},
+): DeliveryReport {
+	const interval = options.interval ?? "month";
+	const limit = options.limit ?? DEFAULT_REPORT_LIMIT;
+
+	const total = emptySummary();
+	const contacts = new Map<
+		number,
+		{ handle: Handle; summary: SummaryBuilder }
+	>();
+	const periods = new Map<number, SummaryBuilder>();
+
+	for (const row of rows) {
+		addToSummary(total, row);
+
+		const handle = row.chatId !== null ? directChats.get(row.chatId) : null;
+		if (handle) {
+			let contact = contacts.get(handle.ROWID);
+			if (!contact) {
+				contact = { handle, summary: emptySummary() };
+				contacts.set(handle.ROWID, contact);
+			}
+			addToSummary(contact.summary, row);
+		}
+
+		const start = periodStart(row.date, interval).getTime();
+		let period = periods.get(start);
+		if (!period) {
+			period = emptySummary();
+			periods.set(start, period);
+		}
+		addToSummary(period, row);
+	}
+
+	const byContact: ContactDeliverySummary[] = [...contacts.values()]
+		.sort((a, b) => b.summary.sent - a.summary.sent)
+		.slice(0, limit)
+		.map(({ handle, summary }) => ({ handle, ...finishSummary(summary) }));
+	const overTime: DeliveryPeriod[] = [...periods.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([start, summary]) => ({
+			start: new Date(start),
+			...finishSummary(summary),
+		}));
+
+	return { ...finishSummary(total), byContact, overTime };
+}
+
+/**
+ * Local start of the day, week (Monday) or month containing a date
+ */
+export function periodStart(date: Date, interval: ReportInterval): Date {
+	switch (interval) {
+		case "day":
+			return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+		case "week":
+			return new Date(
+				date.getFullYear(),
+				date.getMonth(),
+				date.getDate() - ((date.getDay() + 6) % 7),
+			);
+		case "month":
+			return new Date(date.getFullYear(), date.getMonth(), 1);
+	}
+}
+
+function emptySummary(): SummaryBuilder {
+	return {
+		sent: 0,
+		delivered: 0,
+		read: 0,
+		failed: 0,
+		undelivered: 0,
+		deliveryDelays: [],
+		readDelays: [],
+	};
+}
+
+/**
+ * Counts a sent message. Receipts dated before the message (clock skew
+ * between devices) count as instant.
+ */
+function addToSummary(summary: SummaryBuilder, row: DeliveryRow): void {
+	const sentAt = row.date.getTime();
+	summary.sent++;
+
+	if (row.error) summary.failed++;
+	else if (!row.isDelivered) summary.undelivered++;
+	else summary.delivered++;
+
+	if (row.isDelivered && row.dateDelivered) {
+		summary.deliveryDelays.push(
+			Math.max(0, row.dateDelivered.getTime() - sentAt),
+		);
+	}
+	if (row.dateRead) {
+		summary.read++;
+		summary.readDelays.push(Math.max(0, row.dateRead.getTime() - sentAt));
+	}
+}
+
+function finishSummary(summary: SummaryBuilder): DeliverySummary {
+	return {
+		sent: summary.sent,
+		delivered: summary.delivered,
+		read: summary.read,
+		failed: summary.failed,
+		undelivered: summary.undelivered,
+		deliveryLatency: durationStats(summary.deliveryDelays),
+		readLatency: durationStats(summary.readDelays),
+	};
+}
@@ -0,0 +1,101 @@
+/**
+ * Edited and unsent message helpers
+ *
+ * Since macOS Ventura, editing or unsending a message updates date_edited or
+ * date_retracted and records the history in message_summary_info, a binary
+ * plist. Its "ec" dictionary maps each message part index to every version
+ * of that part's text, oldest first, as { d: seconds since 2001, t:
+ * archived NSAttributedString }. "rp" lists the part indexes that were
+ * unsent.
+ */
+
+import {
+	isPlistDictionary,
+	type PlistValue,
+	tryParseBinaryPlist,
+} from "./plist";
+import { decodeAttributedBody } from "./typedstream";
+import type { MessageEdit } from "./types";
+
+/**
+ * Apple epoch (2001-01-01) in Unix milliseconds
+ */
+const APPLE_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+/**
+ * Edit and unsend history decoded from message_summary_info
+ */
+export interface MessageSummaryInfo {
+	/**
+	 * Every version of each edited part, oldest first
+	 */
+	edits: MessageEdit[];
+	/**
+	 * Indexes of the message parts that were unsent
+	 */
+	retractedParts: number[];
+}
+
+/**
+ * SQL condition matching edited messages that were not unsent, for a
+ * message alias
+ */
+export function editedCondition(alias: string): string {
+	return `(COALESCE(${alias}.date_edited, 0) > 0 AND COALESCE(${alias}.date_retracted, 0) = 0)`;
+}
+
+/**
+ * SQL condition matching unsent messages, for a message alias
+ */
+export function retractedCondition(alias: string): string {
+	return `COALESCE(${alias}.date_retracted, 0) > 0`;
+}
+
+/**
+ * Decodes a message_summary_info blob
+ * @returns null when the blob is empty or not a property list
+ */
+export function parseMessageSummaryInfo(
+	buffer: Buffer | null,
+): MessageSummaryInfo | null {
+	const info = tryParseBinaryPlist(buffer);
+	if (!isPlistDictionary(info)) return null;
+
+	const edits: MessageEdit[] = [];
+	const editedContent = info.ec;
+	if (isPlistDictionary(editedContent)) {
+		for (const [part, versions] of Object.entries(editedContent)) {
+			if (!Array.isArray(versions)) continue;
+
+			for (const version of versions) {
+				if (!isPlistDictionary(version)) continue;
+				const date = toDate(version.d);
+				if (!date) continue;
+
+				edits.push({
+					text: Buffer.isBuffer(version.t)
+						? (decodeAttributedBody(version.t)?.text ?? null)
+						: null,
+					date,
+					partIndex: Number(part) || 0,
+				});
+			}
+		}
+	}
+
+	edits.sort(
+		(a, b) => a.partIndex - b.partIndex || a.date.getTime() - b.date.getTime(),
+	);
+
+	const retractedParts = Array.isArray(info.rp)
+		? info.rp.filter((part): part is number => typeof part === "number")
+		: [];
+
+	return { edits, retractedParts };
+}
+
+function toDate(value: PlistValue | undefined): Date | null {
+	if (value instanceof Date) return value;
+	if (typeof value !== "number") return null;
+	return new Date(APPLE_EPOCH_MS + value * 1000);
+}
@@ -0,0 +1,460 @@
+/**
+ * Conversation exporter
+ *
+ * Writes a stream of messages to a single file as JSON, NDJSON, CSV,
+ * Markdown, a self-contained HTML transcript or plain text. Messages are
+ * written as they arrive, so exporting a long history never holds more than
+ * one batch in memory. Attachment files can be copied into a directory next
+ * to the export, which then links them by relative path.
+ */
+
+import { once } from "node:events";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { copyAttachmentFile, resolveAttachment } from "./attachments";
+import { balloonDisplayText } from "./balloons";
+import type {
+	Attachment,
+	EnrichedMessage,
+	ExportedAttachment,
+	ExportedMessage,
+	ExportFormat,
+	ExportOptions,
+	ExportResult,
+	ResolvedAttachment,
+} from "./types";
+import { appleTimeToDate } from "./utils";
+
+/**
+ * File extension conventionally used for each format
+ */
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	json: ".json",
+	ndjson: ".ndjson",
+	csv: ".csv",
+	markdown: ".md",
+	html: ".html",
+	text: ".txt",
+};
+
+const CSV_COLUMNS = [
+	"id",
+	"guid",
+	"date",
+	"sender",
+	"is_from_me",
+	"text",
+	"service",
+	"reply_to_guid",
+	"edited",
+	"unsent",
+	"attachments",
+	"reactions",
+] as const;
+
+/**
+ * Renders the pieces of one export format
+ */
+interface ExportWriter {
+	header(): string;
+	message(message: ExportedMessage): string;
+	footer(): string;
+}
+
+/**
+ * Writes messages to an export file
+ * @param messages Messages in the order they should appear
+ * @param title Default heading when options.title is not set
+ * @param resolve Locates attachment files
+ */
+export async function writeExport(
+	messages: AsyncIterable<EnrichedMessage>,
+	options: ExportOptions,
+	title: string | null = null,
+	resolve: (attachment: Attachment) => ResolvedAttachment = resolveAttachment,
+): Promise<ExportResult> {
+	const outputPath = path.resolve(options.outputPath);
+	const attachmentsDir = options.copyAttachments
+		? path.resolve(
+				options.attachmentsDir ??
+					`${outputPath.slice(0, outputPath.length - path.extname(outputPath).length)}_attachments`,
+			)
+		: null;
+
+	fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+	if (attachmentsDir) fs.mkdirSync(attachmentsDir, { recursive: true });
+
+	const writer = createExportWriter(
+		options.format,
+		options.title ?? title ?? "iMessage export",
+		createLocalDateFormatter(options.timeZone),
+	);
+	const stream = fs.createWriteStream(outputPath);
+	const closed = once(stream, "close");
+	// A write error is rethrown when the stream is awaited below
+	closed.catch(() => {});
+	const write = async (chunk: string) => {
+		if (!stream.write(chunk)) await once(stream, "drain");
+	};
+
+	const result: ExportResult = {
+		format: options.format,
+		outputPath,
+		messageCount: 0,
+		attachmentsDir,
+		attachmentsCopied: 0,
+		attachmentsMissing: 0,
+	};
+
+	try {
+		await write(writer.header());
+
+		for await (const message of messages) {
+			options.signal?.throwIfAborted();
+
+			const attachments: ExportedAttachment[] = [];
+			for (const attachment of message.attachments ?? []) {
+				if (attachment.hide_attachment) continue;
+
+				let copiedPath: string | null = null;
+				if (attachmentsDir) {
+					const resolved = resolve(attachment);
+					if (resolved.exists) {
+						// Prefixed with the ROWID so identical transfer names don't collide
+						const target = await copyAttachmentFile(
+							resolved,
+							path.join(
+								attachmentsDir,
+								`${attachment.ROWID}-${path.basename(attachment.transfer_name || (resolved.path as string))}`,
+							),
+						);
+						copiedPath = path
+							.relative(path.dirname(outputPath), target)
+							.split(path.sep)
+							.join("/");
+						result.attachmentsCopied++;
+					} else {
+						result.attachmentsMissing++;
+					}
+				}
+
+				attachments.push({
+					name:
+						attachment.transfer_name ??
+						(attachment.filename ? path.basename(attachment.filename) : null),
+					mimeType: attachment.mime_type,
+					totalBytes: attachment.total_bytes,
+					path: copiedPath,
+				});
+			}
+
+			await write(
+				writer.message(toExportedMessage(message, attachments, options)),
+			);
+			result.messageCount++;
+		}
+
+		await write(writer.footer());
+	} finally {
+		stream.end();
+		await closed;
+	}
+
+	return result;
+}
+
+/**
+ * Flattens an enriched message into the record written to an export
+ */
+export function toExportedMessage(
+	message: EnrichedMessage,
+	attachments: ExportedAttachment[],
+	options: Pick<ExportOptions, "resolveSenderName"> = {},
+): ExportedMessage {
+	return {
+		id: message.ROWID,
+		guid: message.guid,
+		date: appleTimeToDate(message.date).toISOString(),
+		sender: senderName(message, options),
+		isFromMe: message.is_from_me === 1,
+		text: balloonDisplayText(message.text, message.balloon),
+		service: message.service,
+		replyToGuid: message.replyTo?.guid ?? null,
+		edited: (message.edits?.length ?? 0) > 0,
+		unsent: message.unsent ?? false,
+		attachments,
+		reactions: (message.reactions ?? [])
+			.filter((reaction) => !reaction.removed)
+			.map((reaction) => ({
+				type: reaction.type,
+				emoji: reaction.emoji,
+				sender: reaction.isFromMe ? "Me" : reaction.sender || "Unknown",
+			})),
+	};
+}
+
+function senderName(
+	message: EnrichedMessage,
+	options: Pick<ExportOptions, "resolveSenderName">,
+): string {
+	const resolved = options.resolveSenderName?.(message);
+	if (resolved) return resolved;
+	return message.is_from_me ? "Me" : message.handle?.id || "Unknown";
+}
+
+/**
+ * Splits a message's ISO date into the calendar day and time of day shown in
+ * an export
+ */
+type LocalDateFormatter = (date: string) => { day: string; time: string };
+
+/**
+ * Shows dates in a time zone, so messages are grouped by the days the reader
+ * lived them rather than by UTC days
+ * @param timeZone IANA time zone, default the local one
+ * @throws RangeError for an unknown time zone
+ */
+function createLocalDateFormatter(timeZone?: string): LocalDateFormatter {
+	const format = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+		hourCycle: "h23",
+	});
+	return (date) => {
+		const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+		for (const part of format.formatToParts(new Date(date))) {
+			parts[part.type] = part.value;
+		}
+		return {
+			day: `${parts.year}-${parts.month}-${parts.day}`,
+			time: `${parts.hour}:${parts.minute}:${parts.second}`,
+		};
+	};
+}
+
+function createExportWriter(
+	format: ExportFormat,
+	title: string,
+	localDate: LocalDateFormatter,
+): ExportWriter {
+	switch (format) {
+		case "json": {
+			let first = true;
+			return {
+				header: () => "[",
+				message: (message) => {
+					const separator = first ? "\n" : ",\n";
+					first = false;
+					return `${separator}  ${JSON.stringify(message)}`;
+				},
+				footer: () => (first ? "]\n" : "\n]\n"),
+			};
+		}
+		case "ndjson":
+			return {
+				header: () => "",
+				message: (message) => `${JSON.stringify(message)}\n`,
+				footer: () => "",
+			};
+		case "csv":
+			return {
+				header: () => `${CSV_COLUMNS.join(",")}\r\n`,
+				message: (message) =>
+					`${[
+						message.id,
+						message.guid,
+						message.date,
+						message.sender,
+						message.isFromMe,
+						message.text ?? "",
+						message.service,
+						message.replyToGuid ?? "",
+						message.edited,
+						message.unsent,
+						message.attachments
+							.map((attachment) => attachment.path ?? attachment.name ?? "")
+							.join("; "),
+						message.reactions
+							.map(
+								(reaction) =>
+									`${reaction.emoji ?? reaction.type} ${reaction.sender}`,
+							)
+							.join("; "),
+					]
+						.map((value) => csvField(String(value)))
+						.join(",")}\r\n`,
+				footer: () => "",
+			};
+		case "markdown":
+			return createMarkdownWriter(title, localDate);
+		case "html":
+			return createHtmlWriter(title, localDate);
+		case "text":
+			return {
+				header: () => `${title}\n${"=".repeat(title.length)}\n\n`,
+				message: (message) => {
+					const { day, time } = localDate(message.date);
+					return `${[
+						`[${day} ${time}] ${message.sender}: ${message.text ?? ""}${statusSuffix(message)}`,
+						...message.attachments.map(
+							(attachment) =>
+								`    📎 ${attachment.path ?? attachment.name ?? "attachment"}`,
+						),
+						...message.reactions.map(
+							(reaction) =>
+								`    ${reaction.emoji ?? reaction.type} ${reaction.sender}`,
+						),
+					].join("\n")}\n`;
+				},
+				footer: () => "",
+			};
+		default:
+			throw new Error(`Unsupported export format: ${format}`);
+	}
+}
+
+function createMarkdownWriter(
+	title: string,
+	localDate: LocalDateFormatter,
+): ExportWriter {
+	let day: string | null = null;
+	return {
+		header: () => `# ${title}\n`,
+		message: (message) => {
+			const lines: string[] = [];
+			const { day: messageDay, time } = localDate(message.date);
+			if (messageDay !== day) {
+				day = messageDay;
+				lines.push(`\n## ${messageDay}\n`);
+			}
+
+			lines.push(`**${message.sender}** · ${time}${statusSuffix(message)}`);
+			if (message.text) {
+				lines.push("", ...message.text.split("\n").map((line) => `> ${line}`));
+			}
+			for (const attachment of message.attachments) {
+				const name = attachment.name ?? "attachment";
+				if (!attachment.path) {
+					lines.push("", `📎 ${name}`);
+				} else if (attachment.mimeType?.startsWith("image/")) {
+					lines.push("", `![${name}](${encodeURI(attachment.path)})`);
+				} else {
+					lines.push("", `📎 [${name}](${encodeURI(attachment.path)})`);
+				}
+			}
+			if (message.reactions.length > 0) {
+				lines.push(
+					"",
+					message.reactions
+						.map(
+							(reaction) =>
+								`${reaction.emoji ?? reaction.type} ${reaction.sender}`,
+						)
+						.join(", "),
+				);
+			}
+			return `${lines.join("\n")}\n\n`;
+		},
+		footer: () => "",
+	};
+}
+
+const HTML_STYLE = `
+body { margin: 0; background: #fff; font: 15px -apple-system, BlinkMacSystemFont, "Helvetica Neue", sans-serif; color: #000; }
+main { max-width: 720px; margin: 0 auto; padding: 24px 16px; }
+h1 { font-size: 20px; text-align: center; }
+.day { margin: 24px 0 8px; text-align: center; font-size: 12px; color: #8e8e93; }
+.message { display: flex; flex-direction: column; align-items: flex-start; margin: 4px 0; }
+.message.me { align-items: flex-end; }
+.sender { margin: 0 12px 2px; font-size: 12px; color: #8e8e93; }
+.bubble { max-width: 70%; padding: 8px 12px; border-radius: 18px; background: #e9e9eb; white-space: pre-wrap; overflow-wrap: anywhere; }
+.me .bubble { background: #007aff; color: #fff; }
+.me .bubble a { color: #fff; }
+.bubble img { display: block; max-width: 100%; border-radius: 12px; }
+.meta { margin: 2px 12px 0; font-size: 11px; color: #8e8e93; }
+`;
+
+function createHtmlWriter(
+	title: string,
+	localDate: LocalDateFormatter,
+): ExportWriter {
+	let day: string | null = null;
+	return {
+		header: () =>
+			"<!DOCTYPE html>\n" +
+			'<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+			'<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+			`<title>${escapeHtml(title)}</title>\n<style>${HTML_STYLE}</style>\n` +
+			`</head>\n<body>\n<main>\n<h1>${escapeHtml(title)}</h1>\n`,
+		message: (message) => {
+			const parts: string[] = [];
+			const { day: messageDay, time } = localDate(message.date);
+			if (messageDay !== day) {
+				day = messageDay;
+				parts.push(`<div class="day">${messageDay}</div>`);
+			}
+
+			const content: string[] = [];
+			if (message.text) content.push(escapeHtml(message.text));
+			for (const attachment of message.attachments) {
+				const name = escapeHtml(attachment.name ?? "attachment");
+				const href = attachment.path
+					? escapeHtml(encodeURI(attachment.path))
+					: null;
+				if (!href) {
+					content.push(`📎 ${name}`);
+				} else if (attachment.mimeType?.startsWith("image/")) {
+					content.push(
+						`<a href="${href}"><img src="${href}" alt="${name}"></a>`,
+					);
+				} else {
+					content.push(`📎 <a href="${href}">${name}</a>`);
+				}
+			}
+
+			const meta = [time.slice(0, 5)];
+			const status = statusSuffix(message).trim();
+			if (status) meta.push(escapeHtml(status));
+			for (const reaction of message.reactions) {
+				meta.push(
+					escapeHtml(`${reaction.emoji ?? reaction.type} ${reaction.sender}`),
+				);
+			}
+
+			parts.push(
+				`<div class="message ${message.isFromMe ? "me" : "them"}">` +
+					(message.isFromMe
+						? ""
+						: `<div class="sender">${escapeHtml(message.sender)}</div>`) +
+					`<div class="bubble">${content.join("<br>")}</div>` +
+					`<div class="meta">${meta.join(" · ")}</div></div>`,
+			);
+			return `${parts.join("\n")}\n`;
+		},
+		footer: () => "</main>\n</body>\n</html>\n",
+	};
+}
+
+function statusSuffix(message: ExportedMessage): string {
+	if (message.unsent) return " (unsent)";
+	if (message.edited) return " (edited)";
+	return "";
+}
+
+function csvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
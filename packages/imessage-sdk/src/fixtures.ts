@@ -0,0 +1,1441 @@
+/**
+ * Synthetic chat.db fixtures
+ *
+ * Builds a real SQLite database with the same tables and columns as
+ * ~/Library/Messages/chat.db so the SDK's queries can run anywhere,
+ * including Linux CI where no Messages database exists.
+ *
+ * @example
+ * ```typescript
+ * const fixture = new ChatDbFixture()
+ *   .addHandle({ id: "+15551234567" })
+ *   .addChat({ chatIdentifier: "+15551234567", participants: ["+15551234567"] })
+ *   .addMessage({ chat: "+15551234567", handle: "+15551234567", text: "Hi!" });
+ *
+ * const client = new IMessageClient({ databasePath: fixture.path });
+ * ```
+ */
+
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Database from "better-sqlite3";
+import {
+	APP_EXTENSION_BALLOON_PREFIX,
+	URL_BALLOON_BUNDLE_ID,
+} from "./balloons";
+import { parseMessageSummaryInfo } from "./edits";
+import { isPlistDictionary, PlistUid, type PlistValue } from "./plist";
+import type { ChatEventType, TapbackType, TimestampUnit } from "./types";
+import { appleTimeToDate, dateToAppleTime } from "./utils";
+
+/**
+ * Schema of a modern (macOS Sonoma) chat.db, limited to the tables the SDK reads
+ */
+const CHAT_DB_SCHEMA = `
+CREATE TABLE handle (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT UNIQUE,
+  id TEXT NOT NULL,
+  country TEXT,
+  service TEXT NOT NULL,
+  uncanonicalized_id TEXT,
+  person_centric_id TEXT,
+  UNIQUE (id, service)
+);
+
+CREATE TABLE chat (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  style INTEGER,
+  state INTEGER,
+  account_id TEXT,
+  properties BLOB,
+  chat_identifier TEXT,
+  service_name TEXT,
+  room_name TEXT,
+  account_login TEXT,
+  is_archived INTEGER DEFAULT 0,
+  last_addressed_handle TEXT,
+  display_name TEXT,
+  group_id TEXT,
+  is_filtered INTEGER DEFAULT 0,
+  successful_query INTEGER,
+  last_read_message_timestamp INTEGER DEFAULT 0
+);
+
+CREATE TABLE message (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  text TEXT,
+  replace INTEGER DEFAULT 0,
+  service_center TEXT,
+  handle_id INTEGER DEFAULT 0,
+  subject TEXT,
+  country TEXT,
+  attributedBody BLOB,
+  version INTEGER DEFAULT 0,
+  type INTEGER DEFAULT 0,
+  service TEXT,
+  account TEXT,
+  account_guid TEXT,
+  error INTEGER DEFAULT 0,
+  date INTEGER,
+  date_read INTEGER,
+  date_delivered INTEGER,
+  is_delivered INTEGER DEFAULT 0,
+  is_finished INTEGER DEFAULT 0,
+  is_emote INTEGER DEFAULT 0,
+  is_from_me INTEGER DEFAULT 0,
+  is_empty INTEGER DEFAULT 0,
+  is_delayed INTEGER DEFAULT 0,
+  is_auto_reply INTEGER DEFAULT 0,
+  is_prepared INTEGER DEFAULT 0,
+  is_read INTEGER DEFAULT 0,
+  is_system_message INTEGER DEFAULT 0,
+  is_sent INTEGER DEFAULT 0,
+  has_dd_results INTEGER DEFAULT 0,
+  is_service_message INTEGER DEFAULT 0,
+  is_forward INTEGER DEFAULT 0,
+  was_downgraded INTEGER DEFAULT 0,
+  is_archive INTEGER DEFAULT 0,
+  cache_has_attachments INTEGER DEFAULT 0,
+  cache_roomnames TEXT,
+  was_data_detected INTEGER DEFAULT 0,
+  was_deduplicated INTEGER DEFAULT 0,
+  is_audio_message INTEGER DEFAULT 0,
+  is_played INTEGER DEFAULT 0,
+  date_played INTEGER,
+  item_type INTEGER DEFAULT 0,
+  other_handle INTEGER DEFAULT 0,
+  group_title TEXT,
+  group_action_type INTEGER DEFAULT 0,
+  share_status INTEGER DEFAULT 0,
+  share_direction INTEGER DEFAULT 0,
+  is_expirable INTEGER DEFAULT 0,
+  expire_state INTEGER DEFAULT 0,
+  message_action_type INTEGER DEFAULT 0,
+  message_source INTEGER DEFAULT 0,
+  associated_message_guid TEXT DEFAULT NULL,
+  associated_message_type INTEGER DEFAULT 0,
+  associated_message_emoji TEXT DEFAULT NULL,
+  balloon_bundle_id TEXT DEFAULT NULL,
+  payload_data BLOB,
+  expressive_send_style_id TEXT DEFAULT NULL,
+  associated_message_range_location INTEGER DEFAULT 0,
+  associated_message_range_length INTEGER DEFAULT 0,
+  time_expressive_send_played INTEGER DEFAULT 0,
+  message_summary_info BLOB DEFAULT NULL,
+  reply_to_guid TEXT DEFAULT NULL,
+  is_corrupt INTEGER DEFAULT 0,
+  is_spam INTEGER DEFAULT 0,
+  thread_originator_guid TEXT DEFAULT NULL,
+  thread_originator_part TEXT DEFAULT NULL,
+  date_retracted INTEGER DEFAULT 0,
+  date_edited INTEGER DEFAULT 0,
+  part_count INTEGER DEFAULT 0
+);
+
+CREATE TABLE attachment (
+  ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+  guid TEXT UNIQUE NOT NULL,
+  created_date INTEGER DEFAULT 0,
+  start_date INTEGER DEFAULT 0,
+  filename TEXT,
+  uti TEXT,
+  mime_type TEXT,
+  transfer_state INTEGER DEFAULT 0,
+  is_outgoing INTEGER DEFAULT 0,
+  user_info BLOB,
+  transfer_name TEXT,
+  total_bytes INTEGER DEFAULT 0,
+  is_sticker INTEGER DEFAULT 0,
+  sticker_user_info BLOB,
+  attribution_info BLOB,
+  hide_attachment INTEGER DEFAULT 0
+);
+
+CREATE TABLE chat_handle_join (
+  chat_id INTEGER REFERENCES chat (ROWID) ON DELETE CASCADE,
+  handle_id INTEGER REFERENCES handle (ROWID) ON DELETE CASCADE,
+  UNIQUE (chat_id, handle_id)
+);
+
+CREATE TABLE chat_message_join (
+  chat_id INTEGER REFERENCES chat (ROWID) ON DELETE CASCADE,
+  message_id INTEGER REFERENCES message (ROWID) ON DELETE CASCADE,
+  message_date INTEGER DEFAULT 0,
+  PRIMARY KEY (chat_id, message_id)
+);
+
+CREATE TABLE message_attachment_join (
+  message_id INTEGER REFERENCES message (ROWID) ON DELETE CASCADE,
+  attachment_id INTEGER REFERENCES attachment (ROWID) ON DELETE CASCADE,
+  UNIQUE (message_id, attachment_id)
+);
+
+CREATE INDEX message_idx_handle ON message (handle_id, date);
+CREATE INDEX message_idx_date ON message (date);
+CREATE INDEX message_idx_associated_message ON message (associated_message_guid);
+CREATE INDEX chat_message_join_idx_message_date_id_chat_id
+  ON chat_message_join (chat_id, message_date, message_id);
+CREATE INDEX chat_message_join_idx_message_id_only ON chat_message_join (message_id);
+CREATE INDEX message_attachment_join_idx_message_id ON message_attachment_join (message_id);
+`;
+
+/**
+ * Message columns missing from an OS X El Capitan chat.db: tapbacks, inline
+ * replies and edits all came later
+ */
+const LEGACY_MISSING_COLUMNS = [
+	"associated_message_guid",
+	"associated_message_type",
+	"associated_message_emoji",
+	"associated_message_range_location",
+	"associated_message_range_length",
+	"thread_originator_guid",
+	"thread_originator_part",
+	"date_retracted",
+	"date_edited",
+	"message_summary_info",
+	"reply_to_guid",
+	"part_count",
+];
+
+/**
+ * Date assigned to the first message when no explicit date is given
+ */
+const DEFAULT_START_DATE = new Date("2024-01-01T12:00:00Z");
+
+/**
+ * Tapback types in associated_message_type order (2000 + index), with the
+ * text Messages.app stores on the tapback row
+ */
+const TAPBACK_CODES: [TapbackType, string][] = [
+	["loved", "Loved"],
+	["liked", "Liked"],
+	["disliked", "Disliked"],
+	["laughed", "Laughed at"],
+	["emphasized", "Emphasized"],
+	["questioned", "Questioned"],
+	["emoji", "Reacted to"],
+	["sticker", "Reacted with a sticker to"],
+];
+
+/**
+ * Reference to a row created by the fixture: either its ROWID or its
+ * natural key (handle `id`, chat `chat_identifier`/`guid`, message `guid`)
+ */
+export type FixtureRef = number | string;
+
+/**
+ * Options for creating a fixture database
+ */
+export interface ChatDbFixtureOptions {
+	/**
+	 * Where to create the database file.
+	 * Default: chat.db inside a fresh temporary directory
+	 */
+	path?: string;
+
+	/**
+	 * Create an OS X El Capitan-era database: dates in seconds rather than
+	 * nanoseconds, and no tapback, inline reply or edit columns. Values for
+	 * the missing columns are dropped.
+	 */
+	legacy?: boolean;
+}
+
+/**
+ * Handle row to insert
+ */
+export interface FixtureHandle {
+	id: string;
+	service?: string;
+	country?: string | null;
+	uncanonicalizedId?: string | null;
+	/**
+	 * Links handles of the same person
+	 */
+	personCentricId?: string | null;
+}
+
+/**
+ * Chat row to insert
+ */
+export interface FixtureChat {
+	chatIdentifier: string;
+	guid?: string;
+	displayName?: string | null;
+	serviceName?: string;
+	/**
+	 * Chat style. Default: 43 (group) for identifiers starting with "chat", else 45
+	 */
+	style?: number;
+	isArchived?: boolean;
+	/**
+	 * Participants, referenced by handle ROWID or handle id
+	 */
+	participants?: FixtureRef[];
+}
+
+/**
+ * Message row to insert
+ */
+export interface FixtureMessage {
+	guid?: string;
+	text?: string | null;
+	/**
+	 * attributedBody blob. Text or text runs are encoded as an
+	 * NSAttributedString typedstream
+	 */
+	attributedBody?: string | FixtureTextRun[] | Buffer | null;
+	/**
+	 * Chat the message belongs to
+	 */
+	chat?: FixtureRef;
+	/**
+	 * Sender (received messages) or recipient (sent messages)
+	 */
+	handle?: FixtureRef;
+	isFromMe?: boolean;
+	service?: string;
+	account?: string | null;
+	subject?: string | null;
+	/**
+	 * Default: one minute after the previously added message
+	 */
+	date?: Date;
+	dateRead?: Date | null;
+	dateDelivered?: Date | null;
+	isRead?: boolean;
+	isDelivered?: boolean;
+	isSent?: boolean;
+	isAudioMessage?: boolean;
+	/**
+	 * Send error code. Default: 0
+	 */
+	error?: number;
+	/**
+	 * Message a tapback reacts to, e.g. "p:0/GUID"
+	 */
+	associatedMessageGuid?: string | null;
+	associatedMessageType?: number;
+	associatedMessageEmoji?: string | null;
+	/**
+	 * Root message of the inline-reply thread, referenced by ROWID or guid
+	 */
+	replyTo?: FixtureRef;
+	/**
+	 * Default: "0:0:<length of the root's text>"
+	 */
+	threadOriginatorPart?: string;
+	/**
+	 * Every version of the text, oldest first, recorded in
+	 * message_summary_info. Sets date_edited to the last version's date
+	 */
+	edits?: FixtureEdit[];
+	/**
+	 * Marks the message as unsent at this date
+	 */
+	dateRetracted?: Date;
+	/**
+	 * Raw message_summary_info blob, overriding edits and dateRetracted
+	 */
+	messageSummaryInfo?: Buffer | null;
+	/**
+	 * Shows the message as a link preview balloon
+	 */
+	linkPreview?: FixtureLinkPreview;
+	/**
+	 * Shows the message as an iMessage app balloon
+	 */
+	app?: FixtureAppBalloon;
+	/**
+	 * Raw balloon_bundle_id, overriding linkPreview and app
+	 */
+	balloonBundleId?: string | null;
+	/**
+	 * Raw payload_data blob, overriding linkPreview and app
+	 */
+	payloadData?: Buffer | null;
+}
+
+/**
+ * Link metadata archived in a URL balloon's payload
+ */
+export interface FixtureLinkPreview {
+	url: string;
+	title?: string;
+	summary?: string;
+	siteName?: string;
+}
+
+/**
+ * MSMessage layout archived in an iMessage app balloon's payload
+ */
+export interface FixtureAppBalloon {
+	/**
+	 * Extension bundle ID, e.g. "com.apple.messages.Polls"
+	 */
+	appId: string;
+	/**
+	 * Default: "0000000000", the team ID of Apple's extensions
+	 */
+	teamId?: string;
+	appName?: string;
+	caption?: string;
+	subcaption?: string;
+	url?: string;
+}
+
+/**
+ * One version of an edited message part
+ */
+export interface FixtureEdit {
+	text: string;
+	date: Date;
+	partIndex?: number;
+}
+
+/**
+ * Tapback to insert, as its own message row
+ */
+export interface FixtureReaction {
+	/**
+	 * Message reacted to, referenced by ROWID or guid
+	 */
+	message: FixtureRef;
+	type: TapbackType;
+	/**
+	 * Emoji for "emoji" tapbacks
+	 */
+	emoji?: string;
+	/**
+	 * Add a "removed" tapback instead of an added one
+	 */
+	remove?: boolean;
+	partIndex?: number;
+	handle?: FixtureRef;
+	isFromMe?: boolean;
+	chat?: FixtureRef;
+	guid?: string;
+	date?: Date;
+}
+
+/**
+ * Group chat event to insert, as its own message row
+ */
+export interface FixtureGroupEvent {
+	chat: FixtureRef;
+	type: ChatEventType;
+	/**
+	 * Participant who made the change; omit with isFromMe
+	 */
+	actor?: FixtureRef;
+	isFromMe?: boolean;
+	/**
+	 * Participant added or removed. A "participantRemoved" event without a
+	 * target records the actor leaving
+	 */
+	target?: FixtureRef;
+	/**
+	 * New conversation name, for "renamed" events
+	 */
+	name?: string;
+	/**
+	 * Record the group photo being removed instead of changed
+	 */
+	photoRemoved?: boolean;
+	guid?: string;
+	date?: Date;
+}
+
+/**
+ * Attachment row to insert
+ */
+export interface FixtureAttachment {
+	/**
+	 * Message the attachment belongs to, referenced by ROWID or guid
+	 */
+	message: FixtureRef;
+	guid?: string;
+	filename?: string | null;
+	mimeType?: string | null;
+	uti?: string | null;
+	transferName?: string | null;
+	totalBytes?: number;
+	isOutgoing?: boolean;
+	isSticker?: boolean;
+	createdDate?: Date;
+	hideAttachment?: boolean;
+}
+
+/**
+ * A real chat.db-shaped SQLite database populated through a fluent builder
+ *
+ * Rows are written as soon as they are added, so a client opened on
+ * `fixture.path` sees them immediately through its own connection.
+ */
+export class ChatDbFixture {
+	readonly path: string;
+	private db: Database.Database;
+	private readonly tempDir: string | null;
+	private nextDate: number;
+	private readonly timestampUnit: TimestampUnit;
+	private readonly missingColumns: Set<string>;
+
+	constructor(options: ChatDbFixtureOptions = {}) {
+		if (options.path) {
+			this.tempDir = null;
+			this.path = options.path;
+		} else {
+			this.tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "imessage-sdk-"));
+			this.path = path.join(this.tempDir, "chat.db");
+		}
+
+		this.db = new Database(this.path);
+		// Messages.app keeps chat.db in WAL mode
+		this.db.pragma("journal_mode = WAL");
+		this.db.exec(CHAT_DB_SCHEMA);
+		this.nextDate = DEFAULT_START_DATE.getTime();
+
+		this.timestampUnit = options.legacy ? "seconds" : "nanoseconds";
+		this.missingColumns = new Set(options.legacy ? LEGACY_MISSING_COLUMNS : []);
+		if (this.missingColumns.has("associated_message_guid")) {
+			this.db.exec("DROP INDEX message_idx_associated_message");
+		}
+		for (const column of this.missingColumns) {
+			this.db.exec(`ALTER TABLE message DROP COLUMN ${column}`);
+		}
+	}
+
+	/**
+	 * Add a handle (phone number or email)
+	 */
+	addHandle(handle: FixtureHandle): this {
+		this.insert("handle", {
+			id: handle.id,
+			country: handle.country ?? "us",
+			service: handle.service ?? "iMessage",
+			uncanonicalized_id: handle.uncanonicalizedId ?? null,
+			person_centric_id: handle.personCentricId ?? null,
+		});
+		return this;
+	}
+
+	/**
+	 * Add a chat and link its participants
+	 */
+	addChat(chat: FixtureChat): this {
+		const serviceName = chat.serviceName ?? "iMessage";
+		const isGroup = chat.chatIdentifier.startsWith("chat");
+		const guid =
+			chat.guid ??
+			`${serviceName};${isGroup ? "+" : "-"};${chat.chatIdentifier}`;
+
+		const chatId = this.insert("chat", {
+			guid,
+			style: chat.style ?? (isGroup ? 43 : 45),
+			state: 3,
+			account_id: randomUUID().toUpperCase(),
+			chat_identifier: chat.chatIdentifier,
+			service_name: serviceName,
+			is_archived: chat.isArchived ? 1 : 0,
+			display_name: chat.displayName ?? null,
+		});
+
+		for (const participant of chat.participants ?? []) {
+			this.insert("chat_handle_join", {
+				chat_id: chatId,
+				handle_id: this.handleRowId(participant),
+			});
+		}
+
+		return this;
+	}
+
+	/**
+	 * Add a message, joining it to its chat when one is given
+	 */
+	addMessage(message: FixtureMessage): this {
+		const date = message.date?.getTime() ?? this.nextDate;
+		this.nextDate = date + 60_000;
+
+		const appleDate = this.appleTime(new Date(date));
+		const handleId =
+			message.handle !== undefined ? this.handleRowId(message.handle) : 0;
+		const attributedBody =
+			typeof message.attributedBody === "string" ||
+			Array.isArray(message.attributedBody)
+				? encodeAttributedBody(message.attributedBody)
+				: (message.attributedBody ?? null);
+		const isFromMe = message.isFromMe ?? false;
+		const originator =
+			message.replyTo !== undefined
+				? (this.db
+						.prepare("SELECT guid, text FROM message WHERE ROWID = ?")
+						.get(this.messageRowId(message.replyTo)) as {
+						guid: string;
+						text: string | null;
+					})
+				: null;
+
+		const lastEdit = message.edits?.[message.edits.length - 1];
+
+		const messageId = this.insert("message", {
+			guid: message.guid ?? randomUUID().toUpperCase(),
+			text: message.text ?? null,
+			handle_id: handleId,
+			subject: message.subject ?? null,
+			attributedBody,
+			service: message.service ?? "iMessage",
+			account: message.account ?? null,
+			date: appleDate,
+			date_read: message.dateRead ? this.appleTime(message.dateRead) : 0,
+			date_delivered: message.dateDelivered
+				? this.appleTime(message.dateDelivered)
+				: 0,
+			is_delivered: (message.isDelivered ?? true) ? 1 : 0,
+			is_finished: 1,
+			is_from_me: isFromMe ? 1 : 0,
+			is_read: (message.isRead ?? !isFromMe) ? 1 : 0,
+			is_sent: (message.isSent ?? isFromMe) ? 1 : 0,
+			is_audio_message: message.isAudioMessage ? 1 : 0,
+			error: message.error ?? 0,
+			associated_message_guid: message.associatedMessageGuid ?? null,
+			associated_message_type: message.associatedMessageType ?? 0,
+			associated_message_emoji: message.associatedMessageEmoji ?? null,
+			thread_originator_guid: originator?.guid ?? null,
+			thread_originator_part: originator
+				? (message.threadOriginatorPart ??
+					`0:0:${originator.text?.length ?? 0}`)
+				: null,
+			date_edited: lastEdit ? this.appleTime(lastEdit.date) : 0,
+			date_retracted: message.dateRetracted
+				? this.appleTime(message.dateRetracted)
+				: 0,
+			message_summary_info:
+				message.messageSummaryInfo !== undefined
+					? message.messageSummaryInfo
+					: encodeMessageSummaryInfo(message),
+			balloon_bundle_id:
+				message.balloonBundleId !== undefined
+					? message.balloonBundleId
+					: balloonBundleId(message),
+			payload_data:
+				message.payloadData !== undefined
+					? message.payloadData
+					: encodeBalloonPayload(message),
+		});
+
+		if (message.chat !== undefined) {
+			this.insert("chat_message_join", {
+				chat_id: this.chatRowId(message.chat),
+				message_id: messageId,
+				message_date: appleDate,
+			});
+		}
+
+		return this;
+	}
+
+	/**
+	 * Add a tapback on an existing message
+	 */
+	addReaction(reaction: FixtureReaction): this {
+		const target = this.db
+			.prepare("SELECT guid, text FROM message WHERE ROWID = ?")
+			.get(this.messageRowId(reaction.message)) as {
+			guid: string;
+			text: string | null;
+		};
+		const index = TAPBACK_CODES.findIndex(([type]) => type === reaction.type);
+		const verb = reaction.remove
+			? "Removed a reaction from"
+			: TAPBACK_CODES[index]?.[1];
+
+		return this.addMessage({
+			guid: reaction.guid,
+			text: `${verb} “${target.text ?? ""}”`,
+			handle: reaction.handle,
+			isFromMe: reaction.isFromMe,
+			chat: reaction.chat,
+			date: reaction.date,
+			associatedMessageGuid: `p:${reaction.partIndex ?? 0}/${target.guid}`,
+			associatedMessageType: index + (reaction.remove ? 3000 : 2000),
+			associatedMessageEmoji: reaction.emoji ?? null,
+		});
+	}
+
+	/**
+	 * Add a group event row and apply it to the chat's participants and name,
+	 * as Messages.app does
+	 */
+	addGroupEvent(event: FixtureGroupEvent): this {
+		const chatId = this.chatRowId(event.chat);
+		const guid = event.guid ?? randomUUID().toUpperCase();
+		const actorId =
+			event.actor !== undefined ? this.handleRowId(event.actor) : 0;
+		const targetId =
+			event.target !== undefined ? this.handleRowId(event.target) : 0;
+
+		let itemType: number;
+		let groupActionType = 0;
+		switch (event.type) {
+			case "participantAdded":
+				itemType = 1;
+				break;
+			case "participantRemoved":
+				// Leaving is recorded differently from being removed
+				itemType = event.target !== undefined ? 1 : 3;
+				groupActionType = event.target !== undefined ? 1 : 0;
+				break;
+			case "renamed":
+				itemType = 2;
+				break;
+			case "groupPhotoChanged":
+				itemType = 3;
+				groupActionType = event.photoRemoved ? 2 : 1;
+				break;
+		}
+
+		this.addMessage({
+			guid,
+			chat: event.chat,
+			handle: event.actor,
+			isFromMe: event.isFromMe,
+			date: event.date,
+		});
+		this.db
+			.prepare(
+				`UPDATE message
+         SET item_type = ?, group_action_type = ?, other_handle = ?, group_title = ?
+         WHERE guid = ?`,
+			)
+			.run(itemType, groupActionType, targetId, event.name ?? null, guid);
+
+		const memberId = event.target !== undefined ? targetId : actorId;
+		if (event.type === "participantAdded") {
+			this.db
+				.prepare(
+					"INSERT OR IGNORE INTO chat_handle_join (chat_id, handle_id) VALUES (?, ?)",
+				)
+				.run(chatId, targetId);
+		} else if (event.type === "participantRemoved" && memberId) {
+			this.db
+				.prepare(
+					"DELETE FROM chat_handle_join WHERE chat_id = ? AND handle_id = ?",
+				)
+				.run(chatId, memberId);
+		} else if (event.type === "renamed") {
+			this.db
+				.prepare("UPDATE chat SET display_name = ? WHERE ROWID = ?")
+				.run(event.name ?? null, chatId);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Add an attachment and link it to its message
+	 */
+	addAttachment(attachment: FixtureAttachment): this {
+		const messageId = this.messageRowId(attachment.message);
+		const createdDate = attachment.createdDate ?? new Date(this.nextDate);
+
+		const attachmentId = this.insert("attachment", {
+			guid: attachment.guid ?? randomUUID().toUpperCase(),
+			// attachment.created_date is stored in seconds, not nanoseconds
+			created_date: Math.floor(dateToAppleTime(createdDate) / 1_000_000_000),
+			filename: attachment.filename ?? null,
+			uti: attachment.uti ?? null,
+			mime_type: attachment.mimeType ?? null,
+			transfer_state: 5,
+			is_outgoing: attachment.isOutgoing ? 1 : 0,
+			transfer_name:
+				attachment.transferName ??
+				(attachment.filename ? path.basename(attachment.filename) : null),
+			total_bytes: attachment.totalBytes ?? 0,
+			is_sticker: attachment.isSticker ? 1 : 0,
+			hide_attachment: attachment.hideAttachment ? 1 : 0,
+		});
+
+		this.insert("message_attachment_join", {
+			message_id: messageId,
+			attachment_id: attachmentId,
+		});
+		this.db
+			.prepare("UPDATE message SET cache_has_attachments = 1 WHERE ROWID = ?")
+			.run(messageId);
+
+		return this;
+	}
+
+	/**
+	 * Mark an existing message as read, as Messages.app does when it is seen
+	 * (received messages) or a read receipt arrives (sent messages)
+	 */
+	markRead(message: FixtureRef, date: Date = new Date(this.nextDate)): this {
+		this.db
+			.prepare("UPDATE message SET is_read = 1, date_read = ? WHERE ROWID = ?")
+			.run(this.appleTime(date), this.messageRowId(message));
+		return this;
+	}
+
+	/**
+	 * Edit an existing message, appending the new text to its edit history
+	 */
+	editMessage(
+		message: FixtureRef,
+		text: string,
+		date: Date = new Date(this.nextDate),
+	): this {
+		const messageId = this.messageRowId(message);
+		const row = this.db
+			.prepare(
+				"SELECT text, date, message_summary_info FROM message WHERE ROWID = ?",
+			)
+			.get(messageId) as {
+			text: string | null;
+			date: number;
+			message_summary_info: Buffer | null;
+		};
+		const previous =
+			parseMessageSummaryInfo(row.message_summary_info)?.edits ?? [];
+		const history =
+			previous.length > 0
+				? previous
+				: [{ text: row.text, date: appleTimeToDate(row.date) }];
+		const edits = [
+			...history.map((edit) => ({ text: edit.text ?? "", date: edit.date })),
+			{ text, date },
+		];
+
+		this.db
+			.prepare(
+				"UPDATE message SET text = ?, date_edited = ?, message_summary_info = ? WHERE ROWID = ?",
+			)
+			.run(
+				text,
+				this.appleTime(date),
+				encodeMessageSummaryInfo({ edits }),
+				messageId,
+			);
+		return this;
+	}
+
+	/**
+	 * Resolve a handle reference to its ROWID
+	 */
+	handleRowId(ref: FixtureRef): number {
+		return this.resolveRowId(
+			ref,
+			"SELECT ROWID FROM handle WHERE id = ? ORDER BY ROWID LIMIT 1",
+			"handle",
+		);
+	}
+
+	/**
+	 * Resolve a chat reference (chat_identifier or guid) to its ROWID
+	 */
+	chatRowId(ref: FixtureRef): number {
+		return this.resolveRowId(
+			ref,
+			"SELECT ROWID FROM chat WHERE ? IN (chat_identifier, guid) ORDER BY ROWID LIMIT 1",
+			"chat",
+		);
+	}
+
+	/**
+	 * Resolve a message reference (guid) to its ROWID
+	 */
+	messageRowId(ref: FixtureRef): number {
+		return this.resolveRowId(
+			ref,
+			"SELECT ROWID FROM message WHERE guid = ?",
+			"message",
+		);
+	}
+
+	/**
+	 * Close the fixture's own connection, leaving the file in place
+	 */
+	close(): void {
+		if (this.db.open) {
+			this.db.close();
+		}
+	}
+
+	/**
+	 * Close the connection and delete the temporary directory, if one was created
+	 */
+	cleanup(): void {
+		this.close();
+		if (this.tempDir) {
+			fs.rmSync(this.tempDir, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Converts a date to the database's timestamp unit
+	 */
+	private appleTime(date: Date): number {
+		return dateToAppleTime(date, this.timestampUnit);
+	}
+
+	/**
+	 * Insert a row from a column map, returning its ROWID
+	 */
+	private insert(table: string, values: Record<string, unknown>): number {
+		const entries = Object.entries(values).filter(
+			([column]) => table !== "message" || !this.missingColumns.has(column),
+		);
+		const columns = entries.map(([column]) => column);
+		const result = this.db
+			.prepare(
+				`INSERT INTO ${table} (${columns.join(", ")})
+         VALUES (${columns.map(() => "?").join(", ")})`,
+			)
+			.run(...entries.map(([, value]) => value));
+		return Number(result.lastInsertRowid);
+	}
+
+	private resolveRowId(ref: FixtureRef, query: string, kind: string): number {
+		if (typeof ref === "number") return ref;
+
+		const row = this.db.prepare(query).get(ref) as
+			| { ROWID: number }
+			| undefined;
+		if (!row) {
+			throw new Error(`Fixture ${kind} not found: ${ref}`);
+		}
+		return row.ROWID;
+	}
+}
+
+/**
+ * A span of attributedBody text and the attributes Messages.app attaches to it
+ */
+export interface FixtureTextRun {
+	text: string;
+	/**
+	 * Default: 0
+	 */
+	partIndex?: number;
+	mention?: string;
+	link?: string;
+	/**
+	 * Attachment GUID; the run text should be the U+FFFC placeholder
+	 */
+	attachmentGuid?: string;
+	bold?: boolean;
+	italic?: boolean;
+}
+
+/**
+ * Encodes a message's edit and unsend history as message_summary_info
+ */
+function encodeMessageSummaryInfo(message: FixtureMessage): Buffer | null {
+	if (!message.edits?.length && !message.dateRetracted) return null;
+
+	const editedContent: { [part: string]: PlistValue[] } = {};
+	for (const edit of message.edits ?? []) {
+		const part = String(edit.partIndex ?? 0);
+		editedContent[part] = [
+			...(editedContent[part] ?? []),
+			{
+				d: (edit.date.getTime() - Date.UTC(2001, 0, 1)) / 1000,
+				t: encodeAttributedBody(edit.text),
+			},
+		];
+	}
+
+	return encodeBinaryPlist({
+		ec: editedContent,
+		rp: message.dateRetracted ? [0] : [],
+	});
+}
+
+function balloonBundleId(message: FixtureMessage): string | null {
+	if (message.linkPreview) return URL_BALLOON_BUNDLE_ID;
+	if (message.app) {
+		return `${APP_EXTENSION_BALLOON_PREFIX}${message.app.teamId ?? "0000000000"}:${message.app.appId}`;
+	}
+	return null;
+}
+
+/**
+ * Archives a message's link metadata or app layout as payload_data
+ */
+function encodeBalloonPayload(message: FixtureMessage): Buffer | null {
+	const preview = message.linkPreview;
+	if (preview) {
+		const url = archivedUrl(preview.url);
+		return encodeKeyedArchive({
+			richLinkMetadata: new ArchivedObject(["LPLinkMetadata", "NSObject"], {
+				version: 1,
+				URL: url,
+				originalURL: url,
+				title: preview.title ?? null,
+				summary: preview.summary ?? null,
+				siteName: preview.siteName ?? null,
+			}),
+			richLinkIsPlaceholder: false,
+		});
+	}
+
+	const app = message.app;
+	if (app) {
+		const userInfo: { [key: string]: ArchiveValue } = {};
+		if (app.caption) userInfo.caption = app.caption;
+		if (app.subcaption) userInfo.subcaption = app.subcaption;
+		return encodeKeyedArchive({
+			an: app.appName ?? null,
+			URL: app.url ? archivedUrl(app.url) : null,
+			userInfo,
+			ldtext: app.caption ?? null,
+		});
+	}
+
+	return null;
+}
+
+/**
+ * Any value encodeKeyedArchive can archive. Plain objects are archived as
+ * NSDictionary, arrays as NSArray and Dates as NSDate.
+ */
+export type ArchiveValue =
+	| null
+	| boolean
+	| number
+	| string
+	| Date
+	| Buffer
+	| ArchivedObject
+	| ArchiveValue[]
+	| { [key: string]: ArchiveValue };
+
+/**
+ * An object of a given class with keyed fields, e.g. an LPLinkMetadata
+ */
+export class ArchivedObject {
+	/**
+	 * @param classes Class hierarchy, most derived first
+	 */
+	constructor(
+		readonly classes: string[],
+		readonly fields: { [key: string]: ArchiveValue },
+	) {}
+}
+
+/**
+ * An NSURL, as archived by NSKeyedArchiver
+ */
+export function archivedUrl(url: string): ArchivedObject {
+	return new ArchivedObject(["NSURL", "NSObject"], {
+		"NS.base": null,
+		"NS.relative": url,
+	});
+}
+
+/**
+ * Encodes a value as an NSKeyedArchiver archive with the value at "root",
+ * the format of payload_data
+ */
+export function encodeKeyedArchive(root: ArchiveValue): Buffer {
+	const objects: PlistValue[] = ["$null"];
+	const classes = new Map<string, number>();
+
+	const classRef = (hierarchy: string[]): PlistUid => {
+		const key = hierarchy.join(",");
+		let uid = classes.get(key);
+		if (uid === undefined) {
+			uid =
+				objects.push({ $classname: hierarchy[0] ?? "", $classes: hierarchy }) -
+				1;
+			classes.set(key, uid);
+		}
+		return new PlistUid(uid);
+	};
+
+	// Numbers and booleans are stored inline in an object's fields, everything
+	// else by reference
+	const field = (value: ArchiveValue): PlistValue =>
+		typeof value === "number" || typeof value === "boolean"
+			? value
+			: ref(value);
+
+	const ref = (value: ArchiveValue): PlistUid => {
+		if (value === null) return new PlistUid(0);
+
+		const uid = objects.push(null) - 1;
+		if (value instanceof ArchivedObject) {
+			const fields: { [key: string]: PlistValue } = {};
+			for (const [key, item] of Object.entries(value.fields)) {
+				fields[key] = field(item);
+			}
+			objects[uid] = { ...fields, $class: classRef(value.classes) };
+		} else if (value instanceof Date) {
+			objects[uid] = {
+				"NS.time": (value.getTime() - Date.UTC(2001, 0, 1)) / 1000,
+				$class: classRef(["NSDate", "NSObject"]),
+			};
+		} else if (Array.isArray(value)) {
+			objects[uid] = {
+				"NS.objects": value.map(ref),
+				$class: classRef(["NSArray", "NSObject"]),
+			};
+		} else if (typeof value === "object" && !Buffer.isBuffer(value)) {
+			const entries = Object.entries(value);
+			objects[uid] = {
+				"NS.keys": entries.map(([key]) => ref(key)),
+				"NS.objects": entries.map(([, item]) => ref(item)),
+				$class: classRef(["NSDictionary", "NSObject"]),
+			};
+		} else {
+			objects[uid] = value;
+		}
+		return new PlistUid(uid);
+	};
+
+	const top = ref(root);
+	return encodeBinaryPlist({
+		$version: 100000,
+		$archiver: "NSKeyedArchiver",
+		$top: { root: top },
+		$objects: objects,
+	});
+}
+
+/**
+ * Encodes text as an NSAttributedString typedstream, the format Messages.app
+ * writes to message.attributedBody
+ */
+export function encodeAttributedBody(
+	content: string | FixtureTextRun[],
+): Buffer {
+	const runs = typeof content === "string" ? [{ text: content }] : content;
+	const text = runs.map((run) => run.text).join("");
+	const writer = new TypedStreamWriter();
+	const dictionaries: string[] = [];
+
+	writer.writeObject(["NSAttributedString", 0], () => {
+		writer.writeNSString(text);
+
+		for (const run of runs) {
+			const attributes: [string, string | number][] = [
+				["__kIMMessagePartAttributeName", run.partIndex ?? 0],
+			];
+			if (run.mention) {
+				attributes.push(["__kIMMentionConfirmedMention", run.mention]);
+			}
+			if (run.link) attributes.push(["__kIMLinkAttributeName", run.link]);
+			if (run.attachmentGuid) {
+				attributes.push([
+					"__kIMFileTransferGUIDAttributeName",
+					run.attachmentGuid,
+				]);
+			}
+			if (run.bold) attributes.push(["__kIMTextBoldAttributeName", 1]);
+			if (run.italic) attributes.push(["__kIMTextItalicAttributeName", 1]);
+
+			// Runs with identical attributes share one archived dictionary
+			const key = JSON.stringify(attributes);
+			const existing = dictionaries.indexOf(key);
+			// Run lengths are in UTF-16 code units, like NSString
+			writer.writeTypedIntegers("iI", [
+				(existing >= 0 ? existing : dictionaries.length) + 1,
+				run.text.length,
+			]);
+			if (existing >= 0) continue;
+
+			dictionaries.push(key);
+			writer.writeObject(["NSDictionary", 0], () => {
+				writer.writeTypedIntegers("i", [attributes.length]);
+				for (const [name, value] of attributes) {
+					writer.writeNSString(name);
+					if (typeof value === "number") {
+						writer.writeNSNumber(value);
+					} else if (name === "__kIMLinkAttributeName") {
+						writer.writeObject(["NSURL", 0], () => {
+							writer.writeTypedIntegers("c", [0]);
+							writer.writeNSString(value);
+						});
+					} else {
+						writer.writeNSString(value);
+					}
+				}
+			});
+		}
+	});
+
+	return writer.toBuffer();
+}
+
+/**
+ * Minimal NSArchiver typedstream writer, covering what attributedBody needs
+ */
+class TypedStreamWriter {
+	private readonly chunks: number[] = [];
+	private readonly sharedStrings: string[] = [];
+	private readonly sharedClasses: string[] = [];
+	private objectCount = 0;
+
+	constructor() {
+		// Header: version 4, signature "streamtyped", system version 1000
+		this.chunks.push(0x04);
+		this.writeRawString("streamtyped");
+		this.writeInteger(1000);
+	}
+
+	/**
+	 * Write an "@" typed value: a new object with its class chain, followed by
+	 * the values written by `contents` and an end-of-object marker.
+	 * `classChain` alternates class names and versions, most derived first.
+	 */
+	writeObject(classChain: (string | number)[], contents: () => void): void {
+		this.writeSharedString("@");
+		this.chunks.push(0x84);
+		this.objectCount++;
+
+		for (let i = 0; i < classChain.length; i += 2) {
+			const name = classChain[i] as string;
+			const existing = this.sharedClasses.indexOf(name);
+			if (existing >= 0) {
+				this.writeReference(existing);
+				break;
+			}
+			this.chunks.push(0x84);
+			this.writeSharedString(name);
+			this.writeInteger(classChain[i + 1] as number);
+			this.sharedClasses[this.objectCount++] = name;
+			if (i + 2 >= classChain.length) {
+				this.writeObjectRoot();
+			}
+		}
+
+		contents();
+		this.chunks.push(0x86);
+	}
+
+	writeNSString(value: string): void {
+		this.writeObject(["NSString", 1], () => {
+			this.writeTypedBytes(Buffer.from(value, "utf8"));
+		});
+	}
+
+	writeNSNumber(value: number): void {
+		this.writeObject(["NSNumber", 0, "NSValue", 0], () => {
+			this.writeTypedCString("i");
+			this.writeTypedIntegers("i", [value]);
+		});
+	}
+
+	writeTypedBytes(bytes: Buffer): void {
+		this.writeSharedString("+");
+		this.writeInteger(bytes.length);
+		this.chunks.push(...bytes);
+	}
+
+	writeTypedCString(value: string): void {
+		this.writeSharedString("*");
+		this.writeSharedString(value);
+	}
+
+	writeTypedIntegers(encoding: string, values: number[]): void {
+		this.writeSharedString(encoding);
+		for (const value of values) {
+			this.writeInteger(value);
+		}
+	}
+
+	toBuffer(): Buffer {
+		return Buffer.from(this.chunks);
+	}
+
+	/**
+	 * Every class chain ends with NSObject followed by a nil superclass
+	 */
+	private writeObjectRoot(): void {
+		const existing = this.sharedClasses.indexOf("NSObject");
+		if (existing >= 0) {
+			this.writeReference(existing);
+			return;
+		}
+		this.chunks.push(0x84);
+		this.writeSharedString("NSObject");
+		this.writeInteger(0);
+		this.sharedClasses[this.objectCount++] = "NSObject";
+		this.chunks.push(0x85);
+	}
+
+	private writeSharedString(value: string): void {
+		const existing = this.sharedStrings.indexOf(value);
+		if (existing >= 0) {
+			this.writeReference(existing);
+			return;
+		}
+		this.chunks.push(0x84);
+		this.writeRawString(value);
+		this.sharedStrings.push(value);
+	}
+
+	private writeRawString(value: string): void {
+		const bytes = Buffer.from(value, "utf8");
+		this.writeInteger(bytes.length);
+		this.chunks.push(...bytes);
+	}
+
+	private writeReference(index: number): void {
+		// Reference numbers start at -110 (0x92)
+		this.writeInteger(index - 110);
+	}
+
+	private writeInteger(value: number): void {
+		if (value >= -110 && value <= 127) {
+			this.chunks.push(value & 0xff);
+		} else if (value >= -32768 && value <= 32767) {
+			this.chunks.push(0x81, value & 0xff, (value >> 8) & 0xff);
+		} else {
+			this.chunks.push(
+				0x82,
+				value & 0xff,
+				(value >> 8) & 0xff,
+				(value >> 16) & 0xff,
+				(value >>> 24) & 0xff,
+			);
+		}
+	}
+}
+
+/**
+ * Encodes a value as a "bplist00" binary property list, the format of
+ * message_summary_info and payload_data. Objects are not deduplicated.
+ */
+export function encodeBinaryPlist(value: PlistValue): Buffer {
+	const count = countPlistObjects(value);
+	const refSize = count < 0x100 ? 1 : count < 0x10000 ? 2 : 4;
+	const objects: Buffer[] = [];
+
+	const add = (item: PlistValue): number => {
+		const index = objects.length;
+		objects.push(Buffer.alloc(0));
+
+		if (Array.isArray(item)) {
+			const refs = item.map(add);
+			objects[index] = Buffer.concat([
+				plistMarker(0xa, refs.length),
+				plistRefs(refs, refSize),
+			]);
+		} else if (isPlistDictionary(item)) {
+			const entries = Object.entries(item);
+			const keys = entries.map(([key]) => add(key));
+			const values = entries.map(([, entry]) => add(entry));
+			objects[index] = Buffer.concat([
+				plistMarker(0xd, entries.length),
+				plistRefs([...keys, ...values], refSize),
+			]);
+		} else {
+			objects[index] = encodePlistScalar(item);
+		}
+		return index;
+	};
+	add(value);
+
+	const header = Buffer.from("bplist00", "latin1");
+	const offsets: number[] = [];
+	let position = header.length;
+	for (const object of objects) {
+		offsets.push(position);
+		position += object.length;
+	}
+
+	const offsetSize = position < 0x100 ? 1 : position < 0x10000 ? 2 : 4;
+	const trailer = Buffer.alloc(32);
+	trailer.writeUInt8(offsetSize, 6);
+	trailer.writeUInt8(refSize, 7);
+	trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+	trailer.writeBigUInt64BE(0n, 16);
+	trailer.writeBigUInt64BE(BigInt(position), 24);
+
+	return Buffer.concat([
+		header,
+		...objects,
+		plistRefs(offsets, offsetSize),
+		trailer,
+	]);
+}
+
+function countPlistObjects(value: PlistValue): number {
+	if (Array.isArray(value)) {
+		return value.reduce<number>(
+			(sum, item) => sum + countPlistObjects(item),
+			1,
+		);
+	}
+	if (isPlistDictionary(value)) {
+		return Object.values(value).reduce<number>(
+			(sum, item) => sum + 1 + countPlistObjects(item),
+			1,
+		);
+	}
+	return 1;
+}
+
+function encodePlistScalar(value: PlistValue): Buffer {
+	if (value === null) return Buffer.from([0x00]);
+	if (typeof value === "boolean") return Buffer.from([value ? 0x09 : 0x08]);
+	if (value instanceof PlistUid) {
+		return Buffer.from([0x83, ...uintBytes(value.uid, 4)]);
+	}
+	if (value instanceof Date) {
+		const date = Buffer.alloc(9);
+		date.writeUInt8(0x33, 0);
+		date.writeDoubleBE((value.getTime() - Date.UTC(2001, 0, 1)) / 1000, 1);
+		return date;
+	}
+	if (Buffer.isBuffer(value)) {
+		return Buffer.concat([plistMarker(0x4, value.length), value]);
+	}
+	if (typeof value === "number") {
+		if (Number.isInteger(value)) {
+			const integer = Buffer.alloc(9);
+			integer.writeUInt8(0x13, 0);
+			integer.writeBigInt64BE(BigInt(value), 1);
+			return integer;
+		}
+		const real = Buffer.alloc(9);
+		real.writeUInt8(0x23, 0);
+		real.writeDoubleBE(value, 1);
+		return real;
+	}
+	if (typeof value === "string") {
+		if (Buffer.byteLength(value, "utf8") === value.length) {
+			return Buffer.concat([
+				plistMarker(0x5, value.length),
+				Buffer.from(value, "latin1"),
+			]);
+		}
+		const utf16 = Buffer.from(value, "utf16le").swap16();
+		return Buffer.concat([plistMarker(0x6, utf16.length / 2), utf16]);
+	}
+	throw new Error("Unsupported property list value");
+}
+
+function plistMarker(type: number, length: number): Buffer {
+	if (length < 0x0f) return Buffer.from([(type << 4) | length]);
+	return Buffer.from([(type << 4) | 0x0f, 0x12, ...uintBytes(length, 4)]);
+}
+
+function plistRefs(refs: number[], size: number): Buffer {
+	return Buffer.from(refs.flatMap((ref) => uintBytes(ref, size)));
+}
+
+function uintBytes(value: number, size: number): number[] {
+	const bytes: number[] = [];
+	for (let i = size - 1; i >= 0; i--) {
+		bytes.push(Math.floor(value / 256 ** i) % 256);
+	}
+	return bytes;
+}
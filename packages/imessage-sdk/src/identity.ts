@@ -0,0 +1,224 @@
+/**
+ * Handle normalization and identity grouping
+ *
+ * One person usually has several handle rows: the same number on iMessage,
+ * SMS and RCS, stored with or without a country code, plus one or more email
+ * addresses. Phone numbers are normalized to E.164 (assuming a default region
+ * for national numbers) and emails are lowercased, so rows for the same
+ * address compare equal. Handles are then grouped into identities by
+ * normalized address, by handle.person_centric_id (set by macOS Ventura and
+ * later) and by address groups the caller knows about, e.g. from the address
+ * book.
+ */
+
+import type { Handle, Identity } from "./types";
+
+/**
+ * Default region for phone numbers written without a country code
+ */
+export const DEFAULT_REGION = "US";
+
+/**
+ * Country calling code and national trunk prefix by ISO 3166 region code
+ */
+const REGIONS: Record<string, { code: string; trunkPrefix: string | null }> = {
+	US: { code: "1", trunkPrefix: "1" },
+	CA: { code: "1", trunkPrefix: "1" },
+	GB: { code: "44", trunkPrefix: "0" },
+	IE: { code: "353", trunkPrefix: "0" },
+	FR: { code: "33", trunkPrefix: "0" },
+	DE: { code: "49", trunkPrefix: "0" },
+	NL: { code: "31", trunkPrefix: "0" },
+	BE: { code: "32", trunkPrefix: "0" },
+	CH: { code: "41", trunkPrefix: "0" },
+	AT: { code: "43", trunkPrefix: "0" },
+	ES: { code: "34", trunkPrefix: null },
+	PT: { code: "351", trunkPrefix: null },
+	// Italian numbers keep their leading 0
+	IT: { code: "39", trunkPrefix: null },
+	SE: { code: "46", trunkPrefix: "0" },
+	NO: { code: "47", trunkPrefix: null },
+	DK: { code: "45", trunkPrefix: null },
+	FI: { code: "358", trunkPrefix: "0" },
+	PL: { code: "48", trunkPrefix: null },
+	IL: { code: "972", trunkPrefix: "0" },
+	AE: { code: "971", trunkPrefix: "0" },
+	ZA: { code: "27", trunkPrefix: "0" },
+	IN: { code: "91", trunkPrefix: "0" },
+	CN: { code: "86", trunkPrefix: "0" },
+	HK: { code: "852", trunkPrefix: null },
+	SG: { code: "65", trunkPrefix: null },
+	JP: { code: "81", trunkPrefix: "0" },
+	KR: { code: "82", trunkPrefix: "0" },
+	AU: { code: "61", trunkPrefix: "0" },
+	NZ: { code: "64", trunkPrefix: "0" },
+	BR: { code: "55", trunkPrefix: "0" },
+	MX: { code: "52", trunkPrefix: null },
+};
+
+/**
+ * Digits in the shortest and longest E.164 numbers accepted, country code
+ * included. Shorter numbers are SMS short codes.
+ */
+const MIN_E164_DIGITS = 8;
+const MAX_E164_DIGITS = 15;
+
+/**
+ * Domains whose mailboxes ignore dots and "+tag" suffixes
+ */
+const GMAIL_DOMAINS = ["gmail.com", "googlemail.com"];
+
+/**
+ * Normalizes a phone number to E.164, e.g. "(555) 123-4567" to "+15551234567"
+ * @param defaultRegion ISO 3166 region assumed for numbers without a country
+ * code
+ * @returns null for short codes and anything that is not a phone number
+ * @throws Error if the region is not supported
+ */
+export function normalizePhoneNumber(
+	input: string,
+	defaultRegion: string = DEFAULT_REGION,
+): string | null {
+	const region = REGIONS[defaultRegion.toUpperCase()];
+	if (!region) throw new Error(`Unsupported region: ${defaultRegion}`);
+
+	const value = input.trim().replace(/^tel:/i, "");
+	if (!/^\+?[\d\s().\-/]+$/.test(value)) return null;
+
+	let digits = value.replace(/\D/g, "");
+	if (value.startsWith("+")) {
+		// Already international
+	} else if (digits.startsWith("00")) {
+		digits = digits.slice(2);
+	} else if (region.code === "1" && digits.startsWith("011")) {
+		digits = digits.slice(3);
+	} else if (region.code === "1") {
+		if (digits.length === 10) digits = `1${digits}`;
+		else if (!(digits.length === 11 && digits.startsWith("1"))) return null;
+	} else {
+		const national =
+			region.trunkPrefix && digits.startsWith(region.trunkPrefix)
+				? digits.slice(region.trunkPrefix.length)
+				: digits;
+		digits = region.code + national;
+	}
+
+	if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS) {
+		return null;
+	}
+	return `+${digits}`;
+}
+
+/**
+ * Canonicalizes an email address: trimmed and lowercased, and for Gmail
+ * without dots or a "+tag" in the mailbox
+ * @returns null if the input is not an email address
+ */
+export function canonicalizeEmail(input: string): string | null {
+	const value = input
+		.trim()
+		.replace(/^mailto:/i, "")
+		.toLowerCase();
+	const at = value.lastIndexOf("@");
+	if (at <= 0 || at === value.length - 1 || /\s/.test(value)) return null;
+
+	let mailbox = value.slice(0, at);
+	let domain = value.slice(at + 1);
+	if (GMAIL_DOMAINS.includes(domain)) {
+		mailbox = mailbox.split("+")[0]?.replace(/\./g, "") ?? mailbox;
+		domain = "gmail.com";
+	}
+	return `${mailbox}@${domain}`;
+}
+
+/**
+ * Normalizes a handle's phone number or email for comparison. Values that are
+ * neither, e.g. short codes or business chat IDs, are only trimmed and
+ * lowercased.
+ */
+export function normalizeAddress(
+	address: string,
+	defaultRegion: string = DEFAULT_REGION,
+): string {
+	const normalized = address.includes("@")
+		? canonicalizeEmail(address)
+		: normalizePhoneNumber(address, defaultRegion);
+	return normalized ?? address.trim().toLowerCase();
+}
+
+/**
+ * Groups handles into identities, one per person
+ * @param addressGroups Addresses known to belong to the same person
+ */
+export function buildIdentities(
+	handles: Handle[],
+	options: { defaultRegion?: string; addressGroups?: string[][] } = {},
+): Identity[] {
+	const region = options.defaultRegion ?? DEFAULT_REGION;
+	const parent = new Map<string, string>();
+	const find = (key: string): string => {
+		if (!parent.has(key)) {
+			parent.set(key, key);
+			return key;
+		}
+		let root = key;
+		while (parent.get(root) !== root) root = parent.get(root) as string;
+		parent.set(key, root);
+		return root;
+	};
+	const union = (a: string, b: string) => {
+		const rootA = find(a);
+		const rootB = find(b);
+		if (rootA !== rootB) parent.set(rootB, rootA);
+	};
+
+	const addressOf = new Map<number, string>();
+	for (const handle of handles) {
+		const address = normalizeAddress(handle.id, region);
+		addressOf.set(handle.ROWID, address);
+		find(`address:${address}`);
+		if (handle.person_centric_id) {
+			union(`address:${address}`, `person:${handle.person_centric_id}`);
+		}
+	}
+	for (const group of options.addressGroups ?? []) {
+		const [first, ...rest] = group.map(
+			(address) => `address:${normalizeAddress(address, region)}`,
+		);
+		if (!first) continue;
+		for (const key of rest) union(first, key);
+	}
+
+	const groups = new Map<
+		string,
+		{ addresses: Set<string>; handles: Handle[] }
+	>();
+	for (const handle of handles) {
+		const address = addressOf.get(handle.ROWID) as string;
+		const root = find(`address:${address}`);
+		let group = groups.get(root);
+		if (!group) {
+			group = { addresses: new Set(), handles: [] };
+			groups.set(root, group);
+		}
+		group.addresses.add(address);
+		group.handles.push(handle);
+	}
+
+	return [...groups.values()]
+		.map(({ addresses, handles }) => {
+			const sorted = [...addresses].sort(compareAddresses);
+			return { id: sorted[0] as string, addresses: sorted, handles };
+		})
+		.sort((a, b) => compareAddresses(a.id, b.id));
+}
+
+/**
+ * Phone numbers before emails, then alphabetical
+ */
+function compareAddresses(a: string, b: string): number {
+	const aIsEmail = a.includes("@");
+	const bIsEmail = b.includes("@");
+	if (aIsEmail !== bIsEmail) return aIsEmail ? 1 : -1;
+	return a < b ? -1 : a > b ? 1 : 0;
+}
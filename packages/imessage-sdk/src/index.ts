@@ -26,6 +26,29 @@
  * ```
  */
 
+export * from "./analytics";
+export * from "./attachments";
+export * from "./balloons";
+export * from "./chat-events";
 export { IMessageClient } from "./client";
+export * from "./context";
+export * from "./delivery";
+export * from "./edits";
+export * from "./export";
+export * from "./identity";
+export * from "./keyed-archive";
+export * from "./pagination";
+export * from "./plist";
+export * from "./query";
+export * from "./reactions";
+export * from "./relevance";
+export * from "./schema";
+export * from "./search-index";
+export * from "./sessions";
+export * from "./sql-functions";
+export * from "./typedstream";
 export * from "./types";
 export * from "./utils";
+export { IMessageViewClient } from "./view-client";
+export * from "./views";
+export * from "./watcher";
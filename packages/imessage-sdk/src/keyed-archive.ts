@@ -0,0 +1,192 @@
+/**
+ * NSKeyedArchiver decoder
+ *
+ * Keyed archives are binary property lists whose "$objects" array holds every
+ * archived object, with references between them stored as CF$UID values and
+ * the root referenced from "$top". Each object names its class through a
+ * "$class" reference to a { $classname, $classes } entry. Messages.app
+ * archives balloon payloads (payload_data) this way.
+ */
+
+import {
+	isPlistDictionary,
+	PlistUid,
+	type PlistValue,
+	tryParseBinaryPlist,
+} from "./plist";
+
+/**
+ * Apple epoch (2001-01-01) in Unix milliseconds
+ */
+const APPLE_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+/**
+ * Decodes a keyed archive from its binary property list
+ * @returns null when the buffer is empty, not a property list or not a
+ * keyed archive
+ */
+export function decodeKeyedArchive(
+	buffer: Buffer | null | undefined,
+): PlistValue | null {
+	const archive = tryParseBinaryPlist(buffer);
+	if (archive === null) return null;
+
+	try {
+		return unarchive(archive);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Resolves a parsed keyed archive into plain values: dictionaries, arrays,
+ * strings (NSString, NSURL, NSUUID), Buffers (NSData) and Dates (NSDate).
+ * Objects of other classes become dictionaries of their decoded fields with
+ * the class name under "$class".
+ * @throws Error if the value is not a keyed archive
+ */
+export function unarchive(archive: PlistValue): PlistValue {
+	if (
+		!isPlistDictionary(archive) ||
+		!Array.isArray(archive.$objects) ||
+		!isPlistDictionary(archive.$top)
+	) {
+		throw new Error("Not a keyed archive");
+	}
+
+	const unarchiver = new KeyedUnarchiver(archive.$objects);
+	const top = archive.$top;
+	// Archives written with archivedDataWithRootObject: keep the object at
+	// "root"; others name their top-level keys freely
+	if ("root" in top) return unarchiver.decode(top.root as PlistValue);
+	return unarchiver.decode(top);
+}
+
+class KeyedUnarchiver {
+	private readonly decoded = new Map<number, PlistValue>();
+	private readonly decoding = new Set<number>();
+
+	constructor(private readonly objects: PlistValue[]) {}
+
+	decode(value: PlistValue): PlistValue {
+		if (value instanceof PlistUid) return this.decodeObject(value.uid);
+		if (Array.isArray(value)) return value.map((item) => this.decode(item));
+		if (isPlistDictionary(value)) {
+			const dictionary: { [key: string]: PlistValue } = {};
+			for (const [key, item] of Object.entries(value)) {
+				dictionary[key] = this.decode(item);
+			}
+			return dictionary;
+		}
+		return value;
+	}
+
+	private decodeObject(uid: number): PlistValue {
+		const cached = this.decoded.get(uid);
+		if (cached !== undefined) return cached;
+		// A cycle back to an object being decoded is cut rather than followed
+		if (this.decoding.has(uid)) return null;
+
+		const object = this.objects[uid];
+		if (object === undefined) {
+			throw new Error(`Invalid object reference in keyed archive: ${uid}`);
+		}
+
+		this.decoding.add(uid);
+		try {
+			const value = this.decodeArchivedObject(object);
+			this.decoded.set(uid, value);
+			return value;
+		} finally {
+			this.decoding.delete(uid);
+		}
+	}
+
+	private decodeArchivedObject(object: PlistValue): PlistValue {
+		if (object === "$null") return null;
+		if (!isPlistDictionary(object) || !(object.$class instanceof PlistUid)) {
+			return object;
+		}
+
+		const classes = this.classNames(object.$class);
+		// Some archivers list only the mutable subclass, not its parent
+		const is = (name: string) =>
+			classes.includes(name) ||
+			classes.includes(name.replace(/^NS/, "NSMutable"));
+		const field = (key: string) => this.decode(object[key] ?? null);
+
+		if (is("NSDictionary")) {
+			const keys = field("NS.keys");
+			const values = field("NS.objects");
+			const dictionary: { [key: string]: PlistValue } = {};
+			if (Array.isArray(keys) && Array.isArray(values)) {
+				keys.forEach((key, i) => {
+					dictionary[String(key)] = values[i] ?? null;
+				});
+			}
+			return dictionary;
+		}
+		if (is("NSArray") || is("NSSet") || is("NSOrderedSet")) {
+			const items = field("NS.objects");
+			return Array.isArray(items) ? items : [];
+		}
+		if (is("NSURL")) {
+			const base = field("NS.base");
+			const relative = field("NS.relative");
+			if (typeof relative !== "string") return null;
+			if (typeof base !== "string") return relative;
+			try {
+				return new URL(relative, base).href;
+			} catch {
+				return relative;
+			}
+		}
+		if (is("NSDate")) {
+			const time = field("NS.time");
+			return typeof time === "number"
+				? new Date(APPLE_EPOCH_MS + time * 1000)
+				: null;
+		}
+		if (is("NSUUID")) {
+			const bytes = field("NS.uuidbytes");
+			return Buffer.isBuffer(bytes) ? formatUuid(bytes) : null;
+		}
+		if (is("NSNull")) return null;
+		if ("NS.string" in object) return field("NS.string");
+		if ("NS.bytes" in object) return field("NS.bytes");
+		if ("NS.data" in object) return field("NS.data");
+
+		const fields: { [key: string]: PlistValue } = {
+			$class: classes[0] ?? null,
+		};
+		for (const key of Object.keys(object)) {
+			if (key !== "$class") fields[key] = field(key);
+		}
+		return fields;
+	}
+
+	/**
+	 * Class hierarchy of an archived object, most derived first
+	 */
+	private classNames(ref: PlistUid): string[] {
+		const entry = this.objects[ref.uid];
+		if (!isPlistDictionary(entry)) return [];
+		if (Array.isArray(entry.$classes)) {
+			return entry.$classes.filter(
+				(name): name is string => typeof name === "string",
+			);
+		}
+		return typeof entry.$classname === "string" ? [entry.$classname] : [];
+	}
+}
+
+function formatUuid(bytes: Buffer): string {
+	const hex = bytes.toString("hex").toUpperCase();
+	return [
+		hex.slice(0, 8),
+		hex.slice(8, 12),
+		hex.slice(12, 16),
+		hex.slice(16, 20),
+		hex.slice(20),
+	].join("-");
+}
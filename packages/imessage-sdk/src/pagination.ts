@@ -0,0 +1,217 @@
+/**
+ * Keyset (cursor) pagination helpers
+ *
+ * Pages are ordered newest first by a (date, ROWID) key. A cursor records the
+ * key of the row at the edge of a page and which side of it the next page
+ * lies on, so paging is unaffected by rows inserted in between and never
+ * scans skipped rows like a deep OFFSET does.
+ *
+ * Keys compare the bare date column, so SQLite walks the date index instead
+ * of sorting the table on every page. Rows without a date rank below every
+ * other row, as NULL does in SQLite, and are fetched as a separate segment.
+ */
+
+import type { Page } from "./types";
+
+/**
+ * What a cursor pages through; cursors from one listing are rejected by
+ * another
+ */
+export type PageKind = "messages" | "chats" | "recent-chats";
+
+/**
+ * Decoded page cursor
+ */
+export interface PageCursor {
+	kind: PageKind;
+	/**
+	 * "after" continues to older rows, "before" goes back to newer ones
+	 */
+	direction: "after" | "before";
+	/**
+	 * Date of the edge row, as a decimal string to keep full precision, or
+	 * null for a row without a date
+	 */
+	date: string | null;
+	rowId: number;
+}
+
+/**
+ * Row columns a page's edge keys are read from
+ */
+export interface KeysetRow {
+	page_date: string | null;
+	ROWID: number;
+}
+
+/**
+ * Serializes a cursor to an opaque URL-safe string
+ */
+export function encodePageCursor(cursor: PageCursor): string {
+	return Buffer.from(
+		JSON.stringify([cursor.kind, cursor.direction, cursor.date, cursor.rowId]),
+	).toString("base64url");
+}
+
+/**
+ * Parses a cursor, checking it belongs to the listing being paged
+ * @throws Error if the cursor is malformed or from another listing
+ */
+export function decodePageCursor(value: string, kind: PageKind): PageCursor {
+	let decoded: unknown;
+	try {
+		decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+	} catch {
+		decoded = null;
+	}
+
+	if (
+		!Array.isArray(decoded) ||
+		decoded[0] !== kind ||
+		(decoded[1] !== "after" && decoded[1] !== "before") ||
+		(decoded[2] !== null &&
+			(typeof decoded[2] !== "string" || !/^-?\d+$/.test(decoded[2]))) ||
+		!Number.isInteger(decoded[3])
+	) {
+		throw new Error(`Invalid ${kind} page cursor`);
+	}
+
+	return {
+		kind,
+		direction: decoded[1],
+		date: decoded[2],
+		rowId: decoded[3],
+	};
+}
+
+/**
+ * Condition (starting with AND) selecting part of the rows past a cursor
+ */
+export interface KeysetSegment {
+	condition: string;
+	params: unknown[];
+}
+
+/**
+ * Ordering for the rows past a cursor, and the segments to read them from in
+ * that order: rows with a date and rows without one
+ */
+export interface Keyset {
+	orderBy: string;
+	segments: KeysetSegment[];
+}
+
+/**
+ * SQL conditions and ordering for the rows past a cursor
+ * @param dateSql Expression for the row's date
+ * @param rowIdSql Expression for the row's ROWID
+ */
+export function keysetClause(
+	cursor: PageCursor | null,
+	dateSql: string,
+	rowIdSql: string,
+): Keyset {
+	const key = `(${dateSql}, ${rowIdSql})`;
+	const dated = (condition: string, params: unknown[] = []) => ({
+		condition,
+		params,
+	});
+	const undated = (rowIdCondition = "", params: unknown[] = []) => ({
+		condition: ` AND ${dateSql} IS NULL${rowIdCondition}`,
+		params,
+	});
+
+	if (cursor?.direction === "before") {
+		return {
+			orderBy: ` ORDER BY ${dateSql} ASC, ${rowIdSql} ASC`,
+			segments:
+				cursor.date === null
+					? [
+							undated(` AND ${rowIdSql} > ?`, [cursor.rowId]),
+							dated(` AND ${dateSql} IS NOT NULL`),
+						]
+					: [
+							dated(` AND ${key} > (?, ?)`, [
+								BigInt(cursor.date),
+								cursor.rowId,
+							]),
+						],
+		};
+	}
+
+	let segments: KeysetSegment[];
+	if (!cursor) {
+		segments = [dated(` AND ${dateSql} IS NOT NULL`), undated()];
+	} else if (cursor.date === null) {
+		segments = [undated(` AND ${rowIdSql} < ?`, [cursor.rowId])];
+	} else {
+		segments = [
+			dated(` AND ${key} < (?, ?)`, [BigInt(cursor.date), cursor.rowId]),
+			undated(),
+		];
+	}
+	return {
+		orderBy: ` ORDER BY ${dateSql} DESC, ${rowIdSql} DESC`,
+		segments,
+	};
+}
+
+/**
+ * Reads up to `limit` rows past a cursor, one segment after another
+ * @param fetch Runs the query for one segment
+ */
+export function fetchKeyset<TRow>(
+	keyset: Keyset,
+	limit: number,
+	fetch: (segment: KeysetSegment, limit: number) => TRow[],
+): TRow[] {
+	const rows: TRow[] = [];
+	for (const segment of keyset.segments) {
+		if (rows.length >= limit) break;
+		rows.push(...fetch(segment, limit - rows.length));
+	}
+	return rows;
+}
+
+/**
+ * Turns rows fetched with limit + 1 into a page with cursors on both sides
+ */
+export function buildPage<TRow extends KeysetRow, TItem>(
+	rows: TRow[],
+	limit: number,
+	cursor: PageCursor | null,
+	kind: PageKind,
+	toItems: (rows: TRow[]) => TItem[],
+): Page<TItem> {
+	const hasMore = rows.length > limit;
+	const pageRows = rows.slice(0, limit);
+	if (cursor?.direction === "before") pageRows.reverse();
+
+	const edge = (
+		row: TRow | undefined,
+		direction: PageCursor["direction"],
+	): string | null => {
+		if (row) {
+			return encodePageCursor({
+				kind,
+				direction,
+				date: row.page_date,
+				rowId: row.ROWID,
+			});
+		}
+		// An empty page past a cursor can still lead back to the cursor's side
+		return cursor ? encodePageCursor({ ...cursor, direction }) : null;
+	};
+
+	const backwards = cursor?.direction === "before";
+	const olderExists = backwards ? cursor !== null : hasMore;
+	const newerExists = backwards ? hasMore : cursor !== null;
+
+	return {
+		items: toItems(pageRows),
+		nextCursor: olderExists
+			? edge(pageRows[pageRows.length - 1], "after")
+			: null,
+		prevCursor: newerExists ? edge(pageRows[0], "before") : null,
+	};
+}
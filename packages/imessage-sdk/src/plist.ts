@@ -0,0 +1,243 @@
+/**
+ * Binary property list decoder
+ *
+ * Several chat.db columns (message_summary_info, payload_data, chat
+ * properties) hold "bplist00" binary property lists. The format is an object
+ * table addressed through an offset table, with a trailer at the end of the
+ * buffer describing the sizes of offsets and object references.
+ */
+
+/**
+ * Apple epoch (2001-01-01) in Unix milliseconds
+ */
+const APPLE_EPOCH_MS = Date.UTC(2001, 0, 1);
+
+const HEADER = "bplist00";
+const TRAILER_LENGTH = 32;
+
+/**
+ * A keyed-archiver object reference (CF$UID)
+ */
+export class PlistUid {
+	constructor(readonly uid: number) {}
+}
+
+/**
+ * Any value that can appear in a property list
+ */
+export type PlistValue =
+	| null
+	| boolean
+	| number
+	| string
+	| Date
+	| Buffer
+	| PlistUid
+	| PlistValue[]
+	| { [key: string]: PlistValue };
+
+/**
+ * Decodes a binary property list
+ * @throws Error if the buffer is not a well-formed bplist00
+ */
+export function parseBinaryPlist(buffer: Buffer): PlistValue {
+	return new BinaryPlistReader(buffer).readRoot();
+}
+
+/**
+ * Decodes a binary property list, returning null instead of throwing
+ */
+export function tryParseBinaryPlist(
+	buffer: Buffer | null | undefined,
+): PlistValue | null {
+	if (!buffer || buffer.length === 0) return null;
+
+	try {
+		return parseBinaryPlist(buffer);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether a property list value is a dictionary
+ */
+export function isPlistDictionary(
+	value: PlistValue | undefined,
+): value is { [key: string]: PlistValue } {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!Buffer.isBuffer(value) &&
+		!(value instanceof Date) &&
+		!(value instanceof PlistUid)
+	);
+}
+
+class BinaryPlistReader {
+	private readonly offsets: number[];
+	private readonly offsetSize: number;
+	private readonly refSize: number;
+	private readonly topObject: number;
+	private readonly visiting = new Set<number>();
+
+	constructor(private readonly buffer: Buffer) {
+		if (
+			buffer.length < HEADER.length + TRAILER_LENGTH ||
+			buffer.toString("latin1", 0, HEADER.length) !== HEADER
+		) {
+			throw new Error("Not a binary property list");
+		}
+
+		const trailer = buffer.length - TRAILER_LENGTH;
+		this.offsetSize = buffer.readUInt8(trailer + 6);
+		this.refSize = buffer.readUInt8(trailer + 7);
+		const objectCount = Number(buffer.readBigUInt64BE(trailer + 8));
+		this.topObject = Number(buffer.readBigUInt64BE(trailer + 16));
+		const tableOffset = Number(buffer.readBigUInt64BE(trailer + 24));
+
+		if (
+			this.offsetSize < 1 ||
+			this.refSize < 1 ||
+			tableOffset + objectCount * this.offsetSize > trailer ||
+			this.topObject >= objectCount
+		) {
+			throw new Error("Malformed binary property list trailer");
+		}
+
+		this.offsets = [];
+		for (let i = 0; i < objectCount; i++) {
+			this.offsets.push(
+				this.readUInt(tableOffset + i * this.offsetSize, this.offsetSize),
+			);
+		}
+	}
+
+	readRoot(): PlistValue {
+		return this.readObject(this.topObject);
+	}
+
+	private readObject(index: number): PlistValue {
+		const offset = this.offsets[index];
+		if (offset === undefined || offset >= this.buffer.length) {
+			throw new Error(`Invalid object reference in property list: ${index}`);
+		}
+		if (this.visiting.has(index)) {
+			throw new Error("Cyclic object reference in property list");
+		}
+
+		this.visiting.add(index);
+		try {
+			return this.readObjectAt(offset);
+		} finally {
+			this.visiting.delete(index);
+		}
+	}
+
+	private readObjectAt(offset: number): PlistValue {
+		const marker = this.buffer.readUInt8(offset);
+		const type = marker >> 4;
+		const info = marker & 0x0f;
+
+		switch (type) {
+			case 0x0:
+				if (info === 0x8) return false;
+				if (info === 0x9) return true;
+				return null;
+			case 0x1:
+				return this.readInteger(offset + 1, 1 << info);
+			case 0x2:
+				return this.readReal(offset + 1, 1 << info);
+			case 0x3:
+				return new Date(APPLE_EPOCH_MS + this.readReal(offset + 1, 8) * 1000);
+			case 0x4: {
+				const [length, start] = this.readLength(offset, info);
+				return Buffer.from(this.slice(start, length));
+			}
+			case 0x5: {
+				const [length, start] = this.readLength(offset, info);
+				return this.slice(start, length).toString("latin1");
+			}
+			case 0x6: {
+				const [length, start] = this.readLength(offset, info);
+				const bytes = Buffer.from(this.slice(start, length * 2));
+				return bytes.swap16().toString("utf16le");
+			}
+			case 0x8:
+				return new PlistUid(this.readUInt(offset + 1, info + 1));
+			case 0xa:
+			case 0xc: {
+				const [length, start] = this.readLength(offset, info);
+				return this.readRefs(start, length).map((ref) => this.readObject(ref));
+			}
+			case 0xd: {
+				const [length, start] = this.readLength(offset, info);
+				const keys = this.readRefs(start, length);
+				const values = this.readRefs(start + length * this.refSize, length);
+				const dictionary: { [key: string]: PlistValue } = {};
+				keys.forEach((keyRef, i) => {
+					const key = this.readObject(keyRef);
+					dictionary[String(key)] = this.readObject(values[i] as number);
+				});
+				return dictionary;
+			}
+			default:
+				throw new Error(
+					`Unsupported property list object type: 0x${marker.toString(16)}`,
+				);
+		}
+	}
+
+	/**
+	 * Reads a collection or string length, which overflows into a following
+	 * integer object when the marker's low nibble is 0xF
+	 */
+	private readLength(offset: number, info: number): [number, number] {
+		if (info !== 0x0f) return [info, offset + 1];
+
+		const marker = this.buffer.readUInt8(offset + 1);
+		if (marker >> 4 !== 0x1) {
+			throw new Error("Malformed length in property list");
+		}
+		const size = 1 << (marker & 0x0f);
+		return [this.readInteger(offset + 2, size), offset + 2 + size];
+	}
+
+	private readRefs(offset: number, count: number): number[] {
+		const refs: number[] = [];
+		for (let i = 0; i < count; i++) {
+			refs.push(this.readUInt(offset + i * this.refSize, this.refSize));
+		}
+		return refs;
+	}
+
+	private readInteger(offset: number, size: number): number {
+		this.slice(offset, size);
+		if (size === 8) return Number(this.buffer.readBigInt64BE(offset));
+		if (size === 16) return Number(this.buffer.readBigInt64BE(offset + 8));
+		return this.readUInt(offset, size);
+	}
+
+	private readReal(offset: number, size: number): number {
+		this.slice(offset, size);
+		if (size === 4) return this.buffer.readFloatBE(offset);
+		if (size === 8) return this.buffer.readDoubleBE(offset);
+		throw new Error(`Unsupported real size in property list: ${size}`);
+	}
+
+	private readUInt(offset: number, size: number): number {
+		let value = 0;
+		for (const byte of this.slice(offset, size)) {
+			value = value * 256 + byte;
+		}
+		return value;
+	}
+
+	private slice(offset: number, length: number): Buffer {
+		if (offset + length > this.buffer.length) {
+			throw new Error("Unexpected end of property list");
+		}
+		return this.buffer.subarray(offset, offset + length);
+	}
+}
@@ -0,0 +1,485 @@
+/**
+ * Composable message queries
+ *
+ * A query is a tree of MessageCondition objects (handles, chats, text,
+ * attachments, dates, ... combined with and/or/not) plus ordering and
+ * paging. Conditions are plain JSON and compile to parameterised SQL over the
+ * message table, so they can be built with MessageQuery's fluent methods, the
+ * condition helpers below, or passed in whole, e.g. from an MCP tool.
+ *
+ * @example
+ * ```typescript
+ * const messages = client
+ *   .query()
+ *   .from(["+15551234567", "john@example.com"])
+ *   .text("regex", "\\bdinner\\b")
+ *   .where(or(hasAttachment("image/*"), inChats([42])))
+ *   .orderBy("date", "asc")
+ *   .limit(20)
+ *   .all();
+ * ```
+ */
+
+import { editedCondition, retractedCondition } from "./edits";
+import { compileRegExp } from "./sql-functions";
+import type {
+	DatabaseCapabilities,
+	EnrichedMessage,
+	Handle,
+	MessageCondition,
+	MessageInclude,
+	MessageOrderField,
+	MessageQuerySpec,
+	TextMatch,
+} from "./types";
+
+/**
+ * SQL with its positional parameters
+ */
+export interface SqlFragment {
+	sql: string;
+	params: unknown[];
+}
+
+/**
+ * What compiling conditions needs from the client
+ */
+export interface ConditionContext {
+	capabilities: DatabaseCapabilities;
+	appleTime(date: Date): number;
+	/**
+	 * Condition matching a person's messages; see IMessageClient.getIdentity
+	 */
+	identityCondition(identityId: string, alias: string): SqlFragment;
+	/**
+	 * Called before a condition uses the functions in sql-functions
+	 */
+	enableSqlFunctions(): void;
+}
+
+/**
+ * Runs compiled queries for a MessageQuery
+ */
+export interface MessageQueryExecutor {
+	toSQL(spec: MessageQuerySpec): SqlFragment;
+	all(spec: MessageQuerySpec): EnrichedMessage[];
+	count(spec: MessageQuerySpec): number;
+}
+
+/**
+ * Messages sent by or to any of these handles, by ROWID, Handle or exact
+ * handle id
+ */
+export function fromHandles(
+	handles: number | string | Handle | (number | string | Handle)[],
+): MessageCondition {
+	const list = Array.isArray(handles) ? handles : [handles];
+	return {
+		type: "handle",
+		handles: list.map((handle) =>
+			typeof handle === "object" ? handle.ROWID : handle,
+		),
+	};
+}
+
+/**
+ * Messages in any of these chats
+ */
+export function inChats(chatIds: number | number[]): MessageCondition {
+	return {
+		type: "chat",
+		chatIds: Array.isArray(chatIds) ? chatIds : [chatIds],
+	};
+}
+
+/**
+ * Messages whose text contains, does not contain or matches a value.
+ * Matching ignores case unless `caseSensitive` is set.
+ */
+export function textMatches(
+	match: TextMatch,
+	value: string,
+	options: { caseSensitive?: boolean } = {},
+): MessageCondition {
+	return { type: "text", match, value, ...options };
+}
+
+/**
+ * Messages with an attachment, optionally of one of these MIME types
+ * ("image/*" style wildcards allowed)
+ */
+export function hasAttachment(...mimeTypes: string[]): MessageCondition {
+	return mimeTypes.length > 0
+		? { type: "attachment", mimeTypes }
+		: { type: "attachment" };
+}
+
+/**
+ * Messages sent between two dates, both inclusive
+ */
+export function sentBetween(
+	after: Date | string | undefined,
+	before?: Date | string,
+): MessageCondition {
+	return { type: "date", after, before };
+}
+
+/**
+ * Messages matching every condition
+ */
+export function and(...conditions: MessageCondition[]): MessageCondition {
+	return { type: "and", conditions };
+}
+
+/**
+ * Messages matching at least one condition
+ */
+export function or(...conditions: MessageCondition[]): MessageCondition {
+	return { type: "or", conditions };
+}
+
+/**
+ * Messages not matching a condition
+ */
+export function not(condition: MessageCondition): MessageCondition {
+	return { type: "not", condition };
+}
+
+/**
+ * Escapes a value for `LIKE ? ESCAPE '\'`
+ */
+function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Compiles a condition to a SQL expression over a message alias
+ * @throws Error for an unknown condition type, an invalid date or an
+ * invalid regular expression
+ */
+export function compileCondition(
+	condition: MessageCondition,
+	context: ConditionContext,
+	alias = "m",
+): SqlFragment {
+	switch (condition.type) {
+		case "handle": {
+			const ids = condition.handles.filter(
+				(handle): handle is number => typeof handle === "number",
+			);
+			const addresses = condition.handles.filter(
+				(handle): handle is string => typeof handle === "string",
+			);
+			return {
+				sql: `(${alias}.handle_id IN (SELECT value FROM json_each(?))
+          OR ${alias}.handle_id IN (
+            SELECT ROWID FROM handle WHERE id IN (SELECT value FROM json_each(?))
+          ))`,
+				params: [JSON.stringify(ids), JSON.stringify(addresses)],
+			};
+		}
+		case "chat":
+			return {
+				sql: `${alias}.ROWID IN (
+          SELECT message_id FROM chat_message_join
+          WHERE chat_id IN (SELECT value FROM json_each(?))
+        )`,
+				params: [JSON.stringify(condition.chatIds)],
+			};
+		case "identity": {
+			const parts = condition.identityIds.map((id) =>
+				context.identityCondition(id, alias),
+			);
+			return joinFragments(parts, "OR");
+		}
+		case "text":
+			return compileTextCondition(condition, context, alias);
+		case "attachment": {
+			const patterns = condition.mimeTypes ?? [];
+			const mimeCondition =
+				patterns.length > 0
+					? ` AND (${patterns.map(() => "a.mime_type LIKE ? ESCAPE '\\'").join(" OR ")})`
+					: "";
+			return {
+				sql: `EXISTS (
+          SELECT 1 FROM message_attachment_join maj
+          INNER JOIN attachment a ON a.ROWID = maj.attachment_id
+          WHERE maj.message_id = ${alias}.ROWID${mimeCondition}
+        )`,
+				params: patterns.map((pattern) =>
+					escapeLike(pattern.toLowerCase()).replace(/\*/g, "%"),
+				),
+			};
+		}
+		case "fromMe":
+			return { sql: `${alias}.is_from_me = 1`, params: [] };
+		case "service":
+			return {
+				sql: `${alias}.service IN (SELECT value FROM json_each(?))`,
+				params: [JSON.stringify(condition.services)],
+			};
+		case "date": {
+			const parts: SqlFragment[] = [];
+			if (condition.after !== undefined) {
+				parts.push({
+					sql: `${alias}.date >= ?`,
+					params: [context.appleTime(toDate(condition.after))],
+				});
+			}
+			if (condition.before !== undefined) {
+				parts.push({
+					sql: `${alias}.date <= ?`,
+					params: [context.appleTime(toDate(condition.before))],
+				});
+			}
+			return joinFragments(parts, "AND");
+		}
+		// Nothing was ever edited or unsent in a database without the columns
+		case "edited":
+			return {
+				sql: context.capabilities.hasEdits ? editedCondition(alias) : "0",
+				params: [],
+			};
+		case "unsent":
+			return {
+				sql: context.capabilities.hasEdits ? retractedCondition(alias) : "0",
+				params: [],
+			};
+		case "and":
+		case "or":
+			return joinFragments(
+				condition.conditions.map((child) =>
+					compileCondition(child, context, alias),
+				),
+				condition.type === "and" ? "AND" : "OR",
+			);
+		case "not": {
+			const inner = compileCondition(condition.condition, context, alias);
+			return { sql: `NOT (${inner.sql})`, params: inner.params };
+		}
+		default:
+			throw new Error(
+				`Unknown message condition type: ${(condition as { type?: unknown }).type}`,
+			);
+	}
+}
+
+function compileTextCondition(
+	condition: Extract<MessageCondition, { type: "text" }>,
+	context: ConditionContext,
+	alias: string,
+): SqlFragment {
+	// Most messages on modern macOS only have text in attributedBody.
+	// Messages without text neither contain nor match anything.
+	context.enableSqlFunctions();
+	const text = `COALESCE(message_text(${alias}.text, ${alias}.attributedBody), '')`;
+
+	if (condition.match === "regex") {
+		const pattern = condition.caseSensitive
+			? condition.value
+			: `(?i)${condition.value}`;
+		try {
+			compileRegExp(pattern);
+		} catch (error) {
+			throw new Error(
+				`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		return {
+			sql: `${text} REGEXP ?`,
+			params: [pattern],
+		};
+	}
+
+	// LIKE ignores ASCII case; instr() compares exactly
+	const contains = condition.caseSensitive
+		? { sql: `instr(${text}, ?) > 0`, params: [condition.value] }
+		: {
+				sql: `${text} LIKE ? ESCAPE '\\'`,
+				params: [`%${escapeLike(condition.value)}%`],
+			};
+	if (condition.match === "contains") return contains;
+	if (condition.match === "notContains") {
+		return { sql: `NOT (${contains.sql})`, params: contains.params };
+	}
+	throw new Error(`Unknown text match: ${condition.match}`);
+}
+
+/**
+ * Joins fragments with AND or OR. An empty AND matches everything and an
+ * empty OR nothing.
+ */
+function joinFragments(
+	parts: SqlFragment[],
+	operator: "AND" | "OR",
+): SqlFragment {
+	if (parts.length === 0) {
+		return { sql: operator === "AND" ? "1" : "0", params: [] };
+	}
+	return {
+		sql: `(${parts.map((part) => part.sql).join(` ${operator} `)})`,
+		params: parts.flatMap((part) => part.params),
+	};
+}
+
+function toDate(value: Date | string): Date {
+	const date = value instanceof Date ? value : new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid date in message condition: ${String(value)}`);
+	}
+	return date;
+}
+
+/**
+ * Fluent builder for message queries. Each filter method ANDs a condition
+ * onto the query; use where() with or()/not() for anything else.
+ */
+export class MessageQuery {
+	private readonly conditions: MessageCondition[] = [];
+	private spec: Omit<MessageQuerySpec, "where">;
+
+	constructor(
+		private readonly executor: MessageQueryExecutor,
+		initial: MessageQuerySpec = {},
+	) {
+		const { where, ...rest } = initial;
+		this.spec = rest;
+		if (where) this.conditions.push(where);
+	}
+
+	/**
+	 * Messages sent by (or, in one-on-one chats, to) any of these handles
+	 */
+	from(handles: number | string | Handle | (number | string | Handle)[]): this {
+		return this.where(fromHandles(handles));
+	}
+
+	/**
+	 * Messages of any of these people (see IMessageClient.getIdentities)
+	 */
+	fromPeople(identityIds: string | string[]): this {
+		return this.where({
+			type: "identity",
+			identityIds: Array.isArray(identityIds) ? identityIds : [identityIds],
+		});
+	}
+
+	inChats(chatIds: number | number[]): this {
+		return this.where(inChats(chatIds));
+	}
+
+	text(
+		match: TextMatch,
+		value: string,
+		options: { caseSensitive?: boolean } = {},
+	): this {
+		return this.where(textMatches(match, value, options));
+	}
+
+	hasAttachment(...mimeTypes: string[]): this {
+		return this.where(hasAttachment(...mimeTypes));
+	}
+
+	/**
+	 * Only messages sent by the user, or with `false` only received ones
+	 */
+	fromMe(value = true): this {
+		const condition: MessageCondition = { type: "fromMe" };
+		return this.where(value ? condition : not(condition));
+	}
+
+	service(services: string | string[]): this {
+		return this.where({
+			type: "service",
+			services: Array.isArray(services) ? services : [services],
+		});
+	}
+
+	between(after: Date | string | undefined, before?: Date | string): this {
+		return this.where(sentBetween(after, before));
+	}
+
+	edited(value = true): this {
+		const condition: MessageCondition = { type: "edited" };
+		return this.where(value ? condition : not(condition));
+	}
+
+	unsent(value = true): this {
+		const condition: MessageCondition = { type: "unsent" };
+		return this.where(value ? condition : not(condition));
+	}
+
+	/**
+	 * AND an arbitrary condition onto the query
+	 */
+	where(condition: MessageCondition): this {
+		this.conditions.push(condition);
+		return this;
+	}
+
+	orderBy(field: MessageOrderField, direction: "asc" | "desc" = "desc"): this {
+		this.spec.orderBy = { field, direction };
+		return this;
+	}
+
+	limit(limit: number): this {
+		this.spec.limit = limit;
+		return this;
+	}
+
+	offset(offset: number): this {
+		this.spec.offset = offset;
+		return this;
+	}
+
+	/**
+	 * Relations to load for each message
+	 */
+	include(...relations: MessageInclude[]): this {
+		this.spec.include = relations;
+		return this;
+	}
+
+	/**
+	 * Return tapback rows as messages of their own
+	 */
+	withReactions(): this {
+		this.spec.includeReactions = true;
+		return this;
+	}
+
+	/**
+	 * The query as plain data, e.g. to store or pass to client.query() later
+	 */
+	toSpec(): MessageQuerySpec {
+		const where =
+			this.conditions.length === 0
+				? undefined
+				: this.conditions.length === 1
+					? this.conditions[0]
+					: and(...this.conditions);
+		return where ? { ...this.spec, where } : { ...this.spec };
+	}
+
+	/**
+	 * The SELECT statement and parameters the query runs
+	 */
+	toSQL(): SqlFragment {
+		return this.executor.toSQL(this.toSpec());
+	}
+
+	all(): EnrichedMessage[] {
+		return this.executor.all(this.toSpec());
+	}
+
+	first(): EnrichedMessage | null {
+		return this.executor.all({ ...this.toSpec(), limit: 1 })[0] ?? null;
+	}
+
+	/**
+	 * Number of matching messages, ignoring limit and offset
+	 */
+	count(): number {
+		return this.executor.count(this.toSpec());
+	}
+}
@@ -0,0 +1,177 @@
+/**
+ * Tapback (reaction) helpers
+ *
+ * A tapback is stored as its own row in the message table. Its
+ * associated_message_guid points at the message it reacts to ("p:0/GUID" for
+ * message part 0, "bp:GUID" for the whole balloon) and associated_message_type
+ * says which tapback it is: 2000-2007 add a reaction, 3000-3007 remove one.
+ */
+
+import type { Reaction, TapbackType } from "./types";
+import {
+	appleTimeToDate,
+	type FormatMessageOptions,
+	formatSender,
+} from "./utils";
+
+/**
+ * Tapback types by associated_message_type, minus the 1000 offset between
+ * adding (2000-2007) and removing (3000-3007)
+ */
+const TAPBACK_TYPES: Record<number, TapbackType> = {
+	0: "loved",
+	1: "liked",
+	2: "disliked",
+	3: "laughed",
+	4: "emphasized",
+	5: "questioned",
+	6: "emoji",
+	7: "sticker",
+};
+
+const TAPBACK_LABELS: Record<TapbackType, string> = {
+	loved: "❤️ Loved",
+	liked: "👍 Liked",
+	disliked: "👎 Disliked",
+	laughed: "😂 Laughed",
+	emphasized: "‼️ Emphasized",
+	questioned: "❓ Questioned",
+	emoji: "Reacted",
+	sticker: "Sticker",
+};
+
+/**
+ * SQL condition matching rows that are not tapbacks, for a message alias
+ */
+export function notReactionCondition(alias: string): string {
+	return `COALESCE(${alias}.associated_message_type, 0) NOT BETWEEN 2000 AND 3999`;
+}
+
+/**
+ * Every associated_message_guid a tapback on a message can have, so lookups
+ * compare the column directly and can use its index
+ * @param partCount Parts of the message: its text and each attachment
+ */
+export function reactionTargetKeys(guid: string, partCount: number): string[] {
+	const keys = [guid, `bp:${guid}`];
+	for (let part = 0; part < Math.max(partCount, 1); part++) {
+		keys.push(`p:${part}/${guid}`);
+	}
+	return keys;
+}
+
+/**
+ * Whether an associated_message_type value is a tapback (added or removed)
+ */
+export function isReactionType(associatedMessageType: number | null): boolean {
+	return (
+		associatedMessageType !== null &&
+		associatedMessageType >= 2000 &&
+		associatedMessageType < 4000
+	);
+}
+
+/**
+ * Parses an associated_message_guid ("p:1/GUID", "bp:GUID" or a bare GUID)
+ */
+export function parseAssociatedMessageGuid(
+	value: string | null,
+): { guid: string; partIndex: number } | null {
+	if (!value) return null;
+
+	const part = /^p:(\d+)\/(.+)$/.exec(value);
+	if (part?.[1] && part[2]) {
+		return { guid: part[2], partIndex: Number(part[1]) };
+	}
+	if (value.startsWith("bp:")) {
+		return { guid: value.slice(3), partIndex: 0 };
+	}
+	return { guid: value, partIndex: 0 };
+}
+
+/**
+ * Tapback row as read from the message table
+ */
+export interface ReactionRow {
+	guid: string;
+	associated_message_guid: string | null;
+	associated_message_type: number | null;
+	associated_message_emoji?: string | null;
+	handle_id: number;
+	handle_identifier?: string | null;
+	is_from_me: number;
+	date: number;
+}
+
+/**
+ * Replays tapback rows in date order into the reactions on each target
+ * message, keyed by target GUID. A removal marks the matching earlier
+ * reaction from the same sender as removed rather than dropping it.
+ */
+export function buildReactions(rows: ReactionRow[]): Map<string, Reaction[]> {
+	const byTarget = new Map<string, Reaction[]>();
+	const sorted = [...rows].sort((a, b) => a.date - b.date);
+
+	for (const row of sorted) {
+		const target = parseAssociatedMessageGuid(row.associated_message_guid);
+		const code = row.associated_message_type ?? 0;
+		const type = TAPBACK_TYPES[code % 1000];
+		if (!target || !type || !isReactionType(code)) continue;
+
+		const reactions = byTarget.get(target.guid) ?? [];
+		byTarget.set(target.guid, reactions);
+		const emoji = row.associated_message_emoji ?? null;
+		const isFromMe = row.is_from_me === 1;
+
+		if (code >= 3000) {
+			for (let i = reactions.length - 1; i >= 0; i--) {
+				const added = reactions[i];
+				if (
+					added &&
+					!added.removed &&
+					added.type === type &&
+					added.partIndex === target.partIndex &&
+					added.isFromMe === isFromMe &&
+					(isFromMe || added.handleId === row.handle_id) &&
+					(type !== "emoji" || added.emoji === emoji)
+				) {
+					added.removed = true;
+					added.removedDate = appleTimeToDate(row.date);
+					break;
+				}
+			}
+			continue;
+		}
+
+		reactions.push({
+			guid: row.guid,
+			type,
+			emoji,
+			partIndex: target.partIndex,
+			handleId: row.handle_id,
+			sender: isFromMe ? null : (row.handle_identifier ?? null),
+			isFromMe,
+			date: appleTimeToDate(row.date),
+			removed: false,
+		});
+	}
+
+	return byTarget;
+}
+
+/**
+ * Formats a reaction for display, e.g. "❤️ Loved by Me"
+ */
+export function formatReaction(
+	reaction: Reaction,
+	options: Pick<FormatMessageOptions, "resolveName"> = {},
+): string {
+	const who = reaction.isFromMe
+		? "Me"
+		: formatSender(reaction.sender, options.resolveName);
+	const label =
+		reaction.type === "emoji" && reaction.emoji
+			? `${reaction.emoji} Reacted`
+			: TAPBACK_LABELS[reaction.type];
+	return `${label} by ${who}${reaction.removed ? " (removed)" : ""}`;
+}
@@ -0,0 +1,324 @@
+/**
+ * Local relevance ranking
+ *
+ * An in-memory term index over decoded message text, with no network or
+ * model dependency. Free-text queries are ranked with BM25; "more like this"
+ * compares TF-IDF vectors by cosine similarity. Both only score messages that
+ * share at least one term with the query, found through the postings lists.
+ */
+
+import { foldText } from "./sql-functions";
+
+/**
+ * BM25 term frequency saturation
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 document length normalisation
+ */
+const BM25_B = 0.75;
+
+/**
+ * Terms kept from a source message or text for "more like this", highest
+ * TF-IDF weight first
+ */
+const MAX_QUERY_TERMS = 25;
+
+/**
+ * Message scores summed into a conversation's score, so one strong thread
+ * outranks many passing mentions
+ */
+const CONVERSATION_TOP_MESSAGES = 3;
+
+/**
+ * Common English words that say nothing about what a message is about
+ */
+const STOP_WORDS = new Set(
+	(
+		"a an and are as at be but by can did do does for from had has have he her " +
+		"him his how i if in is it its just me my no not of on or our she so " +
+		"than that the their them then there they this to too up us was we " +
+		"were what when where which who why will with you your im ive dont " +
+		"thats ok okay yeah yes"
+	).split(" "),
+);
+
+/**
+ * Splits text into folded index terms: runs of letters and digits, without
+ * stop words and single letters
+ */
+export function tokenize(text: string): string[] {
+	const words = foldText(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+	return words.filter(
+		(word) => !STOP_WORDS.has(word) && (word.length > 1 || /\p{N}/u.test(word)),
+	);
+}
+
+/**
+ * A message added to the index
+ */
+export interface RelevanceDocument {
+	/**
+	 * Message ROWID
+	 */
+	id: number;
+	chatId: number | null;
+	text: string;
+}
+
+/**
+ * A scored message, highest score first in results
+ */
+export interface RelevanceHit {
+	id: number;
+	chatId: number | null;
+	score: number;
+}
+
+/**
+ * Messages of one chat among a set of hits
+ */
+export interface ConversationHit {
+	chatId: number;
+	score: number;
+	/**
+	 * Message ROWIDs, best first
+	 */
+	messageIds: number[];
+}
+
+interface IndexedDocument {
+	chatId: number | null;
+	length: number;
+	/**
+	 * Term frequencies
+	 */
+	terms: Map<string, number>;
+	/**
+	 * Euclidean norm of the TF-IDF vector and the index version it was
+	 * computed at
+	 */
+	norm?: { value: number; version: number };
+}
+
+/**
+ * Term index over message text
+ * @example
+ * const index = new RelevanceIndex();
+ * index.add({ id: 1, chatId: 3, text: "Lease renewal is due in May" });
+ * index.search("apartment lease"); // [{ id: 1, chatId: 3, score: 0.98 }]
+ */
+export class RelevanceIndex {
+	private readonly documents = new Map<number, IndexedDocument>();
+	private readonly postings = new Map<string, Set<number>>();
+	private totalLength = 0;
+	/**
+	 * Bumped on every change, invalidating cached norms
+	 */
+	private version = 0;
+
+	/**
+	 * Number of indexed messages
+	 */
+	get size(): number {
+		return this.documents.size;
+	}
+
+	/**
+	 * Index a message, replacing an earlier version with the same id.
+	 * Messages without any terms are skipped.
+	 */
+	add(document: RelevanceDocument): void {
+		this.remove(document.id);
+
+		const tokens = tokenize(document.text);
+		if (tokens.length === 0) return;
+
+		const terms = new Map<string, number>();
+		for (const token of tokens) {
+			terms.set(token, (terms.get(token) ?? 0) + 1);
+		}
+		for (const term of terms.keys()) {
+			let ids = this.postings.get(term);
+			if (!ids) {
+				ids = new Set();
+				this.postings.set(term, ids);
+			}
+			ids.add(document.id);
+		}
+		this.documents.set(document.id, {
+			chatId: document.chatId,
+			length: tokens.length,
+			terms,
+		});
+		this.totalLength += tokens.length;
+		this.version++;
+	}
+
+	remove(id: number): void {
+		const document = this.documents.get(id);
+		if (!document) return;
+
+		for (const term of document.terms.keys()) {
+			const ids = this.postings.get(term);
+			ids?.delete(id);
+			if (ids?.size === 0) this.postings.delete(term);
+		}
+		this.documents.delete(id);
+		this.totalLength -= document.length;
+		this.version++;
+	}
+
+	has(id: number): boolean {
+		return this.documents.has(id);
+	}
+
+	/**
+	 * Ranks messages against a free-text query with BM25
+	 */
+	search(query: string): RelevanceHit[] {
+		const terms = new Set(tokenize(query));
+		const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+		const scores = new Map<number, number>();
+
+		for (const term of terms) {
+			const ids = this.postings.get(term);
+			if (!ids) continue;
+			const idf = this.bm25Idf(ids.size);
+			for (const id of ids) {
+				const document = this.documents.get(id) as IndexedDocument;
+				const tf = document.terms.get(term) ?? 0;
+				const saturation =
+					(tf * (BM25_K1 + 1)) /
+					(tf +
+						BM25_K1 *
+							(1 - BM25_B + (BM25_B * document.length) / averageLength));
+				scores.set(id, (scores.get(id) ?? 0) + idf * saturation);
+			}
+		}
+		return this.toHits(scores);
+	}
+
+	/**
+	 * Ranks messages by cosine similarity of TF-IDF vectors to an indexed
+	 * message (excluded from the results) or to free text
+	 * @returns an empty list for an id that is not indexed
+	 */
+	similar(source: number | string): RelevanceHit[] {
+		let vector: Map<string, number>;
+		if (typeof source === "number") {
+			const document = this.documents.get(source);
+			if (!document) return [];
+			vector = this.tfidf(document.terms);
+		} else {
+			const terms = new Map<string, number>();
+			for (const token of tokenize(source)) {
+				terms.set(token, (terms.get(token) ?? 0) + 1);
+			}
+			vector = this.tfidf(terms);
+		}
+
+		// The strongest terms find nearly all the close matches, at a fraction
+		// of the cost of every term of a long message
+		const queryTerms = [...vector.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, MAX_QUERY_TERMS);
+		const queryNorm = Math.hypot(...queryTerms.map(([, weight]) => weight));
+		if (queryNorm === 0) return [];
+
+		const dots = new Map<number, number>();
+		for (const [term, weight] of queryTerms) {
+			const ids = this.postings.get(term) as Set<number>;
+			const idf = this.tfidfIdf(ids.size);
+			for (const id of ids) {
+				if (id === source) continue;
+				const document = this.documents.get(id) as IndexedDocument;
+				const tf = document.terms.get(term) ?? 0;
+				dots.set(id, (dots.get(id) ?? 0) + weight * (1 + Math.log(tf)) * idf);
+			}
+		}
+
+		const scores = new Map<number, number>();
+		for (const [id, dot] of dots) {
+			const norm = this.norm(id);
+			if (norm > 0) scores.set(id, dot / (queryNorm * norm));
+		}
+		return this.toHits(scores);
+	}
+
+	/**
+	 * Groups hits by chat, scoring each chat by the sum of its best few hits
+	 */
+	static rankConversations(hits: RelevanceHit[]): ConversationHit[] {
+		const chats = new Map<number, ConversationHit>();
+		for (const hit of hits) {
+			if (hit.chatId === null) continue;
+			let chat = chats.get(hit.chatId);
+			if (!chat) {
+				chat = { chatId: hit.chatId, score: 0, messageIds: [] };
+				chats.set(hit.chatId, chat);
+			}
+			if (chat.messageIds.length < CONVERSATION_TOP_MESSAGES) {
+				chat.score += hit.score;
+			}
+			chat.messageIds.push(hit.id);
+		}
+		// Hits arrive best first, so each chat's messageIds already are too
+		return [...chats.values()].sort((a, b) => b.score - a.score);
+	}
+
+	/**
+	 * BM25 inverse document frequency, never negative
+	 */
+	private bm25Idf(documentFrequency: number): number {
+		const n = this.documents.size;
+		return Math.log(
+			1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5),
+		);
+	}
+
+	/**
+	 * Smoothed TF-IDF inverse document frequency
+	 */
+	private tfidfIdf(documentFrequency: number): number {
+		return Math.log((1 + this.documents.size) / (1 + documentFrequency)) + 1;
+	}
+
+	/**
+	 * TF-IDF weights of terms, with log-scaled term frequency. Terms that
+	 * are not indexed have no weight.
+	 */
+	private tfidf(terms: Map<string, number>): Map<string, number> {
+		const vector = new Map<string, number>();
+		for (const [term, tf] of terms) {
+			const ids = this.postings.get(term);
+			if (!ids) continue;
+			vector.set(term, (1 + Math.log(tf)) * this.tfidfIdf(ids.size));
+		}
+		return vector;
+	}
+
+	/**
+	 * Norm of a document's TF-IDF vector. IDF shifts as messages are added,
+	 * so cached norms are recomputed after any change to the index.
+	 */
+	private norm(id: number): number {
+		const document = this.documents.get(id) as IndexedDocument;
+		if (document.norm?.version !== this.version) {
+			const weights = [...this.tfidf(document.terms).values()];
+			document.norm = { value: Math.hypot(...weights), version: this.version };
+		}
+		return document.norm.value;
+	}
+
+	private toHits(scores: Map<number, number>): RelevanceHit[] {
+		return [...scores.entries()]
+			.map(([id, score]) => ({
+				id,
+				chatId: this.documents.get(id)?.chatId ?? null,
+				score,
+			}))
+			.sort((a, b) => b.score - a.score || b.id - a.id);
+	}
+}
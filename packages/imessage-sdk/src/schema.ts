@@ -0,0 +1,100 @@
+/**
+ * chat.db schema detection
+ *
+ * The message table has grown with almost every macOS release: tapbacks
+ * (associated_message_*) arrived in Sierra, inline replies
+ * (thread_originator_*) in Big Sur, and edits and unsends (date_edited,
+ * date_retracted, message_summary_info) in Ventura. Before High Sierra, dates
+ * were stored in seconds since 2001 rather than nanoseconds. The client reads
+ * the table's columns and a sample date once, and leaves out whatever the
+ * database does not have.
+ */
+
+import type Database from "better-sqlite3";
+import type { DatabaseCapabilities, TimestampUnit } from "./types";
+
+/**
+ * Largest magnitude a seconds-since-2001 date can have (year ~5170);
+ * nanosecond dates past early 2001 are all larger
+ */
+export const MAX_SECONDS_TIMESTAMP = 100_000_000_000;
+
+/**
+ * Columns each capability needs
+ */
+const CAPABILITY_COLUMNS = {
+	hasReactions: ["associated_message_guid", "associated_message_type"],
+	hasThreads: ["thread_originator_guid", "thread_originator_part"],
+	hasEdits: ["date_edited", "date_retracted", "message_summary_info"],
+} as const;
+
+/**
+ * Capabilities of the current (macOS Sonoma) schema
+ */
+export const CURRENT_CAPABILITIES: DatabaseCapabilities = {
+	hasReactions: true,
+	hasThreads: true,
+	hasEdits: true,
+	timestampUnit: "nanoseconds",
+};
+
+/**
+ * Names of a table's columns, empty if the table does not exist
+ */
+export function readTableColumns(
+	db: Database.Database,
+	table: string,
+): Set<string> {
+	const rows = db.pragma(`table_info(${table})`) as { name?: unknown }[];
+	return new Set(
+		rows
+			.map((row) => row.name)
+			.filter((name): name is string => typeof name === "string"),
+	);
+}
+
+/**
+ * Whether an Apple timestamp is in seconds rather than nanoseconds
+ */
+export function isSecondsTimestamp(appleTime: number): boolean {
+	return appleTime !== 0 && Math.abs(appleTime) < MAX_SECONDS_TIMESTAMP;
+}
+
+/**
+ * Reads which optional message columns a chat.db has and the unit of its
+ * dates. A schema that cannot be read, e.g. while Messages.app holds a lock
+ * on the database, is assumed to be current.
+ */
+export function detectCapabilities(
+	db: Database.Database,
+): DatabaseCapabilities {
+	let columns: Set<string>;
+	try {
+		columns = readTableColumns(db, "message");
+	} catch {
+		return { ...CURRENT_CAPABILITIES };
+	}
+	if (columns.size === 0) return { ...CURRENT_CAPABILITIES };
+
+	const has = (names: readonly string[]) =>
+		names.every((name) => columns.has(name));
+
+	return {
+		hasReactions: has(CAPABILITY_COLUMNS.hasReactions),
+		hasThreads: has(CAPABILITY_COLUMNS.hasThreads),
+		hasEdits: has(CAPABILITY_COLUMNS.hasEdits),
+		timestampUnit: detectTimestampUnit(db),
+	};
+}
+
+/**
+ * Unit of the message dates, judged by the newest one
+ */
+function detectTimestampUnit(db: Database.Database): TimestampUnit {
+	const [row] = db.prepare("SELECT MAX(date) as date FROM message").all() as {
+		date?: unknown;
+	}[];
+	return typeof row?.date === "number" && isSecondsTimestamp(row.date)
+		? "seconds"
+		: "nanoseconds";
+}
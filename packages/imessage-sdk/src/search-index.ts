@@ -0,0 +1,182 @@
+/**
+ * Sidecar full-text search index
+ *
+ * chat.db has no full-text index, and on modern macOS most message text only
+ * exists inside attributedBody, out of reach of SQL LIKE. The search index is
+ * a separate SQLite database holding an FTS5 table of decoded message text,
+ * keyed by message ROWID. It never writes to chat.db; updates only index
+ * messages above the highest ROWID indexed so far.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import Database from "better-sqlite3";
+import { notGroupEventCondition } from "./chat-events";
+import { notReactionCondition } from "./reactions";
+import { detectCapabilities } from "./schema";
+import { decodeAttributedBody } from "./typedstream";
+import type { SearchIndexUpdate } from "./types";
+import { parseAttributedBody } from "./utils";
+
+/**
+ * Bumped when the index layout changes, forcing a rebuild
+ */
+const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * Messages decoded and inserted per transaction
+ */
+const UPDATE_BATCH_SIZE = 1000;
+
+const SEARCH_INDEX_SCHEMA = `
+CREATE TABLE IF NOT EXISTS search_meta (
+  key TEXT PRIMARY KEY,
+  value TEXT
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS message_fts USING fts5(
+  text,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+`;
+
+/**
+ * Name the index is attached under on the chat.db connection
+ */
+export const SEARCH_INDEX_SCHEMA_NAME = "search_index";
+
+/**
+ * Turns free text into an FTS5 query matching every word, in any order.
+ * Each whitespace-separated word becomes a quoted phrase, so punctuation
+ * such as "don't", "e-mail" or "sam@x.com" is never read as query syntax.
+ * Words without letters or digits are dropped.
+ */
+export function toFtsQuery(text: string): string {
+	return text
+		.split(/\s+/)
+		.filter((word) => /[\p{L}\p{N}]/u.test(word))
+		.map((word) => `"${word.replace(/"/g, '""')}"`)
+		.join(" ");
+}
+
+/**
+ * Whether an error is SQLite rejecting an FTS5 query, e.g. an unbalanced
+ * quote or an unknown column filter
+ */
+export function isFtsQueryError(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		(error as { code?: string }).code === "SQLITE_ERROR" &&
+		/fts5|no such column|unterminated string|unknown special query/i.test(
+			error.message,
+		)
+	);
+}
+
+/**
+ * Whether a search index has been built at the given path
+ */
+export function searchIndexExists(indexPath: string): boolean {
+	return fs.existsSync(indexPath);
+}
+
+/**
+ * Indexes every message in chat.db above the index's high-water mark
+ * @param source Connection to chat.db
+ * @param indexPath Path of the sidecar index, created if missing
+ * @param rebuild Drop the existing index and start over
+ */
+export function updateSearchIndex(
+	source: Database.Database,
+	indexPath: string,
+	rebuild = false,
+): SearchIndexUpdate {
+	fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+	const index = new Database(indexPath);
+
+	try {
+		index.exec(SEARCH_INDEX_SCHEMA);
+
+		const getMeta = index.prepare(
+			"SELECT value FROM search_meta WHERE key = ?",
+		);
+		const setMeta = index.prepare(
+			"INSERT OR REPLACE INTO search_meta (key, value) VALUES (?, ?)",
+		);
+		const version = Number(
+			(getMeta.get("version") as { value: string } | undefined)?.value ?? 0,
+		);
+		let lastRowId = Number(
+			(getMeta.get("last_rowid") as { value: string } | undefined)?.value ?? 0,
+		);
+
+		// A high-water mark past the end of chat.db means it was replaced
+		const { maxRowId } = source
+			.prepare("SELECT COALESCE(MAX(ROWID), 0) as maxRowId FROM message")
+			.get() as { maxRowId: number };
+
+		if (rebuild || version !== SEARCH_INDEX_VERSION || lastRowId > maxRowId) {
+			index.exec("DELETE FROM message_fts");
+			lastRowId = 0;
+			setMeta.run("version", String(SEARCH_INDEX_VERSION));
+		}
+
+		const { hasReactions } = detectCapabilities(source);
+		const select = source.prepare(`
+      SELECT m.ROWID, m.text, m.attributedBody
+      FROM message m
+      WHERE m.ROWID > ?
+        AND ${hasReactions ? notReactionCondition("m") : "1"}
+        AND ${notGroupEventCondition("m")}
+      ORDER BY m.ROWID
+      LIMIT ?
+    `);
+		const insert = index.prepare(
+			"INSERT OR REPLACE INTO message_fts (rowid, text) VALUES (?, ?)",
+		);
+
+		const writeBatch = index.transaction(
+			(rows: { ROWID: number; text: string | null }[], mark: number) => {
+				for (const row of rows) {
+					insert.run(row.ROWID, row.text);
+				}
+				setMeta.run("last_rowid", String(mark));
+			},
+		);
+
+		let indexed = 0;
+		for (;;) {
+			const rows = select.all(lastRowId, UPDATE_BATCH_SIZE) as {
+				ROWID: number;
+				text: string | null;
+				attributedBody: Buffer | null;
+			}[];
+			if (rows.length === 0) break;
+
+			const documents = rows
+				.map((row) => ({
+					ROWID: row.ROWID,
+					text:
+						row.text ||
+						decodeAttributedBody(row.attributedBody)?.text ||
+						parseAttributedBody(row.attributedBody),
+				}))
+				.filter((row) => row.text);
+
+			lastRowId = rows[rows.length - 1]?.ROWID ?? lastRowId;
+			writeBatch(documents, lastRowId);
+			indexed += documents.length;
+		}
+
+		// Record the mark even when only tapbacks were skipped past
+		setMeta.run("last_rowid", String(Math.max(lastRowId, maxRowId)));
+
+		const { total } = index
+			.prepare("SELECT COUNT(*) as total FROM message_fts")
+			.get() as { total: number };
+
+		return { indexed, total, lastRowId: Math.max(lastRowId, maxRowId) };
+	} finally {
+		index.close();
+	}
+}
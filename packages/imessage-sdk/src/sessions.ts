@@ -0,0 +1,87 @@
+/**
+ * Conversation sessions
+ *
+ * A chat is split into sessions wherever the silence between two messages is
+ * at least the conversation gap. Like the analytics, segmentation works over
+ * a chat-ordered stream of lightweight rows rather than full messages.
+ */
+
+import { DEFAULT_CONVERSATION_GAP } from "./analytics";
+
+/**
+ * Default number of sessions returned
+ */
+export const DEFAULT_SESSION_LIMIT = 50;
+
+/**
+ * A message as segmented
+ */
+export interface SessionRow {
+	chatId: number;
+	messageId: number;
+	date: Date;
+	isFromMe: boolean;
+	handleId: number;
+}
+
+/**
+ * A session before its handles and opening message are loaded
+ */
+export interface SessionSpan {
+	chatId: number;
+	start: Date;
+	end: Date;
+	firstMessageId: number;
+	lastMessageId: number;
+	messageCount: number;
+	sentCount: number;
+	/**
+	 * Handle ROWIDs of the other participants who spoke, in order of their
+	 * first message
+	 */
+	speakerIds: number[];
+}
+
+/**
+ * Splits messages into sessions at silences of at least `gap` ms
+ * @param rows Messages ordered by chat, then date
+ * @returns sessions in the order of the rows
+ */
+export function segmentSessions(
+	rows: Iterable<SessionRow>,
+	gap = DEFAULT_CONVERSATION_GAP,
+): SessionSpan[] {
+	const sessions: SessionSpan[] = [];
+	let current: SessionSpan | null = null;
+
+	for (const row of rows) {
+		if (
+			!current ||
+			current.chatId !== row.chatId ||
+			row.date.getTime() - current.end.getTime() >= gap
+		) {
+			current = {
+				chatId: row.chatId,
+				start: row.date,
+				end: row.date,
+				firstMessageId: row.messageId,
+				lastMessageId: row.messageId,
+				messageCount: 0,
+				sentCount: 0,
+				speakerIds: [],
+			};
+			sessions.push(current);
+		}
+
+		current.end = row.date;
+		current.lastMessageId = row.messageId;
+		current.messageCount++;
+		if (row.isFromMe) {
+			current.sentCount++;
+		} else if (row.handleId && !current.speakerIds.includes(row.handleId)) {
+			current.speakerIds.push(row.handleId);
+		}
+	}
+
+	return sessions;
+}
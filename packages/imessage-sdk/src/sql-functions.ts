@@ -0,0 +1,103 @@
+/**
+ * SQLite user functions
+ *
+ * SQLite parses `X REGEXP Y` but ships no implementation; it calls a
+ * user function regexp(Y, X). The client registers one backed by JavaScript
+ * regular expressions the first time a query needs it, along with
+ * message_text(text, attributedBody), which decodes the attributedBody of
+ * messages whose text column is empty (macOS Ventura+), and fold_text(value),
+ * which drops case and accents so "Cafe" finds "café".
+ */
+
+import type Database from "better-sqlite3";
+import { parseAttributedBody } from "./utils";
+
+/**
+ * Compiled patterns kept per connection
+ */
+const PATTERN_CACHE_SIZE = 100;
+
+/**
+ * Compiles a pattern for the REGEXP function. A leading group of inline flags
+ * such as "(?i)" or "(?ms)" is turned into JavaScript flags.
+ * @throws SyntaxError if the pattern is not a valid regular expression
+ */
+export function compileRegExp(pattern: string): RegExp {
+	const inline = pattern.match(/^\(\?([imsu]+)\)/);
+	if (!inline?.[1]) return new RegExp(pattern);
+
+	const flags = new Set(inline[1]);
+	return new RegExp(pattern.slice(inline[0].length), [...flags].join(""));
+}
+
+/**
+ * Pattern for a JavaScript RegExp, keeping the flags compileRegExp
+ * understands as an inline group
+ */
+export function regExpPattern(regex: RegExp): string {
+	const flags = regex.flags.replace(/[^imsu]/g, "");
+	return flags ? `(?${flags})${regex.source}` : regex.source;
+}
+
+/**
+ * Folds text for case- and accent-insensitive comparison: compatibility
+ * decomposition, combining marks removed, then lower case
+ */
+export function foldText(value: string): string {
+	return value.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Registers every function in this module on a connection
+ */
+export function registerSqlFunctions(db: Database.Database): void {
+	registerRegexpFunction(db);
+	registerTextFunctions(db);
+}
+
+/**
+ * Registers regexp(pattern, value) so queries can use `value REGEXP pattern`.
+ * NULL values never match.
+ */
+export function registerRegexpFunction(db: Database.Database): void {
+	const cache = new Map<string, RegExp>();
+
+	db.function(
+		"regexp",
+		{ deterministic: true },
+		(pattern: unknown, value: unknown) => {
+			if (typeof pattern !== "string" || typeof value !== "string") return 0;
+
+			let regex = cache.get(pattern);
+			if (!regex) {
+				regex = compileRegExp(pattern);
+				if (cache.size >= PATTERN_CACHE_SIZE) {
+					const oldest = cache.keys().next().value;
+					if (oldest !== undefined) cache.delete(oldest);
+				}
+				cache.set(pattern, regex);
+			}
+			return regex.test(value) ? 1 : 0;
+		},
+	);
+}
+
+/**
+ * Registers message_text(text, attributedBody) and fold_text(value). Both
+ * return NULL for NULL input.
+ */
+export function registerTextFunctions(db: Database.Database): void {
+	db.function(
+		"message_text",
+		{ deterministic: true },
+		(text: unknown, attributedBody: unknown) => {
+			if (typeof text === "string" && text.length > 0) return text;
+			return Buffer.isBuffer(attributedBody)
+				? parseAttributedBody(attributedBody)
+				: null;
+		},
+	);
+	db.function("fold_text", { deterministic: true }, (value: unknown) =>
+		typeof value === "string" ? foldText(value) : null,
+	);
+}
@@ -0,0 +1,483 @@
+/**
+ * NSArchiver typedstream decoder
+ *
+ * Messages.app stores rich message text in message.attributedBody as an
+ * NSAttributedString archived with the legacy NSArchiver "typedstream"
+ * format. The stream is self-describing: every group of values is preceded
+ * by its Objective-C type encoding, and objects carry their class chain,
+ * so it can be decoded without knowing each class's archiving logic.
+ */
+
+import type { RichText, TextRun } from "./types";
+
+// Tag bytes, as signed values. Anything from -110 up is a literal or reference.
+const TAG_INTEGER_2 = -127;
+const TAG_INTEGER_4 = -126;
+const TAG_FLOATING_POINT = -125;
+const TAG_NEW = -124;
+const TAG_NIL = -123;
+const TAG_END_OF_OBJECT = -122;
+const FIRST_REFERENCE = -110;
+
+const UNSIGNED_TYPES = "CSILQ";
+
+/**
+ * A class in an object's class chain
+ */
+export interface TypedClass {
+	name: string;
+	version: number;
+	superclass: TypedClass | null;
+}
+
+/**
+ * An archived object: its class and the values it encoded, in order
+ */
+export interface TypedObject {
+	class: TypedClass;
+	values: TypedValue[];
+}
+
+/**
+ * Any value that can appear in a typedstream
+ */
+export type TypedValue =
+	| number
+	| string
+	| Buffer
+	| TypedObject
+	| TypedClass
+	| TypedValue[]
+	| null;
+
+/**
+ * Decodes every top-level value in a typedstream
+ * @throws Error if the buffer is not a little-endian typedstream or is truncated
+ */
+export function decodeTypedStream(buffer: Buffer): TypedValue[] {
+	return new TypedStreamReader(buffer).readAll();
+}
+
+/**
+ * Decodes an attributedBody blob into its plain text and attribute runs
+ * @returns null when the blob is empty or not a decodable NSAttributedString
+ */
+export function decodeAttributedBody(buffer: Buffer | null): RichText | null {
+	if (!buffer || buffer.length === 0) return null;
+
+	try {
+		const root = decodeTypedStream(buffer)[0];
+		if (!isObject(root) || !inheritsFrom(root.class, "NSAttributedString")) {
+			return null;
+		}
+		return attributedStringToRichText(root);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether an object's class is, or inherits from, the named class
+ */
+export function inheritsFrom(cls: TypedClass | null, name: string): boolean {
+	for (let current = cls; current; current = current.superclass) {
+		if (current.name === name) return true;
+	}
+	return false;
+}
+
+/**
+ * Converts archived Foundation objects (NSString, NSNumber, NSURL, NSArray,
+ * NSDictionary) into plain JavaScript values; other objects are returned as is
+ */
+export function toPlainValue(value: TypedValue): unknown {
+	if (!isObject(value)) return value;
+
+	const cls = value.class;
+	if (inheritsFrom(cls, "NSString")) {
+		const bytes = value.values[0];
+		return Buffer.isBuffer(bytes) ? bytes.toString("utf8") : "";
+	}
+	if (inheritsFrom(cls, "NSNumber")) {
+		// Values are the objCType C string followed by the number itself
+		const number = value.values[value.values.length - 1];
+		return typeof number === "number" ? number : null;
+	}
+	if (inheritsFrom(cls, "NSURL")) {
+		// Values are the is-relative flag, the optional base URL and the string
+		return toPlainValue(value.values[value.values.length - 1] ?? null);
+	}
+	if (inheritsFrom(cls, "NSDictionary")) {
+		const entries = new Map<string, unknown>();
+		for (let i = 1; i + 1 < value.values.length; i += 2) {
+			const key = toPlainValue(value.values[i] ?? null);
+			entries.set(String(key), toPlainValue(value.values[i + 1] ?? null));
+		}
+		return entries;
+	}
+	if (inheritsFrom(cls, "NSArray")) {
+		return value.values.slice(1).map((item) => toPlainValue(item));
+	}
+	return value;
+}
+
+function isObject(value: TypedValue | undefined): value is TypedObject {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!Buffer.isBuffer(value) &&
+		"values" in value
+	);
+}
+
+/**
+ * NSAttributedString archives its string, then (dictionary index, run length)
+ * pairs. Each pair that introduces a new index is followed by that dictionary.
+ */
+function attributedStringToRichText(object: TypedObject): RichText {
+	const [stringValue, ...rest] = object.values;
+	const text = toPlainValue(stringValue ?? null);
+	if (typeof text !== "string") {
+		throw new Error("NSAttributedString does not start with a string");
+	}
+
+	const dictionaries: Map<string, unknown>[] = [];
+	const runs: TextRun[] = [];
+	let start = 0;
+
+	for (let i = 0; i + 1 < rest.length; i += 2) {
+		const index = rest[i];
+		const length = rest[i + 1];
+		if (typeof index !== "number" || typeof length !== "number") {
+			throw new Error("Malformed attribute run in NSAttributedString");
+		}
+
+		if (index > dictionaries.length) {
+			const dictionary = toPlainValue(rest[i + 2] ?? null);
+			dictionaries.push(
+				dictionary instanceof Map ? dictionary : new Map<string, unknown>(),
+			);
+			i++;
+		}
+
+		runs.push(
+			createTextRun(
+				text,
+				start,
+				length,
+				dictionaries[index - 1] ?? new Map<string, unknown>(),
+			),
+		);
+		start += length;
+	}
+
+	return { text, runs };
+}
+
+function createTextRun(
+	text: string,
+	start: number,
+	length: number,
+	attributes: Map<string, unknown>,
+): TextRun {
+	const run: TextRun = {
+		start,
+		length,
+		text: text.slice(start, start + length),
+	};
+
+	const part = attributes.get("__kIMMessagePartAttributeName");
+	if (typeof part === "number") run.partIndex = part;
+
+	const mention = attributes.get("__kIMMentionConfirmedMention");
+	if (typeof mention === "string") run.mention = mention;
+
+	const link = attributes.get("__kIMLinkAttributeName");
+	if (typeof link === "string") run.link = link;
+
+	const attachmentGuid = attributes.get("__kIMFileTransferGUIDAttributeName");
+	if (typeof attachmentGuid === "string") {
+		run.attachment = { guid: attachmentGuid };
+		const filename = attributes.get("__kIMFilenameAttributeName");
+		if (typeof filename === "string") run.attachment.filename = filename;
+	}
+
+	if (attributes.get("__kIMTextBoldAttributeName")) run.bold = true;
+	if (attributes.get("__kIMTextItalicAttributeName")) run.italic = true;
+	if (attributes.get("__kIMTextUnderlineAttributeName")) run.underline = true;
+	if (attributes.get("__kIMTextStrikethroughAttributeName")) {
+		run.strikethrough = true;
+	}
+
+	return run;
+}
+
+/**
+ * Splits a type encoding such as "iI" or "{_NSRange=QQ}" into single types
+ */
+function splitEncoding(encoding: string): string[] {
+	const types: string[] = [];
+	let i = 0;
+
+	while (i < encoding.length) {
+		const start = i;
+		const open = encoding[i];
+		const close =
+			open === "{" ? "}" : open === "[" ? "]" : open === "(" ? ")" : null;
+
+		if (close && open) {
+			let depth = 0;
+			do {
+				if (encoding[i] === open) depth++;
+				else if (encoding[i] === close) depth--;
+				i++;
+			} while (depth > 0 && i < encoding.length);
+		} else {
+			i++;
+		}
+		types.push(encoding.slice(start, i));
+	}
+
+	return types;
+}
+
+class TypedStreamReader {
+	private offset = 0;
+	private readonly sharedStrings: Buffer[] = [];
+	private readonly sharedObjects: (TypedObject | TypedClass | null)[] = [];
+
+	constructor(private readonly buffer: Buffer) {}
+
+	readAll(): TypedValue[] {
+		this.readHeader();
+
+		const values: TypedValue[] = [];
+		while (this.offset < this.buffer.length) {
+			values.push(...this.readTypedGroup(this.readHead()));
+		}
+		return values;
+	}
+
+	private readHeader(): void {
+		const version = this.readHead();
+		const signature = this.readUnsharedBytes(this.readHead()).toString(
+			"latin1",
+		);
+		if (version !== 4 || signature !== "streamtyped") {
+			throw new Error(`Unsupported typedstream header: ${signature}`);
+		}
+		this.readInteger(this.readHead()); // System version
+	}
+
+	/**
+	 * Reads a type encoding followed by one value per type in it
+	 */
+	private readTypedGroup(head: number): TypedValue[] {
+		const encoding = this.readSharedString(head);
+		if (encoding === null) {
+			throw new Error("Missing type encoding in typedstream");
+		}
+
+		return splitEncoding(encoding.toString("latin1")).map((type) =>
+			this.readValue(type),
+		);
+	}
+
+	private readValue(type: string): TypedValue {
+		switch (type[0]) {
+			case "@":
+				return this.readObject(this.readHead());
+			case "#":
+				return this.readClass(this.readHead());
+			case "+":
+				return this.readUnsharedBytes(this.readHead());
+			case "*":
+			case "%":
+			case ":": {
+				const value = this.readSharedString(this.readHead());
+				return value === null ? null : value.toString("utf8");
+			}
+			case "f":
+			case "d":
+				return this.readFloat(type === "d");
+			case "c":
+			case "C":
+			case "s":
+			case "S":
+			case "i":
+			case "I":
+			case "l":
+			case "L":
+			case "q":
+			case "Q":
+			case "B":
+				return this.readInteger(
+					this.readHead(),
+					UNSIGNED_TYPES.includes(type[0]),
+				);
+			case "[":
+				return this.readArray(type);
+			case "{":
+				return this.readStruct(type);
+			default:
+				throw new Error(`Unsupported type encoding in typedstream: ${type}`);
+		}
+	}
+
+	private readArray(type: string): TypedValue {
+		const match = /^\[(\d+)(.*)\]$/.exec(type);
+		if (!match?.[1] || !match[2]) {
+			throw new Error(`Malformed array encoding in typedstream: ${type}`);
+		}
+
+		const count = Number(match[1]);
+		const elementType = match[2];
+		// Character arrays are stored as raw bytes
+		if (elementType === "c" || elementType === "C") {
+			return this.readBytes(count);
+		}
+
+		const items: TypedValue[] = [];
+		for (let i = 0; i < count; i++) {
+			items.push(this.readValue(elementType));
+		}
+		return items;
+	}
+
+	private readStruct(type: string): TypedValue {
+		const fields = type.slice(1, -1);
+		const body = fields.includes("=")
+			? fields.slice(fields.indexOf("=") + 1)
+			: fields;
+		return splitEncoding(body).map((field) => this.readValue(field));
+	}
+
+	private readObject(head: number): TypedObject | null {
+		if (head === TAG_NIL) return null;
+		if (head !== TAG_NEW) {
+			return this.lookupShared(head) as TypedObject;
+		}
+
+		const index = this.sharedObjects.push(null) - 1;
+		const cls = this.readClass(this.readHead());
+		if (!cls) {
+			throw new Error("Object without a class in typedstream");
+		}
+
+		const object: TypedObject = { class: cls, values: [] };
+		this.sharedObjects[index] = object;
+
+		let next = this.readHead();
+		while (next !== TAG_END_OF_OBJECT) {
+			object.values.push(...this.readTypedGroup(next));
+			next = this.readHead();
+		}
+
+		return object;
+	}
+
+	private readClass(head: number): TypedClass | null {
+		if (head === TAG_NIL) return null;
+		if (head !== TAG_NEW) {
+			return this.lookupShared(head) as TypedClass;
+		}
+
+		const name = this.readSharedString(this.readHead());
+		if (name === null) {
+			throw new Error("Class without a name in typedstream");
+		}
+
+		const cls: TypedClass = {
+			name: name.toString("latin1"),
+			version: this.readInteger(this.readHead()),
+			superclass: null,
+		};
+		this.sharedObjects.push(cls);
+		cls.superclass = this.readClass(this.readHead());
+
+		return cls;
+	}
+
+	private lookupShared(head: number): TypedObject | TypedClass | null {
+		const index = this.readInteger(head) - FIRST_REFERENCE;
+		if (index < 0 || index >= this.sharedObjects.length) {
+			throw new Error(`Invalid object reference in typedstream: ${index}`);
+		}
+		return this.sharedObjects[index] ?? null;
+	}
+
+	private readSharedString(head: number): Buffer | null {
+		if (head === TAG_NIL) return null;
+		if (head === TAG_NEW) {
+			const value = this.readUnsharedBytes(this.readHead());
+			this.sharedStrings.push(value);
+			return value;
+		}
+
+		const index = this.readInteger(head) - FIRST_REFERENCE;
+		const value = this.sharedStrings[index];
+		if (!value) {
+			throw new Error(`Invalid string reference in typedstream: ${index}`);
+		}
+		return value;
+	}
+
+	private readUnsharedBytes(head: number): Buffer {
+		return this.readBytes(this.readInteger(head));
+	}
+
+	/**
+	 * Small integers are stored inline in the head byte; larger ones follow a
+	 * 2- or 4-byte tag
+	 */
+	private readInteger(head: number, unsigned = false): number {
+		if (head === TAG_INTEGER_2) {
+			const value = unsigned
+				? this.buffer.readUInt16LE(this.offset)
+				: this.buffer.readInt16LE(this.offset);
+			this.offset += 2;
+			return value;
+		}
+		if (head === TAG_INTEGER_4) {
+			const value = unsigned
+				? this.buffer.readUInt32LE(this.offset)
+				: this.buffer.readInt32LE(this.offset);
+			this.offset += 4;
+			return value;
+		}
+		if (head < FIRST_REFERENCE) {
+			throw new Error(`Unexpected tag in typedstream: ${head}`);
+		}
+		return head;
+	}
+
+	private readFloat(double: boolean): number {
+		const head = this.readHead();
+		if (head !== TAG_FLOATING_POINT) {
+			return this.readInteger(head);
+		}
+
+		const value = double
+			? this.buffer.readDoubleLE(this.offset)
+			: this.buffer.readFloatLE(this.offset);
+		this.offset += double ? 8 : 4;
+		return value;
+	}
+
+	private readHead(): number {
+		if (this.offset >= this.buffer.length) {
+			throw new Error("Unexpected end of typedstream");
+		}
+		return this.buffer.readInt8(this.offset++);
+	}
+
+	private readBytes(length: number): Buffer {
+		if (length < 0 || this.offset + length > this.buffer.length) {
+			throw new Error("Unexpected end of typedstream");
+		}
+		const bytes = this.buffer.subarray(this.offset, this.offset + length);
+		this.offset += length;
+		return bytes;
+	}
+}
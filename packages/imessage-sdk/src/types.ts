@@ -2,6 +2,8 @@
  * Type definitions for iMessage SDK
  */
 
+import type { IMessageClient } from "./client";
+
 /**
  * Configuration for IMessageClient
  */
@@ -17,6 +19,57 @@ export interface IMessageConfig {
 	 * Default: true
 	 */
 	readonly?: boolean;
+
+	/**
+	 * Path to the sidecar full-text search index
+	 * Default: ~/Library/Application Support/macos-tools/imessage-search.db
+	 */
+	searchIndexPath?: string;
+
+	/**
+	 * Directory attachment filenames under ~/Library/Messages/Attachments are
+	 * resolved against, e.g. a backup copy of that directory
+	 * Default: ~/Library/Messages/Attachments
+	 */
+	attachmentsRoot?: string;
+
+	/**
+	 * ISO 3166 region assumed for phone numbers without a country code
+	 * Default: "US"
+	 */
+	defaultRegion?: string;
+
+	/**
+	 * Addresses (phone numbers or emails) known to belong to the same person,
+	 * e.g. from the address book, merged into one identity
+	 */
+	identityGroups?: string[][];
+}
+
+/**
+ * Unit of chat.db dates: seconds since 2001 before macOS High Sierra,
+ * nanoseconds since
+ */
+export type TimestampUnit = "seconds" | "nanoseconds";
+
+/**
+ * What the opened chat.db supports, detected from its schema
+ */
+export interface DatabaseCapabilities {
+	/**
+	 * Tapback columns (associated_message_guid/type), macOS Sierra+
+	 */
+	hasReactions: boolean;
+	/**
+	 * Inline reply columns (thread_originator_guid/part), macOS Big Sur+
+	 */
+	hasThreads: boolean;
+	/**
+	 * Edit and unsend columns (date_edited, date_retracted,
+	 * message_summary_info), macOS Ventura+
+	 */
+	hasEdits: boolean;
+	timestampUnit: TimestampUnit;
 }
 
 /**
@@ -30,7 +83,7 @@ export interface Message {
 	subject: string | null;
 	service: string;
 	account: string | null;
-	date: number; // Apple timestamp (nanoseconds since 2001-01-01)
+	date: number; // Apple timestamp (nanoseconds since 2001-01-01, seconds before High Sierra)
 	date_read: number;
 	date_delivered: number;
 	is_from_me: number; // 1 = sent by user, 0 = received
@@ -38,9 +91,19 @@ export interface Message {
 	is_sent: number;
 	is_delivered: number;
 	is_finished: number;
+	error: number; // Send error code, 0 if none
 	is_audio_message: number;
 	cache_roomnames: string | null;
 	attributedBody: Buffer | null;
+	associated_message_guid: string | null; // Target of a tapback, e.g. "p:0/GUID"
+	associated_message_type: number; // 2000-2007 = tapback added, 3000-3007 = removed
+	thread_originator_guid: string | null; // Root message of an inline reply thread
+	thread_originator_part: string | null; // "part:start:length" of the root replied to
+	date_edited: number; // Apple timestamp of the last edit, 0 if never edited
+	date_retracted: number; // Apple timestamp of the unsend, 0 if not unsent
+	message_summary_info: Buffer | null; // Binary plist with edit/unsend history
+	balloon_bundle_id: string | null; // Plugin behind a rich balloon, e.g. a URL preview
+	payload_data: Buffer | null; // Keyed archive with the balloon's data
 }
 
 /**
@@ -51,142 +114,1538 @@ export interface EnrichedMessage extends Message {
 	chat?: Chat;
 	attachments?: Attachment[];
 	participants?: Handle[];
+	/**
+	 * Text and attribute runs decoded from attributedBody
+	 */
+	richText?: RichText;
+	/**
+	 * Tapbacks on this message, oldest first, including removed ones
+	 */
+	reactions?: Reaction[];
+	/**
+	 * The message this one replies to, for inline replies
+	 */
+	replyTo?: ReplyReference;
+	/**
+	 * Every version of the text, oldest first, when the message was edited
+	 */
+	edits?: MessageEdit[];
+	/**
+	 * Whether the message, or one of its parts, was unsent
+	 */
+	unsent?: boolean;
+	/**
+	 * Link preview or app content, for messages shown as a rich balloon
+	 */
+	balloon?: MessageBalloon;
 }
 
 /**
- * Handle (contact) record
+ * Kind of rich balloon a message is shown as
  */
-export interface Handle {
-	ROWID: number;
-	id: string; // Phone number or email
-	country: string | null;
-	service: string;
-	uncanonicalized_id: string | null;
+export type BalloonKind =
+	| "link"
+	| "applePay"
+	| "poll"
+	| "digitalTouch"
+	| "handwriting"
+	| "app"
+	| "unknown";
+
+/**
+ * Rich preview of a shared link
+ */
+export interface LinkPreview {
+	url: string;
+	title: string | null;
+	summary: string | null;
+	siteName: string | null;
 }
 
 /**
- * Chat record
+ * A shared link
  */
-export interface Chat {
-	ROWID: number;
-	guid: string;
-	style: number;
-	state: number;
-	account_id: string;
-	chat_identifier: string;
-	service_name: string;
-	room_name: string | null;
-	account_login: string | null;
-	display_name: string | null;
-	group_id: string | null;
-	is_archived: number;
-	last_addressed_handle: string | null;
-	is_filtered: number;
+export interface LinkBalloon {
+	kind: "link";
+	bundleId: string;
+	/**
+	 * null when the preview was not fetched or the payload is missing
+	 */
+	preview: LinkPreview | null;
 }
 
 /**
- * Attachment record
+ * Content of an iMessage app extension, Apple's own (Apple Pay, polls) or a
+ * third party's
  */
-export interface Attachment {
-	ROWID: number;
-	guid: string;
-	filename: string | null;
-	mime_type: string | null;
-	transfer_name: string | null;
-	total_bytes: number;
-	is_outgoing: number;
-	created_date: number;
-	start_date: number;
-	hide_attachment: number;
+export interface AppBalloon {
+	kind: "applePay" | "poll" | "app";
+	bundleId: string;
+	/**
+	 * Bundle ID of the extension, e.g. "com.apple.messages.Polls"
+	 */
+	appId: string;
+	appName: string | null;
+	caption: string | null;
+	subcaption: string | null;
+	url: string | null;
 }
 
 /**
- * Filter options for querying messages
+ * A balloon whose payload the SDK does not decode
  */
-export interface MessageFilter {
+export interface OtherBalloon {
+	kind: "digitalTouch" | "handwriting" | "unknown";
+	bundleId: string;
+}
+
+export type MessageBalloon = LinkBalloon | AppBalloon | OtherBalloon;
+
+/**
+ * One version of an edited message part
+ */
+export interface MessageEdit {
+	text: string | null;
+	date: Date;
+	partIndex: number;
+}
+
+/**
+ * The message an inline reply responds to
+ */
+export interface ReplyReference {
 	/**
-	 * Filter by chat ID
+	 * GUID of the thread's root message
 	 */
-	chatId?: number;
+	guid: string;
+	/**
+	 * Message part of the root that was replied to
+	 */
+	partIndex: number;
+	/**
+	 * ROWID of the root message, null if it is no longer in the database
+	 */
+	messageId: number | null;
+	text: string | null;
+	isFromMe: boolean;
+	/**
+	 * Phone number or email of the root's sender, null when sent by the user
+	 */
+	sender: string | null;
+}
 
+/**
+ * Options for full-text search over the sidecar index
+ */
+export interface SearchOptions
+	extends Pick<
+		MessageFilter,
+		| "chatId"
+		| "handleId"
+		| "isFromMe"
+		| "service"
+		| "startDate"
+		| "endDate"
+		| "limit"
+		| "offset"
+		| "include"
+	> {
 	/**
-	 * Filter by handle (contact) ID
+	 * How the query is read: "text" matches every word as typed, "fts" is
+	 * FTS5 query syntax with "phrases", prefix*, AND / OR / NOT and NEAR
+	 * Default: "text"
 	 */
-	handleId?: number;
+	syntax?: SearchSyntax;
 
 	/**
-	 * Filter by sender (true = sent by user, false = received)
+	 * Sort by relevance (bm25) or newest first
+	 * Default: "rank"
 	 */
-	isFromMe?: boolean;
+	orderBy?: "rank" | "date";
 
 	/**
-	 * Filter by service ('iMessage', 'SMS', etc.)
+	 * Markers placed around matched terms in snippets
+	 * Default: ["**", "**"]
 	 */
-	service?: string;
+	highlight?: [string, string];
 
 	/**
-	 * Search text in message content
+	 * Maximum number of tokens in each snippet
+	 * Default: 16
 	 */
-	searchText?: string;
+	snippetTokens?: number;
+}
+
+/**
+ * How searchMessages reads its query
+ */
+export type SearchSyntax = "text" | "fts";
 
+/**
+ * A full-text search hit
+ */
+export interface SearchResult {
+	message: EnrichedMessage;
 	/**
-	 * Filter messages after this date
+	 * Relevance score, higher is better (negated bm25)
 	 */
-	startDate?: Date;
+	score: number;
+	/**
+	 * Excerpt of the message text with matches highlighted
+	 */
+	snippet: string;
+}
 
+/**
+ * Outcome of an incremental search index update
+ */
+export interface SearchIndexUpdate {
 	/**
-	 * Filter messages before this date
+	 * Messages added in this update
 	 */
-	endDate?: Date;
+	indexed: number;
+	/**
+	 * Messages in the index after the update
+	 */
+	total: number;
+	/**
+	 * Highest message ROWID covered by the index
+	 */
+	lastRowId: number;
+}
 
+/**
+ * Options for relevance search and "more like this"
+ */
+export interface RelatedOptions
+	extends Pick<
+		MessageFilter,
+		| "chatId"
+		| "handleId"
+		| "identityId"
+		| "isFromMe"
+		| "service"
+		| "startDate"
+		| "endDate"
+		| "include"
+	> {
 	/**
-	 * Limit number of results
+	 * Maximum number of messages to return
+	 * Default: 20
 	 */
 	limit?: number;
 
 	/**
-	 * Offset for pagination
+	 * Maximum number of conversations to return
+	 * Default: 5
 	 */
-	offset?: number;
+	conversationLimit?: number;
 }
 
 /**
- * Filter options for querying chats
+ * A message ranked by relevance
  */
-export interface ChatFilter {
+export interface RelatedMessage {
+	message: EnrichedMessage;
 	/**
-	 * Filter by chat identifier
+	 * BM25 score for searchByRelevance, cosine similarity (0 to 1) for
+	 * findRelated; higher is better
 	 */
-	chatIdentifier?: string;
+	score: number;
+}
 
+/**
+ * A conversation ranked by its most relevant messages
+ */
+export interface RelatedConversation {
+	chat: Chat & { participants: Handle[] };
 	/**
-	 * Search by display name
+	 * Sum of the scores of its best three messages
 	 */
-	displayName?: string;
+	score: number;
+	/**
+	 * Matching message ROWIDs, best first
+	 */
+	messageIds: number[];
+}
+
+/**
+ * Ranked messages and conversations
+ */
+export interface RelatedResults {
+	messages: RelatedMessage[];
+	conversations: RelatedConversation[];
+}
 
+/**
+ * Options for IMessageClient.watch
+ */
+export interface WatchOptions {
 	/**
-	 * Filter group chats (true) or individual chats (false)
+	 * Resume after a cursor from a previous watcher or getChangesSince
+	 * Default: start from the current state of the database
 	 */
-	isGroup?: boolean;
+	cursor?: string;
 
 	/**
-	 * Limit number of results
+	 * Quiet period after a file event before reading changes
+	 * Default: 100
 	 */
-	limit?: number;
+	debounceMs?: number;
 
 	/**
-	 * Offset for pagination
+	 * Also check for changes on an interval, in case file events are missed
+	 * Default: 0 (file events only)
 	 */
-	offset?: number;
+	pollIntervalMs?: number;
+
+	/**
+	 * Closes the watcher when aborted
+	 */
+	signal?: AbortSignal;
 }
 
 /**
- * Conversation statistics
+ * What changed about a message
  */
-export interface ConversationStats {
-	totalMessages: number;
-	sentMessages: number;
-	receivedMessages: number;
-	firstMessageDate: Date | null;
-	lastMessageDate: Date | null;
+export type MessageChangeType = "new" | "edited" | "read";
+
+/**
+ * A message that was added, edited (or unsent), or marked read
+ */
+export interface MessageChange {
+	type: MessageChangeType;
+	message: EnrichedMessage;
+}
+
+/**
+ * Changes since a cursor, and the cursor to continue from
+ */
+export interface MessageChanges {
+	changes: MessageChange[];
+	cursor: string;
+}
+
+/**
+ * Options for IMessageClient.getMessageContext
+ */
+export interface MessageContextOptions {
+	/**
+	 * Messages to include before the hit
+	 * Default: 5
+	 */
+	before?: number;
+
+	/**
+	 * Messages to include after the hit
+	 * Default: 5
+	 */
+	after?: number;
+
+	/**
+	 * Relations to load for each message
+	 * Default: ["attachments", "handle"]
+	 */
+	include?: MessageInclude[];
+}
+
+/**
+ * A message with the messages around it in its chat
+ */
+export interface MessageContext {
+	/**
+	 * Chat of the message, null if it is in none
+	 */
+	chatId: number | null;
+	/**
+	 * The hit and its neighbours, oldest first; tapbacks and group events
+	 * are left out
+	 */
+	messages: EnrichedMessage[];
+	/**
+	 * Position of the hit in messages
+	 */
+	hitIndex: number;
+	/**
+	 * Whether the chat has older or newer messages outside the window
+	 */
+	hasEarlier: boolean;
+	hasLater: boolean;
+}
+
+/**
+ * Overlapping context windows of one chat, merged
+ */
+export interface ContextWindow {
+	/**
+	 * Oldest first
+	 */
+	messages: EnrichedMessage[];
+	/**
+	 * ROWIDs of the hits in the window
+	 */
+	hitIds: number[];
+	hasEarlier: boolean;
+	hasLater: boolean;
+}
+
+/**
+ * Context windows grouped by chat, see groupMessageContexts
+ */
+export interface ChatContext {
+	chatId: number | null;
+	/**
+	 * Oldest first
+	 */
+	windows: ContextWindow[];
+}
+
+/**
+ * An inline-reply thread
+ */
+export interface MessageThread {
+	root: EnrichedMessage;
+	/**
+	 * Replies to the root, oldest first
+	 */
+	replies: EnrichedMessage[];
+}
+
+/**
+ * Kind of tapback
+ */
+export type TapbackType =
+	| "loved"
+	| "liked"
+	| "disliked"
+	| "laughed"
+	| "emphasized"
+	| "questioned"
+	| "emoji"
+	| "sticker";
+
+/**
+ * A tapback left on a message
+ */
+export interface Reaction {
+	/**
+	 * GUID of the tapback's own message row
+	 */
+	guid: string;
+	type: TapbackType;
+	/**
+	 * Emoji used for "emoji" tapbacks (iOS 17+)
+	 */
+	emoji: string | null;
+	/**
+	 * Message part that was reacted to
+	 */
+	partIndex: number;
+	handleId: number;
+	/**
+	 * Phone number or email of the sender, null when sent by the user
+	 */
+	sender: string | null;
+	isFromMe: boolean;
+	date: Date;
+	/**
+	 * Whether the tapback was later taken back
+	 */
+	removed: boolean;
+	removedDate?: Date;
+}
+
+/**
+ * Message text with its formatting, decoded from an attributedBody blob
+ */
+export interface RichText {
+	text: string;
+	runs: TextRun[];
+}
+
+/**
+ * A range of message text sharing the same attributes
+ */
+export interface TextRun {
+	/**
+	 * Offset into the text, in UTF-16 code units (JavaScript string indices)
+	 */
+	start: number;
+	length: number;
+	text: string;
+	/**
+	 * Index of the message part this run belongs to
+	 */
+	partIndex?: number;
+	/**
+	 * Handle (phone number or email) of a mentioned participant
+	 */
+	mention?: string;
+	/**
+	 * URL of a detected or pasted link
+	 */
+	link?: string;
+	/**
+	 * Attachment shown at this position (the run text is the U+FFFC placeholder)
+	 */
+	attachment?: {
+		guid: string;
+		filename?: string;
+	};
+	bold?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	strikethrough?: boolean;
+}
+
+/**
+ * Kinds of group chat events
+ */
+export type ChatEventType =
+	| "participantAdded"
+	| "participantRemoved"
+	| "renamed"
+	| "groupPhotoChanged";
+
+/**
+ * A membership change, rename or group photo change in a group chat
+ */
+export interface ChatEvent {
+	type: ChatEventType;
+	/**
+	 * ROWID and guid of the message row recording the event
+	 */
+	messageId: number;
+	guid: string;
+	chatId: number;
+	date: Date;
+	/**
+	 * Whether you made the change
+	 */
+	isFromMe: boolean;
+	/**
+	 * Participant who made the change, null when it was you
+	 */
+	actor: Handle | null;
+	/**
+	 * Participant added or removed (the actor, when someone left). Null for
+	 * renames and photo changes, or when the participant was you
+	 */
+	target: Handle | null;
+	/**
+	 * New name of the conversation, for "renamed" events
+	 */
+	name?: string | null;
+	/**
+	 * Whether the photo was removed rather than replaced, for
+	 * "groupPhotoChanged" events
+	 */
+	photoRemoved?: boolean;
+}
+
+/**
+ * A stretch of time a participant was in a group chat
+ */
+export interface ParticipantSpan {
+	handle: Handle;
+	/**
+	 * When they were added, null if they were a member from the start
+	 */
+	joinedAt: Date | null;
+	/**
+	 * When they left or were removed, null if they are still a member
+	 */
+	leftAt: Date | null;
+}
+
+/**
+ * Handle (contact) record
+ */
+export interface Handle {
+	ROWID: number;
+	id: string; // Phone number or email
+	country: string | null;
+	service: string;
+	uncanonicalized_id: string | null;
+	/**
+	 * Groups the handles of one person (macOS Ventura and later)
+	 */
+	person_centric_id?: string | null;
+}
+
+/**
+ * One person's handles across phone numbers, emails and services
+ */
+export interface Identity {
+	/**
+	 * The person's first normalized address, phone numbers before emails. It
+	 * changes if handles are added or grouped differently.
+	 */
+	id: string;
+	/**
+	 * Normalized addresses: E.164 phone numbers and canonical emails
+	 */
+	addresses: string[];
+	handles: Handle[];
+}
+
+/**
+ * Chat record
+ */
+export interface Chat {
+	ROWID: number;
+	guid: string;
+	style: number;
+	state: number;
+	account_id: string;
+	chat_identifier: string;
+	service_name: string;
+	room_name: string | null;
+	account_login: string | null;
+	display_name: string | null;
+	group_id: string | null;
+	is_archived: number;
+	last_addressed_handle: string | null;
+	is_filtered: number;
+}
+
+/**
+ * Attachment record
+ */
+export interface Attachment {
+	ROWID: number;
+	guid: string;
+	filename: string | null; // e.g. "~/Library/Messages/Attachments/ab/11/<guid>/IMG_0001.heic"
+	uti: string | null;
+	mime_type: string | null;
+	transfer_name: string | null;
+	total_bytes: number;
+	is_outgoing: number;
+	is_sticker: number;
+	created_date: number;
+	start_date: number;
+	hide_attachment: number;
+}
+
+/**
+ * An attachment's file on disk, from IMessageClient.resolveAttachment
+ */
+export interface ResolvedAttachment {
+	attachment: Attachment;
+	/**
+	 * Absolute path of the file, null when the attachment has no filename
+	 */
+	path: string | null;
+	/**
+	 * Whether the file is on disk; false too when its path cannot be checked,
+	 * e.g. without permission to read a parent directory
+	 */
+	exists: boolean;
+	/**
+	 * Size on disk in bytes, null when the file is missing
+	 */
+	size: number | null;
+	/**
+	 * Type sniffed from the file's first bytes, falling back to
+	 * attachment.mime_type
+	 */
+	mimeType: string | null;
+	isSticker: boolean;
+}
+
+/**
+ * How MessageFilter.searchText matches:
+ * - "exact": SQL LIKE over the text column, ignoring ASCII case only
+ * - "folded": substring match ignoring case and accents ("cafe" finds
+ *   "Café")
+ * - "regex": searchText is a regular expression, matched ignoring case
+ *
+ * "folded" and "regex" also search text decoded from attributedBody.
+ */
+export type SearchMode = "exact" | "folded" | "regex";
+
+/**
+ * Filter options for querying messages
+ */
+export interface MessageFilter {
+	/**
+	 * Filter by chat ID
+	 */
+	chatId?: number;
+
+	/**
+	 * Filter by handle (contact) ID
+	 */
+	handleId?: number;
+
+	/**
+	 * Filter by person (see getIdentities): messages from any of their
+	 * handles, and messages sent in one-on-one chats with them
+	 */
+	identityId?: string;
+
+	/**
+	 * Filter by sender (true = sent by user, false = received)
+	 */
+	isFromMe?: boolean;
+
+	/**
+	 * Filter by service ('iMessage', 'SMS', etc.)
+	 */
+	service?: string;
+
+	/**
+	 * Search text in message content
+	 */
+	searchText?: string;
+
+	/**
+	 * How searchText matches
+	 * Default: "exact"
+	 */
+	searchMode?: SearchMode;
+
+	/**
+	 * Regular expression the message text must match, in addition to
+	 * searchText. Strings are matched ignoring case (a leading "(?s)"-style
+	 * group adds flags); a RegExp keeps its own i, m, s and u flags.
+	 */
+	searchRegex?: string | RegExp;
+
+	/**
+	 * Filter messages after this date
+	 */
+	startDate?: Date;
+
+	/**
+	 * Filter messages before this date
+	 */
+	endDate?: Date;
+
+	/**
+	 * Include tapback rows as messages of their own
+	 * Default: false (tapbacks only appear in each message's reactions)
+	 */
+	includeReactions?: boolean;
+
+	/**
+	 * Filter by whether the message was edited (true = only edited,
+	 * false = exclude edited)
+	 */
+	isEdited?: boolean;
+
+	/**
+	 * Filter by whether the message was unsent (true = only unsent,
+	 * false = exclude unsent)
+	 */
+	isRetracted?: boolean;
+
+	/**
+	 * Relations to load for each message, one query per relation
+	 * Default: ["attachments", "handle"]
+	 */
+	include?: MessageInclude[];
+
+	/**
+	 * Limit number of results
+	 */
+	limit?: number;
+
+	/**
+	 * Offset for pagination
+	 */
+	offset?: number;
+}
+
+/**
+ * Relations that can be loaded onto enriched messages
+ */
+export type MessageInclude = "attachments" | "handle" | "chat" | "participants";
+
+/**
+ * How a text condition matches message text
+ */
+export type TextMatch = "contains" | "notContains" | "regex";
+
+/**
+ * A condition of a message query (see IMessageClient.query). Conditions are
+ * plain JSON, so they can also come from outside, e.g. an MCP tool argument.
+ */
+export type MessageCondition =
+	| {
+			/**
+			 * Sender (or, for sent one-on-one messages, recipient) by handle
+			 * ROWID or exact handle id
+			 */
+			type: "handle";
+			handles: (number | string)[];
+	  }
+	| { type: "chat"; chatIds: number[] }
+	/**
+	 * Messages of any of these people (see getIdentities)
+	 */
+	| { type: "identity"; identityIds: string[] }
+	| {
+			type: "text";
+			match: TextMatch;
+			/**
+			 * Substring, or a JavaScript regular expression for "regex"
+			 */
+			value: string;
+			/**
+			 * Default: false
+			 */
+			caseSensitive?: boolean;
+	  }
+	| {
+			/**
+			 * Messages with an attachment, optionally of one of these MIME
+			 * types; "*" matches anything, e.g. "image/*"
+			 */
+			type: "attachment";
+			mimeTypes?: string[];
+	  }
+	| { type: "fromMe" }
+	| { type: "service"; services: string[] }
+	| {
+			/**
+			 * Dates or ISO 8601 strings, both inclusive
+			 */
+			type: "date";
+			after?: Date | string;
+			before?: Date | string;
+	  }
+	| { type: "edited" }
+	| { type: "unsent" }
+	| { type: "and"; conditions: MessageCondition[] }
+	| { type: "or"; conditions: MessageCondition[] }
+	| { type: "not"; condition: MessageCondition };
+
+/**
+ * Column a message query sorts by; "id" is the ROWID, i.e. insertion order
+ */
+export type MessageOrderField = "date" | "id";
+
+/**
+ * A complete message query, as built by MessageQuery
+ */
+export interface MessageQuerySpec {
+	where?: MessageCondition;
+	/**
+	 * Default: date, descending
+	 */
+	orderBy?: { field: MessageOrderField; direction?: "asc" | "desc" };
+	limit?: number;
+	offset?: number;
+	/**
+	 * Include tapback rows as messages of their own
+	 * Default: false
+	 */
+	includeReactions?: boolean;
+	/**
+	 * Default: ["attachments", "handle"]
+	 */
+	include?: MessageInclude[];
+}
+
+/**
+ * Filter options for querying chats
+ */
+export interface ChatFilter {
+	/**
+	 * Filter by chat identifier
+	 */
+	chatIdentifier?: string;
+
+	/**
+	 * Search by display name
+	 */
+	displayName?: string;
+
+	/**
+	 * Filter group chats (true) or individual chats (false)
+	 */
+	isGroup?: boolean;
+
+	/**
+	 * Limit number of results
+	 */
+	limit?: number;
+
+	/**
+	 * Offset for pagination
+	 */
+	offset?: number;
+}
+
+/**
+ * Cursor options for paged listings
+ */
+export interface PageOptions {
+	/**
+	 * nextCursor or prevCursor from a previous page
+	 * Default: start at the newest items
+	 */
+	cursor?: string;
+
+	/**
+	 * Items per page
+	 * Default: 50
+	 */
+	limit?: number;
+}
+
+/**
+ * Message filter for getMessagesPage
+ */
+export interface MessagePageFilter
+	extends Omit<MessageFilter, "limit" | "offset">,
+		PageOptions {}
+
+/**
+ * Chat filter for getChatsPage
+ */
+export interface ChatPageFilter
+	extends Omit<ChatFilter, "limit" | "offset">,
+		PageOptions {}
+
+/**
+ * Options for IMessageClient.iterateMessages
+ */
+export interface IterateOptions {
+	/**
+	 * Messages read from the database per query
+	 * Default: 500
+	 */
+	batchSize?: number;
+
+	/**
+	 * Oldest first ("asc") or newest first ("desc")
+	 * Default: "asc"
+	 */
+	order?: "asc" | "desc";
+
+	/**
+	 * Stops iteration, rejecting with the signal's reason
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * File formats the exporter can write
+ */
+export type ExportFormat =
+	| "json"
+	| "ndjson"
+	| "csv"
+	| "markdown"
+	| "html"
+	| "text";
+
+/**
+ * Picks the name shown for a message's sender in an export. Returning null
+ * or undefined falls back to "Me" or the handle's phone number or email.
+ */
+export type SenderNameResolver = (
+	message: EnrichedMessage,
+) => string | null | undefined;
+
+/**
+ * Options for IMessageClient.exportMessages
+ */
+export interface ExportOptions {
+	format: ExportFormat;
+
+	/**
+	 * File to write; missing directories are created
+	 */
+	outputPath: string;
+
+	/**
+	 * Heading of Markdown, HTML and text exports
+	 * Default: the chat's display name or identifier when exporting a chat
+	 */
+	title?: string;
+
+	/**
+	 * Display name of each message's sender
+	 */
+	resolveSenderName?: SenderNameResolver;
+
+	/**
+	 * IANA time zone of the days and times shown in Markdown, HTML and text
+	 * exports, e.g. "Europe/London". JSON, NDJSON and CSV keep UTC ISO dates.
+	 * Default: the local time zone
+	 */
+	timeZone?: string;
+
+	/**
+	 * Copy attachment files next to the export and link them from it
+	 * Default: false
+	 */
+	copyAttachments?: boolean;
+
+	/**
+	 * Directory attachments are copied to
+	 * Default: "<outputPath without extension>_attachments"
+	 */
+	attachmentsDir?: string;
+
+	/**
+	 * Stops the export, rejecting with the signal's reason
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Attachment as written to an export
+ */
+export interface ExportedAttachment {
+	name: string | null;
+	mimeType: string | null;
+	totalBytes: number;
+	/**
+	 * Path of the copied file relative to the export, null when not copied
+	 */
+	path: string | null;
+}
+
+/**
+ * Message as written to JSON, NDJSON and CSV exports
+ */
+export interface ExportedMessage {
+	id: number;
+	guid: string;
+	date: string;
+	sender: string;
+	isFromMe: boolean;
+	text: string | null;
+	service: string;
+	replyToGuid: string | null;
+	edited: boolean;
+	unsent: boolean;
+	attachments: ExportedAttachment[];
+	reactions: { type: TapbackType; emoji: string | null; sender: string }[];
+}
+
+/**
+ * Summary of a finished export
+ */
+export interface ExportResult {
+	format: ExportFormat;
+	outputPath: string;
+	messageCount: number;
+	/**
+	 * Directory attachments were copied to, null unless copyAttachments
+	 */
+	attachmentsDir: string | null;
+	attachmentsCopied: number;
+	/**
+	 * Attachments whose file was no longer on disk
+	 */
+	attachmentsMissing: number;
+}
+
+/**
+ * One page of a cursor-paginated listing
+ */
+export interface Page<T> {
+	items: T[];
+	/**
+	 * Cursor for the next (older) page, null on the last page
+	 */
+	nextCursor: string | null;
+	/**
+	 * Cursor for the previous (newer) page, null on the first page
+	 */
+	prevCursor: string | null;
+}
+
+/**
+ * A chat from getRecentChats, with its participants and last message
+ */
+export type RecentChat = Chat & {
+	lastMessage?: Message;
+	participants: Handle[];
+};
+
+/**
+ * Messages getConversationStats counts: one chat, one person, or both
+ */
+export interface ConversationStatsScope {
+	chatId?: number;
+	identityId?: string;
+}
+
+/**
+ * Conversation statistics
+ */
+export interface ConversationStats {
+	totalMessages: number;
+	sentMessages: number;
+	receivedMessages: number;
+	firstMessageDate: Date | null;
+	lastMessageDate: Date | null;
+}
+
+/**
+ * Options for getConversationInsights
+ */
+export interface InsightsOptions {
+	/**
+	 * Limit the analysis to one chat; all chats by default
+	 */
+	chatId?: number;
+	startDate?: Date;
+	endDate?: Date;
+	/**
+	 * Silence (ms) after which a message starts a new conversation instead of
+	 * replying to the last one. Default: 6 hours
+	 */
+	conversationGap?: number;
+	/**
+	 * Number of streaks, silences and contacts to return. Default: 10
+	 */
+	limit?: number;
+}
+
+/**
+ * Distribution of reply, delivery or read delays, in milliseconds
+ */
+export interface ResponseTimeStats {
+	/**
+	 * Delays measured
+	 */
+	count: number;
+	median: number | null;
+	p90: number | null;
+}
+
+/**
+ * How quickly each side of a chat replies to the other
+ */
+export interface ChatResponseTimes {
+	chatId: number;
+	/**
+	 * Delay before the user replied to someone else
+	 */
+	mine: ResponseTimeStats;
+	/**
+	 * Delay before someone else replied to the user
+	 */
+	theirs: ResponseTimeStats;
+}
+
+/**
+ * A run of consecutive local calendar days, inclusive
+ */
+export interface DayRange {
+	start: Date;
+	end: Date;
+	days: number;
+}
+
+/**
+ * Volume and initiative of a one-on-one conversation partner
+ */
+export interface ContactActivity {
+	handle: Handle;
+	chatIds: number[];
+	sent: number;
+	received: number;
+	total: number;
+	/**
+	 * Conversations (see InsightsOptions.conversationGap) started by the user
+	 */
+	initiatedByMe: number;
+	/**
+	 * Conversations started by the contact
+	 */
+	initiatedByThem: number;
+	/**
+	 * Share of conversations started by the user, 0-1, null without any
+	 */
+	myInitiationShare: number | null;
+}
+
+/**
+ * Response times, activity patterns and contact rankings over a set of
+ * messages. Hours and days are in the local timezone.
+ */
+export interface ConversationInsights {
+	totalMessages: number;
+	sentMessages: number;
+	receivedMessages: number;
+	/**
+	 * Reply delays across all chats analysed
+	 */
+	responseTimes: Omit<ChatResponseTimes, "chatId">;
+	/**
+	 * Reply delays per chat, most active first
+	 */
+	chatResponseTimes: ChatResponseTimes[];
+	/**
+	 * Messages per hour of the day, index 0 being midnight
+	 */
+	hourOfDay: number[];
+	/**
+	 * Messages per day of the week, index 0 being Sunday
+	 */
+	weekday: number[];
+	/**
+	 * Longest runs of days with at least one message, longest first
+	 */
+	streaks: DayRange[];
+	/**
+	 * Longest runs of days without any message, longest first
+	 */
+	silences: DayRange[];
+	/**
+	 * One-on-one contacts by message volume, most messages first
+	 */
+	contacts: ContactActivity[];
+}
+
+/**
+ * Why a sent message did not arrive: it failed with an error, or it never
+ * reported delivery
+ */
+export type DeliveryStatus = "failed" | "undelivered";
+
+/**
+ * Period delivery reports are bucketed by, in the local timezone. Weeks
+ * start on Monday.
+ */
+export type ReportInterval = "day" | "week" | "month";
+
+/**
+ * Options for getDeliveryReport
+ */
+export interface DeliveryReportOptions {
+	chatId?: number;
+	/**
+	 * Recipient handle ROWID
+	 */
+	handleId?: number;
+	startDate?: Date;
+	endDate?: Date;
+	/**
+	 * Default: "month"
+	 */
+	interval?: ReportInterval;
+	/**
+	 * Number of contacts to return. Default: 10
+	 */
+	limit?: number;
+}
+
+/**
+ * Delivery and read-receipt outcomes of a set of sent messages
+ */
+export interface DeliverySummary {
+	sent: number;
+	delivered: number;
+	/**
+	 * Messages with a read receipt
+	 */
+	read: number;
+	failed: number;
+	undelivered: number;
+	/**
+	 * Time from sending to delivery
+	 */
+	deliveryLatency: ResponseTimeStats;
+	/**
+	 * Time from sending to the read receipt
+	 */
+	readLatency: ResponseTimeStats;
+}
+
+/**
+ * Delivery outcomes of messages sent to a one-on-one contact
+ */
+export interface ContactDeliverySummary extends DeliverySummary {
+	handle: Handle;
+}
+
+/**
+ * Delivery outcomes of messages sent in one period
+ */
+export interface DeliveryPeriod extends DeliverySummary {
+	/**
+	 * Local start of the period
+	 */
+	start: Date;
+}
+
+/**
+ * Delivery and read latency of sent messages, overall, per contact and over
+ * time
+ */
+export interface DeliveryReport extends DeliverySummary {
+	/**
+	 * One-on-one contacts, most messages sent first
+	 */
+	byContact: ContactDeliverySummary[];
+	/**
+	 * Periods with sent messages, oldest first
+	 */
+	overTime: DeliveryPeriod[];
+}
+
+/**
+ * Options for getUndeliveredMessages
+ */
+export interface UndeliveredFilter {
+	chatId?: number;
+	handleId?: number;
+	startDate?: Date;
+	endDate?: Date;
+	/**
+	 * Only failed or only undelivered messages; both by default
+	 */
+	status?: DeliveryStatus;
+	/**
+	 * Default: 100
+	 */
+	limit?: number;
+}
+
+/**
+ * A sent message that did not arrive
+ */
+export interface UndeliveredMessage {
+	message: EnrichedMessage;
+	status: DeliveryStatus;
+	/**
+	 * Error code from the error column, 0 for undelivered messages
+	 */
+	error: number;
+}
+
+/**
+ * Whether a chat is one-on-one or a group, from chat.style (45 and 43)
+ */
+export type ChatKind = "direct" | "group";
+
+/**
+ * Messaging service of a message, chat or handle
+ */
+export type Service = "iMessage" | "SMS" | "RCS" | "other";
+
+/**
+ * What a message mainly is, for MessageView.kind
+ */
+export type MessageKind =
+	| "text"
+	| "attachment"
+	| "audio"
+	| "balloon"
+	| "reaction"
+	| "unsent";
+
+/**
+ * Picks the name shown for a handle, e.g. from the address book. Returning
+ * null or undefined falls back to the formatted phone number or email.
+ */
+export type HandleNameResolver = (handle: Handle) => string | null | undefined;
+
+/**
+ * Configuration for IMessageViewClient
+ */
+export interface IMessageViewConfig extends IMessageConfig {
+	/**
+	 * Raw client to wrap instead of opening the database again
+	 */
+	client?: IMessageClient;
+
+	/**
+	 * Display name of each participant
+	 */
+	resolveName?: HandleNameResolver;
+}
+
+/**
+ * A handle as a participant, with a display name
+ */
+export interface ParticipantView {
+	/**
+	 * Handle ROWID
+	 */
+	id: number;
+	/**
+	 * Phone number or email
+	 */
+	address: string;
+	/**
+	 * Resolved name, or the formatted address
+	 */
+	displayName: string;
+	service: Service;
+	country: string | null;
+	/**
+	 * Person the handle belongs to (see IMessageClient.getIdentities)
+	 */
+	identityId: string | null;
+}
+
+/**
+ * An attachment with readable fields
+ */
+export interface AttachmentView {
+	id: number;
+	guid: string;
+	/**
+	 * Name the file was sent with
+	 */
+	name: string | null;
+	/**
+	 * Path as stored, usually under ~/Library/Messages/Attachments
+	 */
+	path: string | null;
+	mimeType: string | null;
+	uti: string | null;
+	size: number;
+	isSticker: boolean;
+	isHidden: boolean;
+	createdAt: Date | null;
+}
+
+/**
+ * A message with readable fields: Dates instead of Apple timestamps,
+ * booleans instead of 0/1 flags and decoded text
+ */
+export interface MessageView {
+	id: number;
+	guid: string;
+	kind: MessageKind;
+	/**
+	 * Message text, decoded from attributedBody when needed, or a description
+	 * of its balloon
+	 */
+	text: string | null;
+	subject: string | null;
+	isFromMe: boolean;
+	/**
+	 * Who sent the message, null when it was you
+	 */
+	sender: ParticipantView | null;
+	service: Service;
+	/**
+	 * Chat the message belongs to, when loaded with include: ["chat"]
+	 */
+	chatId: number | null;
+	sentAt: Date;
+	deliveredAt: Date | null;
+	readAt: Date | null;
+	/**
+	 * When the message was last edited or unsent
+	 */
+	editedAt: Date | null;
+	isRead: boolean;
+	isDelivered: boolean;
+	isSent: boolean;
+	/**
+	 * Send error code, null if none
+	 */
+	error: number | null;
+	attachments: AttachmentView[];
+	reactions: Reaction[];
+	replyTo: ReplyReference | null;
+	edits: MessageEdit[];
+	balloon: MessageBalloon | null;
+	/**
+	 * The row the view was mapped from
+	 */
+	raw: EnrichedMessage;
+}
+
+/**
+ * A chat with readable fields and its participants
+ */
+export interface ChatView {
+	id: number;
+	guid: string;
+	kind: ChatKind;
+	service: Service;
+	/**
+	 * Phone number or email of one-on-one chats, "chat…" ID of groups
+	 */
+	identifier: string;
+	/**
+	 * Name given to the group, if any
+	 */
+	name: string | null;
+	/**
+	 * The name, else the participants' display names
+	 */
+	displayName: string;
+	participants: ParticipantView[];
+	isArchived: boolean;
+	/**
+	 * Date of the last message, for chats from getRecentChats
+	 */
+	lastMessageAt: Date | null;
+	raw: Chat;
+}
+
+/**
+ * Options for IMessageClient.getSessions
+ */
+export interface SessionOptions {
+	/**
+	 * Limit to one chat; all chats by default
+	 */
+	chatId?: number;
+	/**
+	 * Only messages in this range are split into sessions, so sessions
+	 * crossing its edges are cut there
+	 */
+	startDate?: Date;
+	endDate?: Date;
+	/**
+	 * Silence (ms) after which the next message starts a new session
+	 * Default: 6 hours, as in InsightsOptions.conversationGap
+	 */
+	conversationGap?: number;
+	/**
+	 * Maximum number of sessions to return, most recent first
+	 * Default: 50
+	 */
+	limit?: number;
+	/**
+	 * What to load for opening messages
+	 */
+	include?: MessageInclude[];
+}
+
+/**
+ * A burst of messages in one chat, separated from the rest by silences of at
+ * least the conversation gap
+ */
+export interface ConversationSession {
+	chatId: number;
+	/**
+	 * Dates of the first and last message
+	 */
+	start: Date;
+	end: Date;
+	/**
+	 * ROWIDs of the first and last message, for getSessionMessages
+	 */
+	firstMessageId: number;
+	lastMessageId: number;
+	messageCount: number;
+	/**
+	 * Messages you sent
+	 */
+	sentCount: number;
+	/**
+	 * Other participants who sent a message, in order of their first one
+	 */
+	speakers: Handle[];
+	/**
+	 * The message that started the session
+	 */
+	openingMessage: EnrichedMessage;
 }
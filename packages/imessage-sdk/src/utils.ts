@@ -3,17 +3,25 @@
  */
 
 import * as fs from "node:fs";
+import { balloonDisplayText } from "./balloons";
+import { isSecondsTimestamp } from "./schema";
+import { decodeAttributedBody } from "./typedstream";
+import type { MessageBalloon, TimestampUnit } from "./types";
 
 /**
  * Converts Apple's Core Data timestamp to JavaScript Date
- * Apple stores dates as nanoseconds since 2001-01-01
+ * Apple stores dates as nanoseconds since 2001-01-01, or as seconds in
+ * databases created before macOS High Sierra; the unit is inferred from the
+ * magnitude
  */
 export function appleTimeToDate(appleTime: number): Date {
 	// Apple epoch starts at 2001-01-01 00:00:00 UTC
 	const APPLE_EPOCH = 978307200; // Unix timestamp for 2001-01-01
 
 	// Convert nanoseconds to seconds (divide by 1 billion)
-	const seconds = appleTime / 1000000000;
+	const seconds = isSecondsTimestamp(appleTime)
+		? appleTime
+		: appleTime / 1000000000;
 
 	// Add Apple epoch to get Unix timestamp
 	const unixTimestamp = seconds + APPLE_EPOCH;
@@ -23,12 +31,16 @@ export function appleTimeToDate(appleTime: number): Date {
 
 /**
  * Converts JavaScript Date to Apple's Core Data timestamp
+ * @param unit "seconds" for databases created before macOS High Sierra
  */
-export function dateToAppleTime(date: Date): number {
+export function dateToAppleTime(
+	date: Date,
+	unit: TimestampUnit = "nanoseconds",
+): number {
 	const APPLE_EPOCH = 978307200;
 	const unixTimestamp = Math.floor(date.getTime() / 1000);
 	const seconds = unixTimestamp - APPLE_EPOCH;
-	return seconds * 1000000000;
+	return unit === "seconds" ? seconds : seconds * 1000000000;
 }
 
 /**
@@ -61,11 +73,24 @@ export function isGroupChat(chatIdentifier: string): boolean {
 
 /**
  * Safely parses attributedBody blob (for macOS Ventura+)
- * Based on the Python approach: extract text between NSString and NSDictionary markers
+ * Decodes the typedstream archive; blobs that don't decode fall back to
+ * scanning for the text between the NSString and NSDictionary markers
  */
 export function parseAttributedBody(buffer: Buffer | null): string | null {
 	if (!buffer) return null;
 
+	const richText = decodeAttributedBody(buffer);
+	if (richText) {
+		return richText.text.trim() || null;
+	}
+
+	return scanAttributedBody(buffer);
+}
+
+/**
+ * Marker-based text extraction, based on the Python approach
+ */
+function scanAttributedBody(buffer: Buffer): string | null {
 	try {
 		// Decode buffer as UTF-8, replacing invalid sequences
 		let attributedBody = buffer.toString("utf8");
@@ -107,6 +132,14 @@ export function parseAttributedBody(buffer: Buffer | null): string | null {
 	}
 }
 
+/**
+ * Parses the part index from a thread_originator_part value ("part:start:length")
+ */
+export function parseThreadOriginatorPart(part: string | null): number {
+	const index = Number.parseInt(part?.split(":")[0] ?? "", 10);
+	return Number.isNaN(index) ? 0 : index;
+}
+
 /**
  * Gets the default iMessage database path
  */
@@ -115,6 +148,14 @@ export function getDefaultDatabasePath(): string {
 	return `${homeDir}/Library/Messages/chat.db`;
 }
 
+/**
+ * Gets the default path of the sidecar search index
+ */
+export function getDefaultSearchIndexPath(): string {
+	const homeDir = process.env.HOME || process.env.USERPROFILE || "";
+	return `${homeDir}/Library/Application Support/macos-tools/imessage-search.db`;
+}
+
 /**
  * Validates that the database path exists and is accessible
  */
@@ -137,16 +178,62 @@ export interface FormattableMessage {
 	handle?: {
 		id: string;
 	};
+	replyTo?: {
+		text: string | null;
+		isFromMe: boolean;
+		sender: string | null;
+	};
+	edits?: unknown[];
+	unsent?: boolean;
+	balloon?: MessageBalloon;
 }
 
+/**
+ * Options for formatMessage
+ */
+export interface FormatMessageOptions {
+	/**
+	 * Append "↳ replying to …" context for inline replies
+	 * Default: true
+	 */
+	showReplyContext?: boolean;
+	/**
+	 * Display name for a sender's phone number or email, e.g. from Contacts.
+	 * Returning null or undefined shows the address itself.
+	 */
+	resolveName?: (address: string) => string | null | undefined;
+}
+
+/**
+ * Name shown for someone else's phone number or email
+ */
+export function formatSender(
+	address: string | null | undefined,
+	resolveName?: FormatMessageOptions["resolveName"],
+): string {
+	if (!address) return "Unknown";
+	return resolveName?.(address) || address;
+}
+
+/**
+ * Longest quote of the replied-to message kept in reply context
+ */
+const REPLY_QUOTE_LENGTH = 60;
+
 /**
  * Formats a message for display
  * Uses enriched message data when available (handle.id) for better display
  * @param msg Message object to format (preferably EnrichedMessage)
+ * @param options Formatting options
  * @returns Formatted string with timestamp, sender, and text
  */
-export function formatMessage(msg: FormattableMessage): string {
-	const sender = msg.is_from_me ? "Me" : msg.handle?.id || "Unknown";
+export function formatMessage(
+	msg: FormattableMessage,
+	options: FormatMessageOptions = {},
+): string {
+	const sender = msg.is_from_me
+		? "Me"
+		: formatSender(msg.handle?.id, options.resolveName);
 
 	// Handle both Buffer and string attributedBody
 	let text: string | null = null;
@@ -159,8 +246,28 @@ export function formatMessage(msg: FormattableMessage): string {
 	} else {
 		text = msg.text ?? null;
 	}
+	// Link previews and app balloons have only a placeholder for text
+	text = balloonDisplayText(text, msg.balloon);
 
 	// Apple time is nanoseconds since 2001-01-01, convert to readable date
 	const date = appleTimeToDate(msg.date);
-	return `[${date.toISOString()}] ${sender}: ${text ?? ""}`;
+	let line = `[${date.toISOString()}] ${sender}: ${text ?? ""}`;
+	if (msg.unsent) {
+		line += text ? " (partly unsent)" : "(unsent)";
+	} else if (msg.edits && msg.edits.length > 0) {
+		line += " (edited)";
+	}
+
+	if (!msg.replyTo || options.showReplyContext === false) {
+		return line;
+	}
+
+	const repliedTo = msg.replyTo.isFromMe
+		? "Me"
+		: formatSender(msg.replyTo.sender, options.resolveName);
+	let quote = (msg.replyTo.text ?? "").replace(/\s+/g, " ").trim();
+	if (quote.length > REPLY_QUOTE_LENGTH) {
+		quote = `${quote.slice(0, REPLY_QUOTE_LENGTH - 1)}…`;
+	}
+	return `${line} (↳ replying to ${repliedTo}: “${quote}”)`;
 }
@@ -0,0 +1,169 @@
+/**
+ * High-level client returning domain views
+ *
+ * IMessageViewClient wraps an IMessageClient and maps what it returns to
+ * MessageView, ChatView and ParticipantView. The raw client stays available
+ * as `raw` for anything the views leave out.
+ *
+ * @example
+ * ```typescript
+ * const messages = new IMessageViewClient({
+ *   resolveName: (handle) => contacts.findByAddress(handle.id)?.fullName,
+ * });
+ *
+ * for (const chat of messages.getRecentChats(10)) {
+ *   console.log(chat.kind, chat.displayName, chat.lastMessageAt);
+ * }
+ * ```
+ */
+
+import { IMessageClient } from "./client";
+import type {
+	Chat,
+	ChatFilter,
+	ChatView,
+	Handle,
+	IMessageViewConfig,
+	MessageFilter,
+	MessageInclude,
+	MessagePageFilter,
+	MessageQuerySpec,
+	MessageView,
+	Page,
+	ParticipantView,
+} from "./types";
+import {
+	toChatView,
+	toMessageView,
+	toParticipantView,
+	type ViewContext,
+} from "./views";
+
+/**
+ * Relations loaded for views unless a filter names its own; "chat" fills
+ * MessageView.chatId
+ */
+const VIEW_INCLUDE: MessageInclude[] = ["attachments", "handle", "chat"];
+
+export class IMessageViewClient {
+	/**
+	 * The wrapped client, returning raw rows
+	 */
+	readonly raw: IMessageClient;
+	private readonly ownsClient: boolean;
+	private readonly context: ViewContext;
+	private identities: Map<string, string> | null = null;
+
+	constructor(config: IMessageViewConfig = {}) {
+		const { client, resolveName, ...clientConfig } = config;
+		this.raw = client ?? new IMessageClient(clientConfig);
+		this.ownsClient = !client;
+		this.context = {
+			resolveName,
+			identityOf: (handle) => this.identityOf(handle),
+		};
+	}
+
+	getMessages(filter: MessageFilter = {}): MessageView[] {
+		return this.raw
+			.getMessages({ include: VIEW_INCLUDE, ...filter })
+			.map((message) => toMessageView(message, this.context));
+	}
+
+	getMessagesPage(filter: MessagePageFilter = {}): Page<MessageView> {
+		const page = this.raw.getMessagesPage({ include: VIEW_INCLUDE, ...filter });
+		return {
+			...page,
+			items: page.items.map((message) => toMessageView(message, this.context)),
+		};
+	}
+
+	getMessageById(messageId: number): MessageView | null {
+		const message = this.raw.getMessageById(messageId);
+		return message ? toMessageView(message, this.context) : null;
+	}
+
+	/**
+	 * Runs a query spec, e.g. from `client.raw.query()...toSpec()`
+	 */
+	queryMessages(spec: MessageQuerySpec): MessageView[] {
+		return this.raw
+			.query({ include: VIEW_INCLUDE, ...spec })
+			.all()
+			.map((message) => toMessageView(message, this.context));
+	}
+
+	getChats(filter: ChatFilter = {}): ChatView[] {
+		return this.toChatViews(this.raw.getChats(filter));
+	}
+
+	getChatById(chatId: number): ChatView | null {
+		const chat = this.raw.getChatById(chatId);
+		return chat ? toChatView(chat, chat.participants, this.context) : null;
+	}
+
+	/**
+	 * Chats ordered by last message, most recent first
+	 */
+	getRecentChats(limit = 20): ChatView[] {
+		return this.raw
+			.getRecentChats(limit)
+			.map((chat) =>
+				toChatView(
+					chat,
+					chat.participants,
+					this.context,
+					(chat as { last_message_date?: number }).last_message_date ??
+						chat.lastMessage?.date,
+				),
+			);
+	}
+
+	getParticipants(chatId: number): ParticipantView[] {
+		return this.raw
+			.getParticipantsForChat(chatId)
+			.map((handle) => toParticipantView(handle, this.context));
+	}
+
+	getHandles(): ParticipantView[] {
+		return this.raw
+			.getHandles()
+			.map((handle) => toParticipantView(handle, this.context));
+	}
+
+	getHandleById(handleId: number): ParticipantView | null {
+		const handle = this.raw.getHandleById(handleId);
+		return handle ? toParticipantView(handle, this.context) : null;
+	}
+
+	/**
+	 * Closes the database, unless the client was passed in
+	 */
+	close(): void {
+		if (this.ownsClient) this.raw.close();
+	}
+
+	private toChatViews(chats: Chat[]): ChatView[] {
+		const participants = this.raw.getParticipantsForChats(
+			chats.map((chat) => chat.ROWID),
+		);
+		return chats.map((chat) =>
+			toChatView(chat, participants.get(chat.ROWID) ?? [], this.context),
+		);
+	}
+
+	/**
+	 * Identity of a handle, from identities built once per client
+	 */
+	private identityOf(handle: Handle): string | null {
+		if (!this.identities) {
+			this.identities = new Map();
+			for (const identity of this.raw.getIdentities()) {
+				for (const member of identity.handles) {
+					this.identities.set(member.id, identity.id);
+				}
+			}
+		}
+		return this.identities.get(handle.id) ?? null;
+	}
+}
@@ -0,0 +1,209 @@
+/**
+ * Domain views of raw rows
+ *
+ * Message, Chat and Handle mirror chat.db columns: 0/1 flags, Apple
+ * timestamps and magic numbers such as chat.style. The mappers here turn
+ * them into MessageView, ChatView and ParticipantView, with Dates, booleans,
+ * string kinds and display names. IMessageViewClient returns these by
+ * default.
+ */
+
+import { balloonDisplayText } from "./balloons";
+import { isReactionType } from "./reactions";
+import type {
+	Attachment,
+	AttachmentView,
+	Chat,
+	ChatKind,
+	ChatView,
+	EnrichedMessage,
+	Handle,
+	HandleNameResolver,
+	MessageKind,
+	MessageView,
+	ParticipantView,
+	Service,
+} from "./types";
+import { appleTimeToDate, formatHandle, isGroupChat } from "./utils";
+
+/**
+ * chat.style of group chats
+ */
+export const GROUP_CHAT_STYLE = 43;
+
+/**
+ * chat.style of one-on-one chats
+ */
+export const DIRECT_CHAT_STYLE = 45;
+
+/**
+ * Participants named in a group's display name before "+N more"
+ */
+const MAX_NAMED_PARTICIPANTS = 3;
+
+/**
+ * What a view mapper needs besides the row
+ */
+export interface ViewContext {
+	resolveName?: HandleNameResolver;
+	/**
+	 * Identity ID of a handle, see IMessageClient.getIdentities
+	 */
+	identityOf?: (handle: Handle) => string | null;
+}
+
+/**
+ * Service of a service or service_name column
+ */
+export function toService(value: string | null | undefined): Service {
+	return value === "iMessage" || value === "SMS" || value === "RCS"
+		? value
+		: "other";
+}
+
+/**
+ * Whether a chat is a group, from its style or, for unknown styles, its
+ * identifier
+ */
+export function toChatKind(
+	chat: Pick<Chat, "style" | "chat_identifier">,
+): ChatKind {
+	if (chat.style === GROUP_CHAT_STYLE) return "group";
+	if (chat.style === DIRECT_CHAT_STYLE) return "direct";
+	return isGroupChat(chat.chat_identifier) ? "group" : "direct";
+}
+
+/**
+ * What a message mainly is: unsent and tapback rows first, then audio
+ * messages, balloons and attachment-only messages
+ */
+export function toMessageKind(message: EnrichedMessage): MessageKind {
+	if (message.unsent && !message.text) return "unsent";
+	if (isReactionType(message.associated_message_type)) return "reaction";
+	if (message.is_audio_message === 1) return "audio";
+	if (message.balloon) return "balloon";
+
+	const visibleText = (message.text ?? "").replace(/\uFFFC/g, "").trim();
+	const hasAttachments = (message.attachments ?? []).some(
+		(attachment) => !attachment.hide_attachment,
+	);
+	return hasAttachments && !visibleText ? "attachment" : "text";
+}
+
+export function toParticipantView(
+	handle: Handle,
+	context: ViewContext = {},
+): ParticipantView {
+	return {
+		id: handle.ROWID,
+		address: handle.id,
+		displayName: context.resolveName?.(handle) || formatHandle(handle.id),
+		service: toService(handle.service),
+		country: handle.country,
+		identityId: context.identityOf?.(handle) ?? null,
+	};
+}
+
+export function toAttachmentView(attachment: Attachment): AttachmentView {
+	return {
+		id: attachment.ROWID,
+		guid: attachment.guid,
+		name: attachment.transfer_name,
+		path: attachment.filename,
+		mimeType: attachment.mime_type,
+		uti: attachment.uti,
+		size: attachment.total_bytes,
+		isSticker: attachment.is_sticker === 1,
+		isHidden: attachment.hide_attachment === 1,
+		createdAt: optionalDate(attachment.created_date),
+	};
+}
+
+export function toMessageView(
+	message: EnrichedMessage,
+	context: ViewContext = {},
+): MessageView {
+	const editedAt = Math.max(
+		message.date_edited || 0,
+		message.date_retracted || 0,
+	);
+
+	return {
+		id: message.ROWID,
+		guid: message.guid,
+		kind: toMessageKind(message),
+		text: balloonDisplayText(message.text, message.balloon),
+		subject: message.subject,
+		isFromMe: message.is_from_me === 1,
+		sender:
+			message.is_from_me === 1 || !message.handle
+				? null
+				: toParticipantView(message.handle, context),
+		service: toService(message.service),
+		chatId: message.chat?.ROWID ?? null,
+		sentAt: appleTimeToDate(message.date),
+		deliveredAt: optionalDate(message.date_delivered),
+		readAt: optionalDate(message.date_read),
+		editedAt: optionalDate(editedAt),
+		isRead: message.is_read === 1,
+		isDelivered: message.is_delivered === 1,
+		isSent: message.is_sent === 1,
+		error: message.error || null,
+		attachments: (message.attachments ?? []).map(toAttachmentView),
+		reactions: message.reactions ?? [],
+		replyTo: message.replyTo ?? null,
+		edits: message.edits ?? [],
+		balloon: message.balloon ?? null,
+		raw: message,
+	};
+}
+
+/**
+ * @param participants The chat's participants, not including you
+ * @param lastMessageDate Apple timestamp of the chat's last message
+ */
+export function toChatView(
+	chat: Chat,
+	participants: Handle[],
+	context: ViewContext = {},
+	lastMessageDate?: number | null,
+): ChatView {
+	const views = participants.map((handle) =>
+		toParticipantView(handle, context),
+	);
+
+	return {
+		id: chat.ROWID,
+		guid: chat.guid,
+		kind: toChatKind(chat),
+		service: toService(chat.service_name),
+		identifier: chat.chat_identifier,
+		name: chat.display_name || null,
+		displayName: chat.display_name || participantNames(views, chat),
+		participants: views,
+		isArchived: chat.is_archived === 1,
+		lastMessageAt: optionalDate(lastMessageDate),
+		raw: chat,
+	};
+}
+
+/**
+ * "Ada, Grace, Alan +2 more" for unnamed groups, the other person's name for
+ * one-on-one chats
+ */
+function participantNames(participants: ParticipantView[], chat: Chat): string {
+	if (participants.length === 0) return formatHandle(chat.chat_identifier);
+
+	const names = participants
+		.slice(0, MAX_NAMED_PARTICIPANTS)
+		.map((participant) => participant.displayName);
+	const more = participants.length - names.length;
+	return more > 0 ? `${names.join(", ")} +${more} more` : names.join(", ");
+}
+
+/**
+ * Date of an Apple timestamp, null for 0 (never) or a missing value
+ */
+function optionalDate(appleTime: number | null | undefined): Date | null {
+	return appleTime ? appleTimeToDate(appleTime) : null;
+}
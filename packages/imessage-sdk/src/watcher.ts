@@ -0,0 +1,287 @@
+/**
+ * Live change feed over chat.db
+ *
+ * Messages.app writes to chat.db through its write-ahead log, so every new
+ * message, edit or read receipt touches chat.db-wal. The watcher listens for
+ * file events in the database's directory, debounces bursts of writes, and
+ * asks the client for rows past its cursor: the highest ROWID seen plus the
+ * latest date_edited/date_retracted and date_read values.
+ */
+
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { MessageChange, MessageChanges, WatchOptions } from "./types";
+
+/**
+ * Separator between the fields of a serialized cursor
+ */
+const CURSOR_SEPARATOR = ":";
+
+/**
+ * Checks in a row that may find chat.db locked by Messages.app before the
+ * lock is reported as an error
+ */
+const MAX_BUSY_RETRIES = 10;
+
+/**
+ * Failed checks in a row after which the watcher gives up and closes
+ */
+const MAX_FAILED_CHECKS = 5;
+
+/**
+ * Position in the change feed, decoded from its opaque string form
+ */
+export interface WatchCursorState {
+	rowId: bigint;
+	editedDate: bigint;
+	readDate: bigint;
+}
+
+/**
+ * Serializes a cursor position
+ */
+export function encodeWatchCursor(state: WatchCursorState): string {
+	return [state.rowId, state.editedDate, state.readDate].join(CURSOR_SEPARATOR);
+}
+
+/**
+ * Parses a cursor returned by a watcher or getChangesSince
+ * @throws Error if the cursor is malformed
+ */
+export function decodeWatchCursor(cursor: string): WatchCursorState {
+	const parts = cursor.split(CURSOR_SEPARATOR);
+	if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+		throw new Error(`Invalid watch cursor: ${cursor}`);
+	}
+	const [rowId, editedDate, readDate] = parts.map((part) => BigInt(part));
+	return {
+		rowId: rowId as bigint,
+		editedDate: editedDate as bigint,
+		readDate: readDate as bigint,
+	};
+}
+
+/**
+ * Emits a "change" event for every new, edited or read message, in ROWID
+ * order, and can be consumed as an async iterator instead.
+ *
+ * Events: "change" (MessageChange), "error" (Error), "close"
+ *
+ * Checks that find chat.db locked while Messages.app writes are retried.
+ * Other errors reject the next async iteration and are emitted only when
+ * something listens for "error"; the watcher tries again on the next write,
+ * and closes after MAX_FAILED_CHECKS failures in a row, keeping the last
+ * one in `error`.
+ */
+export class MessageWatcher extends EventEmitter {
+	private fsWatcher: fs.FSWatcher | null = null;
+	private debounceTimer: NodeJS.Timeout | null = null;
+	private pollTimer: NodeJS.Timeout | null = null;
+	private closed = false;
+	private currentCursor: string;
+	private busyRetries = 0;
+	private failedChecks = 0;
+	private closeError: Error | null = null;
+
+	constructor(
+		databasePath: string,
+		cursor: string,
+		private readonly getChanges: (cursor: string) => MessageChanges,
+		private readonly options: WatchOptions = {},
+	) {
+		super();
+		this.currentCursor = cursor;
+
+		const fileName = path.basename(databasePath);
+		this.fsWatcher = fs.watch(path.dirname(databasePath), (_event, name) => {
+			// chat.db, chat.db-wal and chat.db-shm all signal a write
+			if (!name || name.toString().startsWith(fileName)) {
+				this.schedule();
+			}
+		});
+		this.fsWatcher.on("error", (error) => this.fail(error));
+
+		// Report what happened while a resumed watcher was not running
+		if (options.cursor) {
+			this.schedule();
+		}
+
+		if (options.pollIntervalMs) {
+			this.pollTimer = setInterval(() => this.check(), options.pollIntervalMs);
+		}
+
+		if (options.signal?.aborted) {
+			this.close();
+		} else {
+			options.signal?.addEventListener("abort", () => this.close(), {
+				once: true,
+			});
+		}
+	}
+
+	/**
+	 * Cursor after the last batch of changes. Persist it and pass it back as
+	 * `watch({ cursor })` to resume without missing changes; it advances a
+	 * whole batch at a time, before the batch's events are emitted.
+	 */
+	get cursor(): string {
+		return this.currentCursor;
+	}
+
+	/**
+	 * Whether the watcher has been closed
+	 */
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	/**
+	 * Error that closed the watcher after repeated failed checks, or null
+	 */
+	get error(): Error | null {
+		return this.closeError;
+	}
+
+	/**
+	 * Check for changes now instead of waiting for a file event
+	 */
+	check(): MessageChange[] {
+		if (this.closed) return [];
+
+		let result: MessageChanges;
+		try {
+			result = this.getChanges(this.currentCursor);
+		} catch (error) {
+			if (isBusyError(error) && this.busyRetries < MAX_BUSY_RETRIES) {
+				this.busyRetries++;
+				this.schedule();
+			} else {
+				this.busyRetries = 0;
+				this.fail(error);
+			}
+			return [];
+		}
+
+		this.busyRetries = 0;
+		this.failedChecks = 0;
+		this.currentCursor = result.cursor;
+		for (const change of result.changes) {
+			this.emit("change", change);
+		}
+		return result.changes;
+	}
+
+	/**
+	 * Stop watching. Pending async iterations finish.
+	 */
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+
+		this.fsWatcher?.close();
+		this.fsWatcher = null;
+		if (this.debounceTimer) clearTimeout(this.debounceTimer);
+		if (this.pollTimer) clearInterval(this.pollTimer);
+		this.emit("close");
+	}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<MessageChange> {
+		const queue: MessageChange[] = [];
+		const waiting: {
+			resolve: (result: IteratorResult<MessageChange>) => void;
+			reject: (error: Error) => void;
+		}[] = [];
+		let failure: Error | null = null;
+
+		const onChange = (change: MessageChange) => {
+			const next = waiting.shift();
+			if (next) {
+				next.resolve({ value: change, done: false });
+			} else {
+				queue.push(change);
+			}
+		};
+		// Held for the next call when no call is waiting, then cleared
+		const onError = (error: Error) => {
+			if (waiting.length === 0) {
+				failure = error;
+			} else {
+				for (const next of waiting.splice(0)) next.reject(error);
+			}
+		};
+		const onClose = () => {
+			for (const next of waiting.splice(0)) {
+				next.resolve({ value: undefined, done: true });
+			}
+		};
+
+		this.on("change", onChange);
+		this.on("error", onError);
+		this.on("close", onClose);
+
+		const detach = () => {
+			this.off("change", onChange);
+			this.off("error", onError);
+			this.off("close", onClose);
+		};
+
+		const iterator: AsyncIterableIterator<MessageChange> = {
+			next: () => {
+				const change = queue.shift();
+				if (change) return Promise.resolve({ value: change, done: false });
+				if (failure) {
+					const error = failure;
+					failure = null;
+					return Promise.reject(error);
+				}
+				if (this.closed) {
+					detach();
+					return Promise.resolve({ value: undefined, done: true });
+				}
+				return new Promise((resolve, reject) => {
+					waiting.push({ resolve, reject });
+				});
+			},
+			return: () => {
+				detach();
+				this.close();
+				return Promise.resolve({ value: undefined, done: true });
+			},
+			[Symbol.asyncIterator]: () => iterator,
+		};
+		return iterator;
+	}
+
+	private schedule(): void {
+		if (this.closed) return;
+		if (this.debounceTimer) clearTimeout(this.debounceTimer);
+		this.debounceTimer = setTimeout(() => {
+			this.debounceTimer = null;
+			this.check();
+		}, this.options.debounceMs ?? 100);
+	}
+
+	private fail(error: unknown): void {
+		const failure = error instanceof Error ? error : new Error(String(error));
+		// An unhandled "error" event would throw out of a timer callback
+		if (this.listenerCount("error") > 0) this.emit("error", failure);
+
+		this.failedChecks++;
+		if (this.failedChecks >= MAX_FAILED_CHECKS) {
+			this.closeError = failure;
+			this.close();
+		}
+	}
+}
+
+/**
+ * Whether an error is SQLite finding the database locked by another writer
+ */
+function isBusyError(error: unknown): boolean {
+	const code = (error as { code?: unknown } | null)?.code;
+	return (
+		typeof code === "string" &&
+		(code.startsWith("SQLITE_BUSY") || code.startsWith("SQLITE_LOCKED"))
+	);
+}